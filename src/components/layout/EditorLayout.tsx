@@ -1,7 +1,21 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { CanvasRenderer } from '@/features/canvas/CanvasRenderer';
+import { ExportPanel } from '@/features/export/ExportPanel';
+import { PROJECT_FILE_EXTENSION } from '@/features/project/ProjectFile';
+import { LayersPanel } from '@/features/layers/LayersPanel';
+import { PluginPanels } from '@/features/plugins/PluginPanels';
+import { saveProjectWithFeedback } from '@/features/project/ProjectActions';
+import { ProjectLibraryDialog } from '@/features/project/ProjectLibraryDialog';
+import { RecoveryPrompt } from '@/features/project/RecoveryPrompt';
+import { MissingFontsNotice } from '@/features/fonts/MissingFontsNotice';
+import { ShortcutManager } from '@/features/shortcuts/ShortcutManager';
+import { ShortcutsDialog } from '@/features/shortcuts/ShortcutsDialog';
+import { ToolOptionsPanel } from '@/features/tools/ToolOptionsPanel';
+import { ToolPalette } from '@/features/tools/ToolPalette';
 import { useEditorStore } from '@/store/editorStore';
+import { useToast } from '@/hooks/use-toast';
+import { useAutosave } from '@/hooks/use-autosave';
 import {
   Undo,
   Redo,
@@ -9,6 +23,10 @@ import {
   Copy,
   Save,
   Layers,
+  FolderOpen,
+  FileDown,
+  Library,
+  Keyboard,
   Menu as MenuIcon,
 } from 'lucide-react';
 
@@ -32,6 +50,11 @@ const Drawer = ({ open, onClose, children }: { open: boolean, onClose: () => voi
 
 export const EditorLayout: React.FC = () => {
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [, setKeymapVersion] = useState(0);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
   const {
     canUndo,
     canRedo,
@@ -41,10 +64,55 @@ export const EditorLayout: React.FC = () => {
     duplicateSelectedObject,
     bringToFront,
     deleteSelectedObject,
-    saveToLocalStorage,
+    downloadProject,
+    openProject,
+    projectName,
     isDirty
   } = useEditorStore();
 
+  useAutosave();
+
+  useEffect(() => {
+    ShortcutManager.register({
+      id: 'help.shortcuts',
+      description: 'Show Keyboard Shortcuts',
+      category: 'help',
+      defaultKeys: ['?'],
+      run: () => setIsShortcutsOpen(true),
+    });
+    const detach = ShortcutManager.attach(window);
+    const unsubscribe = ShortcutManager.subscribe(() => setKeymapVersion((v) => v + 1));
+    return () => {
+      detach();
+      unsubscribe();
+      ShortcutManager.unregister('help.shortcuts');
+    };
+  }, []);
+
+  // Tooltip text with the shortcut currently bound to an action
+  const withShortcut = (label: string, shortcutId: string) => {
+    const keys = ShortcutManager.describe(shortcutId);
+    return keys ? `${label} (${keys})` : label;
+  };
+
+  const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      await openProject(file);
+      toast({ title: 'Project Opened', description: file.name });
+    } catch (error) {
+      console.error('Failed to open project:', error);
+      toast({
+        title: 'Open Failed',
+        description: error instanceof Error ? error.message : 'Could not read the project file',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Toolbar buttons as a reusable fragment
   const Toolbar = (
     <div className="flex gap-2 items-center">
@@ -55,7 +123,7 @@ export const EditorLayout: React.FC = () => {
         onClick={undo}
         disabled={!canUndo()}
         aria-label="Undo"
-        title="Undo (Cmd+Z)"
+        title={withShortcut('Undo', 'edit.undo')}
       >
         <Undo className="w-6 h-6" />
       </Button>
@@ -66,7 +134,7 @@ export const EditorLayout: React.FC = () => {
         onClick={redo}
         disabled={!canRedo()}
         aria-label="Redo"
-        title="Redo (Cmd+Shift+Z)"
+        title={withShortcut('Redo', 'edit.redo')}
       >
         <Redo className="w-6 h-6" />
       </Button>
@@ -78,7 +146,7 @@ export const EditorLayout: React.FC = () => {
             size="sm"
             onClick={duplicateSelectedObject}
             aria-label="Duplicate"
-            title="Duplicate (Cmd+D)"
+            title={withShortcut('Duplicate', 'edit.duplicate')}
           >
             <Copy className="w-6 h-6" />
           </Button>
@@ -88,7 +156,7 @@ export const EditorLayout: React.FC = () => {
             size="sm"
             onClick={bringToFront}
             aria-label="Bring to Front"
-            title="Bring to Front"
+            title={withShortcut('Bring to Front', 'arrange.bringToFront')}
           >
             <Layers className="w-6 h-6" />
           </Button>
@@ -98,7 +166,7 @@ export const EditorLayout: React.FC = () => {
             size="sm"
             onClick={deleteSelectedObject}
             aria-label="Delete"
-            title="Delete (Del)"
+            title={withShortcut('Delete', 'edit.delete')}
           >
             <Trash2 className="w-6 h-6" />
           </Button>
@@ -108,13 +176,53 @@ export const EditorLayout: React.FC = () => {
         className="h-12 w-12 rounded-full"
         variant="outline"
         size="sm"
-        onClick={saveToLocalStorage}
+        onClick={saveProjectWithFeedback}
         aria-label="Save"
-        title="Save Project (Cmd+S)"
+        title={withShortcut('Save Project', 'file.save')}
       >
         <Save className="w-6 h-6" />
         {isDirty && <span className="ml-1 text-orange-500">*</span>}
       </Button>
+      <Button
+        className="h-12 w-12 rounded-full"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsLibraryOpen(true)}
+        aria-label="Projects"
+        title="Project Library"
+      >
+        <Library className="w-6 h-6" />
+      </Button>
+      <Button
+        className="h-12 w-12 rounded-full"
+        variant="outline"
+        size="sm"
+        onClick={() => projectInputRef.current?.click()}
+        aria-label="Open Project"
+        title="Open Project File"
+      >
+        <FolderOpen className="w-6 h-6" />
+      </Button>
+      <Button
+        className="h-12 w-12 rounded-full"
+        variant="outline"
+        size="sm"
+        onClick={() => downloadProject()}
+        aria-label="Download Project"
+        title="Download Project File"
+      >
+        <FileDown className="w-6 h-6" />
+      </Button>
+      <Button
+        className="h-12 w-12 rounded-full"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsShortcutsOpen(true)}
+        aria-label="Keyboard Shortcuts"
+        title={withShortcut('Keyboard Shortcuts', 'help.shortcuts')}
+      >
+        <Keyboard className="w-6 h-6" />
+      </Button>
     </div>
   );
 
@@ -125,6 +233,10 @@ export const EditorLayout: React.FC = () => {
         <div className="flex items-center justify-between">
           {/* Desktop Toolbar */}
           <div className="hidden sm:flex">{Toolbar}</div>
+          <span className="hidden sm:block text-sm font-medium text-gray-600 dark:text-gray-300 truncate">
+            {projectName}
+            {isDirty && <span className="ml-1 text-orange-500">•</span>}
+          </span>
           {/* Mobile: Open Drawer */}
           <button
             className="sm:hidden h-12 w-12 rounded-full flex items-center justify-center"
@@ -136,15 +248,49 @@ export const EditorLayout: React.FC = () => {
         </div>
       </div>
 
+      <input
+        ref={projectInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        onChange={handleOpenProject}
+        className="hidden"
+      />
+
+      <ProjectLibraryDialog open={isLibraryOpen} onOpenChange={setIsLibraryOpen} />
+      <RecoveryPrompt />
+      <MissingFontsNotice />
+      <ShortcutsDialog open={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
+
       {/* Mobile Drawer for tools */}
       <Drawer open={isDrawerOpen} onClose={() => setIsDrawerOpen(false)}>
         {Toolbar}
+        <ToolPalette orientation="horizontal" className="mt-6" />
+        <div className="mt-6 overflow-y-auto space-y-6">
+          <ToolOptionsPanel />
+          <LayersPanel />
+          <ExportPanel />
+        </div>
       </Drawer>
 
-      {/* Canvas Area: Responsive */}
-      <main className="flex-1 flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900">
-        <CanvasRenderer />
-      </main>
+      <div className="flex-1 flex">
+        {/* Tool Palette */}
+        <aside className="hidden sm:block border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-2 overflow-y-auto">
+          <ToolPalette />
+        </aside>
+
+        {/* Canvas Area: Responsive */}
+        <main className="flex-1 flex flex-col items-center justify-center bg-gray-50 dark:bg-gray-900">
+          <CanvasRenderer />
+        </main>
+
+        {/* Side Panel */}
+        <aside className="hidden lg:block w-72 border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4 overflow-y-auto space-y-6">
+          <ToolOptionsPanel />
+          <LayersPanel />
+          <ExportPanel />
+          <PluginPanels />
+        </aside>
+      </div>
     </div>
   );
 };
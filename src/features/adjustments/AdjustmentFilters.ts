@@ -0,0 +1,99 @@
+import { fabric } from 'fabric'
+
+// Custom fabric image filters used by the adjustment stack, registered on
+// fabric.Image.filters alongside fabric's own. They only implement
+// applyTo2d; the editor selects the Canvas 2D backend when its canvas is
+// set up (see setCanvas in the editor store).
+
+type FilterConstructor<T> = new (options?: Partial<T>) => fabric.IBaseFilter & T
+
+interface FilterClass {
+  fromObject?: unknown
+}
+
+const filterRegistry = fabric.Image.filters as unknown as Record<string, FilterClass>
+const baseFromObject = (fabric.Image.filters.BaseFilter as unknown as FilterClass).fromObject
+
+/** Creates a fabric filter class from plain 2D pixel code and registers it. */
+export function defineFilter<T extends object>(
+  type: string,
+  defaults: T,
+  applyTo2d: (this: T, imageData: ImageData) => void
+): FilterConstructor<T> {
+  const keys = Object.keys(defaults) as (keyof T)[]
+  const Filter = fabric.util.createClass(fabric.Image.filters.BaseFilter, {
+    type,
+    ...defaults,
+    applyTo2d(options: { imageData: ImageData }) {
+      applyTo2d.call(this, options.imageData)
+    },
+    toObject() {
+      const object: Record<string, unknown> = { type }
+      keys.forEach((key) => {
+        object[key as string] = (this as T)[key]
+      })
+      return object
+    },
+  })
+  Filter.fromObject = baseFromObject
+  filterRegistry[type] = Filter
+  return Filter
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t)
+
+export interface VignetteOptions {
+  // -1 lightens the corners, 1 darkens them
+  amount: number
+  // Fraction of the half-diagonal left untouched
+  size: number
+}
+
+export const VignetteFilter = defineFilter<VignetteOptions>(
+  'Vignette',
+  { amount: 0, size: 0.5 },
+  function (imageData) {
+    const { data, width, height } = imageData
+    const cx = width / 2
+    const cy = height / 2
+    const maxDistance = Math.hypot(cx, cy)
+    const amount = this.amount
+    const size = Math.min(this.size, 0.99)
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const distance = Math.hypot(x - cx, y - cy) / maxDistance
+        const t = smoothstep(Math.min(Math.max((distance - size) / (1 - size), 0), 1)) * Math.abs(amount)
+        if (t === 0) continue
+        const i = (y * width + x) * 4
+        for (let c = 0; c < 3; c++) {
+          data[i + c] = amount > 0 ? data[i + c] * (1 - t) : data[i + c] + (255 - data[i + c]) * t
+        }
+      }
+    }
+  }
+)
+
+export interface ToneCurveOptions {
+  // 256-entry lookup tables, one per channel
+  red: number[]
+  green: number[]
+  blue: number[]
+}
+
+const identityTable = Array.from({ length: 256 }, (_, i) => i)
+
+// Shared by Curves and Levels: both reduce to per-channel lookup tables
+export const ToneCurveFilter = defineFilter<ToneCurveOptions>(
+  'ToneCurve',
+  { red: identityTable, green: identityTable, blue: identityTable },
+  function (imageData) {
+    const { data } = imageData
+    const { red, green, blue } = this
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = red[data[i]]
+      data[i + 1] = green[data[i + 1]]
+      data[i + 2] = blue[data[i + 2]]
+    }
+  }
+)
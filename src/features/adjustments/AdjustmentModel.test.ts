@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import type { JsonValue } from '@/store/history'
+import { buildFilters, createAdjustment, omitAdjustmentFilters, type Adjustment } from './AdjustmentModel'
+
+const filterTypes = (adjustments: Adjustment[]) =>
+  buildFilters(adjustments).map((filter) => (filter as { type?: string }).type)
+
+describe('buildFilters', () => {
+  it('builds filters for enabled adjustments in stack order', () => {
+    const brightness = createAdjustment('brightness', { brightness: 20 })
+    const contrast = { ...createAdjustment('contrast', { contrast: 10 }), enabled: false }
+    const vignette = createAdjustment('vignette')
+    expect(filterTypes([brightness, contrast, vignette])).toEqual(['Brightness', 'Vignette'])
+  })
+
+  it('wraps the filters of a masked adjustment', () => {
+    const adjustment = createAdjustment('brightness', { brightness: 20 }, { mask: 'data:image/png;base64,AAAA' })
+    expect(filterTypes([adjustment])).toEqual(['Masked'])
+  })
+})
+
+describe('omitAdjustmentFilters', () => {
+  it('drops the filters of images with a stack, including grouped ones', () => {
+    const filters = [{ type: 'Brightness', brightness: 0.2 }]
+    const json: JsonValue = {
+      objects: [
+        { type: 'image', adjustments: [], filters },
+        { type: 'image', filters },
+        { type: 'group', objects: [{ type: 'image', adjustments: [], filters }] },
+      ],
+    }
+    expect(omitAdjustmentFilters(json)).toEqual({
+      objects: [
+        { type: 'image', adjustments: [] },
+        { type: 'image', filters },
+        { type: 'group', objects: [{ type: 'image', adjustments: [] }] },
+      ],
+    })
+  })
+
+  it('leaves JSON without objects alone', () => {
+    expect(omitAdjustmentFilters(null)).toBeNull()
+    expect(omitAdjustmentFilters({ version: '5.3.0' })).toEqual({ version: '5.3.0' })
+  })
+})
@@ -0,0 +1,215 @@
+import type React from 'react'
+import { fabric } from 'fabric'
+import type { JsonValue } from '@/store/history'
+import { generateId } from '@/lib/utils'
+import { VignetteFilter } from './AdjustmentFilters'
+import { autoContrast, autoSaturation, autoWhiteBalance, whiteBalanceGains } from './AutoAdjust'
+import { MaskedFilter } from './MaskedFilter'
+
+// Every image carries an ordered stack of adjustments as a custom property.
+// The stack is the source of truth: the image's fabric filters are rebuilt
+// from it whenever it changes, and the original pixels are never touched.
+
+export interface Adjustment {
+  id: string
+  type: string
+  enabled: boolean
+  params: Record<string, number>
+  // Structured settings that are not single numbers, e.g. curve points
+  data?: { [key: string]: JsonValue }
+}
+
+// An adjustment without identity, as stored in presets
+export interface AdjustmentTemplate {
+  type: string
+  params?: Record<string, number>
+  data?: { [key: string]: JsonValue }
+}
+
+export interface AdjustableImage extends fabric.Image {
+  adjustments?: Adjustment[]
+}
+
+export interface AdjustmentParam {
+  key: string
+  label: string
+  min: number
+  max: number
+  step: number
+  defaultValue: number
+}
+
+export interface AdjustmentEditorProps {
+  image: AdjustableImage
+  adjustment: Adjustment
+}
+
+export interface AdjustmentDefinition {
+  type: string
+  label: string
+  params: AdjustmentParam[]
+  defaultData?: { [key: string]: JsonValue }
+  createFilters: (params: Record<string, number>, data: { [key: string]: JsonValue }) => fabric.IBaseFilter[]
+  // Replaces the generic sliders in the adjustments panel
+  editor?: React.ComponentType<AdjustmentEditorProps>
+  // Parameters computed from the RGBA pixels the adjustment will receive
+  auto?: (data: Uint8ClampedArray) => Record<string, number>
+}
+
+export const ADJUSTMENT_JSON_PROPERTIES = ['adjustments']
+
+const definitions: Map<string, AdjustmentDefinition> = new Map()
+
+export function registerAdjustment(definition: AdjustmentDefinition) {
+  definitions.set(definition.type, definition)
+}
+
+export function getAdjustmentDefinition(type: string): AdjustmentDefinition | undefined {
+  return definitions.get(type)
+}
+
+export function getAdjustmentDefinitions(): AdjustmentDefinition[] {
+  return Array.from(definitions.values())
+}
+
+export function createAdjustment(
+  type: string,
+  params: Record<string, number> = {},
+  data?: { [key: string]: JsonValue }
+): Adjustment {
+  const definition = definitions.get(type)
+  const defaults = Object.fromEntries(
+    (definition?.params ?? []).map((param) => [param.key, param.defaultValue])
+  )
+  const adjustment: Adjustment = { id: generateId(), type, enabled: true, params: { ...defaults, ...params } }
+  if (definition?.defaultData || data) adjustment.data = { ...definition?.defaultData, ...data }
+  return adjustment
+}
+
+/**
+ * Fabric filters for the enabled entries of a stack, in stack order. An
+ * entry with a `mask` in its data only affects the masked pixels.
+ */
+export function buildFilters(adjustments: Adjustment[]): fabric.IBaseFilter[] {
+  return adjustments
+    .filter((adjustment) => adjustment.enabled)
+    .flatMap((adjustment) => {
+      const filters = definitions.get(adjustment.type)?.createFilters(adjustment.params, adjustment.data ?? {}) ?? []
+      const mask = adjustment.data?.mask
+      return typeof mask === 'string' && filters.length > 0 ? [new MaskedFilter({ mask, filters })] : filters
+    })
+}
+
+type JsonObject = { [key: string]: JsonValue }
+
+const isJsonObject = (value: JsonValue): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Canvas JSON without the filters of images that have an adjustment stack.
+ * The filters follow from the stack, so saves and history keep only the
+ * stack and rebuildAdjustmentFilters recreates them after loading.
+ */
+export function omitAdjustmentFilters(json: JsonValue): JsonValue {
+  if (!isJsonObject(json) || !Array.isArray(json.objects)) return json
+  const objects = json.objects.map((object): JsonValue => {
+    if (!isJsonObject(object)) return object
+    if (!Array.isArray(object.adjustments)) return omitAdjustmentFilters(object)
+    const rest = { ...object }
+    delete rest.filters
+    return rest
+  })
+  return { ...json, objects }
+}
+
+/** Recreates the filters of loaded images, including those inside groups, from their stacks. */
+export function rebuildAdjustmentFilters(objects: fabric.Object[]) {
+  objects.forEach((object) => {
+    if (object instanceof fabric.Group) {
+      rebuildAdjustmentFilters(object.getObjects())
+    } else if (object instanceof fabric.Image && Array.isArray((object as AdjustableImage).adjustments)) {
+      object.filters = buildFilters((object as AdjustableImage).adjustments ?? [])
+      object.applyFilters()
+    }
+  })
+}
+
+const param = (key: string, label: string, min: number, max: number, step = 1, defaultValue = 0): AdjustmentParam => ({
+  key,
+  label,
+  min,
+  max,
+  step,
+  defaultValue,
+})
+
+// Multiplies each channel; used for exposure and white balance
+const channelMatrix = (r: number, g: number, b: number) =>
+  new fabric.Image.filters.ColorMatrix({
+    matrix: [r, 0, 0, 0, 0, 0, g, 0, 0, 0, 0, 0, b, 0, 0, 0, 0, 0, 1, 0],
+  })
+
+const builtInAdjustments: AdjustmentDefinition[] = [
+  {
+    type: 'exposure',
+    label: 'Exposure',
+    params: [param('exposure', 'Exposure (EV)', -3, 3, 0.05)],
+    createFilters: ({ exposure }) => {
+      const gain = Math.pow(2, exposure)
+      return [channelMatrix(gain, gain, gain)]
+    },
+  },
+  {
+    type: 'brightness',
+    label: 'Brightness',
+    params: [param('brightness', 'Brightness', -100, 100)],
+    createFilters: ({ brightness }) => [new fabric.Image.filters.Brightness({ brightness: brightness / 100 })],
+  },
+  {
+    type: 'contrast',
+    label: 'Contrast',
+    params: [param('contrast', 'Contrast', -100, 100)],
+    createFilters: ({ contrast }) => [new fabric.Image.filters.Contrast({ contrast: contrast / 100 })],
+    auto: autoContrast,
+  },
+  {
+    type: 'saturation',
+    label: 'Saturation',
+    params: [param('saturation', 'Saturation', -100, 100)],
+    createFilters: ({ saturation }) => [new fabric.Image.filters.Saturation({ saturation: saturation / 100 })],
+    auto: autoSaturation,
+  },
+  {
+    type: 'vibrance',
+    label: 'Vibrance',
+    params: [param('vibrance', 'Vibrance', -100, 100)],
+    createFilters: ({ vibrance }) => [new fabric.Image.filters.Vibrance({ vibrance: vibrance / 100 })],
+  },
+  {
+    type: 'hue',
+    label: 'Hue',
+    params: [param('hue', 'Hue (°)', -180, 180)],
+    createFilters: ({ hue }) => [new fabric.Image.filters.HueRotation({ rotation: hue / 180 })],
+  },
+  {
+    type: 'temperature',
+    label: 'Temperature & Tint',
+    params: [param('temperature', 'Temperature', -100, 100), param('tint', 'Tint', -100, 100)],
+    createFilters: ({ temperature, tint }) => [channelMatrix(...whiteBalanceGains(temperature, tint))],
+    auto: autoWhiteBalance,
+  },
+  {
+    type: 'vignette',
+    label: 'Vignette',
+    params: [param('amount', 'Amount', -100, 100, 1, 40), param('size', 'Size', 0, 100, 1, 50)],
+    createFilters: ({ amount, size }) => [new VignetteFilter({ amount: amount / 100, size: size / 100 })],
+  },
+  {
+    type: 'grain',
+    label: 'Grain',
+    params: [param('amount', 'Amount', 0, 100, 1, 20)],
+    createFilters: ({ amount }) => [new fabric.Image.filters.Noise({ noise: amount * 2 })],
+  },
+]
+
+builtInAdjustments.forEach(registerAdjustment)
@@ -0,0 +1,37 @@
+import { fabric } from 'fabric'
+import { buildFilters, createAdjustment, type AdjustableImage, type AdjustmentTemplate } from './AdjustmentModel'
+import { getAdjustments } from './AdjustmentStack'
+
+/** Downscaled copy of the image's unfiltered pixels, reused for many previews. */
+export function createPreviewSource(image: fabric.Image, maxSize: number): HTMLCanvasElement | null {
+  const element = (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })
+    ._originalElement ?? image.getElement()
+  const width = element instanceof HTMLImageElement ? element.naturalWidth : element.width
+  const height = element instanceof HTMLImageElement ? element.naturalHeight : element.height
+  if (!width || !height) return null
+
+  const scale = Math.min(1, maxSize / Math.max(width, height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  canvas.getContext('2d')?.drawImage(element, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+/**
+ * Renders what the image would look like with extra adjustments appended
+ * to its current stack, as a data URL. The image itself is not modified.
+ */
+export function renderAdjustmentPreview(
+  image: AdjustableImage,
+  source: HTMLCanvasElement,
+  templates: AdjustmentTemplate[]
+): string {
+  const extra = templates.map((template) => createAdjustment(template.type, template.params, template.data))
+  const preview = new fabric.Image(source)
+  preview.filters = buildFilters([...getAdjustments(image), ...extra])
+  preview.applyFilters()
+  // Either the filtered canvas or, with no filters, the source canvas itself
+  const element = preview.getElement() as unknown as HTMLCanvasElement
+  return element.toDataURL('image/jpeg', 0.8)
+}
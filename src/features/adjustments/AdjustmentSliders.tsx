@@ -0,0 +1,34 @@
+import React from 'react'
+import { Slider } from '@/components/ui/slider'
+import type { AdjustmentEditorProps, AdjustmentParam } from './AdjustmentModel'
+import { updateAdjustment } from './AdjustmentStack'
+
+interface AdjustmentSlidersProps extends AdjustmentEditorProps {
+  params: AdjustmentParam[]
+}
+
+/** One slider per numeric parameter; the default editor for an adjustment. */
+export const AdjustmentSliders: React.FC<AdjustmentSlidersProps> = ({ image, adjustment, params }) => (
+  <>
+    {params.map((param) => {
+      const value = adjustment.params[param.key] ?? param.defaultValue
+      return (
+        <div key={param.key}>
+          <label className="text-xs text-muted-foreground mb-1 flex justify-between">
+            <span>{param.label}</span>
+            <span>{Number.isInteger(param.step) ? value : value.toFixed(2)}</span>
+          </label>
+          <Slider
+            value={[value]}
+            onValueChange={(v) => updateAdjustment(image, adjustment.id, { [param.key]: v[0] })}
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            disabled={!adjustment.enabled}
+            className="w-full"
+          />
+        </div>
+      )
+    })}
+  </>
+)
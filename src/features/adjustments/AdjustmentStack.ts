@@ -0,0 +1,160 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import type { JsonValue } from '@/store/history'
+import { SelectionController } from '@/features/selection/SelectionController'
+import {
+  buildFilters,
+  createAdjustment,
+  getAdjustmentDefinition,
+  type AdjustableImage,
+  type Adjustment,
+  type AdjustmentTemplate,
+} from './AdjustmentModel'
+import { autoEnhance as autoEnhanceTemplates } from './AutoAdjust'
+import { readDisplayedPixels, readSourcePixels } from './Histogram'
+import { onMaskDecoded } from './MaskedFilter'
+
+// Edits to an image's adjustment stack. Each one re-renders the filters and
+// records history; slider drags merge into a single undo step. Adjustments
+// added while there is a pixel selection are limited to it.
+
+function commit(image: AdjustableImage, adjustments: Adjustment[], action: string, merge = false) {
+  image.adjustments = adjustments
+  applyAdjustments(image)
+  useEditorStore.getState().saveToHistory(action, { merge })
+}
+
+export function getAdjustments(image: AdjustableImage): Adjustment[] {
+  return image.adjustments ?? []
+}
+
+/** Rebuilds the image's fabric filters from its stack and re-renders. */
+export function applyAdjustments(image: AdjustableImage) {
+  image.filters = buildFilters(getAdjustments(image))
+  image.applyFilters()
+  image.canvas?.requestRenderAll()
+}
+
+// Data for a new adjustment, with the current selection as its mask
+function withSelectionMask(image: AdjustableImage, data?: { [key: string]: JsonValue }) {
+  const mask = SelectionController.getAdjustmentMask(image)
+  return mask ? { ...data, mask } : data
+}
+
+export function addAdjustment(
+  image: AdjustableImage,
+  type: string,
+  params?: Record<string, number>,
+  data?: { [key: string]: JsonValue }
+): Adjustment {
+  const adjustment = createAdjustment(type, params, withSelectionMask(image, data))
+  const label = getAdjustmentDefinition(type)?.label ?? type
+  commit(image, [...getAdjustments(image), adjustment], `Add ${label}`)
+  return adjustment
+}
+
+/** Appends several adjustments as one undo step, e.g. from a preset. */
+export function addAdjustments(image: AdjustableImage, templates: AdjustmentTemplate[], action: string) {
+  const mask = SelectionController.getAdjustmentMask(image)
+  const added = templates.map((template) =>
+    createAdjustment(template.type, template.params, mask ? { ...template.data, mask } : template.data)
+  )
+  commit(image, [...getAdjustments(image), ...added], action)
+}
+
+export function updateAdjustment(image: AdjustableImage, id: string, params: Record<string, number>) {
+  const adjustments = getAdjustments(image).map((adjustment) =>
+    adjustment.id === id ? { ...adjustment, params: { ...adjustment.params, ...params } } : adjustment
+  )
+  const type = adjustments.find((adjustment) => adjustment.id === id)?.type
+  commit(image, adjustments, `Adjust ${getAdjustmentDefinition(type ?? '')?.label ?? type}`, true)
+}
+
+export function updateAdjustmentData(image: AdjustableImage, id: string, data: { [key: string]: JsonValue }) {
+  const adjustments = getAdjustments(image).map((adjustment) =>
+    adjustment.id === id ? { ...adjustment, data: { ...adjustment.data, ...data } } : adjustment
+  )
+  const type = adjustments.find((adjustment) => adjustment.id === id)?.type
+  commit(image, adjustments, `Adjust ${getAdjustmentDefinition(type ?? '')?.label ?? type}`, true)
+}
+
+export function setAdjustmentEnabled(image: AdjustableImage, id: string, enabled: boolean) {
+  const adjustments = getAdjustments(image).map((adjustment) =>
+    adjustment.id === id ? { ...adjustment, enabled } : adjustment
+  )
+  commit(image, adjustments, enabled ? 'Enable adjustment' : 'Disable adjustment')
+}
+
+export function removeAdjustment(image: AdjustableImage, id: string) {
+  commit(
+    image,
+    getAdjustments(image).filter((adjustment) => adjustment.id !== id),
+    'Remove adjustment'
+  )
+}
+
+export function moveAdjustment(image: AdjustableImage, id: string, toIndex: number) {
+  const adjustments = [...getAdjustments(image)]
+  const fromIndex = adjustments.findIndex((adjustment) => adjustment.id === id)
+  if (fromIndex === -1 || fromIndex === toIndex) return
+  const [moved] = adjustments.splice(fromIndex, 1)
+  adjustments.splice(Math.max(0, Math.min(toIndex, adjustments.length)), 0, moved)
+  commit(image, adjustments, 'Reorder adjustments')
+}
+
+// The image's pixels as an adjustment receives them: the source run through
+// the enabled adjustments above it, on a downscaled copy
+function readPixelsBefore(image: AdjustableImage, id: string): ImageData | null {
+  const source = readSourcePixels(image)
+  const adjustments = getAdjustments(image)
+  const filters = buildFilters(adjustments.slice(0, Math.max(0, adjustments.findIndex((adjustment) => adjustment.id === id))))
+  if (!source || filters.length === 0) return source
+
+  const canvas = document.createElement('canvas')
+  canvas.width = source.width
+  canvas.height = source.height
+  canvas.getContext('2d')?.putImageData(source, 0, 0)
+  const sample = new fabric.Image(canvas as unknown as HTMLImageElement)
+  sample.applyFilters(filters)
+  const pixels = readDisplayedPixels(sample, Math.max(source.width, source.height))
+  sample.dispose()
+  return pixels
+}
+
+/** Sets an adjustment's parameters from the pixels it receives, if its type supports it. */
+export function autoAdjustment(image: AdjustableImage, id: string) {
+  const adjustment = getAdjustments(image).find((candidate) => candidate.id === id)
+  const definition = getAdjustmentDefinition(adjustment?.type ?? '')
+  const pixels = definition?.auto ? readPixelsBefore(image, id) : null
+  if (!adjustment || !definition?.auto || !pixels) return
+  const params = definition.auto(pixels.data)
+  const adjustments = getAdjustments(image).map((candidate) =>
+    candidate.id === id ? { ...candidate, params: { ...candidate.params, ...params } } : candidate
+  )
+  commit(image, adjustments, `Auto ${definition.label}`)
+}
+
+/**
+ * Appends levels, white balance, contrast and saturation adjustments
+ * measured from the image as currently displayed, as one undo step.
+ * Returns how many were added; none when the image needs no correction.
+ */
+export function autoEnhance(image: AdjustableImage): number {
+  const pixels = readDisplayedPixels(image)
+  if (!pixels) return 0
+  const templates = autoEnhanceTemplates(pixels.data)
+  if (templates.length > 0) addAdjustments(image, templates, 'Auto-enhance')
+  return templates.length
+}
+
+// Masks of loaded projects decode asynchronously; re-run affected images
+onMaskDecoded(() => {
+  useEditorStore
+    .getState()
+    .canvas?.getObjects()
+    .forEach((object) => {
+      if (object instanceof fabric.Image && getAdjustments(object).some((adjustment) => adjustment.data?.mask)) {
+        applyAdjustments(object)
+      }
+    })
+})
@@ -0,0 +1,172 @@
+import React, { useState } from 'react'
+import { fabric } from 'fabric'
+import { Button } from '@/components/ui/button'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { ArrowDown, ArrowUp, Eye, EyeOff, Plus, Wand2, X } from 'lucide-react'
+import {
+  getAdjustmentDefinition,
+  getAdjustmentDefinitions,
+  type AdjustableImage,
+  type Adjustment,
+} from './AdjustmentModel'
+import {
+  addAdjustment,
+  autoAdjustment,
+  autoEnhance,
+  getAdjustments,
+  moveAdjustment,
+  removeAdjustment,
+  setAdjustmentEnabled,
+} from './AdjustmentStack'
+import { AdjustmentSliders } from './AdjustmentSliders'
+import { LooksGallery } from './LooksGallery'
+import './ToneAdjustments'
+import '@/features/luts/LutAdjustment'
+
+interface AdjustmentEntryProps {
+  image: AdjustableImage
+  adjustment: Adjustment
+  index: number
+  count: number
+}
+
+const AdjustmentEntry: React.FC<AdjustmentEntryProps> = ({ image, adjustment, index, count }) => {
+  const definition = getAdjustmentDefinition(adjustment.type)
+
+  return (
+    <li className={cn('rounded-md border p-2 space-y-2', !adjustment.enabled && 'opacity-60')}>
+      <div className="flex items-center gap-1">
+        <button
+          className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+          onClick={() => setAdjustmentEnabled(image, adjustment.id, !adjustment.enabled)}
+          aria-label={adjustment.enabled ? 'Disable adjustment' : 'Enable adjustment'}
+        >
+          {adjustment.enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </button>
+        <span className="flex-1 text-sm font-medium truncate">{definition?.label ?? adjustment.type}</span>
+        {typeof adjustment.data?.mask === 'string' && (
+          <span className="text-[10px] rounded border px-1 text-muted-foreground" title="Limited to a selection">
+            Masked
+          </span>
+        )}
+        {definition?.auto && (
+          <button
+            className="px-1 text-xs text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30"
+            onClick={() => autoAdjustment(image, adjustment.id)}
+            disabled={!adjustment.enabled}
+            title={`Set ${definition.label.toLowerCase()} from the image`}
+          >
+            Auto
+          </button>
+        )}
+        <button
+          className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+          onClick={() => moveAdjustment(image, adjustment.id, index - 1)}
+          disabled={index === 0}
+          aria-label="Move up"
+        >
+          <ArrowUp className="w-4 h-4" />
+        </button>
+        <button
+          className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+          onClick={() => moveAdjustment(image, adjustment.id, index + 1)}
+          disabled={index === count - 1}
+          aria-label="Move down"
+        >
+          <ArrowDown className="w-4 h-4" />
+        </button>
+        <button
+          className="p-1 text-gray-500 hover:text-red-600"
+          onClick={() => removeAdjustment(image, adjustment.id)}
+          aria-label="Remove adjustment"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {definition?.editor ? (
+        <definition.editor image={image} adjustment={adjustment} />
+      ) : (
+        <AdjustmentSliders image={image} adjustment={adjustment} params={definition?.params ?? []} />
+      )}
+    </li>
+  )
+}
+
+export const AdjustmentsPanel: React.FC = () => {
+  const { activeObject } = useEditorStore()
+  // History changes stand in for "the stack changed"
+  useEditorStore((state) => state.history)
+  const [newType, setNewType] = useState(getAdjustmentDefinitions()[0]?.type ?? '')
+  const { toast } = useToast()
+
+  if (!(activeObject instanceof fabric.Image)) {
+    return (
+      <div className="space-y-2">
+        <h3 className="font-medium text-sm">Adjustments</h3>
+        <p className="text-xs text-gray-500">Select an image to adjust it.</p>
+      </div>
+    )
+  }
+
+  const image = activeObject as AdjustableImage
+  const adjustments = getAdjustments(image)
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">Looks</h3>
+      <LooksGallery image={image} />
+
+      <h3 className="font-medium text-sm">Adjustments</h3>
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={() => {
+          if (autoEnhance(image) === 0) {
+            toast({ title: 'Nothing to enhance', description: 'Levels, colour balance and contrast already look right.' })
+          }
+        }}
+      >
+        <Wand2 className="w-4 h-4 mr-2" />
+        Auto-Enhance
+      </Button>
+
+      <div className="flex gap-2">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value)}
+          className="flex-1 p-2 border rounded-md bg-background text-sm"
+        >
+          {getAdjustmentDefinitions().map((definition) => (
+            <option key={definition.type} value={definition.type}>
+              {definition.label}
+            </option>
+          ))}
+        </select>
+        <Button size="sm" onClick={() => addAdjustment(image, newType)} aria-label="Add adjustment">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {adjustments.length === 0 && (
+        <p className="text-xs text-gray-500 text-center py-2">No adjustments yet</p>
+      )}
+
+      <ul className="space-y-2">
+        {adjustments.map((adjustment, index) => (
+          <AdjustmentEntry
+            key={adjustment.id}
+            image={image}
+            adjustment={adjustment}
+            index={index}
+            count={adjustments.length}
+          />
+        ))}
+      </ul>
+    </div>
+  )
+}
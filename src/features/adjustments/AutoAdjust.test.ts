@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { autoContrast, autoWhiteBalance, whiteBalanceGains } from './AutoAdjust'
+
+// Opaque RGBA pixels, each colour repeated `count` times
+function pixels(...runs: [number[], number][]): Uint8ClampedArray {
+  return Uint8ClampedArray.from(runs.flatMap(([color, count]) => Array.from({ length: count }, () => [...color, 255]).flat()))
+}
+
+const luminanceSpread = (data: Uint8ClampedArray) => {
+  const values: number[] = []
+  for (let i = 0; i < data.length; i += 4) values.push(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length)
+}
+
+// Fabric's Contrast filter for an adjustment value (-100 to 100)
+const applyContrast = (data: Uint8ClampedArray, contrast: number) => {
+  const c = Math.floor((contrast / 100) * 255)
+  const factor = (259 * (c + 255)) / (255 * (259 - c))
+  return data.map((value, i) => (i % 4 === 3 ? value : factor * (value - 128) + 128))
+}
+
+describe('autoWhiteBalance', () => {
+  it('leaves neutral greys alone', () => {
+    expect(autoWhiteBalance(pixels([[128, 128, 128], 10], [[60, 60, 60], 10]))).toEqual({ temperature: 0, tint: 0 })
+  })
+
+  it.each([
+    [30, 0],
+    [-40, 10],
+    [0, -20],
+    [25, 25],
+  ])('recovers temperature %i and tint %i from the cast they correct', (temperature, tint) => {
+    // Grey as it looks before the correction: the gains divided out
+    const gains = whiteBalanceGains(temperature, tint)
+    const cast = gains.map((gain) => 180 / gain)
+    const result = autoWhiteBalance(pixels([cast, 4]))
+    expect(Math.abs(result.temperature - temperature)).toBeLessThanOrEqual(2)
+    expect(Math.abs(result.tint - tint)).toBeLessThanOrEqual(2)
+  })
+
+  it('makes the cast neutral when its gains are applied', () => {
+    const { temperature, tint } = autoWhiteBalance(pixels([[160, 150, 140], 1]))
+    const corrected = whiteBalanceGains(temperature, tint).map((gain, channel) => [160, 150, 140][channel] * gain)
+    expect(Math.max(...corrected) - Math.min(...corrected)).toBeLessThan(1)
+  })
+
+  it('measures the cast on near-neutral pixels only', () => {
+    const castOnly = autoWhiteBalance(pixels([[160, 150, 140], 10]))
+    expect(autoWhiteBalance(pixels([[250, 20, 20], 90], [[160, 150, 140], 10]))).toEqual(castOnly)
+  })
+
+  it('ignores transparent pixels', () => {
+    const data = pixels([[200, 100, 50], 4])
+    for (let i = 3; i < data.length; i += 4) data[i] = 0
+    expect(autoWhiteBalance(data)).toEqual({ temperature: 0, tint: 0 })
+  })
+})
+
+describe('autoContrast', () => {
+  it('raises the luminance spread of a flat image to the target', () => {
+    const data = pixels([[90, 90, 90], 50], [[166, 166, 166], 50])
+    const { contrast } = autoContrast(data)
+    expect(contrast).toBeGreaterThan(0)
+    // Within what rounding the value to a whole number allows
+    expect(Math.abs(luminanceSpread(applyContrast(data, contrast)) - 0.22 * 255)).toBeLessThan(2)
+  })
+
+  it('never lowers the contrast', () => {
+    expect(autoContrast(pixels([[0, 0, 0], 50], [[255, 255, 255], 50]))).toEqual({ contrast: 0 })
+  })
+
+  it('caps the boost for very flat images', () => {
+    expect(autoContrast(pixels([[120, 120, 120], 50], [[136, 136, 136], 50]))).toEqual({ contrast: 30 })
+  })
+
+  it('leaves solid and empty images alone', () => {
+    expect(autoContrast(pixels([[128, 64, 200], 20]))).toEqual({ contrast: 0 })
+    expect(autoContrast(new Uint8ClampedArray(0))).toEqual({ contrast: 0 })
+  })
+})
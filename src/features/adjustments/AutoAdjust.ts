@@ -0,0 +1,180 @@
+import { histogramFromPixels } from './Histogram'
+import { levelsTable } from './ToneCurves'
+import type { AdjustmentTemplate } from './AdjustmentModel'
+
+// Automatic adjustment values from image statistics. Each function reads
+// RGBA pixels and returns ordinary parameters for one adjustment type, so
+// the result can be inspected and tweaked like a manual edit.
+
+// Share of the darkest and brightest pixels clipped by auto levels
+const LEVELS_CLIP = 0.005
+// Narrower tonal ranges are flat images (e.g. a solid fill) and left alone
+const MIN_LEVELS_RANGE = 24
+// Target luminance spread and mean colourfulness, as fractions of 255
+const TARGET_CONTRAST = 0.22
+const TARGET_CHROMA = 0.2
+// Pixels more colourful than this say little about the light's colour
+const NEUTRAL_CHROMA = 96
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+const luminanceOf = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b
+
+/** Channel gains of the Temperature & Tint adjustment. */
+export function whiteBalanceGains(temperature: number, tint: number): [number, number, number] {
+  const t = temperature / 100
+  const m = tint / 100
+  // Warm pushes red up and blue down; positive tint leans magenta
+  return [1 + 0.15 * t + 0.05 * m, 1 - 0.1 * m, 1 - 0.15 * t + 0.05 * m]
+}
+
+/** Contrast factor of fabric's Contrast filter for an adjustment value. */
+function contrastFactor(contrast: number): number {
+  const c = Math.floor((contrast / 100) * 255)
+  return (259 * (c + 255)) / (255 * (259 - c))
+}
+
+/** Stretches the tonal range to the clipped darkest and brightest pixels and centres the midtones. */
+export function autoLevels(data: Uint8ClampedArray): Record<string, number> {
+  const { luminance } = histogramFromPixels(data)
+  const total = luminance.reduce((sum, count) => sum + count, 0)
+  const defaults = { inBlack: 0, inWhite: 255, gamma: 1 }
+  if (total === 0) return defaults
+
+  const clip = total * LEVELS_CLIP
+  let inBlack = 0
+  for (let seen = 0; inBlack < 255 && seen + luminance[inBlack] <= clip; inBlack++) seen += luminance[inBlack]
+  let inWhite = 255
+  for (let seen = 0; inWhite > 0 && seen + luminance[inWhite] <= clip; inWhite--) seen += luminance[inWhite]
+  if (inWhite - inBlack < MIN_LEVELS_RANGE) return defaults
+
+  // Gamma that maps the stretched mean luminance to mid-grey
+  let mean = 0
+  luminance.forEach((count, value) => {
+    mean += count * clamp((value - inBlack) / (inWhite - inBlack), 0, 1)
+  })
+  mean = clamp(mean / total, 0.01, 0.99)
+  const gamma = clamp(Math.log(mean) / Math.log(0.5), 0.6, 1.8)
+  return { inBlack, inWhite, gamma: Math.round(gamma * 100) / 100 }
+}
+
+/** Temperature and tint that neutralise the average colour of the near-neutral pixels. */
+export function autoWhiteBalance(data: Uint8ClampedArray): Record<string, number> {
+  const sums = [0, 0, 0]
+  let count = 0
+  const all = [0, 0, 0]
+  let allCount = 0
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    const r = data[i]
+    const g = data[i + 1]
+    const b = data[i + 2]
+    all[0] += r
+    all[1] += g
+    all[2] += b
+    allCount++
+    const luminance = luminanceOf(r, g, b)
+    if (luminance < 20 || luminance > 235) continue
+    if (Math.max(r, g, b) - Math.min(r, g, b) > NEUTRAL_CHROMA) continue
+    sums[0] += r
+    sums[1] += g
+    sums[2] += b
+    count++
+  }
+  // Fall back to the whole image when too few pixels are near-neutral
+  const [r, g, b] = count >= allCount * 0.05 ? sums : all
+  if (r === 0 || g === 0 || b === 0) return { temperature: 0, tint: 0 }
+
+  // Gains with red and blue matching green, solved for the gain formula above
+  const toRed = g / r
+  const toBlue = g / b
+  const m = (toRed + toBlue - 2) / (0.1 * (1 + toRed + toBlue))
+  const t = ((toRed - toBlue) * (1 - 0.1 * m)) / 0.3
+  return {
+    temperature: Math.round(clamp(t * 100, -100, 100)),
+    tint: Math.round(clamp(m * 100, -100, 100)),
+  }
+}
+
+/** Contrast that brings the luminance spread up to a typical photo's; never lowers it. */
+export function autoContrast(data: Uint8ClampedArray): Record<string, number> {
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    const luminance = luminanceOf(data[i], data[i + 1], data[i + 2])
+    sum += luminance
+    sumSquares += luminance * luminance
+    count++
+  }
+  if (count === 0) return { contrast: 0 }
+  const mean = sum / count
+  const spread = Math.sqrt(Math.max(0, sumSquares / count - mean * mean))
+  if (spread < 1) return { contrast: 0 }
+
+  // Inverse of contrastFactor for the wanted factor
+  const factor = (TARGET_CONTRAST * 255) / spread
+  const contrast = (259 * (factor - 1)) / (259 + 255 * factor)
+  return { contrast: Math.round(clamp(contrast * 100, 0, 30)) }
+}
+
+/** Saturation that brings the mean colourfulness up to a typical photo's; greyscale images are left alone. */
+export function autoSaturation(data: Uint8ClampedArray): Record<string, number> {
+  let chroma = 0
+  let count = 0
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    chroma += Math.max(data[i], data[i + 1], data[i + 2]) - Math.min(data[i], data[i + 1], data[i + 2])
+    count++
+  }
+  const mean = count > 0 ? chroma / count / 255 : 0
+  if (mean < 0.02) return { saturation: 0 }
+  // Fabric's saturation scales each pixel's chroma by about 1 + amount
+  return { saturation: Math.round(clamp((TARGET_CHROMA / mean - 1) * 100, 0, 35)) }
+}
+
+function mapPixels(data: Uint8ClampedArray, map: (value: number, channel: number) => number): Uint8ClampedArray {
+  const mapped = new Uint8ClampedArray(data)
+  for (let i = 0; i < mapped.length; i += 4) {
+    for (let c = 0; c < 3; c++) mapped[i + c] = map(mapped[i + c], c)
+  }
+  return mapped
+}
+
+const isIdentity = (params: Record<string, number>, identity: Record<string, number>) =>
+  Object.entries(identity).every(([key, value]) => Math.abs((params[key] ?? value) - value) < 1e-6)
+
+/**
+ * Levels, white balance, contrast and saturation for the pixels, each
+ * measured on the result of the ones before it. Steps that would change
+ * nothing are left out.
+ */
+export function autoEnhance(data: Uint8ClampedArray): AdjustmentTemplate[] {
+  const templates: AdjustmentTemplate[] = []
+
+  const levels = autoLevels(data)
+  if (!isIdentity(levels, { inBlack: 0, inWhite: 255, gamma: 1 })) {
+    templates.push({ type: 'levels', params: levels })
+    const table = levelsTable({ inBlack: levels.inBlack, inWhite: levels.inWhite, gamma: levels.gamma, outBlack: 0, outWhite: 255 })
+    data = mapPixels(data, (value) => table[value])
+  }
+
+  const whiteBalance = autoWhiteBalance(data)
+  if (!isIdentity(whiteBalance, { temperature: 0, tint: 0 })) {
+    templates.push({ type: 'temperature', params: whiteBalance })
+    const gains = whiteBalanceGains(whiteBalance.temperature, whiteBalance.tint)
+    data = mapPixels(data, (value, channel) => value * gains[channel])
+  }
+
+  const contrast = autoContrast(data)
+  if (contrast.contrast !== 0) {
+    templates.push({ type: 'contrast', params: contrast })
+    const factor = contrastFactor(contrast.contrast)
+    data = mapPixels(data, (value) => factor * (value - 128) + 128)
+  }
+
+  const saturation = autoSaturation(data)
+  if (saturation.saturation !== 0) templates.push({ type: 'saturation', params: saturation })
+
+  return templates
+}
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+import type { AdjustmentEditorProps } from './AdjustmentModel'
+import { updateAdjustmentData } from './AdjustmentStack'
+import { useHistogram } from '@/hooks/use-histogram'
+import type { HistogramChannel } from './Histogram'
+import { HistogramView } from './HistogramView'
+import { CURVE_CHANNELS, IDENTITY_CURVE, curveTable, readCurve, type CurveChannel, type CurvePoint } from './ToneCurves'
+
+const channelLabels: Record<CurveChannel, string> = { rgb: 'RGB', red: 'R', green: 'G', blue: 'B' }
+
+const channelHistograms: Record<CurveChannel, HistogramChannel[]> = {
+  rgb: ['luminance'],
+  red: ['red'],
+  green: ['green'],
+  blue: ['blue'],
+}
+
+const curveColors: Record<CurveChannel, string> = {
+  rgb: 'currentColor',
+  red: '#ef4444',
+  green: '#22c55e',
+  blue: '#3b82f6',
+}
+
+// Pointer distance, in curve units, that counts as grabbing a point
+const GRAB_RADIUS = 10
+
+/**
+ * Click the graph to add a point, drag to move it, double-click a point to
+ * remove it. The end points can move but are never removed.
+ */
+export const CurvesEditor: React.FC<AdjustmentEditorProps> = ({ image, adjustment }) => {
+  const [channel, setChannel] = useState<CurveChannel>('rgb')
+  const dragIndex = useRef<number | null>(null)
+  const histogram = useHistogram(image)
+  const points = readCurve(adjustment.data?.[channel])
+  const table = curveTable(points)
+
+  const setPoints = (next: CurvePoint[]) => updateAdjustmentData(image, adjustment.id, { [channel]: next })
+
+  const toCurve = (event: React.PointerEvent<SVGSVGElement>): CurvePoint => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - rect.left) / rect.width) * 255
+    const y = 255 - ((event.clientY - rect.top) / rect.height) * 255
+    return [Math.round(Math.min(255, Math.max(0, x))), Math.round(Math.min(255, Math.max(0, y)))]
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!adjustment.enabled) return
+    const [x, y] = toCurve(event)
+    event.currentTarget.setPointerCapture(event.pointerId)
+
+    const nearest = points.findIndex((point) => Math.hypot(point[0] - x, point[1] - y) <= GRAB_RADIUS)
+    if (nearest !== -1) {
+      dragIndex.current = nearest
+      return
+    }
+    if (points.some((point) => point[0] === x)) return
+    const next = [...points, [x, y] as CurvePoint].sort((a, b) => a[0] - b[0])
+    dragIndex.current = next.findIndex((point) => point[0] === x)
+    setPoints(next)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndex.current
+    if (index === null) return
+    const [x, y] = toCurve(event)
+    // Points can't pass their neighbours, which keeps the list sorted
+    const minX = index === 0 ? 0 : points[index - 1][0] + 1
+    const maxX = index === points.length - 1 ? 255 : points[index + 1][0] - 1
+    const next = points.map((point, i): CurvePoint => (i === index ? [Math.min(maxX, Math.max(minX, x)), y] : point))
+    setPoints(next)
+  }
+
+  const handlePointerUp = () => {
+    dragIndex.current = null
+  }
+
+  const removePoint = (index: number) => {
+    if (index === 0 || index === points.length - 1) return
+    setPoints(points.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {CURVE_CHANNELS.map((id) => (
+          <button
+            key={id}
+            className={cn(
+              'flex-1 rounded border px-2 py-1 text-xs',
+              channel === id ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+            )}
+            onClick={() => setChannel(id)}
+          >
+            {channelLabels[id]}
+          </button>
+        ))}
+      </div>
+
+      <HistogramView
+        histogram={histogram}
+        channels={channelHistograms[channel]}
+        className={cn(adjustment.enabled ? 'cursor-crosshair' : 'opacity-60')}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {[64, 128, 192].map((v) => (
+          <g key={v} stroke="rgba(128, 128, 128, 0.3)">
+            <line x1={v} y1={0} x2={v} y2={256} vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={v} x2={256} y2={v} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        <line x1={0} y1={256} x2={256} y2={0} stroke="rgba(128, 128, 128, 0.4)" vectorEffect="non-scaling-stroke" />
+        <polyline
+          points={table.map((y, x) => `${x},${255 - y}`).join(' ')}
+          fill="none"
+          stroke={curveColors[channel]}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map(([x, y], index) => (
+          <circle
+            key={index}
+            cx={x}
+            cy={255 - y}
+            r={5}
+            fill="white"
+            stroke={curveColors[channel]}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            onDoubleClick={() => removePoint(index)}
+          />
+        ))}
+      </HistogramView>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Double-click a point to remove it</span>
+        <button
+          className="underline hover:text-foreground disabled:opacity-50"
+          onClick={() => setPoints(IDENTITY_CURVE)}
+          disabled={!adjustment.enabled}
+        >
+          Reset {channelLabels[channel]}
+        </button>
+      </div>
+    </div>
+  )
+}
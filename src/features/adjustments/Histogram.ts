@@ -0,0 +1,71 @@
+import type { fabric } from 'fabric'
+
+export interface Histogram {
+  red: number[]
+  green: number[]
+  blue: number[]
+  luminance: number[]
+}
+
+export type HistogramChannel = keyof Histogram
+
+// Sampling a downscaled copy keeps this cheap enough to run on every edit
+const SAMPLE_SIZE = 256
+
+// Downscaled copy of an element's pixels; null when they cannot be read
+function samplePixels(element: HTMLImageElement | HTMLCanvasElement, maxSize: number): ImageData | null {
+  const sourceWidth = element instanceof HTMLImageElement ? element.naturalWidth : element.width
+  const sourceHeight = element instanceof HTMLImageElement ? element.naturalHeight : element.height
+  if (!sourceWidth || !sourceHeight) return null
+
+  const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale))
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  try {
+    ctx.drawImage(element, 0, 0, canvas.width, canvas.height)
+    return ctx.getImageData(0, 0, canvas.width, canvas.height)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Downscaled pixels of an image as currently displayed, i.e. with its
+ * filters applied. Returns null when they cannot be read (tainted canvas).
+ */
+export function readDisplayedPixels(image: fabric.Image, maxSize = SAMPLE_SIZE): ImageData | null {
+  return samplePixels(image.getElement() as HTMLImageElement | HTMLCanvasElement, maxSize)
+}
+
+/** Downscaled pixels of an image before any of its filters. */
+export function readSourcePixels(image: fabric.Image, maxSize = SAMPLE_SIZE): ImageData | null {
+  const element =
+    (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })._originalElement ??
+    (image.getElement() as HTMLImageElement | HTMLCanvasElement)
+  return samplePixels(element, maxSize)
+}
+
+/** Counts RGBA pixels per channel value; fully transparent pixels are skipped. */
+export function histogramFromPixels(data: Uint8ClampedArray): Histogram {
+  const histogram: Histogram = {
+    red: new Array(256).fill(0),
+    green: new Array(256).fill(0),
+    blue: new Array(256).fill(0),
+    luminance: new Array(256).fill(0),
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    const r = data[i]
+    const g = data[i + 1]
+    const b = data[i + 2]
+    histogram.red[r]++
+    histogram.green[g]++
+    histogram.blue[b]++
+    histogram.luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++
+  }
+  return histogram
+}
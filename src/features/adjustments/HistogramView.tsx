@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import type { Histogram, HistogramChannel } from './Histogram'
+
+const channelColors: Record<HistogramChannel, string> = {
+  luminance: 'rgba(120, 120, 120, 0.6)',
+  red: 'rgba(239, 68, 68, 0.45)',
+  green: 'rgba(34, 197, 94, 0.45)',
+  blue: 'rgba(59, 130, 246, 0.45)',
+}
+
+// Outline of one channel as an SVG path in a 256 x 100 box
+function histogramPath(counts: number[], peak: number): string {
+  const height = (count: number) => 100 - (Math.sqrt(count) / Math.sqrt(peak)) * 100
+  return `M 0 100 ${counts.map((count, x) => `L ${x} ${height(count).toFixed(1)}`).join(' ')} L 255 100 Z`
+}
+
+interface HistogramViewProps extends React.SVGProps<SVGSVGElement> {
+  histogram: Histogram | null
+  channels: HistogramChannel[]
+}
+
+/**
+ * Draws histogram channels behind optional overlay content. Children are
+ * rendered inside the same SVG, in a 256 x 256 coordinate space.
+ */
+export const HistogramView: React.FC<HistogramViewProps> = ({ histogram, channels, className, children, ...props }) => {
+  const paths = useMemo(() => {
+    if (!histogram) return []
+    // Ignore pure black and white when scaling so clipped areas don't flatten the rest
+    const peak = Math.max(1, ...channels.flatMap((channel) => histogram[channel].slice(1, 255)))
+    return channels.map((channel) => ({ channel, d: histogramPath(histogram[channel], peak) }))
+  }, [histogram, channels])
+
+  return (
+    <svg
+      viewBox="0 0 256 256"
+      preserveAspectRatio="none"
+      className={cn('w-full aspect-square rounded border bg-muted/30 touch-none', className)}
+      {...props}
+    >
+      <g transform="scale(1, 2.56)">
+        {paths.map(({ channel, d }) => (
+          <path key={channel} d={d} fill={channelColors[channel]} />
+        ))}
+      </g>
+      {children}
+    </svg>
+  )
+}
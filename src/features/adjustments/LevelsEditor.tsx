@@ -0,0 +1,43 @@
+import React from 'react'
+import { useHistogram } from '@/hooks/use-histogram'
+import { getAdjustmentDefinition, type AdjustmentEditorProps } from './AdjustmentModel'
+import { AdjustmentSliders } from './AdjustmentSliders'
+import { HistogramView } from './HistogramView'
+
+/** Histogram with the input black, midtone and white points marked, above the sliders. */
+export const LevelsEditor: React.FC<AdjustmentEditorProps> = ({ image, adjustment }) => {
+  const histogram = useHistogram(image)
+  const { inBlack, inWhite, gamma } = adjustment.params
+  const midtone = inBlack + (inWhite - inBlack) * Math.pow(0.5, gamma)
+  const markers = [
+    { x: inBlack, color: '#000000' },
+    { x: midtone, color: '#888888' },
+    { x: inWhite, color: '#ffffff' },
+  ]
+
+  return (
+    <div className="space-y-2">
+      <HistogramView histogram={histogram} channels={['luminance']} className="aspect-[2/1]">
+        {markers.map(({ x, color }, i) => (
+          <line
+            key={i}
+            x1={x}
+            y1={0}
+            x2={x}
+            y2={256}
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+            style={{ filter: 'drop-shadow(0 0 1px rgba(0, 0, 0, 0.6))' }}
+          />
+        ))}
+      </HistogramView>
+      <AdjustmentSliders
+        image={image}
+        adjustment={adjustment}
+        params={getAdjustmentDefinition(adjustment.type)?.params ?? []}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react'
+import { useEditorStore } from '@/store/editorStore'
+import { ToolPresets } from '@/features/tools/ToolPresets'
+import type { AdjustableImage } from './AdjustmentModel'
+import { createPreviewSource, renderAdjustmentPreview } from './AdjustmentPreview'
+
+const THUMBNAIL_SIZE = 96
+// Slider drags change the stack on every tick; wait for a pause
+const PREVIEW_DELAY = 250
+
+interface LooksGalleryProps {
+  image: AdjustableImage
+  categoryId?: string
+}
+
+/** Thumbnails of each look rendered from the selected image; click to apply. */
+export const LooksGallery: React.FC<LooksGalleryProps> = ({ image, categoryId = 'looks' }) => {
+  const history = useEditorStore((state) => state.history)
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({})
+  const presets = ToolPresets.getCategory(categoryId)?.presets ?? []
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const source = createPreviewSource(image, THUMBNAIL_SIZE)
+      if (!source) return
+      const next: Record<string, string> = {}
+      for (const preset of ToolPresets.getCategory(categoryId)?.presets ?? []) {
+        try {
+          next[preset.id] = renderAdjustmentPreview(image, source, preset.settings.adjustments ?? [])
+        } catch (error) {
+          // Cross-origin images can't be read back; show names only
+          console.warn('Could not render look preview:', error)
+          return
+        }
+      }
+      setThumbnails(next)
+    }, PREVIEW_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [image, history, categoryId])
+
+  if (presets.length === 0) return null
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {presets.map((preset) => (
+        <button
+          key={preset.id}
+          className="group text-left"
+          onClick={() => ToolPresets.applyPreset(categoryId, preset.id)}
+          title={`Apply ${preset.name}`}
+        >
+          <div className="aspect-square rounded-md border overflow-hidden bg-muted group-hover:ring-2 group-hover:ring-primary">
+            {thumbnails[preset.id] && (
+              <img src={thumbnails[preset.id]} alt={preset.name} className="w-full h-full object-cover" />
+            )}
+          </div>
+          <span className="block mt-1 text-xs truncate">{preset.name}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
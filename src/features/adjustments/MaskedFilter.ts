@@ -0,0 +1,90 @@
+import { fabric } from 'fabric'
+
+// Restricts a group of filters to part of an image. The mask is a PNG data
+// URL in the image's own pixel space, kept in the adjustment's data; its
+// decoded pixels are cached here, since filters must run synchronously.
+// The filter itself is rebuilt from the stack and never serialized, so
+// saves hold each mask once.
+
+export interface MaskedFilterOptions {
+  mask: string
+  filters: fabric.IBaseFilter[]
+}
+
+interface FilterLike extends fabric.IBaseFilter {
+  applyTo2d: (options: { imageData: ImageData }) => void
+}
+
+const decodedMasks: Map<string, ImageData | null> = new Map()
+const decodeListeners: Set<() => void> = new Set()
+
+/** Seeds the cache with pixels the caller already has, skipping a decode. */
+export function primeMask(url: string, pixels: ImageData) {
+  decodedMasks.set(url, pixels)
+}
+
+/** Called whenever a mask finishes decoding, so images can re-run filters. */
+export function onMaskDecoded(listener: () => void): () => void {
+  decodeListeners.add(listener)
+  return () => decodeListeners.delete(listener)
+}
+
+function getMask(url: string): ImageData | null {
+  if (decodedMasks.has(url)) return decodedMasks.get(url) ?? null
+
+  decodedMasks.set(url, null)
+  const image = new Image()
+  image.onload = () => {
+    const canvas = document.createElement('canvas')
+    canvas.width = image.naturalWidth
+    canvas.height = image.naturalHeight
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.drawImage(image, 0, 0)
+    decodedMasks.set(url, ctx.getImageData(0, 0, canvas.width, canvas.height))
+    decodeListeners.forEach((listener) => listener())
+  }
+  image.src = url
+  return null
+}
+
+// Blends the filtered copy back over the original by the mask's alpha,
+// resampling the mask when its size differs from the image
+function blendByMask(original: ImageData, filtered: ImageData, mask: ImageData) {
+  const { width, height } = original
+  const columns = Array.from({ length: width }, (_, x) => Math.min(mask.width - 1, Math.floor((x * mask.width) / width)))
+  for (let y = 0; y < height; y++) {
+    const maskRow = Math.min(mask.height - 1, Math.floor((y * mask.height) / height)) * mask.width
+    for (let x = 0; x < width; x++) {
+      const alpha = mask.data[(maskRow + columns[x]) * 4 + 3] / 255
+      if (alpha === 0) continue
+      const i = (y * width + x) * 4
+      for (let c = 0; c < 4; c++) {
+        original.data[i + c] += (filtered.data[i + c] - original.data[i + c]) * alpha
+      }
+    }
+  }
+}
+
+const Filter = fabric.util.createClass(fabric.Image.filters.BaseFilter, {
+  type: 'Masked',
+
+  initialize(this: MaskedFilterOptions & { filters: FilterLike[] }, options: Partial<MaskedFilterOptions> = {}) {
+    this.mask = options.mask ?? ''
+    this.filters = (options.filters ?? []) as FilterLike[]
+  },
+
+  applyTo2d(this: { mask: string; filters: FilterLike[] }, options: { imageData: ImageData }) {
+    const mask = getMask(this.mask)
+    if (!mask) return
+
+    const original = options.imageData
+    const copy = new ImageData(new Uint8ClampedArray(original.data), original.width, original.height)
+    // Some filters replace imageData rather than editing it in place
+    const childOptions = { ...options, imageData: copy }
+    this.filters.forEach((filter) => filter.applyTo2d(childOptions))
+    blendByMask(original, childOptions.imageData, mask)
+  },
+})
+
+export const MaskedFilter = Filter as new (options: MaskedFilterOptions) => fabric.IBaseFilter
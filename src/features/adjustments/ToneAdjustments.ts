@@ -0,0 +1,43 @@
+import { ToneCurveFilter } from './AdjustmentFilters'
+import { registerAdjustment, type AdjustmentParam } from './AdjustmentModel'
+import { autoLevels } from './AutoAdjust'
+import { CurvesEditor } from './CurvesEditor'
+import { LevelsEditor } from './LevelsEditor'
+import { CURVE_CHANNELS, IDENTITY_CURVE, curveSetTables, levelsTable, readCurve, type CurveSet } from './ToneCurves'
+
+// Curves and Levels have their own editors, so they register separately
+// from the slider-only adjustments in AdjustmentModel.
+
+const levelsParams: AdjustmentParam[] = [
+  { key: 'inBlack', label: 'Input black', min: 0, max: 254, step: 1, defaultValue: 0 },
+  { key: 'gamma', label: 'Midtones (gamma)', min: 0.1, max: 9.99, step: 0.01, defaultValue: 1 },
+  { key: 'inWhite', label: 'Input white', min: 1, max: 255, step: 1, defaultValue: 255 },
+  { key: 'outBlack', label: 'Output black', min: 0, max: 255, step: 1, defaultValue: 0 },
+  { key: 'outWhite', label: 'Output white', min: 0, max: 255, step: 1, defaultValue: 255 },
+]
+
+registerAdjustment({
+  type: 'curves',
+  label: 'Curves',
+  params: [],
+  defaultData: Object.fromEntries(CURVE_CHANNELS.map((channel) => [channel, IDENTITY_CURVE])),
+  createFilters: (_, data) => {
+    const curves = Object.fromEntries(
+      CURVE_CHANNELS.map((channel) => [channel, readCurve(data[channel])])
+    ) as CurveSet
+    return [new ToneCurveFilter(curveSetTables(curves))]
+  },
+  editor: CurvesEditor,
+})
+
+registerAdjustment({
+  type: 'levels',
+  label: 'Levels',
+  params: levelsParams,
+  createFilters: ({ inBlack, inWhite, gamma, outBlack, outWhite }) => {
+    const table = levelsTable({ inBlack, inWhite, gamma, outBlack, outWhite })
+    return [new ToneCurveFilter({ red: table, green: table, blue: table })]
+  },
+  editor: LevelsEditor,
+  auto: autoLevels,
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { curveSetTables, curveTable, IDENTITY_CURVE, levelsTable, readCurve } from './ToneCurves'
+
+const identity = Array.from({ length: 256 }, (_, x) => x)
+
+const isMonotone = (table: number[]) => table.every((value, x) => x === 0 || value >= table[x - 1])
+
+describe('curveTable', () => {
+  it('maps every value to itself for the identity curve', () => {
+    expect(curveTable(IDENTITY_CURVE)).toEqual(identity)
+  })
+
+  it('passes through every control point', () => {
+    const points: [number, number][] = [
+      [0, 10],
+      [64, 40],
+      [128, 160],
+      [255, 240],
+    ]
+    const table = curveTable(points)
+    for (const [x, y] of points) expect(table[x]).toBe(y)
+  })
+
+  it('never overshoots between points of a rising curve', () => {
+    const table = curveTable([
+      [0, 0],
+      [60, 200],
+      [70, 210],
+      [255, 255],
+    ])
+    expect(isMonotone(table)).toBe(true)
+    expect(Math.max(...table.slice(60, 71))).toBeLessThanOrEqual(210)
+  })
+
+  it('stays flat across a level segment', () => {
+    const table = curveTable([
+      [0, 0],
+      [100, 120],
+      [180, 120],
+      [255, 255],
+    ])
+    expect(new Set(table.slice(100, 181))).toEqual(new Set([120]))
+  })
+
+  it('holds the end values outside the first and last points', () => {
+    const table = curveTable([
+      [40, 30],
+      [200, 220],
+    ])
+    expect(table.slice(0, 41).every((value) => value === 30)).toBe(true)
+    expect(table.slice(200).every((value) => value === 220)).toBe(true)
+  })
+
+  it('inverts with a falling line', () => {
+    expect(
+      curveTable([
+        [0, 255],
+        [255, 0],
+      ])
+    ).toEqual(identity.map((x) => 255 - x))
+  })
+})
+
+describe('curveSetTables', () => {
+  it('runs the channel curve before the RGB curve', () => {
+    const invert: [number, number][] = [
+      [0, 255],
+      [255, 0],
+    ]
+    const { red, green, blue } = curveSetTables({
+      rgb: [
+        [0, 0],
+        [255, 128],
+      ],
+      red: invert,
+      green: IDENTITY_CURVE,
+      blue: IDENTITY_CURVE,
+    })
+    expect(red[0]).toBe(128)
+    expect(red[255]).toBe(0)
+    expect(green[255]).toBe(128)
+    expect(blue).toEqual(green)
+  })
+})
+
+describe('readCurve', () => {
+  it('sorts the points by input value', () => {
+    expect(
+      readCurve([
+        [255, 255],
+        [0, 0],
+        [128, 64],
+      ])
+    ).toEqual([
+      [0, 0],
+      [128, 64],
+      [255, 255],
+    ])
+  })
+
+  it('falls back to the identity curve for malformed data', () => {
+    expect(readCurve(undefined)).toBe(IDENTITY_CURVE)
+    expect(readCurve([[0, 0]])).toBe(IDENTITY_CURVE)
+    expect(readCurve([['a', 0], [255]])).toBe(IDENTITY_CURVE)
+  })
+})
+
+describe('levelsTable', () => {
+  const neutral = { inBlack: 0, inWhite: 255, gamma: 1, outBlack: 0, outWhite: 255 }
+
+  it('is the identity at the default settings', () => {
+    expect(levelsTable(neutral)).toEqual(identity)
+  })
+
+  it('clips inputs outside the black and white points', () => {
+    const table = levelsTable({ ...neutral, inBlack: 50, inWhite: 200 })
+    expect(table.slice(0, 51).every((value) => value === 0)).toBe(true)
+    expect(table.slice(200).every((value) => value === 255)).toBe(true)
+    expect(table[125]).toBe(128)
+  })
+
+  it('brightens the midtones for gamma above one and darkens them below', () => {
+    expect(levelsTable({ ...neutral, gamma: 2 })[128]).toBe(Math.round(255 * Math.sqrt(128 / 255)))
+    expect(levelsTable({ ...neutral, gamma: 0.5 })[128]).toBe(Math.round(255 * (128 / 255) ** 2))
+    expect(levelsTable({ ...neutral, gamma: 2 })[0]).toBe(0)
+    expect(levelsTable({ ...neutral, gamma: 2 })[255]).toBe(255)
+  })
+
+  it('compresses the output into the output range', () => {
+    const table = levelsTable({ ...neutral, outBlack: 20, outWhite: 220 })
+    expect(table[0]).toBe(20)
+    expect(table[255]).toBe(220)
+    expect(isMonotone(table)).toBe(true)
+  })
+
+  it('survives equal black and white points', () => {
+    const table = levelsTable({ ...neutral, inBlack: 100, inWhite: 100 })
+    expect(table[99]).toBe(0)
+    expect(table[101]).toBe(255)
+  })
+})
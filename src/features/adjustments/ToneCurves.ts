@@ -0,0 +1,110 @@
+// Lookup-table math for the Curves and Levels adjustments. Tables map an
+// 8-bit input value to an 8-bit output value.
+
+export type CurvePoint = [number, number]
+
+export const CURVE_CHANNELS = ['rgb', 'red', 'green', 'blue'] as const
+
+export type CurveChannel = (typeof CURVE_CHANNELS)[number]
+
+export type CurveSet = Record<CurveChannel, CurvePoint[]>
+
+export const IDENTITY_CURVE: CurvePoint[] = [
+  [0, 0],
+  [255, 255],
+]
+
+const clampByte = (value: number) => Math.min(255, Math.max(0, Math.round(value)))
+
+/** Reads a curve from adjustment data, falling back to the identity curve. */
+export function readCurve(value: unknown): CurvePoint[] {
+  if (!Array.isArray(value)) return IDENTITY_CURVE
+  const points = value.filter(
+    (point): point is CurvePoint =>
+      Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number'
+  )
+  return points.length >= 2 ? [...points].sort((a, b) => a[0] - b[0]) : IDENTITY_CURVE
+}
+
+/**
+ * Samples a smooth curve through the points with monotone cubic
+ * interpolation (Fritsch–Carlson), so the curve never overshoots between
+ * points. Inputs left of the first point or right of the last are flat.
+ */
+export function curveTable(points: CurvePoint[]): number[] {
+  const n = points.length
+  const xs = points.map((point) => point[0])
+  const ys = points.map((point) => point[1])
+  const slopes: number[] = []
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((ys[i + 1] - ys[i]) / Math.max(xs[i + 1] - xs[i], 1e-6))
+  }
+
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0]
+    if (i === n - 1) return slopes[n - 2]
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2
+  })
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0
+      tangents[i + 1] = 0
+      continue
+    }
+    const a = tangents[i] / slopes[i]
+    const b = tangents[i + 1] / slopes[i]
+    const length = Math.hypot(a, b)
+    if (length > 3) {
+      tangents[i] = (3 * a * slopes[i]) / length
+      tangents[i + 1] = (3 * b * slopes[i]) / length
+    }
+  }
+
+  const table: number[] = []
+  let segment = 0
+  for (let x = 0; x < 256; x++) {
+    if (x <= xs[0]) {
+      table.push(clampByte(ys[0]))
+      continue
+    }
+    if (x >= xs[n - 1]) {
+      table.push(clampByte(ys[n - 1]))
+      continue
+    }
+    while (x > xs[segment + 1]) segment++
+    const h = xs[segment + 1] - xs[segment]
+    const t = (x - xs[segment]) / h
+    const t2 = t * t
+    const t3 = t2 * t
+    const y =
+      (2 * t3 - 3 * t2 + 1) * ys[segment] +
+      (t3 - 2 * t2 + t) * h * tangents[segment] +
+      (-2 * t3 + 3 * t2) * ys[segment + 1] +
+      (t3 - t2) * h * tangents[segment + 1]
+    table.push(clampByte(y))
+  }
+  return table
+}
+
+/** Per-channel tables for a curve set: the channel curve runs before RGB. */
+export function curveSetTables(curves: CurveSet): { red: number[]; green: number[]; blue: number[] } {
+  const rgb = curveTable(curves.rgb)
+  const channel = (points: CurvePoint[]) => curveTable(points).map((value) => rgb[value])
+  return { red: channel(curves.red), green: channel(curves.green), blue: channel(curves.blue) }
+}
+
+export interface LevelsSettings {
+  inBlack: number
+  inWhite: number
+  gamma: number
+  outBlack: number
+  outWhite: number
+}
+
+export function levelsTable({ inBlack, inWhite, gamma, outBlack, outWhite }: LevelsSettings): number[] {
+  const range = Math.max(inWhite - inBlack, 1)
+  return Array.from({ length: 256 }, (_, x) => {
+    const t = Math.min(Math.max((x - inBlack) / range, 0), 1)
+    return clampByte(outBlack + (outWhite - outBlack) * Math.pow(t, 1 / Math.max(gamma, 0.01)))
+  })
+}
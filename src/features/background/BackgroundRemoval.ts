@@ -0,0 +1,225 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import type { LayerObject } from '@/features/layers/LayerModel'
+import { createLayerMaskCanvas, maskBox, type MaskedObject } from '@/features/layers/LayerMask'
+import { storeLayerMask } from '@/features/layers/LayerMaskEdits'
+import { ProcessingCancelledError } from '@/features/processing/ProcessingPool'
+import { runWithProgressToast } from '@/features/processing/ProcessingToast'
+import { SegmentationProviders, type SegmentationRect } from './SegmentationProviders'
+
+// Background removal never deletes pixels: the subject found by the active
+// segmentation provider becomes the image's layer mask, which can then be
+// refined with the mask brush, disabled or applied like any other.
+
+export type RemovalMode = 'rect' | 'keep' | 'remove'
+
+export interface BackgroundRemovalState {
+  mode: RemovalMode
+  // Hint brush diameter in document pixels
+  brushSize: number
+  busy: boolean
+  // Whether the selected image has a rectangle or hints to refine
+  hasSession: boolean
+}
+
+// Rectangle and hints for one image, in its pixels (hints at work scale)
+interface RemovalSession {
+  layerId: string
+  rect: SegmentationRect | null
+  hints: HTMLCanvasElement
+  hinted: boolean
+  scale: number
+  // The layer mask the last run stored, to tell it from masks painted since
+  storedMask: string | null
+}
+
+// Without a rectangle the subject is assumed to be inside this inset
+const DEFAULT_INSET = 0.05
+
+export const HINT_COLORS: Record<Exclude<RemovalMode, 'rect'>, string> = {
+  keep: '#ff0000',
+  remove: '#00ff00',
+}
+
+function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D context is not available')
+  return ctx
+}
+
+function sourceElement(image: fabric.Image): HTMLImageElement | HTMLCanvasElement {
+  return (
+    (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })._originalElement ??
+    (image.getElement() as HTMLImageElement)
+  )
+}
+
+class BackgroundRemovalClass {
+  private session: RemovalSession | null = null
+  private listeners: Set<() => void> = new Set()
+  private state: BackgroundRemovalState = { mode: 'rect', brushSize: 20, busy: false, hasSession: false }
+
+  getState(): BackgroundRemovalState {
+    return this.state
+  }
+
+  setOptions(options: Partial<Pick<BackgroundRemovalState, 'mode' | 'brushSize'>>) {
+    this.setState(options)
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** The rectangle and hints of `image`, if they belong to it. */
+  getSession(image: fabric.Image): Readonly<RemovalSession> | null {
+    return this.session && this.session.layerId === (image as LayerObject).layerId ? this.session : null
+  }
+
+  /** Forgets the rectangle and hints. */
+  reset() {
+    this.session = null
+    this.setState({ hasSession: false })
+  }
+
+  /**
+   * Whether running would replace a layer mask this tool did not store,
+   * e.g. one painted by hand or refined after the last run.
+   */
+  replacesMask(image: fabric.Image): boolean {
+    const mask = (image as MaskedObject).layerMask
+    return !!mask && mask.data !== this.getSession(image)?.storedMask
+  }
+
+  setRect(image: fabric.Image, rect: SegmentationRect) {
+    this.ensureSession(image).rect = rect
+    this.setState({ hasSession: true })
+  }
+
+  /** Paints a keep/remove hint line between two points in image pixels. */
+  paintHint(image: fabric.Image, kind: Exclude<RemovalMode, 'rect'>, from: fabric.IPoint, to: fabric.IPoint, width: number) {
+    const session = this.ensureSession(image)
+    const ctx = context(session.hints)
+    ctx.save()
+    ctx.scale(session.scale, session.scale)
+    ctx.strokeStyle = HINT_COLORS[kind]
+    ctx.lineWidth = width
+    ctx.lineCap = 'round'
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(to.x, to.y)
+    ctx.stroke()
+    ctx.restore()
+    session.hinted = true
+    if (!this.state.hasSession) this.setState({ hasSession: true })
+  }
+
+  /**
+   * Segments the image with the active provider and stores the subject as
+   * its layer mask, as one undo step.
+   */
+  async run(image: fabric.Image) {
+    if (this.state.busy) return
+    const session = this.ensureSession(image)
+    const provider = SegmentationProviders.getActive()
+    const { width, height } = image.getOriginalSize()
+    const scale = Math.min(1, provider.maxSize / Math.max(width, height))
+    const workWidth = Math.max(1, Math.round(width * scale))
+    const workHeight = Math.max(1, Math.round(height * scale))
+
+    const work = document.createElement('canvas')
+    work.width = workWidth
+    work.height = workHeight
+    const workCtx = context(work)
+    workCtx.drawImage(sourceElement(image), 0, 0, workWidth, workHeight)
+    const hints = document.createElement('canvas')
+    hints.width = workWidth
+    hints.height = workHeight
+    const hintsCtx = context(hints)
+    // Hint colours must stay pure, so no smoothing when resampling them
+    hintsCtx.imageSmoothingEnabled = false
+    hintsCtx.drawImage(session.hints, 0, 0, workWidth, workHeight)
+
+    const rect = session.rect ?? {
+      x: width * DEFAULT_INSET,
+      y: height * DEFAULT_INSET,
+      width: width * (1 - DEFAULT_INSET * 2),
+      height: height * (1 - DEFAULT_INSET * 2),
+    }
+
+    this.setState({ busy: true })
+    try {
+      const subject = await runWithProgressToast('Removing background', (options) =>
+        provider.segment(
+          {
+            image: workCtx.getImageData(0, 0, workWidth, workHeight),
+            rect: { x: rect.x * scale, y: rect.y * scale, width: rect.width * scale, height: rect.height * scale },
+            hints: session.hinted ? hintsCtx.getImageData(0, 0, workWidth, workHeight) : null,
+          },
+          options
+        )
+      )
+      this.storeSubject(image, subject)
+      session.storedMask = (image as MaskedObject).layerMask?.data ?? null
+      const { saveToHistory, syncLayers } = useEditorStore.getState()
+      saveToHistory('Remove background')
+      syncLayers()
+    } catch (error) {
+      if (!(error instanceof ProcessingCancelledError)) throw error
+    } finally {
+      this.setState({ busy: false })
+    }
+  }
+
+  // Scales the provider's mask up (smoothly, which softens the edge) into
+  // the image's layer mask box
+  private storeSubject(image: fabric.Image, subject: ImageData) {
+    const small = document.createElement('canvas')
+    small.width = subject.width
+    small.height = subject.height
+    context(small).putImageData(subject, 0, 0)
+
+    const mask = createLayerMaskCanvas(image)
+    const ctx = context(mask)
+    ctx.clearRect(0, 0, mask.width, mask.height)
+    const box = maskBox(image)
+    const toMask = mask.width / box.width
+    const { width, height } = image.getOriginalSize()
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(
+      small,
+      ((box.width - (image.width ?? 0)) / 2 - (image.cropX ?? 0)) * toMask,
+      ((box.height - (image.height ?? 0)) / 2 - (image.cropY ?? 0)) * toMask,
+      width * toMask,
+      height * toMask
+    )
+    storeLayerMask(image, mask)
+  }
+
+  private ensureSession(image: fabric.Image): RemovalSession {
+    const existing = this.getSession(image)
+    if (existing) return existing as RemovalSession
+    const { width, height } = image.getOriginalSize()
+    const scale = Math.min(1, SegmentationProviders.getActive().maxSize / Math.max(width, height))
+    const hints = document.createElement('canvas')
+    hints.width = Math.max(1, Math.round(width * scale))
+    hints.height = Math.max(1, Math.round(height * scale))
+    this.session = {
+      layerId: (image as LayerObject).layerId ?? '',
+      rect: null,
+      hints,
+      hinted: false,
+      scale,
+      storedMask: null,
+    }
+    return this.session
+  }
+
+  private setState(partial: Partial<BackgroundRemovalState>) {
+    this.state = { ...this.state, ...partial }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const BackgroundRemoval = new BackgroundRemovalClass()
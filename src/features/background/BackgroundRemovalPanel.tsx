@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react'
+import { fabric } from 'fabric'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { LayerMaskControls } from '@/features/layers/LayerMaskControls'
+import { BackgroundRemoval, type RemovalMode } from './BackgroundRemoval'
+import { SegmentationProviders } from './SegmentationProviders'
+
+const MODES: { id: RemovalMode; label: string }[] = [
+  { id: 'rect', label: 'Rectangle' },
+  { id: 'keep', label: 'Keep' },
+  { id: 'remove', label: 'Remove' },
+]
+
+export const BackgroundRemovalPanel: React.FC = () => {
+  const [state, setState] = useState(BackgroundRemoval.getState())
+  const [providers, setProviders] = useState(SegmentationProviders.list())
+  const [activeProvider, setActiveProvider] = useState(SegmentationProviders.getActive().id)
+  const activeObject = useEditorStore((store) => store.activeObject)
+  const image = activeObject instanceof fabric.Image ? activeObject : null
+  const { toast } = useToast()
+
+  useEffect(() => BackgroundRemoval.subscribe(() => setState(BackgroundRemoval.getState())), [])
+  useEffect(
+    () =>
+      SegmentationProviders.subscribe(() => {
+        setProviders(SegmentationProviders.list())
+        setActiveProvider(SegmentationProviders.getActive().id)
+      }),
+    []
+  )
+
+  const provider = providers.find((candidate) => candidate.id === activeProvider)
+
+  const handleDetect = async () => {
+    if (!image) return
+    if (
+      BackgroundRemoval.replacesMask(image) &&
+      !window.confirm('Replace the layer mask of this image? Changes painted on it will be lost.')
+    ) {
+      return
+    }
+    try {
+      await BackgroundRemoval.run(image)
+    } catch (error) {
+      console.error('Background removal failed:', error)
+      toast({
+        title: 'Background Removal Failed',
+        description: error instanceof Error ? error.message : 'The subject could not be detected',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">Remove Background</h3>
+
+      {!image && <p className="text-xs text-muted-foreground">Select an image to remove its background.</p>}
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Provider</label>
+        <select
+          value={activeProvider}
+          onChange={(e) => SegmentationProviders.setActive(e.target.value)}
+          className="w-full p-2 border rounded-md bg-background text-sm"
+        >
+          {providers.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </option>
+          ))}
+        </select>
+        {provider?.description && <p className="text-xs text-muted-foreground mt-1">{provider.description}</p>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {MODES.map((mode) => (
+          <button
+            key={mode.id}
+            className={cn(
+              'rounded border px-1 py-1 text-xs',
+              state.mode === mode.id ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+            )}
+            onClick={() => BackgroundRemoval.setOptions({ mode: mode.id })}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {state.mode === 'rect'
+          ? 'Drag a rectangle around the subject.'
+          : `Paint over areas the result should ${state.mode === 'keep' ? 'keep' : 'remove'}.`}
+      </p>
+
+      {state.mode !== 'rect' && (
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Size: {state.brushSize}px</label>
+          <Slider
+            value={[state.brushSize]}
+            onValueChange={(value) => BackgroundRemoval.setOptions({ brushSize: value[0] })}
+            min={1}
+            max={200}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          size="sm"
+          onClick={handleDetect}
+          disabled={!image || state.busy}
+        >
+          {state.busy ? 'Working…' : 'Detect'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => BackgroundRemoval.reset()} disabled={!state.hasSession}>
+          Reset Hints
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        The background is hidden by the image's layer mask, so nothing is deleted: refine it with the mask brush,
+        disable it, or apply it.
+      </p>
+      <LayerMaskControls />
+    </div>
+  )
+}
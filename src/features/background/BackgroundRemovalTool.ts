@@ -0,0 +1,184 @@
+import { fabric } from 'fabric'
+import type { ToolDefinition, ToolHandler } from '@/features/tools/ToolRegistry'
+import { findLayerObject, type LayerObject } from '@/features/layers/LayerModel'
+import { fromImagePixels, toImagePixels } from '@/features/retouch/RetouchBrush'
+import { BackgroundRemoval } from './BackgroundRemoval'
+import { BackgroundRemovalPanel } from './BackgroundRemovalPanel'
+
+// Works on the selected image, which stays selected. Drag a rectangle
+// around the subject, then paint keep/remove hints to refine it; each
+// release re-runs the segmentation. The rectangle and hints are drawn on
+// fabric's top canvas, which is never exported.
+
+interface TopCanvas extends fabric.Canvas {
+  contextTop: CanvasRenderingContext2D
+}
+
+interface PixelPoint {
+  x: number
+  y: number
+}
+
+// The brush size is in document pixels, like the other brushes
+function hintWidth(image: fabric.Image): number {
+  const matrix = image.calcTransformMatrix()
+  return BackgroundRemoval.getState().brushSize / Math.hypot(matrix[0], matrix[1])
+}
+
+function drawOverlay(canvas: fabric.Canvas, image: fabric.Image | null, drag: { from: PixelPoint; to: PixelPoint } | null) {
+  const ctx = (canvas as TopCanvas).contextTop
+  canvas.clearContext(ctx)
+  if (!image) return
+  const session = BackgroundRemoval.getSession(image)
+  const rect = drag
+    ? {
+        x: Math.min(drag.from.x, drag.to.x),
+        y: Math.min(drag.from.y, drag.to.y),
+        width: Math.abs(drag.to.x - drag.from.x),
+        height: Math.abs(drag.to.y - drag.from.y),
+      }
+    : session?.rect
+  const transform = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  ctx.save()
+  ctx.transform(transform[0], transform[1], transform[2], transform[3], transform[4], transform[5])
+  // Image pixels to document coordinates
+  const origin = fromImagePixels(image, { x: 0, y: 0 })
+  const xAxis = fromImagePixels(image, { x: 1, y: 0 })
+  const yAxis = fromImagePixels(image, { x: 0, y: 1 })
+  ctx.transform(xAxis.x - origin.x, xAxis.y - origin.y, yAxis.x - origin.x, yAxis.y - origin.y, origin.x, origin.y)
+
+  if (session?.hinted) {
+    ctx.globalAlpha = 0.5
+    ctx.drawImage(session.hints, 0, 0, session.hints.width / session.scale, session.hints.height / session.scale)
+    ctx.globalAlpha = 1
+  }
+  if (rect) {
+    const pixelSize = 1 / (canvas.getZoom() * Math.hypot(xAxis.x - origin.x, xAxis.y - origin.y))
+    ctx.lineWidth = pixelSize
+    ctx.setLineDash([6 * pixelSize, 4 * pixelSize])
+    ctx.strokeStyle = '#ffffff'
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height)
+    ctx.lineDashOffset = 6 * pixelSize
+    ctx.strokeStyle = '#000000'
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height)
+  }
+  ctx.restore()
+}
+
+function createBackgroundRemovalTool(): ToolDefinition {
+  let image: fabric.Image | null = null
+  let drag: { from: PixelPoint; to: PixelPoint } | null = null
+  let lastHint: PixelPoint | null = null
+  let unsubscribe: (() => void) | null = null
+
+  const rememberImage = (event: fabric.IEvent) => {
+    const selected = (event as fabric.IEvent & { selected?: fabric.Object[] }).selected?.[0]
+    image = selected instanceof fabric.Image ? selected : null
+  }
+  // Clicking the canvas discards fabric's active object; put it back. Undo
+  // recreates objects, so a stale image is looked up again by layer id.
+  const currentImage = (canvas: fabric.Canvas) => {
+    if (image && !canvas.getObjects().includes(image)) {
+      const layerId = (image as LayerObject).layerId
+      const found = layerId ? findLayerObject(canvas, layerId) : undefined
+      image = found instanceof fabric.Image ? found : null
+    }
+    if (image && canvas.getActiveObject() !== image) {
+      canvas.setActiveObject(image)
+      canvas.requestRenderAll()
+    }
+    return image
+  }
+  const pointerPixels = (canvas: fabric.Canvas, target: fabric.Image, event: fabric.IEvent) => {
+    const { x, y } = canvas.getPointer(event.e)
+    return toImagePixels(target, { x, y })
+  }
+  const run = (target: fabric.Image) => {
+    BackgroundRemoval.run(target).catch((error) => console.error('Background removal failed:', error))
+  }
+
+  const handler: ToolHandler = {
+    activate: (canvas) => {
+      canvas.isDrawingMode = false
+      canvas.selection = false
+      canvas.skipTargetFind = true
+      canvas.defaultCursor = 'crosshair'
+      const active = canvas.getActiveObject()
+      image = active instanceof fabric.Image ? active : null
+      canvas.on('selection:created', rememberImage)
+      canvas.on('selection:updated', rememberImage)
+      unsubscribe = BackgroundRemoval.subscribe(() => drawOverlay(canvas, image, drag))
+      drawOverlay(canvas, image, null)
+    },
+    deactivate: (canvas) => {
+      unsubscribe?.()
+      unsubscribe = null
+      canvas.off('selection:created', rememberImage)
+      canvas.off('selection:updated', rememberImage)
+      canvas.selection = true
+      canvas.skipTargetFind = false
+      canvas.defaultCursor = 'default'
+      drag = null
+      lastHint = null
+      canvas.clearContext((canvas as TopCanvas).contextTop)
+    },
+    onMouseDown: (canvas, event) => {
+      const target = currentImage(canvas)
+      if (!target || BackgroundRemoval.getState().busy) return
+      const point = pointerPixels(canvas, target, event)
+      const { mode } = BackgroundRemoval.getState()
+      if (mode === 'rect') {
+        drag = { from: point, to: point }
+      } else {
+        BackgroundRemoval.paintHint(target, mode, point, point, hintWidth(target))
+        lastHint = point
+      }
+      drawOverlay(canvas, target, drag)
+    },
+    onMouseMove: (canvas, event) => {
+      if (!image || (!drag && !lastHint)) return
+      const point = pointerPixels(canvas, image, event)
+      const { mode } = BackgroundRemoval.getState()
+      if (drag) {
+        drag.to = point
+      } else if (lastHint && mode !== 'rect') {
+        BackgroundRemoval.paintHint(image, mode, lastHint, point, hintWidth(image))
+        lastHint = point
+      }
+      drawOverlay(canvas, image, drag)
+    },
+    onMouseUp: (canvas) => {
+      if (image && drag) {
+        const width = Math.abs(drag.to.x - drag.from.x)
+        const height = Math.abs(drag.to.y - drag.from.y)
+        // A click without a drag is not a rectangle
+        if (width > 2 && height > 2) {
+          BackgroundRemoval.setRect(image, {
+            x: Math.min(drag.from.x, drag.to.x),
+            y: Math.min(drag.from.y, drag.to.y),
+            width,
+            height,
+          })
+          run(image)
+        }
+      } else if (image && lastHint) {
+        run(image)
+      }
+      drag = null
+      lastHint = null
+      drawOverlay(canvas, image, null)
+    },
+  }
+
+  return {
+    id: 'remove-background',
+    name: 'Remove Background',
+    icon: 'Scissors',
+    category: 'ai',
+    description: 'Mask out the background of an image; refine with keep/remove strokes',
+    component: BackgroundRemovalPanel,
+    handler,
+  }
+}
+
+export const backgroundRemovalTools: ToolDefinition[] = [createBackgroundRemovalTool()]
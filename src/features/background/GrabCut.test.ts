@@ -0,0 +1,86 @@
+import { afterAll, describe, expect, it, vi } from 'vitest'
+import { grabCut, type SegmentationRect } from './GrabCut'
+
+// The test environment has no ImageData
+class FakeImageData {
+  data: Uint8ClampedArray
+
+  constructor(
+    public width: number,
+    public height: number
+  ) {
+    this.data = new Uint8ClampedArray(width * height * 4)
+  }
+}
+
+vi.stubGlobal('ImageData', FakeImageData)
+
+afterAll(() => {
+  vi.unstubAllGlobals()
+})
+
+const SIZE = 20
+const BACKGROUND = [40, 90, 200]
+const SUBJECT = [220, 60, 30]
+
+// A red square subject on a blue background, with a little texture so the
+// colour models have some spread
+const isSubject = (x: number, y: number) => x >= 6 && x < 14 && y >= 6 && y < 14
+
+function photo(): ImageData {
+  const image = new ImageData(SIZE, SIZE)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const noise = ((x * 7 + y * 13) % 9) - 4
+      const color = isSubject(x, y) ? SUBJECT : BACKGROUND
+      image.data.set([...color.map((value) => value + noise), 255], (y * SIZE + x) * 4)
+    }
+  }
+  return image
+}
+
+// Hints with the given colour at the given pixels
+function hints(color: number[], pixels: [number, number][]): ImageData {
+  const image = new ImageData(SIZE, SIZE)
+  for (const [x, y] of pixels) image.data.set([...color, 255], (y * SIZE + x) * 4)
+  return image
+}
+
+const seed: SegmentationRect = { x: 3, y: 3, width: 14, height: 14 }
+
+const isKept = (mask: ImageData, x: number, y: number) => mask.data[(y * SIZE + x) * 4 + 3] === 255
+
+describe('grabCut', () => {
+  it('separates the subject from the background inside the rectangle', () => {
+    const mask = grabCut({ image: photo(), rect: seed, hints: null })
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) expect(isKept(mask, x, y)).toBe(isSubject(x, y))
+    }
+  })
+
+  it('returns an opaque white mask the size of the image', () => {
+    const mask = grabCut({ image: photo(), rect: seed, hints: null })
+    expect([mask.width, mask.height]).toEqual([SIZE, SIZE])
+    expect(Array.from(mask.data.slice((10 * SIZE + 10) * 4, (10 * SIZE + 10) * 4 + 4))).toEqual([255, 255, 255, 255])
+    expect(mask.data[3]).toBe(0)
+  })
+
+  it('drops the parts of the subject outside the rectangle', () => {
+    const mask = grabCut({ image: photo(), rect: { x: 3, y: 3, width: 7, height: 14 }, hints: null })
+    expect(isKept(mask, 8, 10)).toBe(true)
+    expect(isKept(mask, 12, 10)).toBe(false)
+  })
+
+  it('pins hinted pixels to keep or remove', () => {
+    const keep = hints([255, 0, 0], [[1, 1]])
+    const remove = hints([0, 255, 0], [[9, 9]])
+    expect(isKept(grabCut({ image: photo(), rect: seed, hints: keep }), 1, 1)).toBe(true)
+    expect(isKept(grabCut({ image: photo(), rect: seed, hints: remove }), 9, 9)).toBe(false)
+  })
+
+  it('reports progress up to completion', () => {
+    const progress = vi.fn()
+    grabCut({ image: photo(), rect: seed, hints: null }, progress)
+    expect(progress).toHaveBeenLastCalledWith(1)
+  })
+})
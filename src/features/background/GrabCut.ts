@@ -0,0 +1,211 @@
+// GrabCut-style foreground segmentation. Pixels outside the seed rectangle
+// are background; inside, colour models (a Gaussian mixture each for
+// foreground and background) are fitted and every pixel takes the cheaper
+// label, with an edge-aware smoothness term that keeps neighbouring pixels
+// of similar colour together. Keep/remove hints pin pixels to a label.
+// Pure pixel code; it runs in the processing pool.
+
+export interface SegmentationRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface GrabCutInput {
+  image: ImageData
+  rect: SegmentationRect
+  // Same size as the image: red marks pixels to keep, green pixels to remove
+  hints: ImageData | null
+}
+
+// Pixel labels; hints and the area outside the rectangle are fixed
+const Label = {
+  Background: 0,
+  Foreground: 1,
+  ProbableBackground: 2,
+  ProbableForeground: 3,
+} as const
+
+interface Gaussian {
+  weight: number
+  mean: [number, number, number]
+  variance: [number, number, number]
+}
+
+const COMPONENTS = 5
+const ITERATIONS = 4
+const SMOOTHING_SWEEPS = 4
+// Smoothness weight from the GrabCut paper
+const GAMMA = 50
+const MAX_FIT_SAMPLES = 20000
+const MIN_VARIANCE = 10
+
+const isForeground = (label: number) => label === Label.Foreground || label === Label.ProbableForeground
+
+// Diagonal-covariance mixture fitted with a few rounds of k-means
+function fitMixture(data: Uint8ClampedArray, pixels: number[]): Gaussian[] {
+  const stride = Math.max(1, Math.floor(pixels.length / MAX_FIT_SAMPLES))
+  const samples: number[] = []
+  for (let i = 0; i < pixels.length; i += stride) samples.push(pixels[i])
+  if (samples.length === 0) return []
+
+  const brightness = (pixel: number) => data[pixel * 4] + data[pixel * 4 + 1] + data[pixel * 4 + 2]
+  const sorted = [...samples].sort((a, b) => brightness(a) - brightness(b))
+  const count = Math.min(COMPONENTS, samples.length)
+  const centres = Array.from({ length: count }, (_, k) => {
+    const pixel = sorted[Math.floor(((k + 0.5) / count) * sorted.length)]
+    return [data[pixel * 4], data[pixel * 4 + 1], data[pixel * 4 + 2]]
+  })
+  const assignment = new Uint8Array(samples.length)
+
+  for (let round = 0; round < 5; round++) {
+    samples.forEach((pixel, i) => {
+      let best = 0
+      let bestDistance = Infinity
+      centres.forEach((centre, k) => {
+        const distance =
+          (data[pixel * 4] - centre[0]) ** 2 + (data[pixel * 4 + 1] - centre[1]) ** 2 + (data[pixel * 4 + 2] - centre[2]) ** 2
+        if (distance < bestDistance) {
+          bestDistance = distance
+          best = k
+        }
+      })
+      assignment[i] = best
+    })
+    const sums = centres.map(() => [0, 0, 0, 0])
+    samples.forEach((pixel, i) => {
+      const sum = sums[assignment[i]]
+      for (let c = 0; c < 3; c++) sum[c] += data[pixel * 4 + c]
+      sum[3]++
+    })
+    sums.forEach((sum, k) => {
+      if (sum[3] > 0) centres[k] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]]
+    })
+  }
+
+  const gaussians: Gaussian[] = centres.map((centre) => ({
+    weight: 0,
+    mean: [centre[0], centre[1], centre[2]],
+    variance: [0, 0, 0],
+  }))
+  samples.forEach((pixel, i) => {
+    const gaussian = gaussians[assignment[i]]
+    gaussian.weight++
+    for (let c = 0; c < 3; c++) gaussian.variance[c] += (data[pixel * 4 + c] - gaussian.mean[c]) ** 2
+  })
+  return gaussians
+    .filter((gaussian) => gaussian.weight > 0)
+    .map((gaussian) => ({
+      weight: gaussian.weight / samples.length,
+      mean: gaussian.mean,
+      variance: gaussian.variance.map((v) => Math.max(MIN_VARIANCE, v / gaussian.weight)) as [number, number, number],
+    }))
+}
+
+// Negative log-likelihood of a colour under a mixture
+function colourCost(mixture: Gaussian[], r: number, g: number, b: number): number {
+  if (mixture.length === 0) return 0
+  let likelihood = 0
+  for (const { weight, mean, variance } of mixture) {
+    const exponent = (r - mean[0]) ** 2 / variance[0] + (g - mean[1]) ** 2 / variance[1] + (b - mean[2]) ** 2 / variance[2]
+    likelihood += (weight * Math.exp(-0.5 * exponent)) / Math.sqrt(variance[0] * variance[1] * variance[2])
+  }
+  return -Math.log(likelihood + 1e-12)
+}
+
+/** Returns a mask the size of the image: white, opaque where foreground. */
+export function grabCut({ image, rect, hints }: GrabCutInput, progress: (fraction: number) => void = () => {}): ImageData {
+  const { width, height, data } = image
+  const total = width * height
+  const labels = new Uint8Array(total)
+  const left = Math.max(0, Math.floor(rect.x))
+  const top = Math.max(0, Math.floor(rect.y))
+  const right = Math.min(width, Math.ceil(rect.x + rect.width))
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height))
+  for (let y = top; y < bottom; y++) labels.fill(Label.ProbableForeground, y * width + left, y * width + right)
+  if (hints) {
+    for (let pixel = 0; pixel < total; pixel++) {
+      if (hints.data[pixel * 4 + 3] === 0) continue
+      if (hints.data[pixel * 4] > 127) labels[pixel] = Label.Foreground
+      else if (hints.data[pixel * 4 + 1] > 127) labels[pixel] = Label.Background
+    }
+  }
+
+  // Contrast-sensitive neighbour weights to the right and below
+  const colourDistance = (a: number, b: number) =>
+    (data[a * 4] - data[b * 4]) ** 2 + (data[a * 4 + 1] - data[b * 4 + 1]) ** 2 + (data[a * 4 + 2] - data[b * 4 + 2]) ** 2
+  let contrast = 0
+  let pairs = 0
+  for (let pixel = 0; pixel < total; pixel++) {
+    if (pixel % width < width - 1) {
+      contrast += colourDistance(pixel, pixel + 1)
+      pairs++
+    }
+    if (pixel < total - width) {
+      contrast += colourDistance(pixel, pixel + width)
+      pairs++
+    }
+  }
+  const beta = 1 / (2 * Math.max(1e-6, contrast / Math.max(1, pairs)))
+  const rightWeight = new Float32Array(total)
+  const downWeight = new Float32Array(total)
+  for (let pixel = 0; pixel < total; pixel++) {
+    if (pixel % width < width - 1) rightWeight[pixel] = GAMMA * Math.exp(-beta * colourDistance(pixel, pixel + 1))
+    if (pixel < total - width) downWeight[pixel] = GAMMA * Math.exp(-beta * colourDistance(pixel, pixel + width))
+  }
+
+  const foregroundCost = new Float32Array(total)
+  const backgroundCost = new Float32Array(total)
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const foreground: number[] = []
+    const background: number[] = []
+    for (let pixel = 0; pixel < total; pixel++) (isForeground(labels[pixel]) ? foreground : background).push(pixel)
+    const foregroundModel = fitMixture(data, foreground)
+    const backgroundModel = fitMixture(data, background)
+    if (foregroundModel.length === 0 || backgroundModel.length === 0) break
+
+    for (let pixel = 0; pixel < total; pixel++) {
+      const label = labels[pixel]
+      if (label === Label.Foreground || label === Label.Background) continue
+      const r = data[pixel * 4]
+      const g = data[pixel * 4 + 1]
+      const b = data[pixel * 4 + 2]
+      foregroundCost[pixel] = colourCost(foregroundModel, r, g, b)
+      backgroundCost[pixel] = colourCost(backgroundModel, r, g, b)
+      labels[pixel] = foregroundCost[pixel] < backgroundCost[pixel] ? Label.ProbableForeground : Label.ProbableBackground
+    }
+
+    // Iterated conditional modes: relabel each pixel given its neighbours
+    for (let sweep = 0; sweep < SMOOTHING_SWEEPS; sweep++) {
+      const forward = sweep % 2 === 0
+      for (let i = 0; i < total; i++) {
+        const pixel = forward ? i : total - 1 - i
+        const label = labels[pixel]
+        if (label === Label.Foreground || label === Label.Background) continue
+        const x = pixel % width
+        let towardsForeground = 0
+        let towardsBackground = 0
+        const vote = (neighbour: number, weight: number) => {
+          if (isForeground(labels[neighbour])) towardsForeground += weight
+          else towardsBackground += weight
+        }
+        if (x > 0) vote(pixel - 1, rightWeight[pixel - 1])
+        if (x < width - 1) vote(pixel + 1, rightWeight[pixel])
+        if (pixel >= width) vote(pixel - width, downWeight[pixel - width])
+        if (pixel < total - width) vote(pixel + width, downWeight[pixel])
+        // A neighbour with the other label costs its weight
+        const asForeground = foregroundCost[pixel] + towardsBackground
+        const asBackground = backgroundCost[pixel] + towardsForeground
+        labels[pixel] = asForeground < asBackground ? Label.ProbableForeground : Label.ProbableBackground
+      }
+    }
+    progress((iteration + 1) / ITERATIONS)
+  }
+
+  const mask = new ImageData(width, height)
+  for (let pixel = 0; pixel < total; pixel++) {
+    if (isForeground(labels[pixel])) mask.data.fill(255, pixel * 4, pixel * 4 + 4)
+  }
+  return mask
+}
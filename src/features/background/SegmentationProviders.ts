@@ -0,0 +1,84 @@
+import { ProcessingPool, type JobOptions } from '@/features/processing/ProcessingPool'
+import type { SegmentationRect } from './GrabCut'
+
+export type { SegmentationRect } from './GrabCut'
+
+// Background removal asks a segmentation provider which pixels are the
+// subject. The built-in provider runs offline in the processing pool;
+// plugins can register others (e.g. a hosted model) and the user picks one.
+
+export interface SegmentationInput {
+  // The image's own pixels, possibly downscaled to the provider's maxSize
+  image: ImageData
+  // The subject is inside this rectangle, in the same pixels
+  rect: SegmentationRect
+  // Same size as the image: red marks pixels to keep, green pixels to remove
+  hints: ImageData | null
+}
+
+export interface SegmentationProvider {
+  id: string
+  name: string
+  description?: string
+  // Longest side of the image passed in; larger images are downscaled
+  maxSize: number
+  /** Resolves to a mask the size of the input image: white, opaque where the subject is. */
+  segment: (input: SegmentationInput, options: JobOptions) => Promise<ImageData>
+}
+
+const DEFAULT_PROVIDER_ID = 'grabcut'
+
+const grabCutProvider: SegmentationProvider = {
+  id: DEFAULT_PROVIDER_ID,
+  name: 'Offline (GrabCut)',
+  description: 'Runs on this device from colour models seeded by the rectangle and brush hints',
+  maxSize: 512,
+  segment: (input, options) => ProcessingPool.run('grabCut', input, options),
+}
+
+class SegmentationProvidersClass {
+  private providers: Map<string, SegmentationProvider> = new Map([[DEFAULT_PROVIDER_ID, grabCutProvider]])
+  private activeId = DEFAULT_PROVIDER_ID
+  private listeners: Set<() => void> = new Set()
+
+  register(provider: SegmentationProvider) {
+    this.providers.set(provider.id, provider)
+    this.notify()
+  }
+
+  unregister(providerId: string) {
+    if (providerId === DEFAULT_PROVIDER_ID) return
+    this.providers.delete(providerId)
+    if (this.activeId === providerId) this.activeId = DEFAULT_PROVIDER_ID
+    this.notify()
+  }
+
+  get(providerId: string): SegmentationProvider | undefined {
+    return this.providers.get(providerId)
+  }
+
+  list(): SegmentationProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  getActive(): SegmentationProvider {
+    return this.providers.get(this.activeId) ?? grabCutProvider
+  }
+
+  setActive(providerId: string) {
+    if (!this.providers.has(providerId)) return
+    this.activeId = providerId
+    this.notify()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const SegmentationProviders = new SegmentationProvidersClass()
@@ -1,6 +1,10 @@
 import React, { useEffect, useRef } from 'react'
 import { fabric } from 'fabric'
 import { useEditorStore } from '@/store/editorStore'
+import { ensureLayerIdentity, isHelperObject } from '@/features/layers/LayerModel'
+import { isSubtitleTrack, storeCueText } from '@/features/subtitles/SubtitleModel'
+import { ToolRegistry } from '@/features/tools/ToolRegistry'
+import { FontLibrary } from '@/features/fonts/FontLibrary'
 import { cn } from '@/lib/utils'
 
 interface CanvasRendererProps {
@@ -15,7 +19,7 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({ className }) =>
     setActiveObject, 
     canvasSettings, 
     saveToHistory,
-    loadFromLocalStorage 
+    syncLayers
   } = useEditorStore()
 
   useEffect(() => {
@@ -48,59 +52,71 @@ export const CanvasRenderer: React.FC<CanvasRendererProps> = ({ className }) =>
       setActiveObject(null)
     })
 
-    fabricCanvas.on('object:modified', () => {
+    fabricCanvas.on('object:modified', (e) => {
+      if (e.target && isHelperObject(e.target)) return
       saveToHistory('Object modified')
+      syncLayers()
     })
 
-    fabricCanvas.on('object:added', () => {
+    fabricCanvas.on('object:added', (e) => {
+      if (e.target && isHelperObject(e.target)) return
+      if (e.target) ensureLayerIdentity(fabricCanvas, e.target)
       saveToHistory('Object added')
+      syncLayers()
     })
 
-    fabricCanvas.on('object:removed', () => {
+    fabricCanvas.on('object:removed', (e) => {
+      if (e.target && isHelperObject(e.target)) return
       saveToHistory('Object removed')
+      syncLayers()
     })
 
-    // Touch gesture support
-    let isDrawing = false
-    let lastPosX = 0
-    let lastPosY = 0
+    // Layer badges (e.g. Zawgyi text) follow typing
+    fabricCanvas.on('text:changed', (e) => {
+      if (isSubtitleTrack(e.target)) storeCueText(e.target)
+      syncLayers()
+    })
 
     fabricCanvas.on('mouse:down', (e) => {
-      if (e.e.touches && e.e.touches.length > 1) {
-        // Multi-touch - disable drawing
-        isDrawing = false
-        return
-      }
-      
-      isDrawing = true
-      const pointer = fabricCanvas.getPointer(e.e)
-      lastPosX = pointer.x
-      lastPosY = pointer.y
+      // Multi-touch gestures are not tool input
+      if (e.e.touches && e.e.touches.length > 1) return
+      ToolRegistry.dispatchMouseEvent('mouse:down', fabricCanvas, e)
     })
 
     fabricCanvas.on('mouse:move', (e) => {
-      if (!isDrawing) return
-      
-      const pointer = fabricCanvas.getPointer(e.e)
-      // Handle drawing/manipulation here
+      // Tools get hover moves too (e.g. for cursors and previews)
+      ToolRegistry.dispatchMouseEvent('mouse:move', fabricCanvas, e)
     })
 
-    fabricCanvas.on('mouse:up', () => {
-      isDrawing = false
+    fabricCanvas.on('mouse:up', (e) => {
+      ToolRegistry.dispatchMouseEvent('mouse:up', fabricCanvas, e)
     })
 
+    // Saved work is offered back by RecoveryPrompt once the canvas exists
     setCanvas(fabricCanvas)
-
-    // Load from localStorage on initialization
-    setTimeout(() => {
-      loadFromLocalStorage()
-    }, 100)
+    ToolRegistry.activateTool('select', fabricCanvas)
 
     return () => {
       fabricCanvas.dispose()
     }
   }, [])
 
+  // Text measured before its font arrived is re-laid out once it loads
+  useEffect(() => {
+    if (!canvas) return
+    FontLibrary.load().catch((error) => console.warn('Failed to load stored fonts:', error))
+    return FontLibrary.subscribe(() => {
+      fabric.util.clearFabricFontCache()
+      canvas.getObjects().forEach((object) => {
+        if (!(object instanceof fabric.Text)) return
+        object.initDimensions()
+        object.setCoords()
+      })
+      canvas.requestRenderAll()
+      syncLayers()
+    })
+  }, [canvas, syncLayers])
+
   // Update canvas settings when they change
   useEffect(() => {
     if (!canvas) return
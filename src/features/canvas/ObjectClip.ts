@@ -0,0 +1,48 @@
+import { fabric } from 'fabric'
+import type { CropData } from '@/features/crop/CropModel'
+import { strokeOutlinePath, type EraseStroke, type StrokePoint } from '@/features/drawing/DrawingModel'
+
+// An object's clipPath is derived from its crop and eraser strokes so both
+// can be edited independently. Call rebuildClipPath after changing either.
+
+interface ClippedObject extends fabric.Object {
+  cropData?: CropData
+  eraseStrokes?: EraseStroke[]
+}
+
+function createEraseClip(strokes: EraseStroke[], mapPoint?: (point: StrokePoint) => StrokePoint) {
+  const paths = strokes.map(
+    (stroke) => new fabric.Path(strokeOutlinePath(mapPoint ? stroke.points.map(mapPoint) : stroke.points), { fill: '#000000' })
+  )
+  return new fabric.Group(paths, { inverted: true })
+}
+
+export function rebuildClipPath(object: fabric.Object, options: { includeCrop?: boolean } = {}) {
+  const clipped = object as ClippedObject
+  const crop = options.includeCrop === false ? undefined : clipped.cropData
+  const strokes = clipped.eraseStrokes ?? []
+
+  if (!crop) {
+    clipped.clipPath = strokes.length > 0 ? createEraseClip(strokes) : undefined
+  } else {
+    const cropRect = new fabric.Rect({
+      left: crop.x,
+      top: crop.y,
+      width: crop.width,
+      height: crop.height,
+      originX: 'center',
+      originY: 'center',
+      angle: crop.angle,
+    })
+    if (strokes.length > 0) {
+      // A clipPath's own clipPath lives in the parent clip's coordinates
+      const toCropSpace = fabric.util.invertTransform(cropRect.calcTransformMatrix())
+      cropRect.clipPath = createEraseClip(strokes, (point) => {
+        const mapped = fabric.util.transformPoint(new fabric.Point(point.x, point.y), toCropSpace)
+        return { x: mapped.x, y: mapped.y, width: point.width }
+      })
+    }
+    clipped.clipPath = cropRect
+  }
+  clipped.dirty = true
+}
@@ -0,0 +1,337 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { ToolPresets } from '@/features/tools/ToolPresets'
+import { rebuildClipPath } from '@/features/canvas/ObjectClip'
+import type { CropData, CroppableImage } from './CropModel'
+
+export type CropTarget = 'canvas' | 'image'
+
+export interface AspectRatioOption {
+  id: string
+  label: string
+  ratio: number | null
+}
+
+export interface CropState {
+  active: boolean
+  target: CropTarget
+  aspectRatioId: string
+  straighten: number
+  showGrid: boolean
+  hasImage: boolean
+}
+
+const FRAME_STYLE: Partial<fabric.IRectOptions> = {
+  fill: 'transparent',
+  stroke: '#ffffff',
+  strokeWidth: 1,
+  strokeUniform: true,
+  cornerColor: '#ffffff',
+  cornerStrokeColor: '#1f2937',
+  cornerSize: 12,
+  transparentCorners: false,
+  hasRotatingPoint: false,
+  lockRotation: true,
+  lockSkewingX: true,
+  lockSkewingY: true,
+  excludeFromExport: true,
+  objectCaching: false,
+}
+
+/** Free, original and the canvas size presets (1:1, 9:16, 1200x630, 16:9...). */
+export function getAspectRatioOptions(): AspectRatioOption[] {
+  const presets = ToolPresets.getCategory('canvas')?.presets ?? []
+  return [
+    { id: 'free', label: 'Free', ratio: null },
+    { id: 'original', label: 'Original', ratio: null },
+    ...presets
+      .filter((preset) => preset.settings.canvasSettings?.width && preset.settings.canvasSettings?.height)
+      .map((preset) => {
+        const { width, height } = preset.settings.canvasSettings
+        return {
+          id: preset.id,
+          label: `${preset.name} (${formatRatio(width, height)})`,
+          ratio: width / height,
+        }
+      }),
+  ]
+}
+
+function formatRatio(width: number, height: number): string {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+  const divisor = gcd(width, height)
+  const w = width / divisor
+  const h = height / divisor
+  return w > 50 || h > 50 ? `${width}x${height}` : `${w}:${h}`
+}
+
+class CropControllerClass {
+  private canvas: fabric.Canvas | null = null
+  private image: CroppableImage | null = null
+  private frame: fabric.Rect | null = null
+  private originalAngle = 0
+  private listeners: Set<() => void> = new Set()
+  private state: CropState = {
+    active: false,
+    target: 'canvas',
+    aspectRatioId: 'free',
+    straighten: 0,
+    showGrid: true,
+    hasImage: false,
+  }
+
+  getState(): CropState {
+    return this.state
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** Opens a crop session on the selected image, or the canvas when none is selected. */
+  start(canvas: fabric.Canvas) {
+    this.cancel()
+    this.canvas = canvas
+    const selected = canvas.getActiveObject()
+    const image = selected instanceof fabric.Image ? (selected as CroppableImage) : null
+
+    canvas.on('after:render', this.drawOverlay)
+    this.setState({ active: true, hasImage: image !== null })
+    this.openSession(image ? 'image' : 'canvas', image)
+  }
+
+  setTarget(target: CropTarget) {
+    if (!this.canvas || target === this.state.target) return
+    const image = target === 'image' ? this.findImage() : null
+    if (target === 'image' && !image) return
+    this.closeSession(true)
+    this.openSession(target, image)
+  }
+
+  setAspectRatio(aspectRatioId: string) {
+    this.setState({ aspectRatioId })
+    this.constrainFrame()
+  }
+
+  setStraighten(angle: number) {
+    if (!this.canvas || !this.image) return
+    this.image.rotate(angle)
+    this.image.setCoords()
+    this.setState({ straighten: angle })
+    this.canvas.requestRenderAll()
+  }
+
+  setShowGrid(showGrid: boolean) {
+    this.setState({ showGrid })
+    this.canvas?.requestRenderAll()
+  }
+
+  apply() {
+    const { canvas, frame } = this
+    if (!canvas || !frame) return
+
+    const bounds = this.getFrameBounds()
+    if (this.state.target === 'image' && this.image) {
+      this.applyImageCrop(this.image, bounds)
+      this.image = null
+    } else {
+      this.applyCanvasCrop(canvas, bounds)
+    }
+    this.end()
+    useEditorStore.getState().saveToHistory('Crop')
+  }
+
+  /** Removes the crop from the image being edited. */
+  removeCrop() {
+    if (!this.canvas || !this.image) return
+    const image = this.image
+    image.cropData = undefined
+    rebuildClipPath(image)
+    this.image = null
+    this.end()
+    useEditorStore.getState().saveToHistory('Remove crop')
+  }
+
+  cancel() {
+    if (!this.canvas) return
+    this.closeSession(true)
+    this.end()
+  }
+
+  private openSession(target: CropTarget, image: CroppableImage | null) {
+    const canvas = this.canvas!
+    let bounds: { left: number; top: number; width: number; height: number }
+
+    if (target === 'image' && image) {
+      this.image = image
+      this.originalAngle = image.angle ?? 0
+      bounds = this.getImageCropBounds(image)
+      // Show the whole picture while the frame is adjusted
+      rebuildClipPath(image, { includeCrop: false })
+    } else {
+      this.image = null
+      bounds = { left: 0, top: 0, width: canvas.getWidth(), height: canvas.getHeight() }
+    }
+
+    this.frame = new fabric.Rect({ ...FRAME_STYLE, ...bounds })
+    this.frame.on('scaling', this.constrainFrame)
+    canvas.add(this.frame)
+    canvas.setActiveObject(this.frame)
+    this.setState({ target, straighten: image ? this.originalAngle : 0 })
+    this.constrainFrame()
+    canvas.requestRenderAll()
+  }
+
+  private closeSession(restore: boolean) {
+    const canvas = this.canvas
+    if (!canvas) return
+    if (this.frame) {
+      canvas.remove(this.frame)
+      this.frame = null
+    }
+    if (restore && this.image) {
+      this.image.rotate(this.originalAngle)
+      rebuildClipPath(this.image)
+      this.image.setCoords()
+    }
+    this.image = null
+  }
+
+  private end() {
+    const canvas = this.canvas
+    if (!canvas) return
+    this.closeSession(false)
+    canvas.off('after:render', this.drawOverlay)
+    canvas.discardActiveObject()
+    canvas.requestRenderAll()
+    this.canvas = null
+    this.setState({ active: false })
+  }
+
+  private findImage(): CroppableImage | null {
+    const active = useEditorStore.getState().activeObject
+    if (active instanceof fabric.Image) return active as CroppableImage
+    const image = this.canvas?.getObjects().find((o) => o instanceof fabric.Image)
+    return (image as CroppableImage) ?? null
+  }
+
+  private getFrameBounds() {
+    const frame = this.frame!
+    return {
+      left: frame.left ?? 0,
+      top: frame.top ?? 0,
+      width: frame.getScaledWidth(),
+      height: frame.getScaledHeight(),
+    }
+  }
+
+  // Existing crop (or the whole image) as an axis-aligned canvas rectangle
+  private getImageCropBounds(image: CroppableImage) {
+    const crop = image.cropData
+    if (!crop) {
+      const rect = image.getBoundingRect(true, true)
+      return { left: rect.left, top: rect.top, width: rect.width, height: rect.height }
+    }
+    const center = fabric.util.transformPoint(
+      new fabric.Point(crop.x, crop.y),
+      image.calcTransformMatrix()
+    )
+    const width = crop.width * (image.scaleX ?? 1)
+    const height = crop.height * (image.scaleY ?? 1)
+    return { left: center.x - width / 2, top: center.y - height / 2, width, height }
+  }
+
+  private applyImageCrop(image: CroppableImage, bounds: ReturnType<CropControllerClass['getFrameBounds']>) {
+    const center = fabric.util.transformPoint(
+      new fabric.Point(bounds.left + bounds.width / 2, bounds.top + bounds.height / 2),
+      fabric.util.invertTransform(image.calcTransformMatrix())
+    )
+    const crop: CropData = {
+      x: center.x,
+      y: center.y,
+      width: bounds.width / (image.scaleX ?? 1),
+      height: bounds.height / (image.scaleY ?? 1),
+      // Counter-rotate so the visible frame stays level after straightening
+      angle: -(image.angle ?? 0),
+    }
+    image.cropData = crop
+    rebuildClipPath(image)
+    image.setCoords()
+  }
+
+  private applyCanvasCrop(canvas: fabric.Canvas, bounds: ReturnType<CropControllerClass['getFrameBounds']>) {
+    for (const object of canvas.getObjects()) {
+      if (object === this.frame) continue
+      object.set({ left: (object.left ?? 0) - bounds.left, top: (object.top ?? 0) - bounds.top })
+      object.setCoords()
+    }
+    useEditorStore.getState().updateCanvasSettings({
+      width: Math.max(1, Math.round(bounds.width)),
+      height: Math.max(1, Math.round(bounds.height)),
+    })
+  }
+
+  private getRatio(): number | null {
+    const { aspectRatioId } = this.state
+    if (aspectRatioId === 'original') {
+      if (this.image) return this.image.getScaledWidth() / this.image.getScaledHeight()
+      return this.canvas ? this.canvas.getWidth() / this.canvas.getHeight() : null
+    }
+    return getAspectRatioOptions().find((option) => option.id === aspectRatioId)?.ratio ?? null
+  }
+
+  private constrainFrame = () => {
+    const frame = this.frame
+    const ratio = this.getRatio()
+    if (!frame || !ratio) return
+
+    const width = frame.getScaledWidth()
+    const height = frame.getScaledHeight()
+    const area = width * height
+    const newWidth = Math.sqrt(area * ratio)
+    const newHeight = newWidth / ratio
+    frame.set({ width: newWidth, height: newHeight, scaleX: 1, scaleY: 1 })
+    frame.setCoords()
+    this.canvas?.requestRenderAll()
+  }
+
+  // Dims everything outside the frame and draws the rule-of-thirds grid
+  private drawOverlay = () => {
+    const { canvas, frame } = this
+    if (!canvas || !frame) return
+
+    const ctx = canvas.getContext()
+    const { left, top, width, height } = this.getFrameBounds()
+    const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+
+    ctx.save()
+    ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5])
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)'
+    ctx.beginPath()
+    ctx.rect(0, 0, canvas.getWidth(), canvas.getHeight())
+    ctx.rect(left, top, width, height)
+    ctx.fill('evenodd')
+
+    if (this.state.showGrid) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      for (let i = 1; i < 3; i++) {
+        ctx.moveTo(left + (width * i) / 3, top)
+        ctx.lineTo(left + (width * i) / 3, top + height)
+        ctx.moveTo(left, top + (height * i) / 3)
+        ctx.lineTo(left + width, top + (height * i) / 3)
+      }
+      ctx.stroke()
+    }
+    ctx.restore()
+  }
+
+  private setState(patch: Partial<CropState>) {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const CropController = new CropControllerClass()
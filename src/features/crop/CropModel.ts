@@ -0,0 +1,21 @@
+import type { fabric } from 'fabric'
+
+// Crops are never baked into pixels. An image crop is kept as `cropData`
+// (a rectangle in the image's own coordinate space) plus a matching
+// clipPath, so it can be re-opened and adjusted later. A canvas crop resizes
+// the canvas and shifts objects, leaving everything outside the frame intact.
+export interface CropData {
+  // Centre and size in the image's local, unscaled coordinates
+  x: number
+  y: number
+  width: number
+  height: number
+  // Counter-rotation that kept the frame level when the crop was applied
+  angle: number
+}
+
+export interface CroppableImage extends fabric.Image {
+  cropData?: CropData
+}
+
+export const CROP_JSON_PROPERTIES = ['cropData']
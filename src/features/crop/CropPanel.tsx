@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { cn } from '@/lib/utils'
+import { Check, Grid3x3, X } from 'lucide-react'
+import { CropController, getAspectRatioOptions, type CropTarget } from './CropController'
+
+const TARGETS: { id: CropTarget; label: string }[] = [
+  { id: 'canvas', label: 'Canvas' },
+  { id: 'image', label: 'Selected Image' },
+]
+
+export const CropPanel: React.FC = () => {
+  const { canvas } = useEditorStore()
+  const [state, setState] = useState(CropController.getState())
+
+  useEffect(() => CropController.subscribe(() => setState(CropController.getState())), [])
+
+  const aspectRatios = getAspectRatioOptions()
+
+  if (!state.active) {
+    return (
+      <div className="space-y-3">
+        <h3 className="font-medium text-sm">Crop</h3>
+        <p className="text-xs text-gray-500">
+          Select an image to crop it, or crop the whole canvas.
+        </p>
+        <Button className="w-full" onClick={() => canvas && CropController.start(canvas)} disabled={!canvas}>
+          Start Crop
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium text-sm">Crop</h3>
+
+      <div className="grid grid-cols-2 gap-1">
+        {TARGETS.map((target) => (
+          <Button
+            key={target.id}
+            size="sm"
+            variant={state.target === target.id ? 'default' : 'outline'}
+            onClick={() => CropController.setTarget(target.id)}
+            disabled={target.id === 'image' && !state.hasImage}
+          >
+            {target.label}
+          </Button>
+        ))}
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Aspect Ratio</label>
+        <div className="flex flex-wrap gap-1">
+          {aspectRatios.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => CropController.setAspectRatio(option.id)}
+              className={cn(
+                'px-2 py-1 rounded border text-xs',
+                state.aspectRatioId === option.id
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+                  : 'border-gray-200 hover:bg-gray-100 dark:border-gray-700 dark:hover:bg-gray-800'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {state.target === 'image' && (
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">
+            Straighten: {state.straighten.toFixed(1)}°
+          </label>
+          <Slider
+            value={[state.straighten]}
+            onValueChange={(value) => CropController.setStraighten(value[0])}
+            min={-45}
+            max={45}
+            step={0.5}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      <Button
+        size="sm"
+        variant={state.showGrid ? 'default' : 'outline'}
+        onClick={() => CropController.setShowGrid(!state.showGrid)}
+        aria-pressed={state.showGrid}
+      >
+        <Grid3x3 className="w-4 h-4 mr-1" />
+        Rule of Thirds
+      </Button>
+
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={() => CropController.apply()}>
+          <Check className="w-4 h-4 mr-1" />
+          Apply
+        </Button>
+        <Button className="flex-1" variant="outline" onClick={() => CropController.cancel()}>
+          <X className="w-4 h-4 mr-1" />
+          Cancel
+        </Button>
+      </div>
+
+      {state.target === 'image' && (
+        <Button size="sm" variant="ghost" className="w-full" onClick={() => CropController.removeCrop()}>
+          Remove Crop
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+
+export const BrushSettingsPanel: React.FC<{ toolId?: string }> = ({ toolId }) => {
+  const { brushSettings, updateBrushSettings } = useEditorStore()
+  const isEraser = toolId === 'eraser'
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">{isEraser ? 'Eraser' : 'Brush'}</h3>
+
+      {!isEraser && (
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Color</label>
+          <Input
+            type="color"
+            value={brushSettings.color}
+            onChange={(e) => updateBrushSettings({ color: e.target.value })}
+            className="h-9 p-1"
+          />
+        </div>
+      )}
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Size: {brushSettings.size}px</label>
+        <Slider
+          value={[brushSettings.size]}
+          onValueChange={(value) => updateBrushSettings({ size: value[0] })}
+          min={1}
+          max={100}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      {!isEraser && (
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">
+            Opacity: {Math.round(brushSettings.opacity * 100)}%
+          </label>
+          <Slider
+            value={[brushSettings.opacity * 100]}
+            onValueChange={(value) => updateBrushSettings({ opacity: value[0] / 100 })}
+            min={5}
+            max={100}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {toolId !== 'spray' && (
+        <>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">
+              Smoothing: {Math.round(brushSettings.smoothing * 100)}%
+            </label>
+            <Slider
+              value={[brushSettings.smoothing * 100]}
+              onValueChange={(value) => updateBrushSettings({ smoothing: value[0] / 100 })}
+              min={0}
+              max={100}
+              step={5}
+              className="w-full"
+            />
+          </div>
+          <Button
+            size="sm"
+            variant={brushSettings.pressure ? 'default' : 'outline'}
+            onClick={() => updateBrushSettings({ pressure: !brushSettings.pressure })}
+            aria-pressed={brushSettings.pressure}
+            className="w-full"
+          >
+            Pen Pressure {brushSettings.pressure ? 'On' : 'Off'}
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { fabric } from 'fabric'
+import { useEditorStore, type BrushSettings } from '@/store/editorStore'
+import type { ToolDefinition } from '@/features/tools/ToolRegistry'
+import { BrushSettingsPanel } from './BrushSettingsPanel'
+import { eraseWithStroke } from './Eraser'
+import { PressureBrush } from './PressureBrush'
+
+// Freehand tools run on fabric's drawing mode. Every finished stroke is a
+// single object:added (or one 'Erase' save), so it is one undo step.
+
+type BrushKind = 'pencil' | 'marker' | 'highlighter' | 'spray' | 'eraser'
+
+interface BrushToolOptions {
+  id: string
+  name: string
+  icon: string
+  description: string
+  shortcut?: string
+  kind: BrushKind
+}
+
+// SprayBrush's constructor is missing from the fabric typings
+const SprayBrush = fabric.SprayBrush as unknown as new (canvas: fabric.Canvas) => fabric.SprayBrush
+
+function withAlpha(color: string, alpha: number): string {
+  const parsed = new fabric.Color(color)
+  parsed.setAlpha(alpha)
+  return parsed.toRgba()
+}
+
+function createBrush(kind: BrushKind, canvas: fabric.Canvas, settings: BrushSettings): fabric.BaseBrush {
+  const base = {
+    color: settings.color,
+    width: settings.size,
+    opacity: settings.opacity,
+    smoothing: settings.smoothing,
+    usePressure: settings.pressure,
+  }
+
+  switch (kind) {
+    case 'marker':
+      return new PressureBrush(canvas, { ...base, width: settings.size * 2.5, opacity: settings.opacity * 0.9 })
+    case 'highlighter':
+      return new PressureBrush(canvas, {
+        ...base,
+        width: settings.size * 3,
+        opacity: Math.min(settings.opacity, 0.4),
+        usePressure: false,
+        globalCompositeOperation: 'multiply',
+      })
+    case 'spray': {
+      const brush = new SprayBrush(canvas)
+      brush.color = withAlpha(settings.color, settings.opacity)
+      brush.width = settings.size * 4
+      brush.density = 20
+      brush.dotWidth = Math.max(1, settings.size / 4)
+      return brush
+    }
+    case 'eraser':
+      return new PressureBrush(canvas, {
+        ...base,
+        color: '#ffffff',
+        opacity: 0.7,
+        onStrokeComplete: (points) => eraseWithStroke(canvas, points),
+      })
+    default:
+      return new PressureBrush(canvas, base)
+  }
+}
+
+function createBrushTool(options: BrushToolOptions): ToolDefinition {
+  let stopTracking: (() => void) | null = null
+  let unsubscribe: (() => void) | null = null
+
+  const applyBrush = (canvas: fabric.Canvas) => {
+    stopTracking?.()
+    const brush = createBrush(options.kind, canvas, useEditorStore.getState().brushSettings)
+    canvas.freeDrawingBrush = brush
+    stopTracking = brush instanceof PressureBrush ? brush.trackPressure() : null
+  }
+
+  return {
+    id: options.id,
+    name: options.name,
+    icon: options.icon,
+    category: 'drawing',
+    description: options.description,
+    shortcut: options.shortcut,
+    component: BrushSettingsPanel,
+    handler: {
+      activate: (canvas) => {
+        canvas.discardActiveObject()
+        canvas.isDrawingMode = true
+        applyBrush(canvas)
+        unsubscribe = useEditorStore.subscribe((state, prev) => {
+          if (state.brushSettings !== prev.brushSettings) applyBrush(canvas)
+        })
+        canvas.requestRenderAll()
+      },
+      deactivate: (canvas) => {
+        unsubscribe?.()
+        stopTracking?.()
+        unsubscribe = null
+        stopTracking = null
+        canvas.isDrawingMode = false
+      },
+    },
+  }
+}
+
+export const brushTools: ToolDefinition[] = [
+  createBrushTool({
+    id: 'pencil',
+    name: 'Pencil',
+    icon: 'Pencil',
+    description: 'Draw freehand strokes',
+    shortcut: 'B',
+    kind: 'pencil',
+  }),
+  createBrushTool({
+    id: 'marker',
+    name: 'Marker',
+    icon: 'Brush',
+    description: 'Draw broad marker strokes',
+    kind: 'marker',
+  }),
+  createBrushTool({
+    id: 'highlighter',
+    name: 'Highlighter',
+    icon: 'Highlighter',
+    description: 'Translucent strokes that darken what is underneath',
+    kind: 'highlighter',
+  }),
+  createBrushTool({
+    id: 'spray',
+    name: 'Spray',
+    icon: 'SprayCan',
+    description: 'Spray paint dots',
+    kind: 'spray',
+  }),
+  createBrushTool({
+    id: 'eraser',
+    name: 'Eraser',
+    icon: 'Eraser',
+    description: 'Erase parts of images and strokes',
+    shortcut: 'E',
+    kind: 'eraser',
+  }),
+]
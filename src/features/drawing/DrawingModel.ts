@@ -0,0 +1,65 @@
+import type { fabric } from 'fabric'
+
+// One sampled point of a freehand stroke. `width` already includes pen
+// pressure, so the stroke outline can taper.
+export interface StrokePoint {
+  x: number
+  y: number
+  width: number
+}
+
+// Eraser strokes are stored on the erased object in its own local,
+// unscaled coordinates and turned into an inverted clipPath. Nothing is
+// removed from the image data, so erasing can be undone or moved with the
+// object.
+export interface EraseStroke {
+  points: StrokePoint[]
+}
+
+export interface ErasableObject extends fabric.Object {
+  eraseStrokes?: EraseStroke[]
+}
+
+export const ERASE_JSON_PROPERTIES = ['eraseStrokes']
+
+/** Images and freehand strokes can be erased; other objects are left alone. */
+export function isErasable(object: fabric.Object): boolean {
+  return object.type === 'image' || object.type === 'path'
+}
+
+/**
+ * Closed SVG outline around a variable-width stroke: one side forward, a
+ * round cap, the other side back and a round start cap.
+ */
+export function strokeOutlinePath(points: StrokePoint[]): string {
+  if (points.length === 0) return ''
+  if (points.length === 1) {
+    const { x, y, width } = points[0]
+    const r = Math.max(width / 2, 0.5)
+    return `M ${x - r} ${y} A ${r} ${r} 0 1 0 ${x + r} ${y} A ${r} ${r} 0 1 0 ${x - r} ${y} Z`
+  }
+
+  const left: string[] = []
+  const right: string[] = []
+  for (let i = 0; i < points.length; i++) {
+    const prev = points[Math.max(0, i - 1)]
+    const next = points[Math.min(points.length - 1, i + 1)]
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y) || 1
+    const nx = -(next.y - prev.y) / length
+    const ny = (next.x - prev.x) / length
+    const r = Math.max(points[i].width / 2, 0.5)
+    left.push(`${points[i].x + nx * r} ${points[i].y + ny * r}`)
+    right.push(`${points[i].x - nx * r} ${points[i].y - ny * r}`)
+  }
+
+  const endRadius = Math.max(points[points.length - 1].width / 2, 0.5)
+  const startRadius = Math.max(points[0].width / 2, 0.5)
+  return [
+    `M ${left[0]}`,
+    ...left.slice(1).map((point) => `L ${point}`),
+    `A ${endRadius} ${endRadius} 0 0 0 ${right[right.length - 1]}`,
+    ...right.slice(0, -1).reverse().map((point) => `L ${point}`),
+    `A ${startRadius} ${startRadius} 0 0 0 ${left[0]}`,
+    'Z',
+  ].join(' ')
+}
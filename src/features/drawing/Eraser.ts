@@ -0,0 +1,61 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { rebuildClipPath } from '@/features/canvas/ObjectClip'
+import { isHelperObject, type LayerObject } from '@/features/layers/LayerModel'
+import { isErasable, type ErasableObject, type StrokePoint } from './DrawingModel'
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function strokeBounds(points: StrokePoint[]) {
+  const maxWidth = Math.max(...points.map((point) => point.width))
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  return {
+    left: Math.min(...xs) - maxWidth / 2,
+    top: Math.min(...ys) - maxWidth / 2,
+    right: Math.max(...xs) + maxWidth / 2,
+    bottom: Math.max(...ys) + maxWidth / 2,
+  }
+}
+
+/**
+ * Adds an eraser stroke (in canvas coordinates) to every unlocked image and
+ * freehand stroke it touches. Records one history step when anything changed.
+ */
+export function eraseWithStroke(canvas: fabric.Canvas, points: StrokePoint[]): boolean {
+  const bounds = strokeBounds(points)
+  let erased = false
+
+  for (const object of canvas.getObjects()) {
+    if (isHelperObject(object) || !isErasable(object) || object.visible === false) continue
+    if ((object as LayerObject).locked) continue
+
+    const rect = object.getBoundingRect(true, true)
+    if (
+      rect.left > bounds.right ||
+      rect.top > bounds.bottom ||
+      rect.left + rect.width < bounds.left ||
+      rect.top + rect.height < bounds.top
+    ) {
+      continue
+    }
+
+    const toLocal = fabric.util.invertTransform(object.calcTransformMatrix())
+    const scale = (Math.abs(object.scaleX ?? 1) + Math.abs(object.scaleY ?? 1)) / 2
+    const localPoints = points.map((point) => {
+      const local = fabric.util.transformPoint(new fabric.Point(point.x, point.y), toLocal)
+      return { x: round(local.x), y: round(local.y), width: round(point.width / scale) }
+    })
+
+    const erasable = object as ErasableObject
+    erasable.eraseStrokes = [...(erasable.eraseStrokes ?? []), { points: localPoints }]
+    rebuildClipPath(erasable)
+    erased = true
+  }
+
+  if (erased) {
+    canvas.requestRenderAll()
+    useEditorStore.getState().saveToHistory('Erase')
+  }
+  return erased
+}
@@ -0,0 +1,150 @@
+import { fabric } from 'fabric'
+import { strokeOutlinePath, type StrokePoint } from './DrawingModel'
+
+export interface PressureBrushOptions {
+  color: string
+  width: number
+  opacity: number
+  smoothing: number
+  usePressure: boolean
+  globalCompositeOperation?: string
+  // When set, the finished stroke is handed over instead of being added to
+  // the canvas (used by the eraser)
+  onStrokeComplete?: (points: StrokePoint[]) => void
+}
+
+interface BrushMouseEvent {
+  e: Event
+}
+
+// Fabric's PencilBrush draws one constant-width path. This brush samples
+// the pointer pressure for every point and builds a filled outline instead,
+// so pen strokes taper. Mice report no pressure and draw at full width.
+export class PressureBrush extends fabric.BaseBrush {
+  canvas: fabric.Canvas
+  options: PressureBrushOptions
+  private points: StrokePoint[] = []
+  private pressure = 0.5
+
+  constructor(canvas: fabric.Canvas, options: PressureBrushOptions) {
+    super()
+    this.canvas = canvas
+    this.options = options
+    this.color = options.color
+    this.width = options.width
+  }
+
+  /** Starts tracking pen pressure; returns a function that stops it. */
+  trackPressure(): () => void {
+    const element = this.canvas.getSelectionElement()
+    const handlePointer = (event: PointerEvent) => {
+      this.pressure = event.pointerType === 'mouse' || event.pressure === 0 ? 0.5 : event.pressure
+    }
+    element.addEventListener('pointerdown', handlePointer)
+    element.addEventListener('pointermove', handlePointer)
+    return () => {
+      element.removeEventListener('pointerdown', handlePointer)
+      element.removeEventListener('pointermove', handlePointer)
+    }
+  }
+
+  onMouseDown(pointer: fabric.Point, options: BrushMouseEvent) {
+    if (!this.isMainEvent(options.e)) return
+    this.points = []
+    this.addPoint(pointer)
+    this.renderPreview()
+  }
+
+  onMouseMove(pointer: fabric.Point, options: BrushMouseEvent) {
+    if (!this.isMainEvent(options.e)) return
+    if (this.addPoint(pointer)) this.renderPreview()
+  }
+
+  /** Returns false to tell fabric the stroke is finished. */
+  onMouseUp(options: BrushMouseEvent): boolean {
+    if (!this.isMainEvent(options.e)) return true
+    this.finishStroke()
+    return false
+  }
+
+  // Called by fabric when the whole canvas re-renders mid-stroke
+  _render() {
+    this.renderPreview()
+  }
+
+  private isMainEvent(event: Event): boolean {
+    const canvas = this.canvas as fabric.Canvas & { _isMainEvent?: (e: Event) => boolean }
+    return canvas._isMainEvent?.(event) ?? true
+  }
+
+  private addPoint(pointer: fabric.Point): boolean {
+    const last = this.points[this.points.length - 1]
+    // Smoothing also thins out points that are very close together
+    const minDistance = (0.5 + this.options.smoothing * 3) / this.canvas.getZoom()
+    if (last && Math.hypot(pointer.x - last.x, pointer.y - last.y) < minDistance) return false
+
+    const factor = this.options.usePressure ? Math.min(Math.max(this.pressure * 2, 0.1), 2) : 1
+    this.points.push({ x: pointer.x, y: pointer.y, width: this.options.width * factor })
+    return true
+  }
+
+  // Moving average over neighbouring points; the ends stay where they are
+  private smoothedPoints(): StrokePoint[] {
+    const radius = Math.round(this.options.smoothing * 4)
+    const { points } = this
+    if (radius === 0 || points.length < 3) return points
+
+    return points.map((point, i) => {
+      if (i === 0 || i === points.length - 1) return point
+      const from = Math.max(0, i - radius)
+      const to = Math.min(points.length - 1, i + radius)
+      let x = 0
+      let y = 0
+      let width = 0
+      for (let j = from; j <= to; j++) {
+        x += points[j].x
+        y += points[j].y
+        width += points[j].width
+      }
+      const count = to - from + 1
+      return { x: x / count, y: y / count, width: width / count }
+    })
+  }
+
+  private renderPreview() {
+    const ctx = this.canvas.getSelectionContext()
+    const vpt = this.canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+    this.canvas.clearContext(ctx)
+    ctx.save()
+    ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5])
+    ctx.globalAlpha = this.options.opacity
+    ctx.fillStyle = this.options.color
+    ctx.fill(new Path2D(strokeOutlinePath(this.smoothedPoints())))
+    ctx.restore()
+  }
+
+  private finishStroke() {
+    const points = this.smoothedPoints()
+    this.points = []
+    this.canvas.clearContext(this.canvas.getSelectionContext())
+    if (points.length === 0) return
+
+    if (this.options.onStrokeComplete) {
+      this.options.onStrokeComplete(points)
+      this.canvas.requestRenderAll()
+      return
+    }
+
+    const path = new fabric.Path(strokeOutlinePath(points), {
+      fill: this.options.color,
+      stroke: '',
+      strokeWidth: 0,
+      opacity: this.options.opacity,
+      globalCompositeOperation: this.options.globalCompositeOperation ?? 'source-over',
+    })
+    this.canvas.fire('before:path:created', { path })
+    this.canvas.add(path)
+    this.canvas.requestRenderAll()
+    this.canvas.fire('path:created', { path })
+  }
+}
@@ -4,31 +4,19 @@ import { useEditorStore } from '@/store/editorStore'
 import { useToast } from '@/hooks/use-toast'
 import { Download, Settings, Image, FileImage, Palette } from 'lucide-react'
 import { downloadFile } from '@/lib/utils'
-
-interface ExportSettings {
-  format: 'png' | 'jpg' | 'svg'
-  quality: number
-  scale: number
-  backgroundColor: string
-  transparent: boolean
-}
+import { saveProjectWithFeedback } from '@/features/project/ProjectActions'
+import { DEFAULT_EXPORT_SETTINGS, renderExport, type ExportSettings } from './ExportRenderer'
 
 export const ExportPanel: React.FC = () => {
-  const { exportCanvas, canvas, isDirty, saveToLocalStorage } = useEditorStore()
+  const { exportCanvas, canvas, isDirty } = useEditorStore()
   const { toast } = useToast()
   
-  const [settings, setSettings] = useState<ExportSettings>({
-    format: 'png',
-    quality: 0.9,
-    scale: 1,
-    backgroundColor: '#ffffff',
-    transparent: false
-  })
+  const [settings, setSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS)
   
   const [isExporting, setIsExporting] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
 
-  const handleExport = async () => {
+  const handleExport = async (exportSettings: ExportSettings = settings) => {
     if (!canvas) {
       toast({
         title: "Export Failed",
@@ -41,62 +29,10 @@ export const ExportPanel: React.FC = () => {
     setIsExporting(true)
 
     try {
-      // Store original canvas background
-      const originalBackground = canvas.backgroundColor
-
-      // Apply export settings
-      if (!settings.transparent && settings.format !== 'svg') {
-        canvas.backgroundColor = settings.backgroundColor
-      } else if (settings.transparent) {
-        canvas.backgroundColor = 'transparent'
-      }
-
-      let dataUrl: string | null = null
-
-      if (settings.format === 'svg') {
-        dataUrl = canvas.toSVG()
-        // For SVG, we need to create a blob URL
-        const blob = new Blob([dataUrl], { type: 'image/svg+xml' })
-        dataUrl = URL.createObjectURL(blob)
-      } else {
-        // Scale canvas if needed
-        if (settings.scale !== 1) {
-          const originalWidth = canvas.width!
-          const originalHeight = canvas.height!
-          
-          canvas.setDimensions({
-            width: originalWidth * settings.scale,
-            height: originalHeight * settings.scale
-          })
-          
-          canvas.setZoom(settings.scale)
-          canvas.renderAll()
-        }
-
-        const mimeType = settings.format === 'png' ? 'image/png' : 'image/jpeg'
-        dataUrl = canvas.toDataURL(mimeType, settings.quality)
-
-        // Restore original dimensions if scaled
-        if (settings.scale !== 1) {
-          const originalWidth = canvas.width! / settings.scale
-          const originalHeight = canvas.height! / settings.scale
-          
-          canvas.setDimensions({
-            width: originalWidth,
-            height: originalHeight
-          })
-          
-          canvas.setZoom(1)
-          canvas.renderAll()
-        }
-      }
-
-      // Restore original background
-      canvas.backgroundColor = originalBackground
-      canvas.renderAll()
+      const dataUrl = renderExport(canvas, exportSettings)
 
       if (dataUrl) {
-        const filename = `image-editor-export.${settings.format}`
+        const filename = `image-editor-export.${exportSettings.format}`
         downloadFile(dataUrl, filename)
         
         toast({
@@ -117,14 +53,6 @@ export const ExportPanel: React.FC = () => {
     }
   }
 
-  const handleSaveProject = () => {
-    saveToLocalStorage()
-    toast({
-      title: "Project Saved",
-      description: "Your project has been saved to local storage",
-    })
-  }
-
   const exportPresets = [
     {
       name: 'Instagram Post',
@@ -158,7 +86,7 @@ export const ExportPanel: React.FC = () => {
               size="sm"
               onClick={() => {
                 setSettings(preset.settings)
-                handleExport()
+                handleExport(preset.settings)
               }}
               disabled={isExporting}
               className="text-xs"
@@ -171,7 +99,7 @@ export const ExportPanel: React.FC = () => {
 
       {/* Main Export Button */}
       <Button
-        onClick={handleExport}
+        onClick={() => handleExport()}
         disabled={isExporting}
         className="w-full"
         size="lg"
@@ -300,7 +228,7 @@ export const ExportPanel: React.FC = () => {
       <div className="border-t pt-4">
         <Button
           variant="outline"
-          onClick={handleSaveProject}
+          onClick={saveProjectWithFeedback}
           className="w-full"
         >
           <FileImage className="w-4 h-4 mr-2" />
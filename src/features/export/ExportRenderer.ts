@@ -0,0 +1,78 @@
+import { fabric } from 'fabric'
+import type { JsonValue } from '@/store/history'
+import { FontLibrary } from '@/features/fonts/FontLibrary'
+import { collectFontDependencies } from '@/features/fonts/FontModel'
+
+export interface ExportSettings {
+  format: 'png' | 'jpg' | 'svg'
+  quality: number
+  scale: number
+  backgroundColor: string
+  transparent: boolean
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.9,
+  scale: 1,
+  backgroundColor: '#ffffff',
+  transparent: false,
+}
+
+// SVGs are opened where the editor's fonts are not installed, so the faces
+// the text uses go in as @font-face rules with the files inlined
+function embedFonts(canvas: fabric.Canvas, svg: string): string {
+  const families = collectFontDependencies(canvas.toJSON() as unknown as JsonValue).map((dependency) => dependency.family)
+  const css = FontLibrary.fontFaceCss(families)
+  if (!css) return svg
+  const style = `<style type="text/css"><![CDATA[\n${css}\n]]></style>`
+  return svg.includes('<defs>') ? svg.replace('<defs>', () => `<defs>\n${style}`) : svg.replace(/<svg[^>]*>/, (open) => `${open}\n<defs>${style}</defs>`)
+}
+
+/**
+ * Renders the canvas with the export settings and returns a URL to
+ * download: a data URL for bitmaps, a blob URL for SVG. The canvas is left
+ * as it was.
+ */
+export function renderExport(canvas: fabric.Canvas, settings: ExportSettings): string {
+  // Store original canvas state
+  const originalBackground = canvas.backgroundColor
+  const originalWidth = canvas.getWidth()
+  const originalHeight = canvas.getHeight()
+  const originalZoom = canvas.getZoom()
+
+  // Apply export settings
+  if (!settings.transparent && settings.format !== 'svg') {
+    canvas.backgroundColor = settings.backgroundColor
+  } else if (settings.transparent) {
+    canvas.backgroundColor = 'transparent'
+  }
+
+  try {
+    if (settings.format === 'svg') {
+      // For SVG, we need to create a blob URL
+      const blob = new Blob([embedFonts(canvas, canvas.toSVG())], { type: 'image/svg+xml' })
+      return URL.createObjectURL(blob)
+    }
+
+    // Scale canvas if needed
+    if (settings.scale !== 1) {
+      canvas.setDimensions({
+        width: originalWidth * settings.scale,
+        height: originalHeight * settings.scale
+      })
+      canvas.setZoom(originalZoom * settings.scale)
+      canvas.renderAll()
+    }
+
+    return canvas.toDataURL({ format: settings.format === 'png' ? 'png' : 'jpeg', quality: settings.quality })
+  } finally {
+    // Restore the original state even when rendering fails
+    if (settings.scale !== 1 && settings.format !== 'svg') {
+      canvas.setDimensions({ width: originalWidth, height: originalHeight })
+      canvas.setZoom(originalZoom)
+    }
+    canvas.backgroundColor = originalBackground
+    canvas.renderAll()
+  }
+}
@@ -0,0 +1,73 @@
+import type { FontVariant } from './FontModel'
+
+// Fonts that ship with the editor, so they work offline. Their files are
+// served from public/fonts/<slug>/ and split by script the way Fontsource
+// publishes them, "<slug>-<subset>-<weight>-<style>.woff2"; each file is
+// installed for its subset's Unicode range. The Google Fonts stylesheet is
+// only a fallback for deployments without the files.
+
+export type FontCategory = 'system' | 'myanmar' | 'latin'
+
+export type FontSubset = 'myanmar' | 'latin' | 'latin-ext'
+
+export const SUBSET_RANGES: Record<FontSubset, string> = {
+  myanmar: 'U+1000-109F, U+200C-200D, U+25CC, U+A92E, U+A9E0-A9FE, U+AA60-AA7F, U+116D0-116E3',
+  latin:
+    'U+0000-00FF, U+0131, U+0152-0153, U+02BB-02BC, U+02C6, U+02DA, U+02DC, U+0304, U+0308, U+0329, U+2000-206F, U+20AC, U+2122, U+2191, U+2193, U+2212, U+2215, U+FEFF, U+FFFD',
+  'latin-ext':
+    'U+0100-02BA, U+02BD-02C5, U+02C7-02CC, U+02CE-02D7, U+02DD-02FF, U+0304, U+0308, U+0329, U+1D00-1DBF, U+1E00-1E9F, U+1EF2-1EFF, U+2020, U+20A0-20AB, U+20AD-20C0, U+2113, U+2C60-2C7F, U+A720-A7FF',
+}
+
+export interface CoreFont {
+  family: string
+  category: FontCategory
+  variants: FontVariant[]
+  // Bundled files per variant; none for system fonts
+  subsets: FontSubset[]
+  // Absent for fonts Google Fonts does not host
+  googleFamily?: string
+}
+
+const regular: FontVariant = { weight: '400', style: 'normal' }
+const bold: FontVariant = { weight: '700', style: 'normal' }
+const italic: FontVariant = { weight: '400', style: 'italic' }
+const boldItalic: FontVariant = { weight: '700', style: 'italic' }
+const weights = (...values: string[]): FontVariant[] => values.map((weight) => ({ weight, style: 'normal' }))
+
+const MYANMAR_SUBSETS: FontSubset[] = ['myanmar', 'latin', 'latin-ext']
+const LATIN_SUBSETS: FontSubset[] = ['latin', 'latin-ext']
+
+// Pyidaungsu and Myanmar3 are not bundled; text that needs them gets them
+// from the font manager's uploads or the project file
+export const CORE_FONTS: CoreFont[] = [
+  { family: 'Padauk', category: 'myanmar', variants: [regular, bold], subsets: MYANMAR_SUBSETS, googleFamily: 'Padauk' },
+  { family: 'Noto Sans Myanmar', category: 'myanmar', variants: [regular, bold], subsets: MYANMAR_SUBSETS, googleFamily: 'Noto Sans Myanmar' },
+  { family: 'Inter', category: 'latin', variants: weights('400', '500', '600', '700'), subsets: LATIN_SUBSETS, googleFamily: 'Inter' },
+  { family: 'Roboto', category: 'latin', variants: [...weights('400', '500', '700'), italic, boldItalic], subsets: LATIN_SUBSETS, googleFamily: 'Roboto' },
+  { family: 'Open Sans', category: 'latin', variants: [...weights('400', '600', '700'), italic], subsets: LATIN_SUBSETS, googleFamily: 'Open Sans' },
+  { family: 'Lato', category: 'latin', variants: [regular, bold, italic, boldItalic], subsets: LATIN_SUBSETS, googleFamily: 'Lato' },
+  { family: 'Montserrat', category: 'latin', variants: [...weights('400', '500', '600', '700'), italic], subsets: LATIN_SUBSETS, googleFamily: 'Montserrat' },
+  { family: 'Poppins', category: 'latin', variants: [...weights('400', '500', '600', '700'), italic], subsets: LATIN_SUBSETS, googleFamily: 'Poppins' },
+]
+
+// Installed with every OS; the browser synthesises bold and italic
+export const SYSTEM_FONTS: CoreFont[] = ['Arial', 'Times New Roman', 'Courier New', 'Georgia'].map((family) => ({
+  family,
+  category: 'system',
+  variants: [regular, bold, italic, boldItalic],
+  subsets: [],
+}))
+
+export function coreFontUrl(font: CoreFont, variant: FontVariant, subset: FontSubset): string {
+  const slug = font.family.toLowerCase().replace(/\s+/g, '-')
+  return `/fonts/${slug}/${slug}-${subset}-${variant.weight}-${variant.style}.woff2`
+}
+
+export function googleFontsUrl(font: CoreFont): string | null {
+  if (!font.googleFamily) return null
+  const axes = font.variants
+    .map((variant) => `${variant.style === 'italic' ? 1 : 0},${variant.weight}`)
+    .sort()
+    .join(';')
+  return `https://fonts.googleapis.com/css2?family=${font.googleFamily.replace(/ /g, '+')}:ital,wght@${axes}&display=swap`
+}
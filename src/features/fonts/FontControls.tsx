@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { Italic, Trash2 } from 'lucide-react'
+import { FontLibrary, type FontFamilyInfo } from './FontLibrary'
+import { normalizeStyle, normalizeWeight, variantKey, variantLabel, weightLabel, type FontStyle } from './FontModel'
+
+export interface FontSelection {
+  fontFamily: string
+  fontWeight: string
+  fontStyle: FontStyle
+}
+
+interface FontControlsProps {
+  fontFamily: string
+  fontWeight: unknown
+  fontStyle: unknown
+  // Values that differ across the selected characters
+  mixed?: Partial<Record<keyof FontSelection, boolean>>
+  onChange: (changes: Partial<FontSelection>) => void
+}
+
+const GROUPS: { label: string; matches: (info: FontFamilyInfo) => boolean }[] = [
+  { label: 'Default Fonts', matches: (info) => info.source === 'system' },
+  { label: 'Myanmar Fonts', matches: (info) => info.source === 'core' && info.category === 'myanmar' },
+  { label: 'Latin Fonts', matches: (info) => info.source === 'core' && info.category === 'latin' },
+  { label: 'Uploaded Fonts', matches: (info) => info.source === 'custom' },
+  { label: 'From Project', matches: (info) => info.source === 'project' },
+]
+
+/** Family, weight and italic pickers backed by the font library, plus font uploads. */
+export const FontControls: React.FC<FontControlsProps> = ({ fontFamily, fontWeight, fontStyle, mixed = {}, onChange }) => {
+  const { toast } = useToast()
+  const [families, setFamilies] = useState(FontLibrary.list())
+  const [uploads, setUploads] = useState(FontLibrary.uploads())
+
+  useEffect(
+    () =>
+      FontLibrary.subscribe(() => {
+        setFamilies(FontLibrary.list())
+        setUploads(FontLibrary.uploads())
+      }),
+    []
+  )
+
+  useEffect(() => {
+    FontLibrary.ensureFamily(fontFamily)
+  }, [fontFamily])
+
+  const weight = normalizeWeight(fontWeight)
+  const style = normalizeStyle(fontStyle)
+  const current = families.find((info) => info.family === fontFamily)
+  const weights = Array.from(new Set((current?.variants ?? []).map((variant) => variant.weight)))
+  const hasItalic = current?.variants.some((variant) => variant.style === 'italic') ?? false
+
+  const handleFamilyChange = (family: string) => {
+    const variants = families.find((info) => info.family === family)?.variants ?? []
+    // Keep the weight and style where the new family has them
+    const nextWeight = variants.some((variant) => variant.weight === weight) ? weight : variants[0]?.weight ?? '400'
+    const nextStyle = variants.some((variant) => variant.style === style) ? style : 'normal'
+    onChange({ fontFamily: family, fontWeight: nextWeight, fontStyle: nextStyle })
+  }
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    let last: string | null = null
+    for (const file of files) {
+      try {
+        last = (await FontLibrary.import(file)).family
+      } catch (error) {
+        console.error('Failed to load custom font:', error)
+        toast({ title: 'Font Upload Failed', description: `${file.name} is not a usable font file`, variant: 'destructive' })
+      }
+    }
+    if (last) onChange({ fontFamily: last })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm font-medium mb-2 block">Font Family</label>
+        <select
+          value={mixed.fontFamily ? '' : fontFamily}
+          onChange={(e) => handleFamilyChange(e.target.value)}
+          className="w-full p-2 border rounded-md bg-background"
+        >
+          {mixed.fontFamily && <option value="" disabled>Mixed</option>}
+          {!mixed.fontFamily && !current && <option value={fontFamily}>{fontFamily} (missing)</option>}
+          {GROUPS.map((group) => {
+            const members = families.filter(group.matches)
+            if (members.length === 0) return null
+            return (
+              <optgroup key={group.label} label={group.label}>
+                {members.map((info) => (
+                  <option key={info.family} value={info.family}>
+                    {info.family} {info.source === 'core' && info.loaded ? '✓' : ''}
+                  </option>
+                ))}
+              </optgroup>
+            )
+          })}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={mixed.fontWeight ? '' : weight}
+          onChange={(e) => onChange({ fontWeight: e.target.value })}
+          className="flex-1 p-2 border rounded-md bg-background text-sm"
+        >
+          {mixed.fontWeight && <option value="" disabled>Mixed</option>}
+          {!mixed.fontWeight && !weights.includes(weight) && <option value={weight}>{weightLabel(weight)}</option>}
+          {weights.map((value) => (
+            <option key={value} value={value}>
+              {weightLabel(value)}
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          variant={mixed.fontStyle ? 'secondary' : style === 'italic' ? 'default' : 'outline'}
+          onClick={() => onChange({ fontStyle: style === 'italic' && !mixed.fontStyle ? 'normal' : 'italic' })}
+          disabled={!hasItalic && style !== 'italic'}
+          title={hasItalic ? 'Italic' : 'This font has no italic'}
+        >
+          <Italic className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium mb-2 block">Upload Custom Font</label>
+        <input
+          type="file"
+          accept=".ttf,.otf,.woff,.woff2"
+          multiple
+          onChange={handleUpload}
+          className="w-full p-2 border rounded-md"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Uploaded fonts are kept in this browser. Weight and style are read from names like "Padauk-Bold.ttf".
+        </p>
+        {uploads.length > 0 && (
+          <div className="mt-2 rounded border divide-y">
+            {uploads.map((face) => (
+              <div key={variantKey(face.family, face)} className="flex items-center justify-between px-2 py-1 text-xs">
+                <span>
+                  {face.family} <span className="text-muted-foreground">{variantLabel(face)}</span>
+                </span>
+                <button
+                  className="p-1 rounded hover:bg-muted"
+                  onClick={() => FontLibrary.remove(face)}
+                  title="Remove font"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
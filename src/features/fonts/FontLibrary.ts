@@ -0,0 +1,313 @@
+import type { fabric } from 'fabric'
+import { idbDelete, idbGetAll, idbPut, STORES } from '@/lib/idb'
+import { readFileAsDataUrl } from '@/lib/utils'
+import type { CustomFontAsset } from '@/store/editorStore'
+import { registerLayerFlag } from '@/features/layers/LayerModel'
+import { CORE_FONTS, SUBSET_RANGES, SYSTEM_FONTS, coreFontUrl, googleFontsUrl, type CoreFont, type FontCategory } from './CoreFonts'
+import {
+  normalizeStyle,
+  normalizeWeight,
+  parseFontFileName,
+  variantKey,
+  type FontDependency,
+  type FontVariant,
+} from './FontModel'
+
+// 'project' faces arrived embedded in an opened project and last for the session
+export type FontSource = 'system' | 'core' | 'custom' | 'project'
+
+export interface FontFamilyInfo {
+  family: string
+  source: FontSource
+  category: FontCategory | 'custom'
+  variants: FontVariant[]
+  loaded: boolean
+}
+
+// A font file as a data URL, covering `unicodeRange` when the face is split
+// into several files
+interface FontFile {
+  data: string
+  unicodeRange?: string
+}
+
+interface LoadedFace extends FontDependency {
+  source: FontSource
+  // Empty for core faces loaded from Google's CDN
+  files: FontFile[]
+}
+
+interface StoredFont extends FontDependency {
+  data: string
+}
+
+export class FontLoadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FontLoadError'
+  }
+}
+
+const SOURCE_ORDER: FontSource[] = ['system', 'core', 'custom', 'project']
+
+const sortVariants = (variants: FontVariant[]) =>
+  variants.sort((a, b) => Number(a.weight) - Number(b.weight) || a.style.localeCompare(b.style))
+
+async function addFontFace(family: string, file: FontFile, variant: FontVariant) {
+  const face = new FontFace(family, `url(${file.data})`, {
+    weight: variant.weight,
+    style: variant.style,
+    ...(file.unicodeRange ? { unicodeRange: file.unicodeRange } : {}),
+  })
+  await face.load()
+  document.fonts.add(face)
+}
+
+function addStylesheet(url: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const link = document.createElement('link')
+    link.href = url
+    link.rel = 'stylesheet'
+    link.onload = () => resolve()
+    link.onerror = () => reject(new FontLoadError(`Could not load ${url}`))
+    document.head.appendChild(link)
+  })
+}
+
+// Every face the editor can draw with: bundled core fonts, fonts uploaded
+// by the user (kept in IndexedDB across reloads) and fonts embedded in
+// opened projects. Loaded faces keep their file as a data URL so projects
+// and SVG exports can embed them.
+class FontLibraryClass {
+  private faces: Map<string, LoadedFace> = new Map()
+  private families: Map<string, Promise<boolean>> = new Map()
+  private listeners: Set<() => void> = new Set()
+  private loading: Promise<void> | null = null
+
+  /** Installs the stored uploads once; later calls return the same promise. */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = idbGetAll<StoredFont>(STORES.fonts)
+        .then(async (fonts) => {
+          await Promise.all(fonts.map((font) => this.install(font, [{ data: font.data }], 'custom')))
+          this.changed()
+        })
+        .catch((error) => {
+          this.loading = null
+          throw error
+        })
+    }
+    return this.loading
+  }
+
+  /** Families for the font picker: system, core, then uploaded and project fonts by name. */
+  list(): FontFamilyInfo[] {
+    const families = new Map<string, FontFamilyInfo>()
+    for (const font of [...SYSTEM_FONTS, ...CORE_FONTS]) {
+      const source: FontSource = font.category === 'system' ? 'system' : 'core'
+      families.set(font.family, {
+        family: font.family,
+        source,
+        category: font.category,
+        variants: font.variants,
+        loaded: source === 'system' || font.variants.some((variant) => this.faces.has(variantKey(font.family, variant))),
+      })
+    }
+    for (const face of this.faces.values()) {
+      if (face.source === 'core') continue
+      const info = families.get(face.family) ?? {
+        family: face.family,
+        source: face.source,
+        category: 'custom' as const,
+        variants: [],
+        loaded: true,
+      }
+      if (!info.variants.some((variant) => variantKey(face.family, variant) === variantKey(face.family, face))) {
+        info.variants = sortVariants([...info.variants, { weight: face.weight, style: face.style }])
+      }
+      families.set(face.family, info)
+    }
+    return Array.from(families.values()).sort(
+      (a, b) => SOURCE_ORDER.indexOf(a.source) - SOURCE_ORDER.indexOf(b.source) || (a.source === 'core' ? 0 : a.family.localeCompare(b.family))
+    )
+  }
+
+  getFamily(family: string): FontFamilyInfo | undefined {
+    return this.list().find((info) => info.family === family)
+  }
+
+  /** Whether text in this family can be drawn as intended right now: a system font or a loaded face. */
+  isAvailable(family: string): boolean {
+    const info = this.getFamily(family)
+    return info !== undefined && info.loaded
+  }
+
+  /**
+   * Makes every face of a core family available, from the bundled files or
+   * else Google Fonts. Resolves false when neither could be reached.
+   */
+  ensureFamily(family: string): Promise<boolean> {
+    const font = CORE_FONTS.find((core) => core.family === family)
+    if (!font) return Promise.resolve(this.isAvailable(family))
+
+    let loading = this.families.get(family)
+    if (!loading) {
+      loading = this.loadCoreFont(font).then((loaded) => {
+        if (!loaded) this.families.delete(family)
+        this.changed()
+        return loaded
+      })
+      this.families.set(family, loading)
+    }
+    return loading
+  }
+
+  /** Stores an uploaded font file; family, weight and style come from the file name unless given. */
+  async import(file: File, variant: Partial<FontDependency> = {}): Promise<FontDependency> {
+    const parsed = parseFontFileName(file.name)
+    const font: StoredFont = {
+      family: variant.family?.trim() || parsed.family,
+      weight: normalizeWeight(variant.weight ?? parsed.weight),
+      style: normalizeStyle(variant.style ?? parsed.style),
+      data: await readFileAsDataUrl(file),
+    }
+    await this.install(font, [{ data: font.data }], 'custom')
+    await idbPut(STORES.fonts, variantKey(font.family, font), font)
+    this.changed()
+    return { family: font.family, weight: font.weight, style: font.style }
+  }
+
+  async remove(face: FontDependency) {
+    const key = variantKey(face.family, face)
+    await idbDelete(STORES.fonts, key)
+    this.faces.delete(key)
+    this.changed()
+  }
+
+  /** Uploaded faces, for the font manager's list. */
+  uploads(): FontDependency[] {
+    return Array.from(this.faces.values())
+      .filter((face) => face.source === 'custom')
+      .map(({ family, weight, style }) => ({ family, weight, style }))
+  }
+
+  /** Registers fonts embedded in a project for this session; known faces are left alone. */
+  async installProjectFonts(fonts: CustomFontAsset[]) {
+    const faces = new Map<string, { face: FontDependency; files: FontFile[] }>()
+    for (const font of fonts) {
+      const face = { family: font.family, weight: normalizeWeight(font.weight), style: normalizeStyle(font.style) }
+      const key = variantKey(face.family, face)
+      if (this.faces.has(key)) continue
+      const entry = faces.get(key) ?? { face, files: [] }
+      entry.files.push({ data: font.data, unicodeRange: font.unicodeRange })
+      faces.set(key, entry)
+    }
+    await Promise.all(
+      Array.from(faces.values()).map(async ({ face, files }) => {
+        try {
+          await this.install(face, files, 'project')
+        } catch (error) {
+          console.warn(`Failed to load embedded font: ${face.family}`, error)
+        }
+      })
+    )
+    this.changed()
+  }
+
+  /** Loads the core families a project uses and returns the families that still cannot be drawn. */
+  async findMissing(dependencies: FontDependency[]): Promise<string[]> {
+    const families = Array.from(new Set(dependencies.map((dependency) => dependency.family)))
+    const available = await Promise.all(families.map((family) => this.ensureFamily(family)))
+    return families.filter((_, index) => !available[index])
+  }
+
+  /** Embeddable faces of the given families, as stored in project files. */
+  assets(families: Iterable<string>): CustomFontAsset[] {
+    const wanted = new Set(families)
+    return Array.from(this.faces.values())
+      .filter((face) => face.source !== 'system' && wanted.has(face.family))
+      .flatMap((face) =>
+        face.files.map((file) => ({
+          family: face.family,
+          weight: face.weight,
+          style: face.style,
+          data: file.data,
+          ...(file.unicodeRange ? { unicodeRange: file.unicodeRange } : {}),
+        }))
+      )
+  }
+
+  /** @font-face rules with the font files inlined, for SVG exports. */
+  fontFaceCss(families: Iterable<string>): string {
+    return this.assets(families)
+      .map(
+        (font) =>
+          `@font-face { font-family: '${font.family}'; font-weight: ${font.weight}; font-style: ${font.style}; src: url('${font.data}');${
+            font.unicodeRange ? ` unicode-range: ${font.unicodeRange};` : ''
+          } }`
+      )
+      .join('\n')
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private async install(face: FontDependency, files: FontFile[], source: FontSource) {
+    await Promise.all(files.map((file) => addFontFace(face.family, file, face)))
+    this.faces.set(variantKey(face.family, face), { family: face.family, weight: face.weight, style: face.style, source, files })
+  }
+
+  private async loadCoreFont(font: CoreFont): Promise<boolean> {
+    const results = await Promise.all(
+      font.variants.map(async (variant) => {
+        try {
+          const files = await Promise.all(
+            font.subsets.map(async (subset) => {
+              const response = await fetch(coreFontUrl(font, variant, subset))
+              if (!response.ok) throw new FontLoadError(`${font.family} ${subset} is not bundled`)
+              return { data: await readFileAsDataUrl(await response.blob()), unicodeRange: SUBSET_RANGES[subset] }
+            })
+          )
+          await this.install({ family: font.family, ...variant }, files, 'core')
+          return true
+        } catch {
+          return false
+        }
+      })
+    )
+    if (results.some(Boolean)) return true
+
+    const url = googleFontsUrl(font)
+    if (!url) return false
+    try {
+      await addStylesheet(url)
+      await Promise.all(font.variants.map((variant) => document.fonts.load(`${variant.style} ${variant.weight} 16px "${font.family}"`)))
+      font.variants.forEach((variant) =>
+        this.faces.set(variantKey(font.family, variant), { family: font.family, ...variant, source: 'core', files: [] })
+      )
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private changed() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const FontLibrary = new FontLibraryClass()
+
+registerLayerFlag({
+  id: 'missingFont',
+  label: 'Font',
+  title: "This layer's font is not available; click to upload it in the Text tool",
+  variant: 'destructive',
+  toolId: 'text',
+  applies: (object) => {
+    const { fontFamily } = object as fabric.Text
+    return typeof fontFamily === 'string' && !FontLibrary.isAvailable(fontFamily)
+  },
+})
@@ -0,0 +1,117 @@
+import type { JsonValue } from '@/store/history'
+
+// Fonts are tracked per face: a family plus a weight and a style, matching
+// how FontFace and CSS @font-face describe them. Weights are CSS numbers
+// as strings ('400', '700'); fabric's 'normal' and 'bold' map onto them.
+
+export interface FontVariant {
+  weight: string
+  style: FontStyle
+}
+
+export type FontStyle = 'normal' | 'italic'
+
+/** A face used by a project's text. */
+export interface FontDependency extends FontVariant {
+  family: string
+}
+
+const WEIGHT_NAMES: Record<string, string> = {
+  '100': 'Thin',
+  '200': 'Extra Light',
+  '300': 'Light',
+  '400': 'Regular',
+  '500': 'Medium',
+  '600': 'Semi Bold',
+  '700': 'Bold',
+  '800': 'Extra Bold',
+  '900': 'Black',
+}
+
+export function normalizeWeight(value: unknown): string {
+  if (value === 'bold') return '700'
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d{3}$/.test(value))) return String(value)
+  return '400'
+}
+
+export function normalizeStyle(value: unknown): FontStyle {
+  return value === 'italic' || value === 'oblique' ? 'italic' : 'normal'
+}
+
+export function variantKey(family: string, variant: FontVariant): string {
+  return `${family}:${variant.weight}:${variant.style}`
+}
+
+/** "Bold Italic" style name for a face. */
+export function variantLabel(variant: FontVariant): string {
+  const weight = WEIGHT_NAMES[variant.weight] ?? variant.weight
+  if (variant.style !== 'italic') return weight
+  return weight === 'Regular' ? 'Italic' : `${weight} Italic`
+}
+
+export function weightLabel(weight: string): string {
+  return WEIGHT_NAMES[weight] ?? weight
+}
+
+// Trailing style names in font file names, e.g. "Padauk-BoldItalic.ttf"
+const FILE_WEIGHTS: [RegExp, string][] = [
+  [/(?:extra|ultra)[-_ ]?light$/i, '200'],
+  [/(?:semi|demi)[-_ ]?bold$/i, '600'],
+  [/(?:extra|ultra)[-_ ]?bold$/i, '800'],
+  [/thin$/i, '100'],
+  [/light$/i, '300'],
+  [/(?:regular|normal|book)$/i, '400'],
+  [/medium$/i, '500'],
+  [/bold$/i, '700'],
+  [/(?:black|heavy)$/i, '900'],
+]
+
+/** Family, weight and style guessed from a font file's name. */
+export function parseFontFileName(fileName: string): FontDependency {
+  let name = fileName.replace(/\.[^/.]+$/, '')
+  let style: FontStyle = 'normal'
+  if (/[-_ ]?(?:italic|oblique)$/i.test(name)) {
+    style = 'italic'
+    name = name.replace(/[-_ ]?(?:italic|oblique)$/i, '')
+  }
+  let weight = '400'
+  for (const [pattern, value] of FILE_WEIGHTS) {
+    const match = name.match(new RegExp(`[-_ ]${pattern.source}`, 'i'))
+    if (match) {
+      weight = value
+      name = name.slice(0, match.index)
+      break
+    }
+  }
+  return { family: name.replace(/[-_]+/g, ' ').trim() || fileName, weight, style }
+}
+
+/**
+ * Faces used by text in canvas JSON, including per-character styles. A
+ * character style that only changes the family keeps its object's weight
+ * and style.
+ */
+export function collectFontDependencies(node: JsonValue): FontDependency[] {
+  const found = new Map<string, FontDependency>()
+
+  const visit = (value: JsonValue, inherited: FontVariant) => {
+    if (Array.isArray(value)) {
+      value.forEach((child) => visit(child, inherited))
+      return
+    }
+    if (value === null || typeof value !== 'object') return
+
+    const variant: FontVariant = {
+      weight: 'fontWeight' in value ? normalizeWeight(value.fontWeight) : inherited.weight,
+      style: 'fontStyle' in value ? normalizeStyle(value.fontStyle) : inherited.style,
+    }
+    if (typeof value.fontFamily === 'string' && value.fontFamily !== '') {
+      const dependency = { family: value.fontFamily, ...variant }
+      found.set(variantKey(dependency.family, dependency), dependency)
+    }
+    for (const child of Object.values(value)) visit(child, variant)
+  }
+
+  visit(node, { weight: '400', style: 'normal' })
+  return Array.from(found.values())
+}
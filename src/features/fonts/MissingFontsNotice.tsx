@@ -0,0 +1,20 @@
+import { useEffect } from 'react'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+
+/** Warns once per opened project about fonts its text needs but the editor lacks. */
+export const MissingFontsNotice: React.FC = () => {
+  const missingFonts = useEditorStore((state) => state.missingFonts)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (missingFonts.length === 0) return
+    toast({
+      title: missingFonts.length === 1 ? 'Missing font' : 'Missing fonts',
+      description: `${missingFonts.join(', ')} ${missingFonts.length === 1 ? 'is' : 'are'} not available, so a fallback font is shown. Upload ${missingFonts.length === 1 ? 'it' : 'them'} in the Text tool.`,
+      variant: 'destructive',
+    })
+  }, [missingFonts, toast])
+
+  return null
+}
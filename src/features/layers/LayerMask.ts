@@ -0,0 +1,190 @@
+import { fabric } from 'fabric'
+
+// A layer mask hides parts of an object without changing it: white shows,
+// black hides and greys are partly transparent. The mask is a grayscale PNG
+// data URL covering the object's own box (stroke included), so it follows
+// every move, scale and rotation. It is applied while the object renders
+// into its cache, which is why masked objects always cache; exports and
+// thumbnails render through the same path.
+
+export interface LayerMask {
+  // Grayscale PNG data URL
+  data: string
+  enabled: boolean
+}
+
+export interface MaskedObject extends fabric.Object {
+  layerMask?: LayerMask
+}
+
+export const LAYER_MASK_JSON_PROPERTIES = ['layerMask']
+
+// Masks are stored in the project, so large objects get a scaled-down mask
+export const MAX_LAYER_MASK_SIZE = 2048
+
+// Decoded masks keep the grey level in the alpha channel of a white canvas,
+// ready to be drawn with destination-in
+const decodedMasks: Map<string, HTMLCanvasElement | null> = new Map()
+const waitingObjects: Map<string, Set<fabric.Object>> = new Map()
+// Masks being painted, shown in place of the stored one until the stroke ends
+const liveMasks: WeakMap<fabric.Object, HTMLCanvasElement> = new WeakMap()
+
+function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D context is not available')
+  return ctx
+}
+
+/** The object's box in its own units; the mask is stretched over it. */
+export function maskBox(object: fabric.Object): { width: number; height: number } {
+  const dimensions = object._getNonTransformedDimensions()
+  return { width: Math.max(1, dimensions.x), height: Math.max(1, dimensions.y) }
+}
+
+/** A fully white (revealing) mask sized for `object`. */
+export function createLayerMaskCanvas(object: fabric.Object): HTMLCanvasElement {
+  const box = maskBox(object)
+  const scale = Math.min(1, MAX_LAYER_MASK_SIZE / Math.max(box.width, box.height))
+  const mask = document.createElement('canvas')
+  mask.width = Math.max(1, Math.round(box.width * scale))
+  mask.height = Math.max(1, Math.round(box.height * scale))
+  const ctx = context(mask)
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, mask.width, mask.height)
+  return mask
+}
+
+/** Converts a decoded mask to the grayscale PNG stored on the object. */
+export function encodeLayerMask(mask: HTMLCanvasElement): string {
+  const pixels = context(mask).getImageData(0, 0, mask.width, mask.height)
+  const { data } = pixels
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = data[i + 3]
+    data[i + 3] = 255
+  }
+  const gray = document.createElement('canvas')
+  gray.width = mask.width
+  gray.height = mask.height
+  context(gray).putImageData(pixels, 0, 0)
+  return gray.toDataURL('image/png')
+}
+
+function decodeImage(image: HTMLImageElement): HTMLCanvasElement {
+  const mask = document.createElement('canvas')
+  mask.width = image.naturalWidth
+  mask.height = image.naturalHeight
+  const ctx = context(mask)
+  ctx.drawImage(image, 0, 0)
+  const pixels = ctx.getImageData(0, 0, mask.width, mask.height)
+  const { data } = pixels
+  for (let i = 0; i < data.length; i += 4) {
+    data[i + 3] = data[i]
+    data[i] = data[i + 1] = data[i + 2] = 255
+  }
+  ctx.putImageData(pixels, 0, 0)
+  return mask
+}
+
+/** Seeds the cache with a mask the caller already has decoded. */
+export function primeLayerMask(url: string, mask: HTMLCanvasElement) {
+  decodedMasks.set(url, mask)
+}
+
+/** Decodes a stored mask, from the cache when possible. */
+export function loadLayerMask(url: string): Promise<HTMLCanvasElement> {
+  const cached = decodedMasks.get(url)
+  if (cached) return Promise.resolve(cached)
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const mask = decodeImage(image)
+      decodedMasks.set(url, mask)
+      resolve(mask)
+    }
+    image.onerror = () => reject(new Error('Layer mask could not be decoded'))
+    image.src = url
+  })
+}
+
+// Rendering is synchronous: objects whose mask is still decoding draw
+// unmasked and are redrawn once it is ready
+function getRenderMask(object: MaskedObject): HTMLCanvasElement | null {
+  const live = liveMasks.get(object)
+  if (live) return live
+  const url = object.layerMask?.data
+  if (!url) return null
+  const cached = decodedMasks.get(url)
+  if (cached) return cached
+  if (cached === null) {
+    waitingObjects.get(url)?.add(object)
+    return null
+  }
+
+  decodedMasks.set(url, null)
+  waitingObjects.set(url, new Set([object]))
+  loadLayerMask(url)
+    .then(() => {
+      waitingObjects.get(url)?.forEach((waiting) => {
+        waiting.dirty = true
+        waiting.canvas?.requestRenderAll()
+      })
+    })
+    .catch((error) => {
+      decodedMasks.delete(url)
+      console.error('Layer mask decoding failed:', error)
+    })
+    .finally(() => waitingObjects.delete(url))
+  return null
+}
+
+/** Shows `mask` on the object while it is being painted; null goes back to the stored mask. */
+export function setLiveLayerMask(object: fabric.Object, mask: HTMLCanvasElement | null) {
+  if (mask) liveMasks.set(object, mask)
+  else liveMasks.delete(object)
+  object.dirty = true
+}
+
+export function hasEnabledLayerMask(object: fabric.Object): boolean {
+  const mask = (object as MaskedObject).layerMask
+  return liveMasks.has(object) || Boolean(mask?.enabled && mask.data)
+}
+
+interface CachingObject extends MaskedObject {
+  _cacheContext?: CanvasRenderingContext2D | null
+}
+
+function drawLayerMask(object: CachingObject, ctx: CanvasRenderingContext2D) {
+  // Only ever composite into the object's own cache, never onto the scene
+  if (!hasEnabledLayerMask(object) || ctx !== object._cacheContext) return
+  const mask = getRenderMask(object)
+  if (!mask) return
+  const box = maskBox(object)
+  ctx.save()
+  ctx.globalCompositeOperation = 'destination-in'
+  ctx.drawImage(mask, -box.width / 2, -box.height / 2, box.width, box.height)
+  ctx.restore()
+}
+
+type DrawObject = (this: fabric.Object, ctx: CanvasRenderingContext2D, forClipping?: boolean) => void
+
+interface RenderPrototype {
+  drawObject: DrawObject
+  needsItsOwnCache: (this: fabric.Object) => boolean
+}
+
+function patchDrawObject(prototype: RenderPrototype) {
+  const drawObject = prototype.drawObject
+  prototype.drawObject = function (ctx, forClipping) {
+    drawObject.call(this, ctx, forClipping)
+    if (!forClipping) drawLayerMask(this, ctx)
+  }
+}
+
+const objectPrototype = fabric.Object.prototype as unknown as RenderPrototype
+const needsItsOwnCache = objectPrototype.needsItsOwnCache
+objectPrototype.needsItsOwnCache = function () {
+  return hasEnabledLayerMask(this) || needsItsOwnCache.call(this)
+}
+patchDrawObject(objectPrototype)
+// Groups draw their children in their own drawObject
+patchDrawObject(fabric.Group.prototype as unknown as RenderPrototype)
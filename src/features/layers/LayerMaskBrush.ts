@@ -0,0 +1,115 @@
+import { fabric } from 'fabric'
+import { createLayerMaskCanvas, loadLayerMask, maskBox, setLiveLayerMask, type MaskedObject } from './LayerMask'
+import { storeLayerMask } from './LayerMaskEdits'
+
+export type MaskPaint = 'hide' | 'reveal'
+
+export interface MaskBrushState {
+  paint: MaskPaint
+  // Diameter in document pixels
+  size: number
+  // 0-100; how much of the radius is fully opaque
+  hardness: number
+  // 0-100; opacity of each dab
+  strength: number
+}
+
+// Dabs are placed this fraction of the brush size apart
+const DAB_SPACING = 0.2
+
+class MaskBrushClass {
+  private listeners: Set<() => void> = new Set()
+  private state: MaskBrushState = { paint: 'hide', size: 40, hardness: 50, strength: 100 }
+
+  getState(): MaskBrushState {
+    return this.state
+  }
+
+  setState(partial: Partial<MaskBrushState>) {
+    this.state = { ...this.state, ...partial }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
+
+export const MaskBrush = new MaskBrushClass()
+
+// A stroke paints on a copy of the mask; the object shows the copy until
+// the stroke ends and is stored as one history step
+export interface MaskStroke {
+  object: fabric.Object
+  mask: HTMLCanvasElement
+  ctx: CanvasRenderingContext2D
+  last: fabric.Point
+  added: boolean
+}
+
+function paintDab(stroke: MaskStroke, point: fabric.Point) {
+  const { object, mask, ctx } = stroke
+  const { paint, size, hardness, strength } = MaskBrush.getState()
+  const matrix = object.calcTransformMatrix()
+  const local = fabric.util.transformPoint(point, fabric.util.invertTransform(matrix))
+  const box = maskBox(object)
+  const scaleX = mask.width / box.width
+  const scaleY = mask.height / box.height
+  // Brush radius in mask pixels along each of the object's axes
+  const radiusX = (size / 2 / Math.hypot(matrix[0], matrix[1])) * scaleX
+  const radiusY = (size / 2 / Math.hypot(matrix[2], matrix[3])) * scaleY
+
+  ctx.save()
+  ctx.translate((local.x + box.width / 2) * scaleX, (local.y + box.height / 2) * scaleY)
+  ctx.scale(radiusX, radiusY)
+  const alpha = strength / 100
+  const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, 1)
+  gradient.addColorStop(0, `rgba(255, 255, 255, ${alpha})`)
+  gradient.addColorStop(Math.min(hardness / 100, 0.99), `rgba(255, 255, 255, ${alpha})`)
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)')
+  ctx.globalCompositeOperation = paint === 'hide' ? 'destination-out' : 'source-over'
+  ctx.fillStyle = gradient
+  ctx.beginPath()
+  ctx.arc(0, 0, 1, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.restore()
+}
+
+/** Paints dabs from the last point to `point`. */
+export function continueMaskStroke(stroke: MaskStroke, point: fabric.Point) {
+  const step = Math.max(1, MaskBrush.getState().size * DAB_SPACING)
+  const distance = stroke.last.distanceFrom(point)
+  if (distance < step) return
+  for (let travelled = step; travelled <= distance; travelled += step) {
+    paintDab(stroke, stroke.last.lerp(point, travelled / distance))
+  }
+  stroke.last = stroke.last.lerp(point, (Math.floor(distance / step) * step) / distance)
+  stroke.object.canvas?.requestRenderAll()
+}
+
+/** Copies the object's mask (adding one if needed) and paints the first dab. */
+export async function startMaskStroke(object: fabric.Object, point: fabric.Point): Promise<MaskStroke | null> {
+  const stored = (object as MaskedObject).layerMask
+  const source = stored ? await loadLayerMask(stored.data) : createLayerMaskCanvas(object)
+  const mask = document.createElement('canvas')
+  mask.width = source.width
+  mask.height = source.height
+  const ctx = mask.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(source, 0, 0)
+  if (stored && !stored.enabled) (object as MaskedObject).layerMask = { ...stored, enabled: true }
+  // Painting on a layer without a mask gives it one
+  if (!stored) (object as MaskedObject).layerMask = { data: '', enabled: true }
+
+  const stroke: MaskStroke = { object, mask, ctx, last: point, added: !stored }
+  setLiveLayerMask(object, mask)
+  paintDab(stroke, point)
+  object.canvas?.requestRenderAll()
+  return stroke
+}
+
+/** Stores the painted mask on the object; the caller records history. */
+export function finishMaskStroke(stroke: MaskStroke) {
+  storeLayerMask(stroke.object, stroke.mask)
+}
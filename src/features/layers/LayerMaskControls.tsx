@@ -0,0 +1,59 @@
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { useEditorStore } from '@/store/editorStore'
+import type { LayerObject } from './LayerModel'
+import {
+  addLayerMask,
+  applyLayerMask,
+  canApplyLayerMask,
+  deleteLayerMask,
+  invertLayerMask,
+  setLayerMaskEnabled,
+} from './LayerMaskEdits'
+
+// Mask actions for the active layer, shared by the layers panel and the
+// mask brush options
+export const LayerMaskControls: React.FC = () => {
+  const { activeObject, layers } = useEditorStore()
+  const layer = layers.find((info) => info.id === (activeObject as LayerObject | null)?.layerId)
+
+  if (!activeObject || !layer) return null
+
+  if (!layer.hasMask) {
+    return (
+      <Button size="sm" variant="outline" className="w-full" onClick={() => addLayerMask(activeObject)}>
+        Add Layer Mask
+      </Button>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={layer.maskEnabled}
+          onChange={(e) => setLayerMaskEnabled(activeObject, e.target.checked)}
+        />
+        Mask enabled
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        <Button size="sm" variant="outline" onClick={() => invertLayerMask(activeObject)}>
+          Invert
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => canApplyLayerMask(activeObject) && applyLayerMask(activeObject)}
+          disabled={!canApplyLayerMask(activeObject)}
+          title={canApplyLayerMask(activeObject) ? 'Bake the mask into the image' : 'Only image layers can apply a mask'}
+        >
+          Apply
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => deleteLayerMask(activeObject)}>
+          Delete
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { applyAdjustments } from '@/features/adjustments/AdjustmentStack'
+import { SelectionController } from '@/features/selection/SelectionController'
+import { maskInObjectSpace } from '@/features/selection/SelectionMask'
+import {
+  createLayerMaskCanvas,
+  encodeLayerMask,
+  loadLayerMask,
+  maskBox,
+  primeLayerMask,
+  setLiveLayerMask,
+  type MaskedObject,
+} from './LayerMask'
+
+// Layer mask edits. Each one stores the mask back on the object as a PNG
+// and records a single history step.
+
+function save(action: string) {
+  const { saveToHistory, syncLayers } = useEditorStore.getState()
+  saveToHistory(action)
+  syncLayers()
+}
+
+/** Stores a decoded mask on the object without recording history. */
+export function storeLayerMask(object: fabric.Object, mask: HTMLCanvasElement, enabled = true) {
+  const url = encodeLayerMask(mask)
+  primeLayerMask(url, mask)
+  ;(object as MaskedObject).layerMask = { data: url, enabled }
+  setLiveLayerMask(object, null)
+  object.canvas?.requestRenderAll()
+}
+
+// The pixel selection mapped onto the object's mask box
+function selectionMask(object: fabric.Object, size: HTMLCanvasElement): HTMLCanvasElement | null {
+  const selection = SelectionController.getMask()
+  if (!selection) return null
+  const box = maskBox(object)
+  const offset = { x: (box.width - (object.width ?? 0)) / 2, y: (box.height - (object.height ?? 0)) / 2 }
+  return maskInObjectSpace(selection, object, box.width, box.height, offset, size.width / box.width)
+}
+
+/** Adds a mask revealing the whole object, or only the pixel selection if there is one. */
+export function addLayerMask(object: fabric.Object) {
+  const blank = createLayerMaskCanvas(object)
+  storeLayerMask(object, selectionMask(object, blank) ?? blank)
+  save('Add layer mask')
+}
+
+export function setLayerMaskEnabled(object: fabric.Object, enabled: boolean) {
+  const mask = (object as MaskedObject).layerMask
+  if (!mask) return
+  ;(object as MaskedObject).layerMask = { ...mask, enabled }
+  object.dirty = true
+  object.canvas?.requestRenderAll()
+  save(enabled ? 'Enable layer mask' : 'Disable layer mask')
+}
+
+export async function invertLayerMask(object: fabric.Object) {
+  const stored = (object as MaskedObject).layerMask
+  if (!stored) return
+  const source = await loadLayerMask(stored.data)
+  const inverted = document.createElement('canvas')
+  inverted.width = source.width
+  inverted.height = source.height
+  const ctx = inverted.getContext('2d')
+  if (!ctx) return
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, inverted.width, inverted.height)
+  ctx.globalCompositeOperation = 'destination-out'
+  ctx.drawImage(source, 0, 0)
+  storeLayerMask(object, inverted, stored.enabled)
+  save('Invert layer mask')
+}
+
+export function deleteLayerMask(object: fabric.Object) {
+  if (!(object as MaskedObject).layerMask) return
+  delete (object as MaskedObject).layerMask
+  object.dirty = true
+  object.canvas?.requestRenderAll()
+  save('Delete layer mask')
+}
+
+/** Only image pixels can absorb a mask; other layers keep theirs live. */
+export function canApplyLayerMask(object: fabric.Object | null): object is fabric.Image {
+  return object instanceof fabric.Image && Boolean((object as MaskedObject).layerMask)
+}
+
+/** Makes the masked-out pixels of an image transparent and removes the mask. */
+export async function applyLayerMask(image: fabric.Image) {
+  const stored = (image as MaskedObject).layerMask
+  if (!stored) return
+  const mask = await loadLayerMask(stored.data)
+  const element =
+    (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })._originalElement ??
+    (image.getElement() as HTMLImageElement)
+  const { width, height } = image.getOriginalSize()
+  const pixels = document.createElement('canvas')
+  pixels.width = width
+  pixels.height = height
+  const ctx = pixels.getContext('2d')
+  if (!ctx) return
+  ctx.drawImage(element, 0, 0)
+  // The mask box starts half a stroke before the image's visible area
+  const box = maskBox(image)
+  ctx.globalCompositeOperation = 'destination-in'
+  ctx.drawImage(
+    mask,
+    (image.cropX ?? 0) - (box.width - (image.width ?? 0)) / 2,
+    (image.cropY ?? 0) - (box.height - (image.height ?? 0)) / 2,
+    box.width,
+    box.height
+  )
+
+  delete (image as MaskedObject).layerMask
+  image.setElement(pixels as unknown as HTMLImageElement)
+  applyAdjustments(image)
+  save('Apply layer mask')
+}
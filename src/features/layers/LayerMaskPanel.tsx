@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { cn } from '@/lib/utils'
+import { MaskBrush, type MaskPaint } from './LayerMaskBrush'
+import { LayerMaskControls } from './LayerMaskControls'
+
+const PAINTS: { id: MaskPaint; label: string }[] = [
+  { id: 'hide', label: 'Hide (black)' },
+  { id: 'reveal', label: 'Reveal (white)' },
+]
+
+export const LayerMaskPanel: React.FC = () => {
+  const [state, setState] = useState(MaskBrush.getState())
+  const activeObject = useEditorStore((store) => store.activeObject)
+
+  useEffect(() => MaskBrush.subscribe(() => setState(MaskBrush.getState())), [])
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">Layer Mask</h3>
+
+      {!activeObject && (
+        <p className="text-xs text-muted-foreground">Select a layer, then paint on the canvas to edit its mask.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-1">
+        {PAINTS.map((paint) => (
+          <button
+            key={paint.id}
+            className={cn(
+              'rounded border px-1 py-1 text-xs',
+              state.paint === paint.id ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+            )}
+            onClick={() => MaskBrush.setState({ paint: paint.id })}
+          >
+            {paint.label}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Size: {state.size}px</label>
+        <Slider
+          value={[state.size]}
+          onValueChange={(value) => MaskBrush.setState({ size: value[0] })}
+          min={1}
+          max={300}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Hardness: {state.hardness}%</label>
+        <Slider
+          value={[state.hardness]}
+          onValueChange={(value) => MaskBrush.setState({ hardness: value[0] })}
+          min={0}
+          max={100}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Strength: {state.strength}%</label>
+        <Slider
+          value={[state.strength]}
+          onValueChange={(value) => MaskBrush.setState({ strength: value[0] })}
+          min={1}
+          max={100}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <LayerMaskControls />
+    </div>
+  )
+}
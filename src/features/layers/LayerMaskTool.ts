@@ -0,0 +1,84 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import type { ToolDefinition } from '@/features/tools/ToolRegistry'
+import { continueMaskStroke, finishMaskStroke, startMaskStroke, type MaskStroke } from './LayerMaskBrush'
+import { LayerMaskPanel } from './LayerMaskPanel'
+
+// The mask brush paints the active layer's mask. The layer stays active
+// while painting, and each stroke is one undo step.
+
+function createMaskBrushTool(): ToolDefinition {
+  let layer: fabric.Object | null = null
+  let stroke: Promise<MaskStroke | null> | null = null
+  const rememberLayer = (event: fabric.IEvent) => {
+    layer = (event as fabric.IEvent & { selected?: fabric.Object[] }).selected?.[0] ?? null
+  }
+  const currentLayer = (canvas: fabric.Canvas) => {
+    if (layer && !canvas.getObjects().includes(layer)) layer = null
+    if (layer && canvas.getActiveObject() !== layer) {
+      canvas.setActiveObject(layer)
+      canvas.requestRenderAll()
+    }
+    return layer
+  }
+  const pointer = (canvas: fabric.Canvas, event: fabric.IEvent) => {
+    const { x, y } = canvas.getPointer(event.e)
+    return new fabric.Point(x, y)
+  }
+
+  return {
+    id: 'layer-mask',
+    name: 'Mask Brush',
+    icon: 'Paintbrush',
+    category: 'drawing',
+    description: 'Paint the selected layer’s mask to hide or reveal it',
+    shortcut: 'K',
+    component: LayerMaskPanel,
+    handler: {
+      activate: (canvas) => {
+        canvas.isDrawingMode = false
+        canvas.selection = false
+        canvas.skipTargetFind = true
+        canvas.defaultCursor = 'crosshair'
+        const active = canvas.getActiveObject()
+        layer = active && active.type !== 'activeSelection' ? active : null
+        canvas.on('selection:created', rememberLayer)
+        canvas.on('selection:updated', rememberLayer)
+      },
+      deactivate: (canvas) => {
+        canvas.off('selection:created', rememberLayer)
+        canvas.off('selection:updated', rememberLayer)
+        canvas.selection = true
+        canvas.skipTargetFind = false
+        canvas.defaultCursor = 'default'
+      },
+      onMouseDown: (canvas, event) => {
+        const object = currentLayer(canvas)
+        if (!object || stroke) return
+        const started: Promise<MaskStroke | null> = startMaskStroke(object, pointer(canvas, event)).catch((error) => {
+          console.error('Mask stroke failed:', error)
+          if (stroke === started) stroke = null
+          return null
+        })
+        stroke = started
+      },
+      onMouseMove: (canvas, event) => {
+        const point = pointer(canvas, event)
+        stroke?.then((current) => current && continueMaskStroke(current, point))
+      },
+      onMouseUp: () => {
+        const finished = stroke
+        stroke = null
+        finished?.then((current) => {
+          if (!current) return
+          finishMaskStroke(current)
+          const { saveToHistory, syncLayers } = useEditorStore.getState()
+          saveToHistory(current.added ? 'Add layer mask' : 'Paint layer mask')
+          syncLayers()
+        })
+      },
+    },
+  }
+}
+
+export const layerMaskTools: ToolDefinition[] = [createMaskBrushTool()]
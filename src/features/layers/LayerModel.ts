@@ -0,0 +1,192 @@
+import type { fabric } from 'fabric'
+import type { JsonValue, PatchOp } from '@/store/history'
+import { generateId } from '@/lib/utils'
+import type { MaskedObject } from './LayerMask'
+
+// Every canvas object doubles as a layer. Identity and lock state are kept
+// as custom properties on the fabric object so they travel with the canvas
+// JSON through history, project files and the library.
+export interface LayerObject extends fabric.Object {
+  layerId?: string
+  layerName?: string
+  locked?: boolean
+}
+
+export interface LayerInfo {
+  id: string
+  name: string
+  type: string
+  visible: boolean
+  locked: boolean
+  opacity: number
+  blendMode: BlendMode
+  hasMask: boolean
+  maskEnabled: boolean
+  // Ids of the layer flags that apply, e.g. Zawgyi text or a missing font
+  flags: string[]
+}
+
+/**
+ * A badge a feature shows on the layers it applies to, e.g. text that needs
+ * converting. Clicking the badge opens `toolId`, whose options resolve it.
+ */
+export interface LayerFlag {
+  id: string
+  label: string
+  title: string
+  variant: 'warning' | 'destructive'
+  toolId?: string
+  applies: (object: fabric.Object) => boolean
+}
+
+const layerFlags: Map<string, LayerFlag> = new Map()
+
+export function registerLayerFlag(flag: LayerFlag) {
+  layerFlags.set(flag.id, flag)
+}
+
+export function getLayerFlag(id: string): LayerFlag | undefined {
+  return layerFlags.get(id)
+}
+
+// Blend modes are canvas composite operations, so the editor, exports and
+// thumbnails all blend the same way
+export type BlendMode =
+  | 'source-over'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity'
+
+export const BLEND_MODES: { id: BlendMode; label: string }[] = [
+  { id: 'source-over', label: 'Normal' },
+  { id: 'multiply', label: 'Multiply' },
+  { id: 'screen', label: 'Screen' },
+  { id: 'overlay', label: 'Overlay' },
+  { id: 'darken', label: 'Darken' },
+  { id: 'lighten', label: 'Lighten' },
+  { id: 'color-dodge', label: 'Color Dodge' },
+  { id: 'color-burn', label: 'Color Burn' },
+  { id: 'hard-light', label: 'Hard Light' },
+  { id: 'soft-light', label: 'Soft Light' },
+  { id: 'difference', label: 'Difference' },
+  { id: 'exclusion', label: 'Exclusion' },
+  { id: 'hue', label: 'Hue' },
+  { id: 'saturation', label: 'Saturation' },
+  { id: 'color', label: 'Color' },
+  { id: 'luminosity', label: 'Luminosity' },
+]
+
+export function getBlendMode(object: fabric.Object): BlendMode {
+  const mode = object.globalCompositeOperation
+  return BLEND_MODES.some((blend) => blend.id === mode) ? (mode as BlendMode) : 'source-over'
+}
+
+export const LAYER_JSON_PROPERTIES = ['layerId', 'layerName', 'locked', 'selectable', 'evented']
+
+const TYPE_LABELS: Record<string, string> = {
+  'i-text': 'Text',
+  textbox: 'Text',
+  text: 'Text',
+  image: 'Image',
+  rect: 'Rectangle',
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  triangle: 'Triangle',
+  line: 'Line',
+  polygon: 'Polygon',
+  polyline: 'Polyline',
+  path: 'Drawing',
+  group: 'Group',
+}
+
+export function getLayerTypeLabel(type: string | undefined): string {
+  return (type && TYPE_LABELS[type]) || 'Object'
+}
+
+/** Tool overlays (crop frames, guides) live on the canvas but are not layers. */
+export function isHelperObject(object: fabric.Object): boolean {
+  return object.excludeFromExport === true
+}
+
+/** Gives a freshly added object a stable id and a readable default name. */
+export function ensureLayerIdentity(canvas: fabric.Canvas, object: fabric.Object) {
+  const layer = object as LayerObject
+  if (!layer.layerId) {
+    layer.layerId = generateId()
+  }
+  if (!layer.layerName) {
+    layer.layerName = nextLayerName(canvas, getLayerTypeLabel(object.type))
+  }
+}
+
+/** Numbered default name, e.g. 'Rectangle 3'. Tools may pass their own label. */
+export function nextLayerName(canvas: fabric.Canvas, label: string): string {
+  const count = canvas
+    .getObjects()
+    .filter((o) => !isHelperObject(o) && (o as LayerObject).layerName?.startsWith(`${label} `)).length
+  return `${label} ${count + 1}`
+}
+
+export function findLayerObject(canvas: fabric.Canvas, id: string): LayerObject | undefined {
+  return canvas.getObjects().find((o) => (o as LayerObject).layerId === id) as LayerObject | undefined
+}
+
+export function applyLayerLock(object: fabric.Object, locked: boolean) {
+  const layer = object as LayerObject
+  layer.set({ selectable: !locked, evented: !locked })
+  layer.locked = locked
+}
+
+/** Ids of the layers a history patch changes, read from the canvas snapshot it applies to. */
+export function layersChangedBy(snapshot: JsonValue, ops: PatchOp[]): Set<string> {
+  const objects = (snapshot as { objects?: JsonValue[] } | null)?.objects ?? []
+  const ids = new Set<string>()
+  for (const op of ops) {
+    if (op.path[0] !== 'objects') continue
+    // Changes to the list itself may shift every layer
+    const indices = typeof op.path[1] === 'number' ? [op.path[1]] : objects.map((_, index) => index)
+    for (const index of indices) {
+      const id = (objects[index] as { layerId?: JsonValue } | undefined)?.layerId
+      if (typeof id === 'string') ids.add(id)
+    }
+  }
+  return ids
+}
+
+/** Layer list in panel order: topmost object first. */
+export function describeLayers(canvas: fabric.Canvas): LayerInfo[] {
+  return canvas
+    .getObjects()
+    .filter((object) => !isHelperObject(object))
+    .map((object) => {
+      const layer = object as LayerObject & MaskedObject
+      return {
+        id: layer.layerId ?? '',
+        name: layer.layerName ?? getLayerTypeLabel(object.type),
+        type: object.type ?? 'object',
+        visible: object.visible !== false,
+        locked: layer.locked === true,
+        opacity: object.opacity ?? 1,
+        blendMode: getBlendMode(object),
+        hasMask: Boolean(layer.layerMask),
+        maskEnabled: layer.layerMask?.enabled === true,
+        flags: Array.from(layerFlags.values())
+          .filter((flag) => flag.applies(object))
+          .map((flag) => flag.id),
+      }
+    })
+    .filter((layer) => layer.id !== '')
+    .reverse()
+}
@@ -0,0 +1,240 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { ToolRegistry } from '@/features/tools/ToolRegistry'
+import { useLayerThumbnails } from '@/hooks/use-layer-thumbnails'
+import { cn } from '@/lib/utils'
+import { ArrowDown, ArrowUp, Eye, EyeOff, Lock, Unlock } from 'lucide-react'
+import { BLEND_MODES, getLayerFlag, type BlendMode, type LayerFlag, type LayerObject } from './LayerModel'
+import { LayerMaskControls } from './LayerMaskControls'
+
+const THUMBNAIL_SIZE = 40
+
+const FLAG_STYLES: Record<LayerFlag['variant'], string> = {
+  warning: 'border-amber-400 text-amber-700 dark:text-amber-300',
+  destructive: 'border-destructive text-destructive',
+}
+
+export const LayersPanel: React.FC = () => {
+  const {
+    canvas,
+    layers,
+    activeObject,
+    selectLayer,
+    renameLayer,
+    setLayerVisibility,
+    setLayerLocked,
+    setLayerOpacity,
+    setLayerBlendMode,
+    moveLayer,
+    bringForward,
+    sendBackward
+  } = useEditorStore()
+
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const activeId = (activeObject as LayerObject | null)?.layerId ?? null
+  const activeLayer = layers.find((layer) => layer.id === activeId)
+
+  const thumbnails = useLayerThumbnails(THUMBNAIL_SIZE)
+
+  const commitRename = (id: string) => {
+    const name = editingName.trim()
+    setEditingId(null)
+    if (name) renameLayer(id, name)
+  }
+
+  // Flags are resolved in a tool's options, e.g. encoding conversion in the text tool
+  const openInTool = (id: string, toolId?: string) => {
+    if (canvas && toolId) ToolRegistry.activateTool(toolId, canvas)
+    selectLayer(id)
+  }
+
+  const handleDrop = (index: number) => {
+    if (draggedId) moveLayer(draggedId, index)
+    setDraggedId(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm">Layers</h3>
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={bringForward}
+            disabled={!activeObject}
+            aria-label="Bring Forward"
+            title="Bring Forward"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={sendBackward}
+            disabled={!activeObject}
+            aria-label="Send Backward"
+            title="Send Backward"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {layers.length === 0 && (
+        <p className="text-xs text-gray-500 text-center py-4">No layers yet</p>
+      )}
+
+      <ul className="space-y-1">
+        {layers.map((layer, index) => (
+          <li
+            key={layer.id}
+            draggable={editingId !== layer.id}
+            onDragStart={() => setDraggedId(layer.id)}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDropIndex(index)
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => {
+              setDraggedId(null)
+              setDropIndex(null)
+            }}
+            onClick={() => selectLayer(layer.id)}
+            className={cn(
+              'flex items-center gap-2 p-1 rounded-md border cursor-pointer select-none',
+              layer.id === activeId ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20' : 'border-transparent hover:bg-gray-100 dark:hover:bg-gray-800',
+              dropIndex === index && draggedId !== layer.id && 'border-t-2 border-t-blue-500',
+              !layer.visible && 'opacity-50'
+            )}
+          >
+            <div
+              className="flex-shrink-0 bg-gray-100 dark:bg-gray-700 rounded flex items-center justify-center overflow-hidden"
+              style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+            >
+              {thumbnails[layer.id] && (
+                <img src={thumbnails[layer.id]} alt="" className="max-w-full max-h-full" />
+              )}
+            </div>
+
+            {editingId === layer.id ? (
+              <Input
+                autoFocus
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={() => commitRename(layer.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(layer.id)
+                  if (e.key === 'Escape') setEditingId(null)
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="h-7 text-xs"
+              />
+            ) : (
+              <span
+                className="flex-1 text-sm truncate"
+                onDoubleClick={() => {
+                  setEditingId(layer.id)
+                  setEditingName(layer.name)
+                }}
+                title="Double-click to rename"
+              >
+                {layer.name}
+              </span>
+            )}
+
+            {layer.hasMask && (
+              <span
+                className={cn('text-[10px] px-1 rounded border', !layer.maskEnabled && 'line-through text-gray-400')}
+                title={layer.maskEnabled ? 'Layer mask' : 'Layer mask (disabled)'}
+              >
+                Mask
+              </span>
+            )}
+
+            {layer.flags.map((flagId) => {
+              const flag = getLayerFlag(flagId)
+              if (!flag) return null
+              return (
+                <button
+                  key={flag.id}
+                  className={cn('text-[10px] px-1 rounded border', FLAG_STYLES[flag.variant])}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    openInTool(layer.id, flag.toolId)
+                  }}
+                  title={flag.title}
+                >
+                  {flag.label}
+                </button>
+              )
+            })}
+
+            <button
+              className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+              onClick={(e) => {
+                e.stopPropagation()
+                setLayerVisibility(layer.id, !layer.visible)
+              }}
+              aria-label={layer.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {layer.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            </button>
+            <button
+              className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+              onClick={(e) => {
+                e.stopPropagation()
+                setLayerLocked(layer.id, !layer.locked)
+              }}
+              aria-label={layer.locked ? 'Unlock layer' : 'Lock layer'}
+            >
+              {layer.locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {activeLayer && (
+        <div className="space-y-3">
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Blend mode</label>
+            <select
+              value={activeLayer.blendMode}
+              onChange={(e) => setLayerBlendMode(activeLayer.id, e.target.value as BlendMode)}
+              className="w-full p-2 border rounded-md bg-background text-sm"
+            >
+              {BLEND_MODES.map((mode) => (
+                <option key={mode.id} value={mode.id}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">
+              Opacity: {Math.round(activeLayer.opacity * 100)}%
+            </label>
+            <Slider
+              value={[activeLayer.opacity * 100]}
+              onValueChange={(value) => setLayerOpacity(activeLayer.id, value[0] / 100)}
+              min={0}
+              max={100}
+              step={1}
+              className="w-full"
+            />
+          </div>
+          <LayerMaskControls />
+        </div>
+      )}
+    </div>
+  )
+}
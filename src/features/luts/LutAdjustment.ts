@@ -0,0 +1,69 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { ToolPresets, type PresetState } from '@/features/tools/ToolPresets'
+import { defineFilter } from '@/features/adjustments/AdjustmentFilters'
+import { registerAdjustment } from '@/features/adjustments/AdjustmentModel'
+import { applyAdjustments, getAdjustments } from '@/features/adjustments/AdjustmentStack'
+import { LutEditor } from './LutEditor'
+import { LutLibrary } from './LutLibrary'
+import { applyLut } from './LutModel'
+
+export const LUT_PRESET_CATEGORY = 'luts'
+
+export interface LutFilterOptions {
+  lutId: string
+  intensity: number
+}
+
+// Serializes only the LUT id; the table is looked up in the library, and
+// the filter is a no-op until that LUT is available.
+export const LutFilter = defineFilter<LutFilterOptions>('Lut3D', { lutId: '', intensity: 1 }, function (imageData) {
+  const lut = LutLibrary.get(this.lutId)
+  if (lut && this.intensity > 0) applyLut(imageData, lut, this.intensity)
+})
+
+registerAdjustment({
+  type: 'lut',
+  label: 'LUT',
+  params: [{ key: 'intensity', label: 'Intensity', min: 0, max: 100, step: 1, defaultValue: 100 }],
+  defaultData: { lutId: '', name: '' },
+  createFilters: ({ intensity }, { lutId }) =>
+    typeof lutId === 'string' && lutId ? [new LutFilter({ lutId, intensity: intensity / 100 })] : [],
+  editor: LutEditor,
+})
+
+// One preset per loaded LUT, applied as a full-strength adjustment
+function syncLutPresets() {
+  const presets: PresetState[] = LutLibrary.list().map((lut) => ({
+    id: lut.id,
+    name: lut.name,
+    settings: {
+      adjustments: [{ type: 'lut', params: { intensity: 100 }, data: { lutId: lut.id, name: lut.name } }],
+    },
+    createdAt: Date.now(),
+  }))
+  ToolPresets.registerCategory({
+    id: LUT_PRESET_CATEGORY,
+    name: 'LUTs',
+    description: 'Imported 3D LUTs (.cube)',
+    presets,
+  })
+}
+
+// Images may have loaded before their LUT did; re-run their filters
+function refreshLutImages() {
+  const canvas = useEditorStore.getState().canvas
+  canvas?.getObjects().forEach((object) => {
+    if (object instanceof fabric.Image && getAdjustments(object).some((adjustment) => adjustment.type === 'lut')) {
+      applyAdjustments(object)
+    }
+  })
+}
+
+// Imports, deletions and LUTs from opened projects
+LutLibrary.subscribe(() => {
+  syncLutPresets()
+  refreshLutImages()
+})
+
+LutLibrary.load().catch((error) => console.warn('Failed to load LUTs:', error))
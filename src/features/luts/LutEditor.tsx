@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { toast } from '@/hooks/use-toast'
+import { AdjustmentSliders } from '@/features/adjustments/AdjustmentSliders'
+import { getAdjustmentDefinition, type AdjustmentEditorProps } from '@/features/adjustments/AdjustmentModel'
+import { updateAdjustmentData } from '@/features/adjustments/AdjustmentStack'
+import { Trash2, Upload } from 'lucide-react'
+import { LutLibrary } from './LutLibrary'
+
+export const LutEditor: React.FC<AdjustmentEditorProps> = ({ image, adjustment }) => {
+  const [luts, setLuts] = useState(LutLibrary.list())
+  const fileInput = useRef<HTMLInputElement>(null)
+  const lutId = typeof adjustment.data?.lutId === 'string' ? adjustment.data.lutId : ''
+  const savedName = typeof adjustment.data?.name === 'string' ? adjustment.data.name : ''
+  const missing = lutId !== '' && !luts.some((lut) => lut.id === lutId)
+
+  useEffect(() => LutLibrary.subscribe(() => setLuts(LutLibrary.list())), [])
+
+  const selectLut = (id: string) => {
+    const lut = LutLibrary.get(id)
+    updateAdjustmentData(image, adjustment.id, { lutId: id, name: lut?.name ?? '' })
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const lut = await LutLibrary.import(file)
+      selectLut(lut.id)
+      toast({ title: 'LUT Imported', description: `${lut.name} (${lut.size}³)` })
+    } catch (error) {
+      console.error('Failed to import LUT:', error)
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'Could not read the LUT file',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!lutId || missing) return
+    try {
+      await LutLibrary.remove(lutId)
+    } catch (error) {
+      console.error('Failed to delete LUT:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        <select
+          value={missing ? '' : lutId}
+          onChange={(e) => selectLut(e.target.value)}
+          disabled={!adjustment.enabled}
+          className="flex-1 min-w-0 p-1.5 border rounded-md bg-background text-sm"
+        >
+          <option value="">{luts.length > 0 ? 'Choose a LUT' : 'No LUTs imported'}</option>
+          {luts.map((lut) => (
+            <option key={lut.id} value={lut.id}>
+              {lut.name} ({lut.size}³)
+            </option>
+          ))}
+        </select>
+        <Button size="sm" variant="outline" onClick={() => fileInput.current?.click()} aria-label="Import .cube LUT">
+          <Upload className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleDelete}
+          disabled={!lutId || missing}
+          aria-label="Delete LUT from library"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+        <input ref={fileInput} type="file" accept=".cube" className="hidden" onChange={handleImport} />
+      </div>
+
+      {missing && (
+        <p className="text-xs text-amber-600">
+          LUT “{savedName || lutId}” is not in this browser&apos;s library. Import it again to apply it.
+        </p>
+      )}
+
+      <AdjustmentSliders
+        image={image}
+        adjustment={adjustment}
+        params={getAdjustmentDefinition(adjustment.type)?.params ?? []}
+      />
+    </div>
+  )
+}
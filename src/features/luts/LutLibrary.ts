@@ -0,0 +1,91 @@
+import { idbDelete, idbGetAll, idbPut, STORES } from '@/lib/idb'
+import { generateId } from '@/lib/utils'
+import type { ProjectLut } from '@/features/project/ProjectFile'
+import { decodeLutTable, encodeLutTable, parseCubeFile, type Lut3D } from './LutModel'
+
+// Imported LUTs live in IndexedDB so every project can use them. Images only
+// reference a LUT by id; the tables stay in memory once loaded. LUTs that
+// come embedded in a project are kept for the session only.
+class LutLibraryClass {
+  private luts: Map<string, Lut3D> = new Map()
+  private listeners: Set<() => void> = new Set()
+  private loading: Promise<void> | null = null
+
+  /** Reads the stored LUTs once; later calls return the same promise. */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = idbGetAll<Lut3D>(STORES.luts)
+        .then((luts) => {
+          luts.forEach((lut) => this.luts.set(lut.id, lut))
+          this.changed()
+        })
+        .catch((error) => {
+          this.loading = null
+          throw error
+        })
+    }
+    return this.loading
+  }
+
+  get(id: string): Lut3D | undefined {
+    return this.luts.get(id)
+  }
+
+  list(): Lut3D[] {
+    return Array.from(this.luts.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /** Parses and stores a .cube file. Throws LutParseError for bad files. */
+  async import(file: File): Promise<Lut3D> {
+    const parsed = parseCubeFile(await file.text(), file.name.replace(/\.cube$/i, ''))
+    const lut: Lut3D = { ...parsed, id: generateId() }
+    await idbPut(STORES.luts, lut.id, lut)
+    this.luts.set(lut.id, lut)
+    this.changed()
+    return lut
+  }
+
+  async remove(id: string) {
+    await idbDelete(STORES.luts, id)
+    this.luts.delete(id)
+    this.changed()
+  }
+
+  /** Adds the LUTs embedded in a project that aren't loaded yet. */
+  installProjectLuts(luts: ProjectLut[]) {
+    let added = false
+    for (const { data, ...lut } of luts) {
+      if (this.luts.has(lut.id)) continue
+      try {
+        const table = decodeLutTable(data)
+        if (table.length !== lut.size * lut.size * lut.size * 3) throw new Error('Table size does not match')
+        this.luts.set(lut.id, { ...lut, table })
+        added = true
+      } catch (error) {
+        console.warn(`Failed to load embedded LUT: ${lut.name}`, error)
+      }
+    }
+    if (added) this.changed()
+  }
+
+  /** The given LUTs as embedded in project files; unknown ids are skipped. */
+  assets(ids: Iterable<string>): ProjectLut[] {
+    return Array.from(ids).flatMap((id) => {
+      const lut = this.luts.get(id)
+      if (!lut) return []
+      const { table, ...rest } = lut
+      return [{ ...rest, data: encodeLutTable(table) }]
+    })
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private changed() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const LutLibrary = new LutLibraryClass()
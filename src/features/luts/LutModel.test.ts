@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import type { JsonValue } from '@/store/history'
+import {
+  applyLut,
+  collectLutIds,
+  decodeLutTable,
+  encodeLutTable,
+  LutParseError,
+  parseCubeFile,
+  type Lut3D,
+} from './LutModel'
+
+// A .cube table of the given size with each entry computed from its grid position
+function cube(size: number, map: (r: number, g: number, b: number) => number[], header = ''): string {
+  const lines = [header, `LUT_3D_SIZE ${size}`]
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push(map(r / (size - 1), g / (size - 1), b / (size - 1)).join(' '))
+      }
+    }
+  }
+  return lines.join('\n')
+}
+
+const lut = (text: string): Lut3D => ({ id: 'test', ...parseCubeFile(text, 'Test') })
+
+function pixels(...colors: number[][]): ImageData {
+  return { data: Uint8ClampedArray.from(colors.flatMap((color) => [...color, 255])), width: colors.length, height: 1 } as ImageData
+}
+
+function rgb(imageData: ImageData): number[][] {
+  const colors: number[][] = []
+  for (let i = 0; i < imageData.data.length; i += 4) colors.push(Array.from(imageData.data.slice(i, i + 3)))
+  return colors
+}
+
+describe('parseCubeFile', () => {
+  it('reads the size, domain and table with red varying fastest', () => {
+    const parsed = parseCubeFile(
+      ['# made by hand', 'TITLE "Swap"', 'DOMAIN_MIN 0 0 0', 'DOMAIN_MAX 1 1 1', cube(2, (r, g, b) => [g, b, r])].join(
+        '\r\n'
+      ),
+      'fallback'
+    )
+    expect(parsed.name).toBe('Swap')
+    expect(parsed.size).toBe(2)
+    expect(parsed.domainMin).toEqual([0, 0, 0])
+    expect(parsed.domainMax).toEqual([1, 1, 1])
+    expect(Array.from(parsed.table.slice(0, 6))).toEqual([0, 0, 0, 0, 0, 1])
+    expect(Array.from(parsed.table.slice(-3))).toEqual([1, 1, 1])
+  })
+
+  it('falls back to the given name without a TITLE', () => {
+    expect(parseCubeFile(cube(2, (r, g, b) => [r, g, b]), 'My Look').name).toBe('My Look')
+  })
+
+  it('ignores keywords that do not change the mapping', () => {
+    expect(() => parseCubeFile(cube(2, (r, g, b) => [r, g, b], 'LUT_IN_VIDEO_RANGE 0 1'), 'x')).not.toThrow()
+  })
+
+  it.each([
+    ['a missing size', '0 0 0', 'LUT_3D_SIZE must come before'],
+    ['no size at all', '# empty', 'Missing LUT_3D_SIZE'],
+    ['an unsupported size', 'LUT_3D_SIZE 1', 'Unsupported LUT size'],
+    ['a 1D LUT', 'LUT_1D_SIZE 16', '1D LUTs are not supported'],
+    ['too few entries', 'LUT_3D_SIZE 2\n0 0 0', 'Expected 8 entries, found 1'],
+    ['too many entries', cube(2, () => [0, 0, 0]) + '\n0 0 0', 'more entries than'],
+    ['a short line', 'LUT_3D_SIZE 2\n0 0', 'Line 2: expected three numbers'],
+    ['an empty domain', 'DOMAIN_MIN 0 0 1\n' + cube(2, () => [0, 0, 0]), 'DOMAIN_MIN must be below DOMAIN_MAX'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseCubeFile(text, 'x')).toThrow(LutParseError)
+    expect(() => parseCubeFile(text, 'x')).toThrow(message)
+  })
+})
+
+describe('applyLut', () => {
+  it('leaves pixels unchanged through an identity LUT', () => {
+    const image = pixels([0, 0, 0], [12, 128, 250], [255, 255, 255])
+    applyLut(image, lut(cube(5, (r, g, b) => [r, g, b])), 1)
+    expect(rgb(image)).toEqual([[0, 0, 0], [12, 128, 250], [255, 255, 255]])
+  })
+
+  it('interpolates between the eight surrounding entries', () => {
+    // Only the white corner is non-zero, so red is the product of the three weights
+    const corner = lut(cube(2, (r, g, b) => [r * g * b, 0, 0]))
+    const image = pixels([255, 255, 255], [255, 255, 0], [128, 128, 128], [255, 51, 102])
+    applyLut(image, corner, 1)
+    expect(rgb(image).map(([red]) => red)).toEqual([255, 0, Math.round((128 / 255) ** 3 * 255), 20])
+  })
+
+  it('blends with the original by intensity', () => {
+    const invert = lut(cube(2, (r, g, b) => [1 - r, 1 - g, 1 - b]))
+    const image = pixels([0, 100, 255])
+    applyLut(image, invert, 0.25)
+    expect(rgb(image)).toEqual([[64, 114, 191]])
+  })
+
+  it('clamps inputs outside the domain to its edges', () => {
+    const half = lut(cube(2, (r, g, b) => [r, g, b], 'DOMAIN_MAX 0.5 0.5 0.5'))
+    const image = pixels([0, 64, 200])
+    applyLut(image, half, 1)
+    expect(rgb(image)).toEqual([[0, 128, 255]])
+  })
+})
+
+describe('LUT tables in project files', () => {
+  it('round-trips a table through base64', () => {
+    const { table } = lut(cube(3, (r, g, b) => [r * 0.9, g ** 2, 1 - b]))
+    expect(decodeLutTable(encodeLutTable(table))).toEqual(table)
+  })
+
+  it('collects the LUT ids adjustments and filters refer to', () => {
+    const canvas: JsonValue = {
+      objects: [
+        { type: 'image', adjustments: [{ type: 'lut', data: { lutId: 'a' } }], filters: [{ type: 'Lut3D', lutId: 'a' }] },
+        { type: 'group', objects: [{ type: 'image', adjustments: [{ type: 'lut', data: { lutId: 'b' } }] }] },
+        { type: 'image', adjustments: [{ type: 'lut', data: { lutId: '' } }] },
+      ],
+    }
+    expect(collectLutIds(canvas)).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,162 @@
+import type { JsonValue } from '@/store/history'
+
+// 3D colour lookup tables in the Adobe/Resolve .cube format. The table
+// holds RGB output triplets with red varying fastest, then green, then blue.
+
+export interface Lut3D {
+  id: string
+  name: string
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  table: Float32Array
+}
+
+export class LutParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LutParseError'
+  }
+}
+
+const MAX_LUT_SIZE = 256
+
+function parseTriplet(parts: string[], line: number): [number, number, number] {
+  const values = parts.map(Number)
+  if (values.length !== 3 || values.some((value) => !Number.isFinite(value))) {
+    throw new LutParseError(`Line ${line}: expected three numbers`)
+  }
+  return values as [number, number, number]
+}
+
+/** Parses the text of a .cube file. The name defaults to its TITLE. */
+export function parseCubeFile(text: string, fallbackName: string): Omit<Lut3D, 'id'> {
+  let name = fallbackName
+  let size = 0
+  let domainMin: [number, number, number] = [0, 0, 0]
+  let domainMax: [number, number, number] = [1, 1, 1]
+  let table: Float32Array | null = null
+  let count = 0
+
+  const lines = text.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (line === '' || line.startsWith('#')) continue
+
+    const [keyword, ...rest] = line.split(/\s+/)
+    if (keyword === 'TITLE') {
+      name = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '') || name
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0])
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new LutParseError(`Unsupported LUT size: ${rest[0]}`)
+      }
+      table = new Float32Array(size * size * size * 3)
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new LutParseError('1D LUTs are not supported; export a 3D LUT instead')
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(rest, i + 1)
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(rest, i + 1)
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!table) throw new LutParseError('LUT_3D_SIZE must come before the table data')
+      if (count * 3 >= table.length) throw new LutParseError('The file has more entries than LUT_3D_SIZE allows')
+      table.set(parseTriplet([keyword, ...rest], i + 1), count * 3)
+      count++
+    }
+    // Other keywords (e.g. LUT_IN_VIDEO_RANGE) don't affect the mapping
+  }
+
+  if (!table) throw new LutParseError('Missing LUT_3D_SIZE')
+  if (count !== size * size * size) {
+    throw new LutParseError(`Expected ${size * size * size} entries, found ${count}`)
+  }
+  if (domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new LutParseError('DOMAIN_MIN must be below DOMAIN_MAX')
+  }
+  return { name, size, domainMin, domainMax, table }
+}
+
+/** Ids of the LUTs that adjustments in canvas JSON refer to. */
+export function collectLutIds(node: JsonValue): string[] {
+  const ids = new Set<string>()
+  const visit = (value: JsonValue) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+      return
+    }
+    if (value === null || typeof value !== 'object') return
+    if (typeof value.lutId === 'string' && value.lutId !== '') ids.add(value.lutId)
+    Object.values(value).forEach(visit)
+  }
+  visit(node)
+  return Array.from(ids)
+}
+
+/** The table as base64 of its float32 bytes, the form project files embed. */
+export function encodeLutTable(table: Float32Array): string {
+  const bytes = new Uint8Array(table.buffer, table.byteOffset, table.byteLength)
+  let binary = ''
+  // In chunks, as fromCharCode takes its bytes as arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function decodeLutTable(data: string): Float32Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Float32Array(bytes.buffer)
+}
+
+/**
+ * Maps the pixels through the LUT with trilinear interpolation, blending
+ * with the original by `intensity` (0-1).
+ */
+export function applyLut(imageData: ImageData, lut: Lut3D, intensity: number) {
+  const { data } = imageData
+  const { size, table, domainMin, domainMax } = lut
+  const last = size - 1
+
+  // Inputs are 8-bit, so grid positions can be looked up per channel value
+  const lower: Int32Array[] = []
+  const fraction: Float32Array[] = []
+  for (let c = 0; c < 3; c++) {
+    lower.push(new Int32Array(256))
+    fraction.push(new Float32Array(256))
+    for (let v = 0; v < 256; v++) {
+      const t = (v / 255 - domainMin[c]) / (domainMax[c] - domainMin[c])
+      const position = Math.min(Math.max(t, 0), 1) * last
+      const index = Math.min(Math.floor(position), last - 1)
+      lower[c][v] = index
+      fraction[c][v] = position - index
+    }
+  }
+
+  const strideG = size * 3
+  const strideB = size * size * 3
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i]
+    const g = data[i + 1]
+    const b = data[i + 2]
+    const fr = fraction[0][r]
+    const fg = fraction[1][g]
+    const fb = fraction[2][b]
+    const base = lower[0][r] * 3 + lower[1][g] * strideG + lower[2][b] * strideB
+
+    for (let c = 0; c < 3; c++) {
+      const at = base + c
+      const c00 = table[at] + (table[at + 3] - table[at]) * fr
+      const c10 = table[at + strideG] + (table[at + strideG + 3] - table[at + strideG]) * fr
+      const c01 = table[at + strideB] + (table[at + strideB + 3] - table[at + strideB]) * fr
+      const c11 =
+        table[at + strideB + strideG] + (table[at + strideB + strideG + 3] - table[at + strideB + strideG]) * fr
+      const c0 = c00 + (c10 - c00) * fg
+      const c1 = c01 + (c11 - c01) * fg
+      const mapped = (c0 + (c1 - c0) * fb) * 255
+      data[i + c] = data[i + c] + (mapped - data[i + c]) * intensity
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import React from 'react'
+import { fabric } from 'fabric'
+import { AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useEditorStore } from '@/store/editorStore'
+import { convertTextEncoding } from './MyanmarText'
+import { detectMyanmarEncoding, type MyanmarEncoding } from './Zawgyi'
+
+interface MyanmarEncodingNoticeProps {
+  object: fabric.Text
+  // The text as currently typed, which may be ahead of a render
+  text: string
+}
+
+/** Encoding of the selected text's Burmese, with conversion either way. */
+export const MyanmarEncodingNotice: React.FC<MyanmarEncodingNoticeProps> = ({ object, text }) => {
+  const { saveToHistory, syncLayers } = useEditorStore()
+  const encoding = detectMyanmarEncoding(text)
+  if (!encoding) return null
+
+  const convert = (to: MyanmarEncoding) => {
+    if (!convertTextEncoding(object, to)) return
+    saveToHistory(to === 'unicode' ? 'Convert to Unicode' : 'Convert to Zawgyi')
+    syncLayers()
+  }
+
+  if (encoding === 'zawgyi') {
+    return (
+      <div className="rounded-md border border-amber-400 bg-amber-50 dark:bg-amber-950 p-2 space-y-2">
+        <p className="flex items-center gap-1 text-xs font-medium text-amber-800 dark:text-amber-200">
+          <AlertTriangle className="w-3 h-3" />
+          Zawgyi text detected
+        </p>
+        <p className="text-xs text-muted-foreground">Unicode fonts such as Pyidaungsu will not display it correctly.</p>
+        <Button size="sm" className="w-full" onClick={() => convert('unicode')}>
+          Convert to Unicode
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-xs text-muted-foreground">Burmese text is Unicode</span>
+      <Button size="sm" variant="outline" onClick={() => convert('zawgyi')}>
+        Convert to Zawgyi
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { fabric } from 'fabric'
+import { registerLayerFlag } from '@/features/layers/LayerModel'
+import { detectMyanmarEncoding, unicodeToZawgyi, zawgyiToUnicode, type MyanmarEncoding } from './Zawgyi'
+
+// Encoding checks and conversion for text layers. Converting changes the
+// text's length, so per-character styles are carried over line by line.
+
+type LineStyles = Record<number, Record<number, object>>
+
+export function isTextObject(object: fabric.Object | null | undefined): object is fabric.Text {
+  return object instanceof fabric.Text
+}
+
+/** The encoding of a text layer's Burmese, or null for other layers and text. */
+export function getTextEncoding(object: fabric.Object): MyanmarEncoding | null {
+  return isTextObject(object) ? detectMyanmarEncoding(object.text ?? '') : null
+}
+
+// Lines that keep their length keep their styles; others take the style of
+// their first styled character throughout
+function remapStyles(styles: LineStyles, before: string[], after: string[]): LineStyles {
+  const remapped: LineStyles = {}
+  after.forEach((line, index) => {
+    const lineStyles = styles[index]
+    if (!lineStyles || Object.keys(lineStyles).length === 0) return
+    if (line.length === before[index]?.length) {
+      remapped[index] = lineStyles
+      return
+    }
+    const first = lineStyles[Number(Object.keys(lineStyles)[0])]
+    remapped[index] = Object.fromEntries(Array.from(line, (_, char) => [char, { ...first }]))
+  })
+  return remapped
+}
+
+function convertText(text: string, styles: LineStyles | undefined, to: MyanmarEncoding) {
+  const lines = text.split('\n')
+  const converted = lines.map((line) => (to === 'unicode' ? zawgyiToUnicode(line) : unicodeToZawgyi(line)))
+  return { text: converted.join('\n'), styles: styles && remapStyles(styles, lines, converted) }
+}
+
+/**
+ * Re-encodes a text layer's Burmese in place. Returns whether anything
+ * changed; the caller records history.
+ */
+export function convertTextEncoding(object: fabric.Text, to: MyanmarEncoding): boolean {
+  const text = object.text ?? ''
+  const converted = convertText(text, (object as fabric.Text & { styles?: LineStyles }).styles, to)
+  if (converted.text === text) return false
+
+  object.set({ text: converted.text })
+  if (converted.styles) object.set({ styles: converted.styles } as Partial<fabric.Text>)
+  object.initDimensions()
+  object.setCoords()
+  object.canvas?.requestRenderAll()
+  return true
+}
+
+registerLayerFlag({
+  id: 'zawgyi',
+  label: 'Zawgyi',
+  title: 'Zawgyi-encoded text; click to convert it to Unicode in the Text tool',
+  variant: 'warning',
+  toolId: 'text',
+  applies: (object) => isTextObject(object) && detectMyanmarEncoding(object.text ?? '') === 'zawgyi',
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { detectMyanmarEncoding, isZawgyi, normalizeMyanmarText, unicodeToZawgyi, zawgyiToUnicode } from './Zawgyi'
+
+// The same words in both encodings
+const WORDS: [string, string, string][] = [
+  // Myanmar: medial ra before the consonant in Zawgyi, asat at U+1039
+  ['myanmar', '\u103b\u1019\u1014\u1039\u1019\u102c', '\u1019\u103c\u1014\u103a\u1019\u102c'],
+  // Thank you: E vowel typed first, medial ya at U+103A
+  ['thanks', '\u1031\u1000\u103a\u1038\u1007\u1030\u1038', '\u1000\u103b\u1031\u1038\u1007\u1030\u1038'],
+  // World: a stacked consonant drawn as one glyph
+  ['world', '\u1000\u1019\u107b\u102c', '\u1000\u1019\u1039\u1018\u102c'],
+  // English: kinzi drawn above the following consonant
+  ['english', '\u1021\u1002\u1064\u101c\u102d\u1015\u1039', '\u1021\u1004\u103a\u1039\u1002\u101c\u102d\u1015\u103a'],
+  // The abbreviation for "that" is a single character in Zawgyi
+  ['that', '\u104e', '\u104e\u1004\u103a\u1038'],
+]
+
+describe('detectMyanmarEncoding', () => {
+  it('returns null for text without Burmese', () => {
+    expect(detectMyanmarEncoding('Hello, world 123')).toBeNull()
+    expect(detectMyanmarEncoding('')).toBeNull()
+  })
+
+  it.each(WORDS.filter(([name]) => name !== 'that'))('tells the encodings of "%s" apart', (_, zawgyi, unicode) => {
+    expect(detectMyanmarEncoding(zawgyi)).toBe('zawgyi')
+    expect(detectMyanmarEncoding(unicode)).toBe('unicode')
+  })
+
+  it('counts patterns across mixed text', () => {
+    const zawgyi = WORDS.map(([, word]) => word).join(' ')
+    const unicode = WORDS.map(([, , word]) => word).join(' ')
+    expect(isZawgyi(`Title: ${zawgyi}`)).toBe(true)
+    expect(isZawgyi(`Title: ${unicode}`)).toBe(false)
+  })
+})
+
+describe('zawgyiToUnicode', () => {
+  it.each(WORDS)('converts "%s"', (_, zawgyi, unicode) => {
+    expect(zawgyiToUnicode(zawgyi)).toBe(unicode)
+  })
+
+  it('reads the digits zero and seven next to marks as wa and ra', () => {
+    expect(zawgyiToUnicode('\u1031\u1040')).toBe('\u101d\u1031')
+    expect(zawgyiToUnicode('\u1047\u102d')).toBe('\u101b\u102d')
+  })
+
+  it('keeps digits that are numbers', () => {
+    expect(zawgyiToUnicode('\u1041\u1040\u1047')).toBe('\u1041\u1040\u1047')
+  })
+
+  it('leaves other text alone', () => {
+    expect(zawgyiToUnicode('Hello (123)')).toBe('Hello (123)')
+  })
+})
+
+describe('unicodeToZawgyi', () => {
+  it.each(WORDS)('converts "%s"', (_, zawgyi, unicode) => {
+    expect(unicodeToZawgyi(unicode)).toBe(zawgyi)
+  })
+
+  it('round-trips through zawgyiToUnicode', () => {
+    const text = WORDS.map(([, , word]) => word).join(' ')
+    expect(zawgyiToUnicode(unicodeToZawgyi(text))).toBe(text)
+  })
+})
+
+describe('normalizeMyanmarText', () => {
+  it('converts Zawgyi and keeps Unicode and other text as is', () => {
+    expect(normalizeMyanmarText(WORDS[0][1])).toBe(WORDS[0][2])
+    expect(normalizeMyanmarText(WORDS[0][2])).toBe(WORDS[0][2])
+    expect(normalizeMyanmarText('Plain text')).toBe('Plain text')
+  })
+})
@@ -0,0 +1,293 @@
+// Zawgyi is a legacy Burmese font encoding that reuses Myanmar code points
+// for other letters and stores syllables in visual order (e.g. the E vowel
+// before its consonant). Text typed with a Zawgyi keyboard renders as
+// garbage in Unicode fonts and vice versa. Detection scores patterns that
+// only occur in one encoding; conversion works a syllable at a time.
+// Code points are written as escapes since most of them are combining marks.
+
+export type MyanmarEncoding = 'zawgyi' | 'unicode'
+
+const MYANMAR = /[\u1000-\u109f]/
+const KINZI = '\u1004\u103a\u1039'
+
+// Each match counts once towards its encoding
+const ZAWGYI_PATTERNS = [
+  // Pre-composed stacks, kinzi and glyph variants
+  // eslint-disable-next-line no-misleading-character-class -- classes of single combining marks
+  /[\u105a\u1060-\u1097]/g,
+  // Long-leg u vowels; Mon letters in Unicode
+  /[\u1033\u1034]/g,
+  // E vowel or medial ra typed before the consonant
+  // eslint-disable-next-line no-misleading-character-class -- classes of single combining marks
+  /(?:^|[^\u1000-\u1021\u103b-\u103f])\u1031/g,
+  /(?:^|[^\u1000-\u1021\u103f])\u103b/g,
+  // Asat; in Unicode this is the stacking sign and needs a consonant after it
+  /\u1039(?![\u1000-\u1021])/g,
+]
+
+const UNICODE_PATTERNS = [
+  // Medial ha, which Zawgyi stores at U+103D
+  /\u103e/g,
+  /\u1004\u103a\u1039/g,
+  // Asat after letters that never take medial ya
+  /[\u1004\u1009\u100a\u100f\u1010\u1014\u101a]\u103a/g,
+]
+
+const countMatches = (text: string, patterns: RegExp[]) =>
+  patterns.reduce((total, pattern) => total + (text.match(pattern)?.length ?? 0), 0)
+
+/** The encoding of the Burmese in `text`, or null when there is none. */
+export function detectMyanmarEncoding(text: string): MyanmarEncoding | null {
+  if (!MYANMAR.test(text)) return null
+  return countMatches(text, ZAWGYI_PATTERNS) > countMatches(text, UNICODE_PATTERNS) ? 'zawgyi' : 'unicode'
+}
+
+export function isZawgyi(text: string): boolean {
+  return detectMyanmarEncoding(text) === 'zawgyi'
+}
+
+// Unicode consonant below a stacking sign and its Zawgyi glyph
+const STACKED: [string, string][] = [
+  ['\u1000', '\u1060'],
+  ['\u1001', '\u1061'],
+  ['\u1002', '\u1062'],
+  ['\u1003', '\u1063'],
+  ['\u1005', '\u1065'],
+  ['\u1006', '\u1066'],
+  ['\u1007', '\u1068'],
+  ['\u1008', '\u1069'],
+  ['\u100b', '\u106c'],
+  ['\u100c', '\u106d'],
+  ['\u100f', '\u1070'],
+  ['\u1010', '\u1071'],
+  ['\u1011', '\u1073'],
+  ['\u1012', '\u1075'],
+  ['\u1013', '\u1076'],
+  ['\u1014', '\u1077'],
+  ['\u1015', '\u1078'],
+  ['\u1016', '\u1079'],
+  ['\u1017', '\u107a'],
+  ['\u1018', '\u107b'],
+  ['\u1019', '\u107c'],
+  ['\u101c', '\u1085'],
+]
+
+// Consonant pairs Zawgyi draws as one glyph
+const LIGATURES: [string, string][] = [
+  ['\u100b\u1039\u100c', '\u1092'],
+  ['\u100b\u1039\u100b', '\u1097'],
+  ['\u100d\u1039\u100d', '\u106e'],
+  ['\u100d\u1039\u100e', '\u106f'],
+  ['\u100f\u1039\u100d', '\u1091'],
+]
+
+// Zawgyi characters whose Unicode spelling does not depend on context
+const ZAWGYI_TO_UNICODE: Record<string, string> = {
+  '\u1039': '\u103a',
+  '\u103a': '\u103b',
+  '\u107d': '\u103b',
+  '\u103b': '\u103c',
+  '\u103c': '\u103d',
+  '\u103d': '\u103e',
+  '\u1087': '\u103e',
+  '\u1088': '\u103e\u102f',
+  '\u1089': '\u103e\u1030',
+  '\u108a': '\u103d\u103e',
+  '\u1033': '\u102f',
+  '\u1034': '\u1030',
+  '\u1094': '\u1037',
+  '\u1095': '\u1037',
+  '\u105a': '\u102b\u103a',
+  '\u108e': '\u102d\u1036',
+  '\u106a': '\u1009',
+  '\u106b': '\u100a',
+  '\u108f': '\u1014',
+  '\u1090': '\u101b',
+  '\u1086': '\u103f',
+  '\u1064': KINZI,
+  '\u108b': KINZI + '\u102d',
+  '\u108c': KINZI + '\u102e',
+  '\u108d': KINZI + '\u1036',
+  '\u1096': '\u1039\u1010\u103d',
+  '\u1067': '\u1039\u1006',
+  '\u1072': '\u1039\u1010',
+  '\u1074': '\u1039\u1011',
+  '\u1093': '\u1039\u1018',
+  // Medial ra has a glyph per consonant width and stack
+  ...Object.fromEntries(
+    ['\u107e', '\u107f', '\u1080', '\u1081', '\u1082', '\u1083', '\u1084'].map((ra) => [ra, '\u103c'])
+  ),
+  ...Object.fromEntries(STACKED.map(([consonant, glyph]) => [glyph, '\u1039' + consonant])),
+  ...Object.fromEntries(LIGATURES.map(([pair, glyph]) => [glyph, pair])),
+}
+
+// Storage order of the marks after the medials and E vowel
+const VOWEL_ORDER = ['\u102d', '\u102e', '\u1032', '\u102f', '\u1030', '\u102b', '\u102c', '\u1036', '\u1037', '\u103a', '\u1038']
+const MEDIAL_ORDER = ['\u103b', '\u103c', '\u103d', '\u103e']
+
+// Optional E vowel and medial ra, the consonant, then its marks; or a
+// stray mark outside any syllable
+const ZAWGYI_SYLLABLE =
+  // eslint-disable-next-line no-misleading-character-class -- classes of single combining marks
+  /([\u1031\u103b\u107e-\u1084]{0,2})([\u1000-\u1021\u1023-\u102a\u103f\u106a\u106b\u106e\u106f\u1086\u108f-\u1092\u1097])([\u102b-\u1030\u1032-\u103a\u103c\u103d\u105a\u1060-\u1069\u106c\u106d\u1070-\u107d\u1085\u1087-\u108e\u1093-\u1096]*)|[\u1033-\u103d\u105a\u1060-\u1097]/g
+
+const mapZawgyi = (text: string) => Array.from(text, (char) => ZAWGYI_TO_UNICODE[char] ?? char).join('')
+
+function zawgyiSyllable(prefix: string, base: string, marks: string): string {
+  let e = prefix.includes('\u1031')
+  let kinzi = false
+  let stack = ''
+  const medials = new Set<string>()
+  const vowels = new Set<string>()
+  if (/[\u103b\u107e-\u1084]/.test(prefix)) medials.add('\u103c')
+
+  // A ligature or variant base may carry its own stack
+  let consonant = mapZawgyi(base)
+  if (consonant.length > 1) {
+    stack = consonant.slice(1)
+    consonant = consonant[0]
+  }
+
+  let rest = mapZawgyi(marks)
+  while (rest.length > 0) {
+    if (rest.startsWith(KINZI)) {
+      kinzi = true
+      rest = rest.slice(KINZI.length)
+    } else if (rest[0] === '\u1039' && /[\u1000-\u1021]/.test(rest[1] ?? '')) {
+      stack += rest.slice(0, 2)
+      rest = rest.slice(2)
+    } else {
+      const char = rest[0]
+      if (MEDIAL_ORDER.includes(char)) medials.add(char)
+      else if (char === '\u1031') e = true
+      else vowels.add(char)
+      rest = rest.slice(1)
+    }
+  }
+
+  // Zawgyi spellings of letters Unicode encodes separately
+  if (consonant === '\u1005' && medials.has('\u103b')) {
+    consonant = '\u1008'
+    medials.delete('\u103b')
+  }
+  if (consonant === '\u1025' && vowels.has('\u102e')) {
+    consonant = '\u1026'
+    vowels.delete('\u102e')
+  } else if (consonant === '\u1025' && (vowels.has('\u103a') || vowels.has('\u102c'))) {
+    consonant = '\u1009'
+  }
+  if (vowels.has('\u102d') && vowels.has('\u102e')) vowels.delete('\u102d')
+
+  return (
+    (kinzi ? KINZI : '') +
+    consonant +
+    stack +
+    MEDIAL_ORDER.filter((medial) => medials.has(medial)).join('') +
+    (e ? '\u1031' : '') +
+    VOWEL_ORDER.filter((vowel) => vowels.has(vowel)).join('')
+  )
+}
+
+/** Converts Zawgyi-encoded text to Unicode. Non-Burmese text is unchanged. */
+export function zawgyiToUnicode(text: string): string {
+  const letterFor = (digit: string) => (digit === '\u1040' ? '\u101d' : '\u101b')
+  return (
+    text
+      // Zawgyi typists use the digits zero and seven for the letters wa and ra
+      .replace(/([\u1031\u103b\u107e-\u1084])([\u1040\u1047])/g, (_, before: string, digit: string) => before + letterFor(digit))
+      .replace(/[\u1040\u1047](?=[\u102b-\u1030\u1032-\u103d\u1087-\u108a\u1094\u1095])/g, letterFor)
+      .replace(ZAWGYI_SYLLABLE, (match, prefix: string | undefined, base: string | undefined, marks: string | undefined) =>
+        base ? zawgyiSyllable(prefix ?? '', base, marks ?? '') : mapZawgyi(match)
+      )
+      // Zawgyi writes the abbreviation for "that" as one character
+      .replace(/\u104e(?!\u1004)/g, '\u104e\u1004\u103a\u1038')
+  )
+}
+
+// Optional kinzi, the consonant, a stacked consonant, medials, the E vowel
+// and other marks; or a stray mark outside any syllable
+const UNICODE_SYLLABLE =
+  /(\u1004\u103a\u1039)?([\u1000-\u1021\u1023-\u102a\u103f])(\u1039[\u1000-\u1021])?([\u103b-\u103e]*)(\u1031)?([\u102b-\u1030\u1032-\u1038\u103a]*)|[\u103a-\u103e]/g
+
+// Marks that move to another code point in Zawgyi
+const UNICODE_MARKS: Record<string, string> = {
+  '\u103a': '\u1039',
+  '\u103b': '\u103a',
+  '\u103c': '\u103b',
+  '\u103d': '\u103c',
+  '\u103e': '\u103d',
+}
+
+const STACK_GLYPHS = new Map(STACKED.map(([consonant, glyph]) => ['\u1039' + consonant, glyph]))
+const LIGATURE_GLYPHS = new Map(LIGATURES)
+const KINZI_GLYPHS: [string, string][] = [
+  ['\u102d', '\u108b'],
+  ['\u102e', '\u108c'],
+  ['\u1036', '\u108d'],
+]
+
+function unicodeSyllable(kinzi: string, base: string, stack: string, medials: string, e: string, marks: string): string {
+  let vowels = marks
+  if (base === '\u1026') {
+    base = '\u1025'
+    vowels = '\u102e' + vowels
+  } else if (base === '\u1009' && vowels.includes('\u103a')) {
+    base = '\u1025'
+  } else if (base === '\u103f') {
+    base = '\u1086'
+  }
+  const glyph = LIGATURE_GLYPHS.get(base + stack) ?? base + (stack ? STACK_GLYPHS.get(stack) ?? stack : '')
+
+  let below = medials.includes('\u103b') ? '\u103a' : ''
+  const wa = medials.includes('\u103d')
+  const ha = medials.includes('\u103e')
+  if (wa && ha) {
+    below += '\u108a'
+  } else if (wa) {
+    below += '\u103c'
+  } else if (ha && vowels.includes('\u102f')) {
+    below += '\u1088'
+    vowels = vowels.replace('\u102f', '')
+  } else if (ha && vowels.includes('\u1030')) {
+    below += '\u1089'
+    vowels = vowels.replace('\u1030', '')
+  } else if (ha) {
+    below += '\u103d'
+  }
+
+  let kinziGlyph = ''
+  if (kinzi) {
+    const combined = KINZI_GLYPHS.find(([vowel]) => vowels.includes(vowel))
+    kinziGlyph = combined ? combined[1] : '\u1064'
+    if (combined) vowels = vowels.replace(combined[0], '')
+  }
+  vowels = vowels.replace('\u102d\u1036', '\u108e').replace('\u102b\u103a', '\u105a').replace(/\u103a/g, '\u1039')
+
+  return e + (medials.includes('\u103c') ? '\u103b' : '') + glyph + below + kinziGlyph + vowels
+}
+
+/** Converts Unicode Burmese to Zawgyi, e.g. for older devices and fonts. */
+export function unicodeToZawgyi(text: string): string {
+  return text
+    .replace(/\u104e\u1004\u103a\u1038/g, '\u104e')
+    .replace(
+      UNICODE_SYLLABLE,
+      (
+        match,
+        kinzi: string | undefined,
+        base: string | undefined,
+        stack: string | undefined,
+        medials: string | undefined,
+        e: string | undefined,
+        marks: string | undefined
+      ) =>
+        base
+          ? unicodeSyllable(kinzi ?? '', base, stack ?? '', medials ?? '', e ?? '', marks ?? '')
+          : UNICODE_MARKS[match] ?? match
+    )
+}
+
+/** Unicode text for anything typed or imported: Zawgyi is converted, all else is unchanged. */
+export function normalizeMyanmarText(text: string): string {
+  return isZawgyi(text) ? zawgyiToUnicode(text) : text
+}
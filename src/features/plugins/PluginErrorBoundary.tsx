@@ -0,0 +1,26 @@
+import React from 'react'
+import { PluginManager } from './PluginManager'
+
+// Keeps a crashing plugin component from reaching the application ErrorBoundary
+export class PluginErrorBoundary extends React.Component<
+  { pluginId: string; children: React.ReactNode },
+  { hasError: boolean }
+> {
+  constructor(props: { pluginId: string; children: React.ReactNode }) {
+    super(props)
+    this.state = { hasError: false }
+  }
+
+  static getDerivedStateFromError() {
+    return { hasError: true }
+  }
+
+  componentDidCatch(error: Error) {
+    PluginManager.fail(this.props.pluginId, error)
+  }
+
+  render() {
+    if (this.state.hasError) return null
+    return this.props.children
+  }
+}
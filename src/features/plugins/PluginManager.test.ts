@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import type { fabric } from 'fabric'
+import { ToolRegistry, type ToolDefinition } from '@/features/tools/ToolRegistry'
+import { ToolPresets } from '@/features/tools/ToolPresets'
+import { PluginManager, type PluginManifest } from './PluginManager'
+
+const tool = (id: string, handler: Partial<ToolDefinition['handler']> = {}): ToolDefinition => ({
+  id,
+  name: id,
+  icon: 'Puzzle',
+  category: 'branding',
+  description: 'Plugin tool',
+  handler: { activate: () => {}, deactivate: () => {}, ...handler },
+})
+
+const manifest = (id: string, extra: Partial<PluginManifest> = {}): PluginManifest => ({
+  id,
+  name: id,
+  version: '1.0.0',
+  ...extra,
+})
+
+const canvas = {} as fabric.Canvas
+
+describe('PluginManager', () => {
+  let errors: MockInstance
+
+  beforeEach(() => {
+    errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    PluginManager.getPlugins().forEach((plugin) => PluginManager.unload(plugin.manifest.id))
+    errors.mockRestore()
+  })
+
+  it('registers tools and presets on load and removes them on unload', async () => {
+    const cleanup = vi.fn()
+    const category = { id: 'stamps', name: 'Stamps', description: '', presets: [] }
+    const loaded = await PluginManager.load(
+      manifest('stamps', { tools: [tool('stamp')], presetCategories: [category], activate: () => cleanup })
+    )
+
+    expect(loaded).toBe(true)
+    expect(PluginManager.getPlugin('stamps')?.status).toBe('active')
+    expect(ToolRegistry.getTool('stamp')).toBeDefined()
+    expect(PluginManager.getToolOwner('stamp')).toBe('stamps')
+    expect(ToolPresets.getCategory('stamps')).toBe(category)
+
+    PluginManager.unload('stamps')
+    expect(PluginManager.getPlugin('stamps')).toBeUndefined()
+    expect(ToolRegistry.getTool('stamp')).toBeUndefined()
+    expect(ToolPresets.getCategory('stamps')).toBeUndefined()
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it.each([
+    ['a missing manifest', null],
+    ['a manifest that is not an object', 'plugin'],
+    ['a manifest without an id', { name: 'x', version: '1.0.0' }],
+    ['an invalid version', manifest('bad-version', { version: 'one' })],
+    ['a newer API version', manifest('future', { apiVersion: 99 })],
+    ['a tool id that is taken', manifest('clash', { tools: [tool('select')] })],
+  ])('rejects %s without throwing', async (_, value) => {
+    await expect(PluginManager.load(value as PluginManifest)).resolves.toBe(false)
+    expect(PluginManager.getPlugins()).toEqual([])
+  })
+
+  it('rejects loading the same plugin twice', async () => {
+    await PluginManager.load(manifest('twice'))
+    await expect(PluginManager.load(manifest('twice'))).resolves.toBe(false)
+    expect(PluginManager.getPlugins()).toHaveLength(1)
+  })
+
+  it('keeps a plugin that fails to activate listed as failed, without its tools', async () => {
+    const loaded = await PluginManager.load(
+      manifest('broken', {
+        tools: [tool('broken-tool')],
+        activate: () => {
+          throw new Error('boom')
+        },
+      })
+    )
+
+    expect(loaded).toBe(false)
+    expect(PluginManager.getPlugin('broken')).toMatchObject({ status: 'failed', error: 'boom' })
+    expect(ToolRegistry.getTool('broken-tool')).toBeUndefined()
+  })
+
+  it('fails only the plugin whose tool handler throws', async () => {
+    await PluginManager.load(manifest('healthy', { tools: [tool('healthy-tool')] }))
+    await PluginManager.load(
+      manifest('faulty', {
+        tools: [
+          tool('faulty-tool', {
+            activate: () => {
+              throw new Error('activate failed')
+            },
+          }),
+        ],
+      })
+    )
+
+    expect(() => ToolRegistry.activateTool('faulty-tool', canvas)).not.toThrow()
+    expect(ToolRegistry.getActiveTool()).toBeNull()
+    expect(PluginManager.getPlugin('faulty')?.status).toBe('failed')
+    expect(ToolRegistry.getTool('faulty-tool')).toBeUndefined()
+    expect(PluginManager.getPlugin('healthy')?.status).toBe('active')
+    expect(ToolRegistry.getTool('healthy-tool')).toBeDefined()
+  })
+
+  it('reports a failure once', async () => {
+    const listener = vi.fn()
+    await PluginManager.load(manifest('flaky'))
+    const unsubscribe = PluginManager.subscribe(listener)
+
+    PluginManager.fail('flaky', new Error('first'))
+    PluginManager.fail('flaky', new Error('second'))
+    unsubscribe()
+
+    expect(PluginManager.getPlugin('flaky')?.error).toBe('first')
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(errors).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,316 @@
+import type React from 'react'
+import type { fabric } from 'fabric'
+import { toast } from '@/hooks/use-toast'
+import { useEditorStore, type SaveToHistoryOptions } from '@/store/editorStore'
+import {
+  ToolRegistry,
+  type ToolActivationListener,
+  type ToolDefinition,
+  type ToolHandler,
+} from '@/features/tools/ToolRegistry'
+import { ToolPresets, type PresetCategory } from '@/features/tools/ToolPresets'
+import { SegmentationProviders, type SegmentationProvider } from '@/features/background/SegmentationProviders'
+
+// Version of the contract below. Plugins may declare the version they were
+// written against; newer ones are rejected instead of failing at runtime.
+export const PLUGIN_API_VERSION = 1
+
+/**
+ * The only editor surface plugins get. It is deliberately narrow so the
+ * store's internals can change without breaking third-party code.
+ */
+export interface EditorPluginContext {
+  pluginId: string
+  getCanvas: () => fabric.Canvas | null
+  getActiveObject: () => fabric.Object | null
+  actions: {
+    deleteSelectedObject: () => void
+    duplicateSelectedObject: () => void
+    bringToFront: () => void
+    bringForward: () => void
+    sendBackward: () => void
+    updateCanvasSettings: (settings: { width?: number; height?: number; backgroundColor?: string }) => void
+    updateTextSettings: (settings: Record<string, unknown>) => void
+  }
+  history: {
+    save: (action: string, options?: SaveToHistoryOptions) => void
+    undo: () => void
+    redo: () => void
+    canUndo: () => boolean
+    canRedo: () => boolean
+  }
+  toast: (message: { title: string; description?: string; variant?: 'default' | 'destructive' }) => void
+  onToolActivation: (listener: ToolActivationListener) => () => void
+}
+
+export interface PluginPanelProps {
+  context: EditorPluginContext
+}
+
+export interface PluginManifest {
+  id: string
+  name: string
+  version: string
+  apiVersion?: number
+  tools?: ToolDefinition[]
+  panel?: {
+    title: string
+    component: React.ComponentType<PluginPanelProps>
+  }
+  presetCategories?: PresetCategory[]
+  /** Offered to the Remove Background tool alongside the built-in one. */
+  segmentationProviders?: SegmentationProvider[]
+  /** Called once after the tools are registered; may return a cleanup function. */
+  activate?: (context: EditorPluginContext) => void | (() => void) | Promise<void | (() => void)>
+}
+
+export type PluginStatus = 'active' | 'failed'
+
+export interface LoadedPlugin {
+  manifest: PluginManifest
+  context: EditorPluginContext
+  status: PluginStatus
+  error?: string
+}
+
+interface PluginRuntime {
+  cleanups: (() => void)[]
+  toolIds: string[]
+  presetCategoryIds: string[]
+  segmentationProviderIds: string[]
+}
+
+export class PluginError extends Error {
+  constructor(
+    public pluginId: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'PluginError'
+  }
+}
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:[-+].*)?$/
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Manifests come from third-party code, so the id is checked before use
+const manifestId = (manifest: unknown) =>
+  isRecord(manifest) && typeof manifest.id === 'string' && manifest.id ? manifest.id : 'unknown'
+
+class PluginManagerClass {
+  private plugins: Map<string, LoadedPlugin> = new Map()
+  private runtimes: Map<string, PluginRuntime> = new Map()
+  private listeners: Set<() => void> = new Set()
+
+  /**
+   * Validates and loads a plugin. Failures are reported through a toast and
+   * the plugin's status; they never propagate to the caller.
+   */
+  async load(manifest: PluginManifest): Promise<boolean> {
+    try {
+      this.validate(manifest)
+    } catch (error) {
+      this.reportError(manifestId(manifest), error)
+      return false
+    }
+
+    const runtime: PluginRuntime = { cleanups: [], toolIds: [], presetCategoryIds: [], segmentationProviderIds: [] }
+    const context = this.createContext(manifest.id, runtime)
+    this.runtimes.set(manifest.id, runtime)
+    this.plugins.set(manifest.id, { manifest, context, status: 'active' })
+
+    try {
+      for (const tool of manifest.tools ?? []) {
+        ToolRegistry.register({
+          ...tool,
+          handler: tool.handler && this.isolateHandler(manifest.id, tool.handler),
+        })
+        runtime.toolIds.push(tool.id)
+      }
+      for (const category of manifest.presetCategories ?? []) {
+        ToolPresets.registerCategory(category)
+        runtime.presetCategoryIds.push(category.id)
+      }
+      for (const provider of manifest.segmentationProviders ?? []) {
+        SegmentationProviders.register(provider)
+        runtime.segmentationProviderIds.push(provider.id)
+      }
+      const cleanup = await manifest.activate?.(context)
+      if (typeof cleanup === 'function') runtime.cleanups.push(cleanup)
+    } catch (error) {
+      this.fail(manifest.id, error)
+      return false
+    }
+
+    this.notify()
+    return true
+  }
+
+  unload(pluginId: string) {
+    const runtime = this.runtimes.get(pluginId)
+    if (runtime) this.teardown(pluginId, runtime)
+    this.plugins.delete(pluginId)
+    this.notify()
+  }
+
+  getPlugin(pluginId: string): LoadedPlugin | undefined {
+    return this.plugins.get(pluginId)
+  }
+
+  getPlugins(): LoadedPlugin[] {
+    return Array.from(this.plugins.values())
+  }
+
+  /** The id of the plugin that registered a tool, if a plugin did. */
+  getToolOwner(toolId: string): string | undefined {
+    for (const [pluginId, runtime] of this.runtimes) {
+      if (runtime.toolIds.includes(toolId)) return pluginId
+    }
+    return undefined
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Tears a plugin down after an error while keeping it listed as failed.
+   * Only the first error is reported; teardown runs the plugin's code again
+   * (e.g. a tool's deactivate), which may throw as well.
+   */
+  fail(pluginId: string, error: unknown) {
+    const plugin = this.plugins.get(pluginId)
+    if (plugin?.status === 'failed') return
+    if (plugin) {
+      this.plugins.set(pluginId, { ...plugin, status: 'failed', error: errorMessage(error) })
+    }
+
+    const runtime = this.runtimes.get(pluginId)
+    if (runtime) this.teardown(pluginId, runtime)
+    this.reportError(pluginId, error)
+    this.notify()
+  }
+
+  private validate(manifest: PluginManifest) {
+    if (!isRecord(manifest)) {
+      throw new PluginError('unknown', 'Plugin manifest is not an object')
+    }
+    if (!manifest.id || typeof manifest.id !== 'string') {
+      throw new PluginError('unknown', 'Plugin manifest has no id')
+    }
+    if (!VERSION_PATTERN.test(manifest.version ?? '')) {
+      throw new PluginError(manifest.id, `Invalid plugin version "${manifest.version}"`)
+    }
+    if ((manifest.apiVersion ?? PLUGIN_API_VERSION) > PLUGIN_API_VERSION) {
+      throw new PluginError(manifest.id, `Requires plugin API ${manifest.apiVersion}`)
+    }
+    if (this.plugins.has(manifest.id)) {
+      throw new PluginError(manifest.id, 'Plugin is already loaded')
+    }
+    for (const tool of manifest.tools ?? []) {
+      if (ToolRegistry.getTool(tool.id)) {
+        throw new PluginError(manifest.id, `Tool id "${tool.id}" is already registered`)
+      }
+    }
+    for (const provider of manifest.segmentationProviders ?? []) {
+      if (SegmentationProviders.get(provider.id)) {
+        throw new PluginError(manifest.id, `Segmentation provider "${provider.id}" is already registered`)
+      }
+    }
+  }
+
+  private teardown(pluginId: string, runtime: PluginRuntime) {
+    for (const cleanup of runtime.cleanups.splice(0)) {
+      try {
+        cleanup()
+      } catch (error) {
+        console.error(`Plugin ${pluginId} cleanup failed:`, error)
+      }
+    }
+    runtime.toolIds.splice(0).forEach((toolId) => ToolRegistry.unregister(toolId))
+    runtime.presetCategoryIds.splice(0).forEach((id) => ToolPresets.unregisterCategory(id))
+    runtime.segmentationProviderIds.splice(0).forEach((id) => SegmentationProviders.unregister(id))
+    this.runtimes.delete(pluginId)
+  }
+
+  // A throwing tool handler disables its plugin instead of breaking the
+  // canvas event loop
+  private isolateHandler(pluginId: string, handler: ToolHandler): ToolHandler {
+    const guard = <A extends unknown[]>(fn?: (...args: A) => void) =>
+      fn &&
+      ((...args: A) => {
+        try {
+          fn(...args)
+        } catch (error) {
+          this.fail(pluginId, error)
+        }
+      })
+
+    return {
+      activate: guard(handler.activate)!,
+      deactivate: guard(handler.deactivate)!,
+      onMouseDown: guard(handler.onMouseDown),
+      onMouseMove: guard(handler.onMouseMove),
+      onMouseUp: guard(handler.onMouseUp),
+    }
+  }
+
+  private createContext(pluginId: string, runtime: PluginRuntime): EditorPluginContext {
+    const store = () => useEditorStore.getState()
+    return {
+      pluginId,
+      getCanvas: () => store().canvas,
+      getActiveObject: () => store().activeObject,
+      actions: {
+        deleteSelectedObject: () => store().deleteSelectedObject(),
+        duplicateSelectedObject: () => store().duplicateSelectedObject(),
+        bringToFront: () => store().bringToFront(),
+        bringForward: () => store().bringForward(),
+        sendBackward: () => store().sendBackward(),
+        updateCanvasSettings: (settings) => store().updateCanvasSettings(settings),
+        updateTextSettings: (settings) => store().updateTextSettings(settings),
+      },
+      history: {
+        save: (action, options) => store().saveToHistory(action, options),
+        undo: () => store().undo(),
+        redo: () => store().redo(),
+        canUndo: () => store().canUndo(),
+        canRedo: () => store().canRedo(),
+      },
+      toast: (message) => {
+        toast(message)
+      },
+      onToolActivation: (listener) => {
+        const unsubscribe = ToolRegistry.subscribe((event) => {
+          try {
+            listener(event)
+          } catch (error) {
+            this.fail(pluginId, error)
+          }
+        })
+        runtime.cleanups.push(unsubscribe)
+        return unsubscribe
+      },
+    }
+  }
+
+  private reportError(pluginId: string, error: unknown) {
+    console.error(`Plugin ${pluginId} failed:`, error)
+    toast({
+      title: 'Plugin Error',
+      description: `${pluginId}: ${errorMessage(error)}`,
+      variant: 'destructive',
+    })
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const PluginManager = new PluginManagerClass()
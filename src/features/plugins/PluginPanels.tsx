@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react'
+import { PluginManager, type LoadedPlugin } from './PluginManager'
+import { PluginErrorBoundary } from './PluginErrorBoundary'
+
+const PluginPanel: React.FC<{ plugin: LoadedPlugin }> = ({ plugin }) => {
+  const { manifest, context } = plugin
+  if (!manifest.panel) return null
+  const Panel = manifest.panel.component
+
+  return (
+    <section className="space-y-2">
+      <h3 className="font-medium text-sm">{manifest.panel.title}</h3>
+      <PluginErrorBoundary pluginId={manifest.id}>
+        <Panel context={context} />
+      </PluginErrorBoundary>
+    </section>
+  )
+}
+
+export const PluginPanels: React.FC = () => {
+  const [plugins, setPlugins] = useState(PluginManager.getPlugins())
+
+  useEffect(() => PluginManager.subscribe(() => setPlugins(PluginManager.getPlugins())), [])
+
+  const active = plugins.filter((plugin) => plugin.status === 'active' && plugin.manifest.panel)
+  if (active.length === 0) return null
+
+  return (
+    <div className="space-y-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+      {active.map((plugin) => (
+        <PluginPanel key={plugin.manifest.id} plugin={plugin} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { histogramFromPixels, type Histogram } from '@/features/adjustments/Histogram'
+import { healSpot } from '@/features/retouch/Healing'
+import { grabCut, type SegmentationRect } from '@/features/background/GrabCut'
+
+// Pure pixel operations that the processing pool can run in a worker or,
+// as a fallback, on the main thread. Nothing here may touch the DOM or
+// fabric, since this module is bundled into the worker.
+
+export type ImageSource = ImageData | ImageBitmap
+
+export interface ProcessingContext {
+  /** Reports completion as a fraction between 0 and 1. */
+  progress: (fraction: number) => void
+}
+
+/** Input and output types of every job, keyed by job type. */
+export interface ProcessingJobs {
+  histogram: { input: { image: ImageSource }; output: Histogram }
+  blur: { input: { image: ImageSource; radius: number }; output: ImageData }
+  magicWand: {
+    input: { image: ImageSource; x: number; y: number; tolerance: number; contiguous: boolean }
+    output: ImageData
+  }
+  heal: { input: { image: ImageSource; mask: ImageSource }; output: ImageData }
+  grabCut: { input: { image: ImageSource; rect: SegmentationRect; hints: ImageData | null }; output: ImageData }
+}
+
+export type JobType = keyof ProcessingJobs
+export type JobInput<T extends JobType> = ProcessingJobs[T]['input']
+export type JobOutput<T extends JobType> = ProcessingJobs[T]['output']
+
+type Operation<T extends JobType> = (input: JobInput<T>, context: ProcessingContext) => JobOutput<T>
+
+/** Pixels of a job's image, decoding bitmaps through an OffscreenCanvas. */
+export function toImageData(source: ImageSource): ImageData {
+  if (source instanceof ImageData) return source
+  const canvas =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(source.width, source.height)
+      : Object.assign(document.createElement('canvas'), { width: source.width, height: source.height })
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!ctx) throw new Error('2D canvas is not available')
+  ctx.drawImage(source, 0, 0)
+  return ctx.getImageData(0, 0, source.width, source.height)
+}
+
+// One horizontal and one vertical box pass, in place
+function boxBlurPass(data: Uint8ClampedArray, width: number, height: number, radius: number) {
+  const line = new Float32Array(Math.max(width, height) * 4)
+  const blurLine = (start: number, step: number, length: number) => {
+    for (let i = 0; i < length; i++) {
+      const at = start + i * step
+      for (let c = 0; c < 4; c++) line[i * 4 + c] = data[at + c]
+    }
+    const sums = [0, 0, 0, 0]
+    const sample = (i: number, c: number) => line[Math.min(length - 1, Math.max(0, i)) * 4 + c]
+    for (let c = 0; c < 4; c++) {
+      for (let i = -radius; i <= radius; i++) sums[c] += sample(i, c)
+    }
+    const size = radius * 2 + 1
+    for (let i = 0; i < length; i++) {
+      const at = start + i * step
+      for (let c = 0; c < 4; c++) {
+        data[at + c] = sums[c] / size
+        sums[c] += sample(i + radius + 1, c) - sample(i - radius, c)
+      }
+    }
+  }
+  for (let y = 0; y < height; y++) blurLine(y * width * 4, 4, width)
+  for (let x = 0; x < width; x++) blurLine(x * 4, width * 4, height)
+}
+
+const blur: Operation<'blur'> = ({ image, radius }, { progress }) => {
+  const imageData = toImageData(image)
+  const passes = 3
+  // Three box passes approximate a gaussian with this standard deviation
+  const boxRadius = Math.max(0, Math.round(Math.sqrt((radius * radius) / passes + 0.25) - 0.5))
+  if (boxRadius === 0) return imageData
+  for (let pass = 0; pass < passes; pass++) {
+    boxBlurPass(imageData.data, imageData.width, imageData.height, boxRadius)
+    progress((pass + 1) / passes)
+  }
+  return imageData
+}
+
+const histogram: Operation<'histogram'> = ({ image }) => histogramFromPixels(toImageData(image).data)
+
+// Selects pixels whose every channel is within `tolerance` of the seed
+// pixel; the output is a selection mask (white, opaque where selected)
+const magicWand: Operation<'magicWand'> = ({ image, x, y, tolerance, contiguous }, { progress }) => {
+  const { data, width, height } = toImageData(image)
+  const mask = new ImageData(width, height)
+  const seedX = Math.floor(x)
+  const seedY = Math.floor(y)
+  if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return mask
+
+  const seed = (seedY * width + seedX) * 4
+  const matches = (pixel: number) => {
+    const i = pixel * 4
+    return (
+      Math.abs(data[i] - data[seed]) <= tolerance &&
+      Math.abs(data[i + 1] - data[seed + 1]) <= tolerance &&
+      Math.abs(data[i + 2] - data[seed + 2]) <= tolerance &&
+      Math.abs(data[i + 3] - data[seed + 3]) <= tolerance
+    )
+  }
+  const select = (pixel: number) => mask.data.fill(255, pixel * 4, pixel * 4 + 4)
+  const total = width * height
+
+  if (!contiguous) {
+    for (let pixel = 0; pixel < total; pixel++) {
+      if (matches(pixel)) select(pixel)
+      if (pixel % width === 0) progress(pixel / total)
+    }
+    return mask
+  }
+
+  const visited = new Uint8Array(total)
+  const stack = [seedY * width + seedX]
+  visited[stack[0]] = 1
+  let processed = 0
+  while (stack.length > 0) {
+    const pixel = stack.pop()!
+    if (!matches(pixel)) continue
+    select(pixel)
+    const px = pixel % width
+    const neighbours = [
+      px > 0 ? pixel - 1 : -1,
+      px < width - 1 ? pixel + 1 : -1,
+      pixel >= width ? pixel - width : -1,
+      pixel < total - width ? pixel + width : -1,
+    ]
+    for (const next of neighbours) {
+      if (next !== -1 && !visited[next]) {
+        visited[next] = 1
+        stack.push(next)
+      }
+    }
+    if (++processed % 65536 === 0) progress(processed / total)
+  }
+  return mask
+}
+
+const heal: Operation<'heal'> = ({ image, mask }, { progress }) => healSpot(toImageData(image), toImageData(mask), progress)
+
+const grabCutJob: Operation<'grabCut'> = ({ image, rect, hints }, { progress }) =>
+  grabCut({ image: toImageData(image), rect, hints }, progress)
+
+export const operations: { [T in JobType]: Operation<T> } = { histogram, blur, magicWand, heal, grabCut: grabCutJob }
+
+/**
+ * Image buffers in a job's input or output, which are moved to the other
+ * side instead of copied. Other data (e.g. a selection rectangle) is copied.
+ */
+export function collectTransferables(value: unknown): Transferable[] {
+  const transferables = new Set<Transferable>()
+  const visit = (item: unknown, depth: number) => {
+    if (item instanceof ImageData) transferables.add(item.data.buffer)
+    else if (typeof ImageBitmap !== 'undefined' && item instanceof ImageBitmap) transferables.add(item)
+    else if (item && typeof item === 'object' && depth < 2) Object.values(item).forEach((child) => visit(child, depth + 1))
+  }
+  visit(value, 0)
+  return Array.from(transferables)
+}
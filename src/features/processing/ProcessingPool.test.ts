@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  ProcessingCancelledError,
+  ProcessingError,
+  ProcessingPoolClass,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './ProcessingPool'
+
+// The test environment has no ImageData, Worker or OffscreenCanvas
+class FakeImageData {
+  constructor(
+    public data: Uint8ClampedArray,
+    public width: number,
+    public height: number
+  ) {}
+}
+
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  onmessage: ((event: { data: WorkerResponse }) => void) | null = null
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null
+  requests: WorkerRequest[] = []
+  terminated = false
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(request: WorkerRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(response: WorkerResponse) {
+    this.onmessage?.({ data: response })
+  }
+}
+
+const image = (...values: number[]) =>
+  new FakeImageData(Uint8ClampedArray.from(values), values.length / 4, 1) as unknown as ImageData
+
+function withWorkers() {
+  FakeWorker.instances = []
+  vi.stubGlobal('Worker', FakeWorker)
+  vi.stubGlobal('OffscreenCanvas', class {})
+  // One worker, whatever the machine running the tests
+  vi.stubGlobal('navigator', { hardwareConcurrency: 2 })
+  return new ProcessingPoolClass()
+}
+
+vi.stubGlobal('ImageData', FakeImageData)
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.stubGlobal('ImageData', FakeImageData)
+})
+
+describe('ProcessingPool without workers', () => {
+  it('runs jobs on the main thread', async () => {
+    const pool = new ProcessingPoolClass()
+    const histogram = await pool.run('histogram', { image: image(10, 20, 30, 255, 10, 20, 30, 255) })
+    expect(histogram.red[10]).toBe(2)
+    expect(histogram.blue[30]).toBe(2)
+  })
+
+  it('reports progress', async () => {
+    const pool = new ProcessingPoolClass()
+    const onProgress = vi.fn()
+    await pool.run('blur', { image: image(...new Array(64).fill(128)), radius: 4 }, { onProgress })
+    expect(onProgress).toHaveBeenLastCalledWith(1)
+  })
+
+  it('wraps operation errors in ProcessingError', async () => {
+    const pool = new ProcessingPoolClass()
+    const bitmap = { width: 1, height: 1 } as unknown as ImageBitmap
+    await expect(pool.run('histogram', { image: bitmap })).rejects.toBeInstanceOf(ProcessingError)
+  })
+
+  it('rejects jobs cancelled before or while they wait', async () => {
+    const pool = new ProcessingPoolClass()
+    const controller = new AbortController()
+    controller.abort()
+    await expect(pool.run('histogram', { image: image(0, 0, 0, 255) }, { signal: controller.signal })).rejects.toBeInstanceOf(
+      ProcessingCancelledError
+    )
+
+    const later = new AbortController()
+    const job = pool.run('histogram', { image: image(0, 0, 0, 255) }, { signal: later.signal })
+    later.abort()
+    await expect(job).rejects.toBeInstanceOf(ProcessingCancelledError)
+  })
+
+  it('removes the abort listener once a job settles', async () => {
+    const pool = new ProcessingPoolClass()
+    const controller = new AbortController()
+    const remove = vi.spyOn(controller.signal, 'removeEventListener')
+    await pool.run('histogram', { image: image(0, 0, 0, 255) }, { signal: controller.signal })
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function))
+  })
+})
+
+describe('ProcessingPool with workers', () => {
+  it('queues jobs beyond the pool size until a worker is free', async () => {
+    const pool = withWorkers()
+    const first = pool.run('histogram', { image: image(0, 0, 0, 255) })
+    const second = pool.run('histogram', { image: image(1, 1, 1, 255) })
+
+    expect(FakeWorker.instances).toHaveLength(1)
+    const [worker] = FakeWorker.instances
+    expect(worker.requests.map((request) => request.id)).toEqual([1])
+
+    worker.reply({ kind: 'progress', id: 1, progress: 0.5 })
+    worker.reply({ kind: 'done', id: 1, output: 'first' })
+    await expect(first).resolves.toBe('first')
+    expect(worker.requests.map((request) => request.id)).toEqual([1, 2])
+
+    worker.reply({ kind: 'error', id: 2, message: 'bad pixels' })
+    await expect(second).rejects.toThrow(new ProcessingError('bad pixels'))
+  })
+
+  it('drops a cancelled queued job without running it', async () => {
+    const pool = withWorkers()
+    pool.run('histogram', { image: image(0, 0, 0, 255) })
+    const controller = new AbortController()
+    const queued = pool.run('histogram', { image: image(0, 0, 0, 255) }, { signal: controller.signal })
+
+    controller.abort()
+    await expect(queued).rejects.toBeInstanceOf(ProcessingCancelledError)
+    FakeWorker.instances[0].reply({ kind: 'done', id: 1, output: null })
+    expect(FakeWorker.instances[0].requests).toHaveLength(1)
+  })
+
+  it('terminates the worker of a cancelled running job and starts the next one on a new worker', async () => {
+    const pool = withWorkers()
+    const controller = new AbortController()
+    const running = pool.run('histogram', { image: image(0, 0, 0, 255) }, { signal: controller.signal })
+    pool.run('histogram', { image: image(0, 0, 0, 255) })
+
+    controller.abort()
+    await expect(running).rejects.toBeInstanceOf(ProcessingCancelledError)
+    expect(FakeWorker.instances[0].terminated).toBe(true)
+    expect(FakeWorker.instances[1].requests.map((request) => request.id)).toEqual([2])
+  })
+
+  it('falls back to the main thread when a worker fails', async () => {
+    const pool = withWorkers()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const running = pool.run('histogram', { image: image(0, 0, 0, 255) })
+    const queued = pool.run('histogram', { image: image(5, 5, 5, 255) })
+
+    FakeWorker.instances[0].onerror?.({ message: 'failed to load', preventDefault: () => {} })
+    await expect(running).rejects.toThrow('failed to load')
+    await expect(queued).resolves.toMatchObject({ red: expect.any(Array) })
+    expect(FakeWorker.instances[0].terminated).toBe(true)
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,200 @@
+import {
+  collectTransferables,
+  operations,
+  type JobInput,
+  type JobOutput,
+  type JobType,
+  type ProcessingContext,
+} from './ProcessingOperations'
+
+export interface WorkerRequest {
+  id: number
+  type: string
+  input: unknown
+}
+
+export type WorkerResponse =
+  | { kind: 'progress'; id: number; progress: number }
+  | { kind: 'done'; id: number; output: unknown }
+  | { kind: 'error'; id: number; message: string }
+
+export interface JobOptions {
+  signal?: AbortSignal
+  onProgress?: (fraction: number) => void
+}
+
+export class ProcessingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProcessingError'
+  }
+}
+
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Processing was cancelled')
+    this.name = 'ProcessingCancelledError'
+  }
+}
+
+interface Job {
+  id: number
+  type: JobType
+  input: unknown
+  options: JobOptions
+  resolve: (output: unknown) => void
+  reject: (error: Error) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  job: Job | null
+}
+
+const MAX_WORKERS = 4
+
+// Runs pixel jobs off the main thread. Workers start lazily, one job each;
+// extra jobs wait in a queue. Cancelling a running job terminates its
+// worker, since a busy worker can't receive messages until it finishes.
+// Where workers or OffscreenCanvas are missing (tests, old browsers) jobs
+// run synchronously on the main thread instead.
+export class ProcessingPoolClass {
+  private workers: PoolWorker[] = []
+  private queue: Job[] = []
+  private nextId = 1
+  private synchronous = typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined'
+  private size = Math.min(
+    MAX_WORKERS,
+    Math.max(1, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2) - 1)
+  )
+
+  /**
+   * Runs a job and resolves with its output. Image buffers in the input are
+   * transferred to the worker, so callers must not reuse them afterwards.
+   */
+  run<T extends JobType>(type: T, input: JobInput<T>, options: JobOptions = {}): Promise<JobOutput<T>> {
+    return new Promise<unknown>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new ProcessingCancelledError())
+        return
+      }
+
+      // The abort listener goes with the job, so long-lived signals don't
+      // keep finished jobs alive
+      const onAbort = () => this.cancel(job)
+      const settle = () => options.signal?.removeEventListener('abort', onAbort)
+      const job: Job = {
+        id: this.nextId++,
+        type,
+        input,
+        options,
+        resolve: (output) => {
+          settle()
+          resolve(output)
+        },
+        reject: (error) => {
+          settle()
+          reject(error)
+        },
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+
+      if (this.synchronous) {
+        this.runSynchronously(job)
+      } else {
+        this.queue.push(job)
+        this.dispatch()
+      }
+    }) as Promise<JobOutput<T>>
+  }
+
+  /** Forces main-thread execution, e.g. in test environments. */
+  useSynchronousFallback(enabled = true) {
+    this.synchronous = enabled
+    if (enabled) this.terminateAll()
+  }
+
+  private runSynchronously(job: Job) {
+    // Still async, so callers see the same ordering as with workers
+    setTimeout(() => {
+      if (job.options.signal?.aborted) return
+      try {
+        const operation = operations[job.type] as (input: unknown, context: ProcessingContext) => unknown
+        job.resolve(operation(job.input, { progress: (fraction) => job.options.onProgress?.(fraction) }))
+      } catch (error) {
+        job.reject(new ProcessingError(error instanceof Error ? error.message : String(error)))
+      }
+    }, 0)
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const slot = this.workers.find((entry) => entry.job === null) ?? this.spawnWorker()
+      if (!slot) return
+      const job = this.queue.shift()!
+      slot.job = job
+      const request: WorkerRequest = { id: job.id, type: job.type, input: job.input }
+      slot.worker.postMessage(request, collectTransferables(job.input))
+    }
+  }
+
+  private spawnWorker(): PoolWorker | null {
+    if (this.workers.length >= this.size) return null
+    const worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' })
+    const slot: PoolWorker = { worker, job: null }
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(slot, event.data)
+    worker.onerror = (event) => this.handleWorkerFailure(event)
+    this.workers.push(slot)
+    return slot
+  }
+
+  private handleMessage(slot: PoolWorker, message: WorkerResponse) {
+    const job = slot.job
+    if (!job || job.id !== message.id) return
+
+    if (message.kind === 'progress') {
+      job.options.onProgress?.(message.progress)
+      return
+    }
+    slot.job = null
+    if (message.kind === 'done') job.resolve(message.output)
+    else job.reject(new ProcessingError(message.message))
+    this.dispatch()
+  }
+
+  // A worker that fails to load or crashes takes its job's transferred
+  // pixels with it, so that job fails; later jobs run on the main thread
+  private handleWorkerFailure(event: ErrorEvent) {
+    event.preventDefault()
+    console.warn('Processing worker failed, falling back to the main thread:', event.message)
+    const running = this.workers.flatMap((entry) => (entry.job ? [entry.job] : []))
+    const queued = this.queue
+    this.queue = []
+    this.terminateAll()
+    this.synchronous = true
+    running.forEach((job) => job.reject(new ProcessingError(event.message || 'Processing worker failed')))
+    queued.forEach((job) => this.runSynchronously(job))
+  }
+
+  private cancel(job: Job) {
+    const queued = this.queue.indexOf(job)
+    if (queued !== -1) {
+      this.queue.splice(queued, 1)
+    } else {
+      const slot = this.workers.find((entry) => entry.job === job)
+      if (slot) {
+        slot.worker.terminate()
+        this.workers = this.workers.filter((entry) => entry !== slot)
+      }
+    }
+    job.reject(new ProcessingCancelledError())
+    this.dispatch()
+  }
+
+  private terminateAll() {
+    this.workers.forEach((entry) => entry.worker.terminate())
+    this.workers = []
+  }
+}
+
+export const ProcessingPool = new ProcessingPoolClass()
@@ -0,0 +1,53 @@
+import { ToastAction } from '@/components/ui/toast'
+import { toast } from '@/hooks/use-toast'
+import type { JobOptions } from './ProcessingPool'
+
+// Jobs that finish quickly never show a toast
+const TOAST_DELAY = 400
+
+const progressBar = (fraction: number) => (
+  <div className="mt-2 h-1.5 w-48 rounded bg-muted overflow-hidden">
+    <div className="h-full bg-primary transition-[width]" style={{ width: `${Math.round(fraction * 100)}%` }} />
+  </div>
+)
+
+/**
+ * Runs a pool job and, if it takes a while, shows its progress in a toast
+ * with a Cancel button. Errors (including cancellation) are re-thrown.
+ */
+export async function runWithProgressToast<T>(
+  title: string,
+  start: (options: Required<JobOptions>) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController()
+  let fraction = 0
+  const shown: { handle: ReturnType<typeof toast> | null } = { handle: null }
+
+  const render = () => ({
+    title,
+    description: progressBar(fraction),
+    duration: Infinity,
+    action: (
+      <ToastAction altText="Cancel" onClick={() => controller.abort()}>
+        Cancel
+      </ToastAction>
+    ),
+  })
+
+  const timer = window.setTimeout(() => {
+    shown.handle = toast(render())
+  }, TOAST_DELAY)
+
+  try {
+    return await start({
+      signal: controller.signal,
+      onProgress: (next) => {
+        fraction = next
+        shown.handle?.update({ id: shown.handle.id, ...render() })
+      },
+    })
+  } finally {
+    window.clearTimeout(timer)
+    shown.handle?.dismiss()
+  }
+}
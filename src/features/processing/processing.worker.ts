@@ -0,0 +1,29 @@
+import { collectTransferables, operations, type JobType } from './ProcessingOperations'
+import type { WorkerRequest, WorkerResponse } from './ProcessingPool'
+
+// Worker entry point: runs one job at a time and reports back. Progress
+// messages are throttled to whole percents.
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void
+}
+
+scope.onmessage = ({ data: request }) => {
+  let lastPercent = -1
+  const progress = (fraction: number) => {
+    const percent = Math.floor(Math.min(Math.max(fraction, 0), 1) * 100)
+    if (percent === lastPercent) return
+    lastPercent = percent
+    scope.postMessage({ kind: 'progress', id: request.id, progress: percent / 100 })
+  }
+
+  try {
+    const operation = operations[request.type as JobType] as (input: unknown, context: { progress: typeof progress }) => unknown
+    if (!operation) throw new Error(`Unknown processing job: ${request.type}`)
+    const output = operation(request.input, { progress })
+    scope.postMessage({ kind: 'done', id: request.id, output }, collectTransferables(output))
+  } catch (error) {
+    scope.postMessage({ kind: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+}
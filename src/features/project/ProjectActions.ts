@@ -0,0 +1,21 @@
+import { toast } from '@/hooks/use-toast'
+import { useEditorStore } from '@/store/editorStore'
+
+// Project commands shared by the toolbar, panels and keyboard shortcuts, so
+// each reports its outcome the same way wherever it is triggered from.
+
+/** Saves the project to the library and reports the outcome in a toast. */
+export async function saveProjectWithFeedback() {
+  const store = useEditorStore.getState()
+  try {
+    await store.saveProject()
+    toast({ title: 'Project Saved', description: useEditorStore.getState().projectName })
+  } catch (error) {
+    console.error('Save failed:', error)
+    toast({
+      title: 'Save Failed',
+      description: 'The project could not be written to browser storage',
+      variant: 'destructive',
+    })
+  }
+}
@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseProjectFile, ProjectFileError, PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION } from './ProjectFile'
+
+const legacyCanvas = {
+  version: '5.3.0',
+  background: '#123456',
+  objects: [{ type: 'rect', left: 10, top: 20, width: 30, height: 40 }],
+}
+
+describe('parseProjectFile', () => {
+  it('wraps a legacy bare canvas in the current envelope', () => {
+    const project = parseProjectFile(JSON.stringify(legacyCanvas))
+    expect(project.format).toBe(PROJECT_FILE_FORMAT)
+    expect(project.version).toBe(PROJECT_FILE_VERSION)
+    expect(project.canvas).toEqual(legacyCanvas)
+    expect(project.canvasSettings).toEqual({ backgroundColor: '#123456' })
+    expect(project.assets).toEqual({})
+    expect(project.fonts).toEqual([])
+  })
+
+  it('accepts parsed objects as well as JSON text', () => {
+    expect(parseProjectFile(legacyCanvas)).toEqual(parseProjectFile(JSON.stringify(legacyCanvas)))
+  })
+
+  it('keeps the contents of a version 2 envelope', () => {
+    const project = parseProjectFile({
+      format: PROJECT_FILE_FORMAT,
+      version: 2,
+      savedAt: 1718000000000,
+      canvas: { objects: [{ type: 'image', src: 'asset:a1' }] },
+      canvasSettings: { width: 640, height: 480 },
+      textSettings: { fontSize: 32 },
+      assets: { a1: { mimeType: 'image/png', data: 'data:image/png;base64,AAAA' } },
+      fonts: [],
+    })
+    expect(project.version).toBe(PROJECT_FILE_VERSION)
+    expect(project.savedAt).toBe(1718000000000)
+    expect(project.canvasSettings).toEqual({ width: 640, height: 480 })
+    expect(project.textSettings).toEqual({ fontSize: 32 })
+    expect(project.assets.a1.mimeType).toBe('image/png')
+  })
+
+  it('records the faces a version 2 canvas uses', () => {
+    const project = parseProjectFile({
+      format: PROJECT_FILE_FORMAT,
+      version: 2,
+      savedAt: 0,
+      canvas: {
+        objects: [
+          { type: 'i-text', text: 'Hi', fontFamily: 'Lato', fontWeight: 'bold' },
+          {
+            type: 'textbox',
+            text: 'ab',
+            fontFamily: 'Inter',
+            fontStyle: 'italic',
+            styles: { 0: { 1: { fontFamily: 'Padauk' } } },
+          },
+        ],
+      },
+      fonts: [{ family: 'Lato', data: 'data:font/woff2;base64,AAAA' }],
+    })
+    expect(project.fontDependencies).toEqual([
+      { family: 'Lato', weight: '700', style: 'normal' },
+      { family: 'Inter', weight: '400', style: 'italic' },
+      { family: 'Padauk', weight: '400', style: 'italic' },
+    ])
+    expect(project.fonts).toHaveLength(1)
+  })
+
+  it('keeps the recorded faces of a version 3 file', () => {
+    const fontDependencies = [{ family: 'Roboto', weight: '300', style: 'normal' }]
+    const project = parseProjectFile({
+      format: PROJECT_FILE_FORMAT,
+      version: 3,
+      savedAt: 0,
+      canvas: { objects: [] },
+      fonts: [],
+      fontDependencies,
+    })
+    expect(project.fontDependencies).toEqual(fontDependencies)
+    expect(project.version).toBe(PROJECT_FILE_VERSION)
+  })
+
+  it('gives a version 3 file no embedded LUTs', () => {
+    const project = parseProjectFile({ format: PROJECT_FILE_FORMAT, version: 3, savedAt: 0, canvas: { objects: [] } })
+    expect(project.luts).toEqual([])
+  })
+
+  it('keeps the LUTs embedded in a version 4 file', () => {
+    const luts = [{ id: 'l1', name: 'Teal', size: 2, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data: 'AAAA' }]
+    const project = parseProjectFile({ format: PROJECT_FILE_FORMAT, version: 4, savedAt: 0, canvas: { objects: [] }, luts })
+    expect(project.luts).toEqual(luts)
+  })
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseProjectFile('{ not json')).toThrow(ProjectFileError)
+  })
+
+  it('rejects JSON that is not a project', () => {
+    expect(() => parseProjectFile('[1, 2, 3]')).toThrow('Not a Photo Editor project file')
+    expect(() => parseProjectFile({ hello: 'world' })).toThrow('Not a Photo Editor project file')
+  })
+
+  it('rejects an envelope without a version', () => {
+    expect(() => parseProjectFile({ format: PROJECT_FILE_FORMAT, canvas: {} })).toThrow('no schema version')
+  })
+
+  it('rejects files from a newer editor', () => {
+    expect(() =>
+      parseProjectFile({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION + 1, canvas: { objects: [] } })
+    ).toThrow('newer version')
+  })
+
+  it('rejects an envelope without canvas data', () => {
+    expect(() => parseProjectFile({ format: PROJECT_FILE_FORMAT, version: 2, canvas: null })).toThrow(
+      'no canvas data'
+    )
+  })
+})
@@ -0,0 +1,297 @@
+import { fabric } from 'fabric'
+import type { CanvasSettings, CustomFontAsset, TextSettings } from '@/store/editorStore'
+import type { JsonValue } from '@/store/history'
+import { generateId } from '@/lib/utils'
+import { collectFontDependencies, type FontDependency } from '@/features/fonts/FontModel'
+import { collectLutIds, type Lut3D } from '@/features/luts/LutModel'
+
+/*
+ * Project file format
+ * -------------------
+ * A project is a single JSON document (`*.pev4.json`) with this shape:
+ *
+ *   {
+ *     "format": "photo-editor-v4-project",
+ *     "version": 4,                      // PROJECT_FILE_VERSION
+ *     "savedAt": 1718000000000,          // ms since epoch
+ *     "canvas": { ...fabric canvas JSON },
+ *     "canvasSettings": { width, height, backgroundColor },
+ *     "textSettings": { ...last used text settings },
+ *     "assets": { "<id>": { "mimeType": "image/png", "data": "data:image/png;base64,..." } },
+ *     "fonts": [ { "family": "MyFont", "weight": "700", "style": "normal", "data": "data:font/woff2;base64,..." } ],
+ *     "fontDependencies": [ { "family": "MyFont", "weight": "700", "style": "normal" } ],
+ *     "luts": [ { "id": "<id>", "name": "Teal", "size": 33, "domainMin": [0, 0, 0], "domainMax": [1, 1, 1], "data": "<base64>" } ]
+ *   }
+ *
+ * Image objects inside `canvas` reference embedded pixels with a
+ * `"src": "asset:<id>"` URL so the same picture used twice is stored once and
+ * blob: URLs from the uploader survive a reload. `fontDependencies` lists
+ * every face the text uses; `fonts` carries the files of the non-system
+ * families among them, so the project renders on machines without them. A
+ * face split into files by script has one entry per file, each with the
+ * `"unicodeRange"` it covers. `luts` carries the 3D LUTs that LUT adjustments
+ * refer to by id, each table as base64 of its float32 values.
+ *
+ * Versions:
+ *   1 - legacy: the bare `canvas.toJSON()` written by older builds under the
+ *       `photoEditorV4Project` localStorage key
+ *   2 - the envelope described above
+ *   3 - adds `fontDependencies`; fonts gain `weight` and `style`
+ *   4 - adds `luts`
+ *
+ * Readers must run input through `parseProjectFile`, which upgrades older
+ * versions one step at a time via `MIGRATIONS`. To change the format, bump
+ * PROJECT_FILE_VERSION and append a migration from the previous version.
+ */
+
+export const PROJECT_FILE_FORMAT = 'photo-editor-v4-project'
+export const PROJECT_FILE_VERSION = 4
+export const PROJECT_FILE_EXTENSION = '.pev4.json'
+// localStorage key used for the single project kept by older builds
+export const PROJECT_STORAGE_KEY = 'photoEditorV4Project'
+
+const ASSET_URL_PREFIX = 'asset:'
+
+export interface ProjectAsset {
+  mimeType: string
+  data: string
+}
+
+export interface ProjectLut extends Omit<Lut3D, 'table'> {
+  data: string
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  savedAt: number
+  canvas: JsonValue
+  canvasSettings: Partial<CanvasSettings>
+  textSettings: TextSettings
+  assets: Record<string, ProjectAsset>
+  fonts: CustomFontAsset[]
+  fontDependencies: FontDependency[]
+  luts: ProjectLut[]
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectFileError'
+  }
+}
+
+type UnknownRecord = Record<string, unknown>
+
+interface ProjectMigration {
+  from: number
+  migrate: (data: UnknownRecord) => UnknownRecord
+}
+
+const MIGRATIONS: ProjectMigration[] = [
+  {
+    // Wrap the bare canvas JSON in the versioned envelope
+    from: 1,
+    migrate: (data) => ({
+      format: PROJECT_FILE_FORMAT,
+      version: 2,
+      savedAt: 0,
+      canvas: data,
+      canvasSettings: typeof data.background === 'string' ? { backgroundColor: data.background } : {},
+      textSettings: {},
+      assets: {},
+      fonts: [],
+    }),
+  },
+  {
+    // Record the faces the text uses; older files only embedded regular faces
+    from: 2,
+    migrate: (data) => ({
+      ...data,
+      version: 3,
+      fontDependencies: collectFontDependencies((data.canvas ?? null) as JsonValue),
+    }),
+  },
+  {
+    // LUTs were only kept in the browser that imported them
+    from: 3,
+    migrate: (data) => ({ ...data, version: 4, luts: [] }),
+  },
+]
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function detectVersion(data: UnknownRecord): number {
+  if (data.format === PROJECT_FILE_FORMAT) {
+    if (typeof data.version !== 'number') {
+      throw new ProjectFileError('Project file has no schema version')
+    }
+    return data.version
+  }
+  if (Array.isArray(data.objects)) return 1
+  throw new ProjectFileError('Not a Photo Editor project file')
+}
+
+/**
+ * Validates raw project data (a parsed object or JSON text) and upgrades it
+ * to the current schema version.
+ */
+export function parseProjectFile(raw: unknown): ProjectFile {
+  let data: unknown = raw
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      throw new ProjectFileError('Project file is not valid JSON')
+    }
+  }
+  if (!isRecord(data)) {
+    throw new ProjectFileError('Not a Photo Editor project file')
+  }
+
+  let version = detectVersion(data)
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      `Project was saved by a newer version of the editor (schema ${version})`
+    )
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version)
+    if (!migration) {
+      throw new ProjectFileError(`No migration from project schema ${version}`)
+    }
+    data = migration.migrate(data as UnknownRecord)
+    version = detectVersion(data as UnknownRecord)
+  }
+
+  const project = data as UnknownRecord
+  if (!isRecord(project.canvas)) {
+    throw new ProjectFileError('Project file has no canvas data')
+  }
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version,
+    savedAt: typeof project.savedAt === 'number' ? project.savedAt : 0,
+    canvas: project.canvas as JsonValue,
+    canvasSettings: isRecord(project.canvasSettings) ? project.canvasSettings : {},
+    textSettings: isRecord(project.textSettings) ? project.textSettings : {},
+    assets: isRecord(project.assets) ? (project.assets as Record<string, ProjectAsset>) : {},
+    fonts: Array.isArray(project.fonts) ? (project.fonts as CustomFontAsset[]) : [],
+    fontDependencies: Array.isArray(project.fontDependencies) ? (project.fontDependencies as FontDependency[]) : [],
+    luts: Array.isArray(project.luts) ? (project.luts as ProjectLut[]) : [],
+  }
+}
+
+function collectImages(objects: fabric.Object[], images: fabric.Image[] = []) {
+  for (const object of objects) {
+    if (object instanceof fabric.Image) images.push(object)
+    if (object instanceof fabric.Group) collectImages(object.getObjects(), images)
+  }
+  return images
+}
+
+// Formats kept when an image is re-encoded, so JPEG photos don't grow into
+// PNGs; sources of other or unknown types become lossless PNGs
+const SOURCE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+}
+
+function sourceMimeType(src: string): string {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(src)?.[1].toLowerCase()
+  return (extension && SOURCE_MIME_TYPES[extension]) || 'image/png'
+}
+
+function imageToDataUrl(image: fabric.Image): string | null {
+  // The source pixels, not the filtered element, so adjustments aren't baked in
+  const element =
+    (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })._originalElement ??
+    (image.getElement() as HTMLImageElement | HTMLCanvasElement)
+  const src = image.getSrc()
+  if (src.startsWith('data:')) return src
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = element instanceof HTMLImageElement ? element.naturalWidth : element.width
+    canvas.height = element instanceof HTMLImageElement ? element.naturalHeight : element.height
+    canvas.getContext('2d')?.drawImage(element, 0, 0)
+    // Browsers without an encoder for the type fall back to PNG
+    return canvas.toDataURL(sourceMimeType(src), 0.92)
+  } catch {
+    // Cross-origin images taint the canvas; keep referencing them by URL
+    return null
+  }
+}
+
+function mapImageSources(node: JsonValue, map: (src: string) => string): JsonValue {
+  if (Array.isArray(node)) return node.map((child) => mapImageSources(child, map))
+  if (node === null || typeof node !== 'object') return node
+
+  const result: { [key: string]: JsonValue } = {}
+  for (const [key, value] of Object.entries(node)) {
+    result[key] = key === 'src' && typeof value === 'string' ? map(value) : mapImageSources(value, map)
+  }
+  return result
+}
+
+interface CreateProjectFileOptions {
+  canvas: fabric.Canvas
+  canvasJson: JsonValue
+  canvasSettings: CanvasSettings
+  textSettings: TextSettings
+  // Embeddable faces of the families the canvas uses
+  fonts: (families: string[]) => CustomFontAsset[]
+  // Embeddable copies of the LUTs with these ids
+  luts: (ids: string[]) => ProjectLut[]
+}
+
+/** Builds a self-contained project document with images, fonts and LUTs embedded. */
+export function createProjectFile({
+  canvas,
+  canvasJson,
+  canvasSettings,
+  textSettings,
+  fonts,
+  luts,
+}: CreateProjectFileOptions): ProjectFile {
+  const assets: Record<string, ProjectAsset> = {}
+  const assetIds = new Map<string, string>()
+
+  for (const image of collectImages(canvas.getObjects())) {
+    const src = image.getSrc()
+    if (assetIds.has(src)) continue
+    const data = imageToDataUrl(image)
+    if (!data) continue
+    const id = generateId()
+    assets[id] = { mimeType: data.slice(5, data.indexOf(';')), data }
+    assetIds.set(src, id)
+  }
+
+  const fontDependencies = collectFontDependencies(canvasJson)
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: Date.now(),
+    canvas: mapImageSources(canvasJson, (src) =>
+      assetIds.has(src) ? ASSET_URL_PREFIX + assetIds.get(src) : src
+    ),
+    canvasSettings,
+    textSettings,
+    assets,
+    fonts: fonts(Array.from(new Set(fontDependencies.map((dependency) => dependency.family)))),
+    fontDependencies,
+    luts: luts(collectLutIds(canvasJson)),
+  }
+}
+
+/** Returns the project's canvas JSON with asset references swapped for data URLs. */
+export function resolveProjectCanvas(project: ProjectFile): JsonValue {
+  return mapImageSources(project.canvas, (src) => {
+    if (!src.startsWith(ASSET_URL_PREFIX)) return src
+    return project.assets[src.slice(ASSET_URL_PREFIX.length)]?.data ?? src
+  })
+}
@@ -0,0 +1,122 @@
+import type { fabric } from 'fabric'
+import { idbDelete, idbGet, idbGetAll, idbPut, STORES } from '@/lib/idb'
+import { generateId } from '@/lib/utils'
+import { parseProjectFile, PROJECT_STORAGE_KEY, type ProjectFile } from './ProjectFile'
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  thumbnail: string
+  createdAt: number
+  modifiedAt: number
+  size: number
+}
+
+export interface RecoverySession {
+  projectId: string | null
+  name: string
+  savedAt: number
+  project: ProjectFile
+}
+
+interface SaveProjectOptions {
+  id?: string | null
+  name: string
+  project: ProjectFile
+  thumbnail: string
+}
+
+const SESSION_KEY = 'autosave'
+const THUMBNAIL_WIDTH = 240
+
+export function createThumbnail(canvas: fabric.Canvas): string {
+  return canvas.toDataURL({
+    format: 'jpeg',
+    quality: 0.7,
+    multiplier: Math.min(1, THUMBNAIL_WIDTH / (canvas.getWidth() || THUMBNAIL_WIDTH)),
+  })
+}
+
+// Metadata and project bodies live in separate stores so listing the
+// library does not deserialize every embedded image.
+class ProjectLibraryClass {
+  async list(): Promise<ProjectSummary[]> {
+    const projects = await idbGetAll<ProjectSummary>(STORES.projects)
+    return projects.sort((a, b) => b.modifiedAt - a.modifiedAt)
+  }
+
+  async load(id: string): Promise<ProjectFile> {
+    const data = await idbGet<unknown>(STORES.projectData, id)
+    if (data === undefined) {
+      throw new Error('Project not found in library')
+    }
+    return parseProjectFile(data)
+  }
+
+  async save({ id, name, project, thumbnail }: SaveProjectOptions): Promise<ProjectSummary> {
+    const existing = id ? await idbGet<ProjectSummary>(STORES.projects, id) : undefined
+    const now = Date.now()
+    const summary: ProjectSummary = {
+      id: existing?.id ?? id ?? generateId(),
+      name,
+      thumbnail,
+      createdAt: existing?.createdAt ?? now,
+      modifiedAt: now,
+      size: new Blob([JSON.stringify(project)]).size,
+    }
+
+    await idbPut(STORES.projectData, summary.id, project)
+    await idbPut(STORES.projects, summary.id, summary)
+    return summary
+  }
+
+  async rename(id: string, name: string) {
+    const existing = await idbGet<ProjectSummary>(STORES.projects, id)
+    if (existing) {
+      await idbPut(STORES.projects, id, { ...existing, name, modifiedAt: Date.now() })
+    }
+  }
+
+  async remove(id: string) {
+    await idbDelete(STORES.projectData, id)
+    await idbDelete(STORES.projects, id)
+  }
+
+  saveSession(session: RecoverySession) {
+    return idbPut(STORES.sessions, SESSION_KEY, session)
+  }
+
+  async getSession(): Promise<RecoverySession | undefined> {
+    const session = await idbGet<RecoverySession>(STORES.sessions, SESSION_KEY)
+    if (!session) return undefined
+    return { ...session, project: parseProjectFile(session.project) }
+  }
+
+  clearSession() {
+    return idbDelete(STORES.sessions, SESSION_KEY)
+  }
+
+  /**
+   * Moves a project left under the old single localStorage key into the
+   * library, freeing the storage quota it occupied.
+   */
+  async importLegacyProject(): Promise<ProjectSummary | null> {
+    const data = localStorage.getItem(PROJECT_STORAGE_KEY)
+    if (!data) return null
+
+    try {
+      const summary = await this.save({
+        name: 'Recovered project',
+        project: parseProjectFile(data),
+        thumbnail: '',
+      })
+      localStorage.removeItem(PROJECT_STORAGE_KEY)
+      return summary
+    } catch (error) {
+      console.warn('Failed to import legacy project:', error)
+      return null
+    }
+  }
+}
+
+export const ProjectLibrary = new ProjectLibraryClass()
@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+import { formatFileSize } from '@/lib/utils'
+import { ImageIcon, Pencil, Plus, Trash2 } from 'lucide-react'
+import { ProjectLibrary, type ProjectSummary } from './ProjectLibrary'
+
+interface ProjectLibraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString()
+
+export const ProjectLibraryDialog: React.FC<ProjectLibraryDialogProps> = ({ open, onOpenChange }) => {
+  const { currentProjectId, isDirty, openLibraryProject, newProject, renameProject } = useEditorStore()
+  const { toast } = useToast()
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await ProjectLibrary.list())
+    } catch (error) {
+      console.error('Failed to list projects:', error)
+      toast({
+        title: 'Library Unavailable',
+        description: 'Projects could not be read from browser storage',
+        variant: 'destructive'
+      })
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (open) refresh()
+  }, [open, refresh])
+
+  const confirmDiscard = () =>
+    !isDirty || window.confirm('You have unsaved changes. Discard them?')
+
+  const handleOpen = async (project: ProjectSummary) => {
+    if (!confirmDiscard()) return
+    try {
+      await openLibraryProject(project.id)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to open project:', error)
+      toast({
+        title: 'Open Failed',
+        description: error instanceof Error ? error.message : 'Could not open the project',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleNew = async () => {
+    if (!confirmDiscard()) return
+    try {
+      await newProject()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to create project:', error)
+      toast({
+        title: 'New Project Failed',
+        description: error instanceof Error ? error.message : 'Could not start a new project',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleRename = async (project: ProjectSummary) => {
+    const name = editingName.trim()
+    setEditingId(null)
+    if (!name || name === project.name) return
+
+    try {
+      if (project.id === currentProjectId) {
+        await renameProject(name)
+      } else {
+        await ProjectLibrary.rename(project.id, name)
+      }
+    } catch (error) {
+      console.error('Failed to rename project:', error)
+      toast({
+        title: 'Rename Failed',
+        description: 'The project could not be renamed in browser storage',
+        variant: 'destructive'
+      })
+    }
+    refresh()
+  }
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return
+    try {
+      await ProjectLibrary.remove(project.id)
+    } catch (error) {
+      console.error('Failed to delete project:', error)
+      toast({
+        title: 'Delete Failed',
+        description: 'The project could not be removed from browser storage',
+        variant: 'destructive'
+      })
+      return
+    }
+    if (project.id === currentProjectId) {
+      useEditorStore.setState({ currentProjectId: null })
+    }
+    refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>
+            Projects are stored in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button onClick={handleNew} variant="outline" className="w-full">
+          <Plus className="w-4 h-4 mr-2" />
+          New Project
+        </Button>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-[60vh] overflow-y-auto">
+          {projects.length === 0 && (
+            <p className="col-span-full text-sm text-gray-500 text-center py-8">
+              No saved projects yet
+            </p>
+          )}
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className={
+                'border rounded-lg overflow-hidden flex flex-col ' +
+                (project.id === currentProjectId ? 'border-blue-500' : 'border-gray-200')
+              }
+            >
+              <button
+                className="aspect-video bg-gray-100 flex items-center justify-center hover:opacity-80 transition-opacity"
+                onClick={() => handleOpen(project)}
+                aria-label={`Open ${project.name}`}
+              >
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt="" className="w-full h-full object-contain" />
+                ) : (
+                  <ImageIcon className="w-8 h-8 text-gray-400" />
+                )}
+              </button>
+              <div className="p-2 space-y-1">
+                {editingId === project.id ? (
+                  <Input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={() => handleRename(project)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(project)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className="h-8"
+                  />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <span className="font-medium text-sm truncate flex-1">{project.name}</span>
+                    <button
+                      className="p-1 text-gray-500 hover:text-gray-800"
+                      onClick={() => {
+                        setEditingId(project.id)
+                        setEditingName(project.name)
+                      }}
+                      aria-label="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      onClick={() => handleDelete(project)}
+                      aria-label="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500">
+                  Modified {formatDate(project.modifiedAt)} • {formatFileSize(project.size)}
+                </p>
+                <p className="text-xs text-gray-400">Created {formatDate(project.createdAt)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+import { ProjectLibrary, type RecoverySession } from './ProjectLibrary'
+
+/**
+ * Checks for an autosaved session once the canvas exists and offers to
+ * restore it. Also moves a project saved by older builds into the library.
+ */
+export const RecoveryPrompt: React.FC = () => {
+  const { canvas, recoverSession } = useEditorStore()
+  const { toast } = useToast()
+  const [session, setSession] = useState<RecoverySession | null>(null)
+
+  useEffect(() => {
+    if (!canvas) return
+    let cancelled = false
+
+    const check = async () => {
+      try {
+        const imported = await ProjectLibrary.importLegacyProject()
+        if (imported && !cancelled) {
+          toast({
+            title: 'Project Moved to Library',
+            description: 'Your previously saved project is now in the project library',
+          })
+        }
+        const found = await ProjectLibrary.getSession()
+        if (found && !cancelled) setSession(found)
+      } catch (error) {
+        console.warn('Session recovery unavailable:', error)
+      }
+    }
+    check()
+
+    return () => {
+      cancelled = true
+    }
+  }, [canvas, toast])
+
+  const handleRestore = async () => {
+    if (!session) return
+    setSession(null)
+    try {
+      await recoverSession(session)
+    } catch (error) {
+      console.error('Failed to recover session:', error)
+      toast({
+        title: 'Recovery Failed',
+        description: 'The unsaved session could not be restored',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleDiscard = async () => {
+    setSession(null)
+    await ProjectLibrary.clearSession()
+  }
+
+  return (
+    <Dialog open={session !== null} onOpenChange={(open) => !open && setSession(null)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Recover unsaved work?</DialogTitle>
+          <DialogDescription>
+            {session &&
+              `"${session.name}" has changes from ${new Date(session.savedAt).toLocaleString()} that were never saved.`}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleDiscard}>
+            Discard
+          </Button>
+          <Button onClick={handleRestore}>Restore</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest'
+import { healSpot } from './Healing'
+
+type Color = [number, number, number]
+
+function image(width: number, height: number, color: (x: number, y: number) => Color): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...color(x, y), 255], (y * width + x) * 4)
+  }
+  return { data, width, height } as ImageData
+}
+
+// A mask with the given alpha inside a square
+function squareMask(width: number, height: number, left: number, top: number, size: number, alpha = 255): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = top; y < top + size; y++) {
+    for (let x = left; x < left + size; x++) data[(y * width + x) * 4 + 3] = alpha
+  }
+  return { data, width, height } as ImageData
+}
+
+const pixel = (imageData: ImageData, x: number, y: number) => {
+  const at = (y * imageData.width + x) * 4
+  return Array.from(imageData.data.slice(at, at + 3))
+}
+
+// A square blemish painted over an image
+function blemished(width: number, height: number, color: (x: number, y: number) => Color, [left, top, size]: [number, number, number]) {
+  return image(width, height, (x, y) =>
+    x >= left && x < left + size && y >= top && y < top + size ? [255, 0, 255] : color(x, y)
+  )
+}
+
+describe('healSpot', () => {
+  it('returns the image untouched for an empty mask', () => {
+    const flat = image(8, 8, () => [10, 20, 30])
+    const before = flat.data.slice()
+    expect(healSpot(flat, squareMask(8, 8, 0, 0, 0))).toBe(flat)
+    expect(flat.data).toEqual(before)
+  })
+
+  it('fills a spot on a flat colour with that colour', () => {
+    const healed = healSpot(blemished(24, 24, () => [90, 140, 60], [10, 10, 4]), squareMask(24, 24, 10, 10, 4))
+    for (let y = 10; y < 14; y++) {
+      for (let x = 10; x < 14; x++) expect(pixel(healed, x, y)).toEqual([90, 140, 60])
+    }
+  })
+
+  it('continues a gradient through the spot', () => {
+    const gradient = (x: number, y: number): Color => [x * 8, y * 8, 128]
+    const healed = healSpot(blemished(30, 30, gradient, [12, 12, 5]), squareMask(30, 30, 12, 12, 5))
+    for (let y = 12; y < 17; y++) {
+      for (let x = 12; x < 17; x++) {
+        pixel(healed, x, y).forEach((value, c) => expect(Math.abs(value - gradient(x, y)[c])).toBeLessThanOrEqual(1))
+      }
+    }
+  })
+
+  it('fills the spot from its border when no patch fits in the image', () => {
+    const healed = healSpot(blemished(3, 3, () => [200, 100, 0], [1, 1, 1]), squareMask(3, 3, 1, 1, 1))
+    expect(pixel(healed, 1, 1)).toEqual([200, 100, 0])
+  })
+
+  it('leaves pixels outside the mask alone', () => {
+    const source = blemished(24, 24, (x) => [x * 10, 50, 50], [10, 10, 4])
+    const before = source.data.slice()
+    const healed = healSpot(source, squareMask(24, 24, 10, 10, 4))
+    for (let y = 0; y < 24; y++) {
+      for (let x = 0; x < 24; x++) {
+        if (x >= 10 && x < 14 && y >= 10 && y < 14) continue
+        const at = (y * 24 + x) * 4
+        expect(Array.from(healed.data.slice(at, at + 4))).toEqual(Array.from(before.slice(at, at + 4)))
+      }
+    }
+  })
+
+  it('blends by the mask alpha', () => {
+    const healed = healSpot(blemished(24, 24, () => [0, 0, 0], [10, 10, 4]), squareMask(24, 24, 10, 10, 4, 128))
+    const [red, green] = pixel(healed, 11, 11)
+    expect(red).toBeCloseTo(255 * (1 - 128 / 255), -1)
+    expect(green).toBe(0)
+  })
+
+  it('reports progress up to completion', () => {
+    const progress = vi.fn()
+    healSpot(blemished(16, 16, () => [1, 2, 3], [6, 6, 3]), squareMask(16, 16, 6, 6, 3), progress)
+    expect(progress).toHaveBeenCalledWith(0)
+    expect(progress).toHaveBeenLastCalledWith(1)
+  })
+})
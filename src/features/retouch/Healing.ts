@@ -0,0 +1,186 @@
+// Spot healing: fills the painted pixels with texture from a nearby patch
+// and blends it in by solving for a smooth colour correction across the
+// patch (seamless cloning). Pure pixel code; it runs in the processing pool.
+
+interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+// Candidate patches are searched in this many directions around the spot,
+// at multiples of the spot's size
+const SEARCH_DIRECTIONS = 16
+const SEARCH_DISTANCES = [1, 1.5, 2]
+const MAX_ITERATIONS = 600
+// Over-relaxation factor for the Gauss-Seidel solve
+const RELAXATION = 1.9
+
+function maskBounds(mask: ImageData): Bounds | null {
+  const { data, width, height } = mask
+  let bounds: Bounds | null = null
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue
+      if (!bounds) bounds = { left: x, top: y, right: x, bottom: y }
+      bounds.left = Math.min(bounds.left, x)
+      bounds.right = Math.max(bounds.right, x)
+      bounds.top = Math.min(bounds.top, y)
+      bounds.bottom = Math.max(bounds.bottom, y)
+    }
+  }
+  return bounds
+}
+
+/**
+ * The offset to the patch whose surroundings best match the spot's, or
+ * null when no patch fits inside the image without overlapping the spot.
+ */
+function findSourceOffset(image: ImageData, inside: Uint8Array, ring: number[], bounds: Bounds) {
+  const { width, height, data } = image
+  const size = Math.max(bounds.right - bounds.left, bounds.bottom - bounds.top) + 1
+  let best: { x: number; y: number } | null = null
+  let bestScore = Infinity
+
+  for (const distance of SEARCH_DISTANCES) {
+    for (let direction = 0; direction < SEARCH_DIRECTIONS; direction++) {
+      const angle = (direction / SEARCH_DIRECTIONS) * Math.PI * 2
+      const dx = Math.round(Math.cos(angle) * size * distance)
+      const dy = Math.round(Math.sin(angle) * size * distance)
+      if (
+        bounds.left + dx < 1 ||
+        bounds.top + dy < 1 ||
+        bounds.right + dx >= width - 1 ||
+        bounds.bottom + dy >= height - 1
+      ) {
+        continue
+      }
+
+      let overlaps = false
+      for (let y = bounds.top; y <= bounds.bottom && !overlaps; y++) {
+        for (let x = bounds.left; x <= bounds.right; x++) {
+          if (inside[y * width + x] && inside[(y + dy) * width + x + dx]) {
+            overlaps = true
+            break
+          }
+        }
+      }
+      if (overlaps) continue
+
+      let score = 0
+      for (const pixel of ring) {
+        const source = pixel + dy * width + dx
+        for (let c = 0; c < 3; c++) {
+          const difference = data[pixel * 4 + c] - data[source * 4 + c]
+          score += difference * difference
+        }
+      }
+      if (score < bestScore) {
+        bestScore = score
+        best = { x: dx, y: dy }
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Heals the pixels where `mask` has alpha, in place. The mask's alpha is
+ * also the blend strength, so soft brush edges fade into the original.
+ */
+export function healSpot(image: ImageData, mask: ImageData, progress: (fraction: number) => void = () => {}): ImageData {
+  const { width, height, data } = image
+  const bounds = maskBounds(mask)
+  if (!bounds) return image
+
+  // Work on the spot plus a one pixel border, which holds the boundary values
+  const area: Bounds = {
+    left: Math.max(0, bounds.left - 1),
+    top: Math.max(0, bounds.top - 1),
+    right: Math.min(width - 1, bounds.right + 1),
+    bottom: Math.min(height - 1, bounds.bottom + 1),
+  }
+  const inside = new Uint8Array(width * height)
+  const ring: number[] = []
+  for (let y = area.top; y <= area.bottom; y++) {
+    for (let x = area.left; x <= area.right; x++) {
+      const pixel = y * width + x
+      if (mask.data[pixel * 4 + 3] > 0) inside[pixel] = 1
+    }
+  }
+  for (let y = area.top; y <= area.bottom; y++) {
+    for (let x = area.left; x <= area.right; x++) {
+      const pixel = y * width + x
+      if (inside[pixel]) continue
+      const touches =
+        (x > 0 && inside[pixel - 1]) ||
+        (x < width - 1 && inside[pixel + 1]) ||
+        (y > 0 && inside[pixel - width]) ||
+        (y < height - 1 && inside[pixel + width])
+      if (touches) ring.push(pixel)
+    }
+  }
+
+  // Without a source patch the spot is filled by interpolating its border
+  const offset = findSourceOffset(image, inside, ring, bounds)
+  const shift = offset ? offset.y * width + offset.x : 0
+  const source = (pixel: number, channel: number) => (offset ? data[(pixel + shift) * 4 + channel] : 0)
+
+  // Correction = original - source: fixed on the border, harmonic inside
+  const areaWidth = area.right - area.left + 1
+  const areaHeight = area.bottom - area.top + 1
+  const correction = new Float32Array(areaWidth * areaHeight * 4)
+  const local = (pixel: number) => ((Math.floor(pixel / width) - area.top) * areaWidth + (pixel % width) - area.left) * 4
+  for (let y = area.top; y <= area.bottom; y++) {
+    for (let x = area.left; x <= area.right; x++) {
+      const pixel = y * width + x
+      if (inside[pixel]) continue
+      const at = local(pixel)
+      for (let c = 0; c < 4; c++) correction[at + c] = data[pixel * 4 + c] - source(pixel, c)
+    }
+  }
+
+  const insidePixels: number[] = []
+  const seed = [0, 0, 0, 0]
+  for (const pixel of ring) for (let c = 0; c < 4; c++) seed[c] += correction[local(pixel) + c] / ring.length
+  for (let y = bounds.top; y <= bounds.bottom; y++) {
+    for (let x = bounds.left; x <= bounds.right; x++) {
+      const pixel = y * width + x
+      if (!inside[pixel]) continue
+      insidePixels.push(pixel)
+      correction.set(seed, local(pixel))
+    }
+  }
+
+  const size = Math.max(areaWidth, areaHeight)
+  const iterations = Math.min(MAX_ITERATIONS, Math.max(50, size * 2))
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (const pixel of insidePixels) {
+      const at = local(pixel)
+      const x = pixel % width
+      const y = Math.floor(pixel / width)
+      // Neighbours outside the worked area mirror back onto the pixel itself
+      const left = x > area.left ? at - 4 : at
+      const right = x < area.right ? at + 4 : at
+      const up = y > area.top ? at - areaWidth * 4 : at
+      const down = y < area.bottom ? at + areaWidth * 4 : at
+      for (let c = 0; c < 4; c++) {
+        const average = (correction[left + c] + correction[right + c] + correction[up + c] + correction[down + c]) / 4
+        correction[at + c] += RELAXATION * (average - correction[at + c])
+      }
+    }
+    if (iteration % 20 === 0) progress(iteration / iterations)
+  }
+
+  for (const pixel of insidePixels) {
+    const alpha = mask.data[pixel * 4 + 3] / 255
+    const at = local(pixel)
+    for (let c = 0; c < 4; c++) {
+      const healed = source(pixel, c) + correction[at + c]
+      data[pixel * 4 + c] += (healed - data[pixel * 4 + c]) * alpha
+    }
+  }
+  progress(1)
+  return image
+}
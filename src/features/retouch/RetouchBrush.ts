@@ -0,0 +1,278 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import type { LayerObject } from '@/features/layers/LayerModel'
+import { ProcessingCancelledError, ProcessingPool } from '@/features/processing/ProcessingPool'
+import { runWithProgressToast } from '@/features/processing/ProcessingToast'
+
+// Retouching paints straight into the source pixels of the selected image;
+// its adjustments are re-applied on top. Each stroke is one history step.
+
+export interface RetouchState {
+  // Diameter in document pixels
+  size: number
+  // 0-100; how much of the radius is fully opaque
+  hardness: number
+  // Clone stamp: keep the source-to-brush offset between strokes
+  aligned: boolean
+  // Clone stamp source, in the pixels of the image layer it was set on
+  source: { layerId: string; x: number; y: number } | null
+  busy: boolean
+}
+
+interface PixelPoint {
+  x: number
+  y: number
+}
+
+// Dabs are placed this fraction of the brush size apart
+const DAB_SPACING = 0.15
+
+class RetouchBrushClass {
+  private listeners: Set<() => void> = new Set()
+  private state: RetouchState = { size: 30, hardness: 50, aligned: true, source: null, busy: false }
+  // Aligned mode: brush-to-source offset fixed by the first stroke after Alt-click
+  private alignedOffset: PixelPoint | null = null
+
+  getState(): RetouchState {
+    return this.state
+  }
+
+  setState(partial: Partial<RetouchState>) {
+    if ('source' in partial || 'aligned' in partial) this.alignedOffset = null
+    this.state = { ...this.state, ...partial }
+    this.listeners.forEach((listener) => listener())
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** Offset from brush to source for a stroke starting at `start`. */
+  sourceOffset(start: PixelPoint): PixelPoint | null {
+    const { source, aligned } = this.state
+    if (!source) return null
+    if (aligned && this.alignedOffset) return this.alignedOffset
+    const offset = { x: source.x - start.x, y: source.y - start.y }
+    if (aligned) this.alignedOffset = offset
+    return offset
+  }
+}
+
+export const RetouchBrush = new RetouchBrushClass()
+
+/** A document point in the image's pixel grid. */
+export function toImagePixels(image: fabric.Image, point: PixelPoint): PixelPoint {
+  const local = fabric.util.transformPoint(
+    new fabric.Point(point.x, point.y),
+    fabric.util.invertTransform(image.calcTransformMatrix())
+  )
+  return {
+    x: local.x + (image.width ?? 0) / 2 + (image.cropX ?? 0),
+    y: local.y + (image.height ?? 0) / 2 + (image.cropY ?? 0),
+  }
+}
+
+/** An image pixel back in document coordinates. */
+export function fromImagePixels(image: fabric.Image, point: PixelPoint): fabric.Point {
+  return fabric.util.transformPoint(
+    new fabric.Point(
+      point.x - (image.width ?? 0) / 2 - (image.cropX ?? 0),
+      point.y - (image.height ?? 0) / 2 - (image.cropY ?? 0)
+    ),
+    image.calcTransformMatrix()
+  )
+}
+
+/** Brush radius in image pixels. */
+export function brushRadius(image: fabric.Image): number {
+  const matrix = image.calcTransformMatrix()
+  return Math.max(0.5, RetouchBrush.getState().size / 2 / Math.hypot(matrix[0], matrix[1]))
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.ceil(width))
+  canvas.height = Math.max(1, Math.ceil(height))
+  return canvas
+}
+
+function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D context is not available')
+  return ctx
+}
+
+function copySourcePixels(image: fabric.Image): HTMLCanvasElement {
+  const element =
+    (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })._originalElement ??
+    (image.getElement() as HTMLImageElement)
+  const { width, height } = image.getOriginalSize()
+  const pixels = createCanvas(width, height)
+  context(pixels).drawImage(element, 0, 0)
+  return pixels
+}
+
+// Filling a circle with this keeps the dab opaque up to the hardness radius
+function fillDabShape(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) {
+  const hardness = RetouchBrush.getState().hardness / 100
+  const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)')
+  gradient.addColorStop(Math.min(hardness, 0.99), 'rgba(255, 255, 255, 1)')
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)')
+  ctx.fillStyle = gradient
+  ctx.beginPath()
+  ctx.arc(x, y, radius, 0, Math.PI * 2)
+  ctx.fill()
+}
+
+// Dab centres between two points, `step` apart, after `from`
+function dabsBetween(from: PixelPoint, to: PixelPoint, step: number): PixelPoint[] {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y)
+  const dabs: PixelPoint[] = []
+  for (let travelled = step; travelled <= distance; travelled += step) {
+    const t = travelled / distance
+    dabs.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })
+  }
+  return dabs
+}
+
+// Filtered images show their pixels through applyFilters; re-run it at most
+// once per frame while painting
+const pendingFilters: WeakSet<fabric.Image> = new WeakSet()
+function showPixels(image: fabric.Image) {
+  image.dirty = true
+  if (!image.filters?.length) {
+    image.canvas?.requestRenderAll()
+    return
+  }
+  if (pendingFilters.has(image)) return
+  pendingFilters.add(image)
+  requestAnimationFrame(() => {
+    pendingFilters.delete(image)
+    image.applyFilters()
+    image.canvas?.requestRenderAll()
+  })
+}
+
+export interface CloneStroke {
+  image: fabric.Image
+  pixels: HTMLCanvasElement
+  // Pixels as they were when the stroke started; the stamp samples these
+  snapshot: HTMLCanvasElement
+  dab: HTMLCanvasElement
+  offset: PixelPoint
+  last: PixelPoint
+}
+
+function stampDab(stroke: CloneStroke, at: PixelPoint) {
+  const radius = brushRadius(stroke.image)
+  const size = Math.ceil(radius * 2) + 2
+  if (stroke.dab.width < size) stroke.dab.width = stroke.dab.height = size
+  const ctx = context(stroke.dab)
+  ctx.clearRect(0, 0, stroke.dab.width, stroke.dab.height)
+  ctx.globalCompositeOperation = 'source-over'
+  // Place the snapshot so the sampled point lands on the dab's centre
+  ctx.drawImage(stroke.snapshot, size / 2 - (at.x + stroke.offset.x), size / 2 - (at.y + stroke.offset.y))
+  ctx.globalCompositeOperation = 'destination-in'
+  fillDabShape(ctx, size / 2, size / 2, radius)
+  context(stroke.pixels).drawImage(stroke.dab, at.x - size / 2, at.y - size / 2)
+}
+
+/** Starts a clone stroke, or returns null when no source is set. */
+export function startCloneStroke(image: fabric.Image, point: PixelPoint): CloneStroke | null {
+  const source = RetouchBrush.getState().source
+  if (!source || source.layerId !== (image as LayerObject).layerId) return null
+  const offset = RetouchBrush.sourceOffset(point)
+  if (!offset) return null
+
+  const pixels = copySourcePixels(image)
+  const snapshot = createCanvas(pixels.width, pixels.height)
+  context(snapshot).drawImage(pixels, 0, 0)
+  image.setElement(pixels as unknown as HTMLImageElement)
+  const stroke: CloneStroke = { image, pixels, snapshot, dab: createCanvas(1, 1), offset, last: point }
+  stampDab(stroke, point)
+  showPixels(image)
+  return stroke
+}
+
+export function continueCloneStroke(stroke: CloneStroke, point: PixelPoint) {
+  const step = Math.max(1, brushRadius(stroke.image) * 2 * DAB_SPACING)
+  const dabs = dabsBetween(stroke.last, point, step)
+  if (dabs.length === 0) return
+  dabs.forEach((dab) => stampDab(stroke, dab))
+  stroke.last = dabs[dabs.length - 1]
+  showPixels(stroke.image)
+}
+
+export function finishCloneStroke(stroke: CloneStroke) {
+  stroke.image.applyFilters()
+  stroke.image.canvas?.requestRenderAll()
+  useEditorStore.getState().saveToHistory('Clone stamp')
+}
+
+export interface HealStroke {
+  image: fabric.Image
+  radius: number
+  points: PixelPoint[]
+}
+
+export function startHealStroke(image: fabric.Image, point: PixelPoint): HealStroke {
+  return { image, radius: brushRadius(image), points: [point] }
+}
+
+export function continueHealStroke(stroke: HealStroke, point: PixelPoint) {
+  const last = stroke.points[stroke.points.length - 1]
+  stroke.points.push(...dabsBetween(last, point, Math.max(1, stroke.radius * 2 * DAB_SPACING)))
+}
+
+/**
+ * Heals the painted area in the processing pool. The image is only
+ * changed (and history recorded) if the job completes.
+ */
+export async function finishHealStroke(stroke: HealStroke) {
+  const { image, radius, points } = stroke
+  const pixels = copySourcePixels(image)
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const spot = {
+    left: Math.min(...xs) - radius,
+    top: Math.min(...ys) - radius,
+    right: Math.max(...xs) + radius,
+    bottom: Math.max(...ys) + radius,
+  }
+  // Leave room around the spot for the search for matching texture
+  const margin = Math.max(spot.right - spot.left, spot.bottom - spot.top) * 2 + 4
+  const left = Math.max(0, Math.floor(spot.left - margin))
+  const top = Math.max(0, Math.floor(spot.top - margin))
+  const right = Math.min(pixels.width, Math.ceil(spot.right + margin))
+  const bottom = Math.min(pixels.height, Math.ceil(spot.bottom + margin))
+  if (right <= left || bottom <= top) return
+
+  const mask = createCanvas(right - left, bottom - top)
+  const maskCtx = context(mask)
+  points.forEach((point) => fillDabShape(maskCtx, point.x - left, point.y - top, radius))
+
+  RetouchBrush.setState({ busy: true })
+  try {
+    const healed = await runWithProgressToast('Healing', (options) =>
+      ProcessingPool.run(
+        'heal',
+        {
+          image: context(pixels).getImageData(left, top, right - left, bottom - top),
+          mask: maskCtx.getImageData(0, 0, mask.width, mask.height),
+        },
+        options
+      )
+    )
+    context(pixels).putImageData(healed, left, top)
+    image.setElement(pixels as unknown as HTMLImageElement)
+    image.applyFilters()
+    image.canvas?.requestRenderAll()
+    useEditorStore.getState().saveToHistory('Spot healing')
+  } catch (error) {
+    if (!(error instanceof ProcessingCancelledError)) throw error
+  } finally {
+    RetouchBrush.setState({ busy: false })
+  }
+}
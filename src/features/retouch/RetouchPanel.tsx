@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react'
+import { fabric } from 'fabric'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { RetouchBrush } from './RetouchBrush'
+
+export const RetouchPanel: React.FC<{ toolId?: string }> = ({ toolId }) => {
+  const [state, setState] = useState(RetouchBrush.getState())
+  const activeObject = useEditorStore((store) => store.activeObject)
+  const isClone = toolId === 'clone-stamp'
+
+  useEffect(() => RetouchBrush.subscribe(() => setState(RetouchBrush.getState())), [])
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">{isClone ? 'Clone Stamp' : 'Spot Healing'}</h3>
+
+      {!(activeObject instanceof fabric.Image) && (
+        <p className="text-xs text-muted-foreground">Select an image to retouch.</p>
+      )}
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Size: {state.size}px</label>
+        <Slider
+          value={[state.size]}
+          onValueChange={(value) => RetouchBrush.setState({ size: value[0] })}
+          min={1}
+          max={300}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Hardness: {state.hardness}%</label>
+        <Slider
+          value={[state.hardness]}
+          onValueChange={(value) => RetouchBrush.setState({ hardness: value[0] })}
+          min={0}
+          max={100}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      {isClone && (
+        <>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={state.aligned}
+              onChange={(e) => RetouchBrush.setState({ aligned: e.target.checked })}
+            />
+            Aligned
+          </label>
+          <p className="text-xs text-muted-foreground">
+            {state.source
+              ? 'Aligned keeps the source moving with the brush; otherwise every stroke starts from the source point.'
+              : 'Alt-click the image to set the source.'}
+          </p>
+        </>
+      )}
+
+      {!isClone && (
+        <p className="text-xs text-muted-foreground">
+          Paint over a blemish; it is replaced with matching texture from nearby when you release.
+        </p>
+      )}
+
+      {state.busy && <p className="text-xs text-muted-foreground">Working…</p>}
+    </div>
+  )
+}
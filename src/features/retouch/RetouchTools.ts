@@ -0,0 +1,198 @@
+import { fabric } from 'fabric'
+import type { ToolDefinition, ToolHandler } from '@/features/tools/ToolRegistry'
+import { findLayerObject, type LayerObject } from '@/features/layers/LayerModel'
+import {
+  continueCloneStroke,
+  continueHealStroke,
+  finishCloneStroke,
+  finishHealStroke,
+  fromImagePixels,
+  RetouchBrush,
+  startCloneStroke,
+  startHealStroke,
+  toImagePixels,
+  type CloneStroke,
+  type HealStroke,
+} from './RetouchBrush'
+import { RetouchPanel } from './RetouchPanel'
+
+// Clone stamp and spot healing work on the selected image, which stays
+// selected while painting. The brush outline, clone source and painted
+// healing area are drawn on fabric's top canvas, which is never exported.
+
+type RetouchKind = 'clone' | 'heal'
+
+interface TopCanvas extends fabric.Canvas {
+  contextTop: CanvasRenderingContext2D
+}
+
+interface RetouchToolOptions {
+  id: string
+  name: string
+  icon: string
+  description: string
+  shortcut?: string
+  kind: RetouchKind
+}
+
+function drawOverlay(canvas: fabric.Canvas, image: fabric.Image | null, pointer: fabric.Point | null, heal: HealStroke | null) {
+  const ctx = (canvas as TopCanvas).contextTop
+  canvas.clearContext(ctx)
+  const transform = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+  const zoom = canvas.getZoom()
+  ctx.save()
+  ctx.transform(transform[0], transform[1], transform[2], transform[3], transform[4], transform[5])
+  ctx.lineWidth = 1 / zoom
+
+  if (image && heal) {
+    ctx.fillStyle = 'rgba(255, 64, 64, 0.35)'
+    heal.points.forEach((point) => {
+      const at = fromImagePixels(image, point)
+      ctx.beginPath()
+      ctx.arc(at.x, at.y, RetouchBrush.getState().size / 2, 0, Math.PI * 2)
+      ctx.fill()
+    })
+  }
+
+  const source = RetouchBrush.getState().source
+  if (image && source && source.layerId === (image as LayerObject).layerId) {
+    const at = fromImagePixels(image, source)
+    const arm = 6 / zoom
+    ctx.strokeStyle = '#ff3b30'
+    ctx.beginPath()
+    ctx.moveTo(at.x - arm, at.y)
+    ctx.lineTo(at.x + arm, at.y)
+    ctx.moveTo(at.x, at.y - arm)
+    ctx.lineTo(at.x, at.y + arm)
+    ctx.stroke()
+  }
+
+  if (pointer) {
+    const radius = RetouchBrush.getState().size / 2
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)'
+    ctx.beginPath()
+    ctx.arc(pointer.x, pointer.y, radius, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+    ctx.beginPath()
+    ctx.arc(pointer.x, pointer.y, radius + 1 / zoom, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+function createRetouchTool(options: RetouchToolOptions): ToolDefinition {
+  let image: fabric.Image | null = null
+  let clone: CloneStroke | null = null
+  let heal: HealStroke | null = null
+  let pointer: fabric.Point | null = null
+  let unsubscribe: (() => void) | null = null
+
+  const rememberImage = (event: fabric.IEvent) => {
+    const selected = (event as fabric.IEvent & { selected?: fabric.Object[] }).selected?.[0]
+    image = selected instanceof fabric.Image ? selected : null
+  }
+  // Clicking the canvas discards fabric's active object; put it back. Undo
+  // recreates objects, so a stale image is looked up again by layer id.
+  const currentImage = (canvas: fabric.Canvas) => {
+    if (image && !canvas.getObjects().includes(image)) {
+      const layerId = (image as LayerObject).layerId
+      const found = layerId ? findLayerObject(canvas, layerId) : undefined
+      image = found instanceof fabric.Image ? found : null
+    }
+    if (image && canvas.getActiveObject() !== image) {
+      canvas.setActiveObject(image)
+      canvas.requestRenderAll()
+    }
+    return image
+  }
+  const getPointer = (canvas: fabric.Canvas, event: fabric.IEvent) => {
+    const { x, y } = canvas.getPointer(event.e)
+    return new fabric.Point(x, y)
+  }
+
+  const handler: ToolHandler = {
+    activate: (canvas) => {
+      canvas.isDrawingMode = false
+      canvas.selection = false
+      canvas.skipTargetFind = true
+      canvas.defaultCursor = 'crosshair'
+      const active = canvas.getActiveObject()
+      image = active instanceof fabric.Image ? active : null
+      canvas.on('selection:created', rememberImage)
+      canvas.on('selection:updated', rememberImage)
+      unsubscribe = RetouchBrush.subscribe(() => drawOverlay(canvas, image, pointer, heal))
+    },
+    deactivate: (canvas) => {
+      unsubscribe?.()
+      unsubscribe = null
+      canvas.off('selection:created', rememberImage)
+      canvas.off('selection:updated', rememberImage)
+      canvas.selection = true
+      canvas.skipTargetFind = false
+      canvas.defaultCursor = 'default'
+      pointer = null
+      canvas.clearContext((canvas as TopCanvas).contextTop)
+    },
+    onMouseDown: (canvas, event) => {
+      const target = currentImage(canvas)
+      if (!target || RetouchBrush.getState().busy) return
+      const point = toImagePixels(target, getPointer(canvas, event))
+
+      if (options.kind === 'clone') {
+        if ((event.e as MouseEvent).altKey) {
+          const layerId = (target as LayerObject).layerId
+          if (layerId) RetouchBrush.setState({ source: { layerId, x: point.x, y: point.y } })
+          return
+        }
+        clone = startCloneStroke(target, point)
+      } else {
+        heal = startHealStroke(target, point)
+      }
+      drawOverlay(canvas, target, pointer, heal)
+    },
+    onMouseMove: (canvas, event) => {
+      pointer = getPointer(canvas, event)
+      if (image && clone) continueCloneStroke(clone, toImagePixels(image, pointer))
+      if (image && heal) continueHealStroke(heal, toImagePixels(image, pointer))
+      drawOverlay(canvas, image, pointer, heal)
+    },
+    onMouseUp: (canvas) => {
+      if (clone) finishCloneStroke(clone)
+      if (heal) finishHealStroke(heal).catch((error) => console.error('Spot healing failed:', error))
+      clone = null
+      heal = null
+      drawOverlay(canvas, image, pointer, null)
+    },
+  }
+
+  return {
+    id: options.id,
+    name: options.name,
+    icon: options.icon,
+    category: 'adjustments',
+    description: options.description,
+    shortcut: options.shortcut,
+    component: RetouchPanel,
+    handler,
+  }
+}
+
+export const retouchTools: ToolDefinition[] = [
+  createRetouchTool({
+    id: 'clone-stamp',
+    name: 'Clone Stamp',
+    icon: 'Stamp',
+    description: 'Paint with pixels copied from an Alt-clicked source',
+    shortcut: 'S',
+    kind: 'clone',
+  }),
+  createRetouchTool({
+    id: 'spot-heal',
+    name: 'Spot Healing',
+    icon: 'Sparkles',
+    description: 'Paint over blemishes to blend them into nearby texture',
+    shortcut: 'H',
+    kind: 'heal',
+  }),
+]
@@ -0,0 +1,320 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { primeMask } from '@/features/adjustments/MaskedFilter'
+import { ProcessingPool } from '@/features/processing/ProcessingPool'
+import {
+  combineMask,
+  createMaskCanvas,
+  fillMask,
+  invertMask,
+  maskBounds,
+  maskInObjectSpace,
+  maskOutline,
+  readMask,
+  shapePath,
+  writeMask,
+  type SelectionBounds,
+  type SelectionMode,
+  type SelectionPoint,
+  type SelectionShape,
+} from './SelectionMask'
+
+export interface SelectionState {
+  hasSelection: boolean
+  bounds: SelectionBounds | null
+  // Mode for the next selection; Shift/Alt override it per gesture
+  mode: SelectionMode
+  // Feather radius (px) applied to each new selection shape
+  feather: number
+  tolerance: number
+  contiguous: boolean
+  busy: boolean
+}
+
+// Masks stored with adjustments are capped so projects stay small
+const MAX_OBJECT_MASK_SIZE = 2048
+const ANTS_INTERVAL = 120
+const ANTS_DASH = 4
+
+// Owns the document's pixel selection. Operations are queued because
+// feathering and the magic wand run in the processing pool; the marching
+// ants are drawn on an overlay canvas above fabric's own canvases so they
+// can animate without re-rendering the scene.
+class SelectionControllerClass {
+  private canvas: fabric.Canvas | null = null
+  private mask: HTMLCanvasElement | null = null
+  private outline: Path2D | null = null
+  private preview: SelectionShape | null = null
+  private overlay: HTMLCanvasElement | null = null
+  private antsTimer: number | null = null
+  private antsOffset = 0
+  private pending: Promise<void> = Promise.resolve()
+  private listeners: Set<() => void> = new Set()
+  private state: SelectionState = {
+    hasSelection: false,
+    bounds: null,
+    mode: 'replace',
+    feather: 0,
+    tolerance: 32,
+    contiguous: true,
+    busy: false,
+  }
+
+  constructor() {
+    // Any change of document size invalidates the mask
+    useEditorStore.subscribe((state, prev) => {
+      if (state.canvasSettings.width !== prev.canvasSettings.width || state.canvasSettings.height !== prev.canvasSettings.height) {
+        this.deselect()
+      }
+    })
+  }
+
+  getState(): SelectionState {
+    return this.state
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  setOptions(options: Partial<Pick<SelectionState, 'mode' | 'feather' | 'tolerance' | 'contiguous'>>) {
+    this.setState(options)
+  }
+
+  /** Binds the overlay to a fabric canvas; selection tools call this on activation. */
+  attach(canvas: fabric.Canvas) {
+    if (this.canvas === canvas) return
+    this.detach()
+    this.canvas = canvas
+    canvas.on('after:render', this.drawOverlay)
+  }
+
+  /** The current selection mask in document pixels, or null. */
+  getMask(): HTMLCanvasElement | null {
+    return this.state.hasSelection ? this.mask : null
+  }
+
+  hasSelection(): boolean {
+    return this.state.hasSelection
+  }
+
+  /** Shows an in-progress shape with marching ants; null hides it. */
+  setPreview(shape: SelectionShape | null) {
+    this.preview = shape
+    this.updateAnimation()
+    this.drawOverlay()
+  }
+
+  selectShape(shape: SelectionShape, mode = this.state.mode): Promise<void> {
+    return this.enqueue(async () => {
+      const canvas = this.requireCanvas()
+      const shapeMask = createMaskCanvas(canvas.getWidth(), canvas.getHeight())
+      combineMask(shapeMask, shape, 'replace')
+      await this.featherInto(shapeMask, this.state.feather)
+      this.combine(shapeMask, mode)
+    })
+  }
+
+  /** Selects pixels similar to the one at `point` across all visible layers. */
+  magicWand(point: SelectionPoint, mode = this.state.mode): Promise<void> {
+    return this.enqueue(async () => {
+      const canvas = this.requireCanvas()
+      const composite = canvas.toCanvasElement(1 / canvas.getZoom())
+      const ctx = composite.getContext('2d')
+      if (!ctx) return
+      const pixels = await ProcessingPool.run('magicWand', {
+        image: ctx.getImageData(0, 0, composite.width, composite.height),
+        x: point.x,
+        y: point.y,
+        tolerance: this.state.tolerance,
+        contiguous: this.state.contiguous,
+      })
+      const wandMask = createMaskCanvas(pixels.width, pixels.height)
+      writeMask(wandMask, pixels)
+      await this.featherInto(wandMask, this.state.feather)
+      this.combine(wandMask, mode)
+    })
+  }
+
+  selectAll(): Promise<void> {
+    return this.enqueue(() => {
+      const mask = this.ensureMask()
+      fillMask(mask)
+      this.changed()
+    })
+  }
+
+  deselect(): Promise<void> {
+    return this.enqueue(() => {
+      this.mask = null
+      this.changed()
+    })
+  }
+
+  invert(): Promise<void> {
+    return this.enqueue(() => {
+      const mask = this.ensureMask()
+      invertMask(mask)
+      this.changed()
+    })
+  }
+
+  /** Softens the edges of the existing selection. */
+  featherSelection(radius: number): Promise<void> {
+    return this.enqueue(async () => {
+      if (!this.mask || !this.state.hasSelection) return
+      await this.featherInto(this.mask, radius)
+      this.changed()
+    })
+  }
+
+  /**
+   * The selection resampled into an image's source pixel space (capped in
+   * size), or null without a selection.
+   */
+  getImageMask(image: fabric.Image, maxSize = Infinity): HTMLCanvasElement | null {
+    const mask = this.getMask()
+    if (!mask) return null
+    const element = image.getOriginalSize()
+    const scale = Math.min(1, maxSize / Math.max(element.width, element.height))
+    return maskInObjectSpace(mask, image, element.width, element.height, { x: image.cropX ?? 0, y: image.cropY ?? 0 }, scale)
+  }
+
+  /**
+   * The selection as a PNG data URL for an adjustment on `image`, with its
+   * pixels handed to the filter cache so it applies immediately.
+   */
+  getAdjustmentMask(image: fabric.Image): string | null {
+    const local = this.getImageMask(image, MAX_OBJECT_MASK_SIZE)
+    if (!local) return null
+    const url = local.toDataURL('image/png')
+    primeMask(url, readMask(local))
+    return url
+  }
+
+  private enqueue(task: () => Promise<void> | void): Promise<void> {
+    this.setState({ busy: true })
+    this.pending = this.pending
+      .then(task)
+      .catch((error) => console.error('Selection failed:', error))
+      .finally(() => this.setState({ busy: false }))
+    return this.pending
+  }
+
+  private requireCanvas(): fabric.Canvas {
+    const canvas = this.canvas ?? useEditorStore.getState().canvas
+    if (!canvas) throw new Error('No canvas to select on')
+    this.attach(canvas)
+    return canvas
+  }
+
+  private ensureMask(): HTMLCanvasElement {
+    const canvas = this.requireCanvas()
+    if (!this.mask || this.mask.width !== canvas.getWidth() || this.mask.height !== canvas.getHeight()) {
+      this.mask = createMaskCanvas(canvas.getWidth(), canvas.getHeight())
+    }
+    return this.mask
+  }
+
+  private combine(source: HTMLCanvasElement, mode: SelectionMode) {
+    // Without a selection, subtract and intersect leave nothing selected
+    if (!this.state.hasSelection && mode !== 'add' && mode !== 'replace') {
+      this.mask = null
+    } else {
+      combineMask(this.ensureMask(), source, this.state.hasSelection ? mode : 'replace')
+    }
+    this.changed()
+  }
+
+  private async featherInto(mask: HTMLCanvasElement, radius: number) {
+    if (radius <= 0) return
+    const blurred = await ProcessingPool.run('blur', { image: readMask(mask), radius })
+    writeMask(mask, blurred)
+  }
+
+  private changed() {
+    const bounds = this.mask ? maskBounds(this.mask) : null
+    if (!bounds) this.mask = null
+    this.outline = this.mask ? maskOutline(this.mask) : null
+    this.setState({ hasSelection: bounds !== null, bounds })
+    this.updateAnimation()
+    this.drawOverlay()
+  }
+
+  private updateAnimation() {
+    const animate = this.outline !== null || this.preview !== null
+    if (animate && this.antsTimer === null) {
+      this.antsTimer = window.setInterval(() => {
+        this.antsOffset = (this.antsOffset + 1) % (ANTS_DASH * 2)
+        this.drawOverlay()
+      }, ANTS_INTERVAL)
+    } else if (!animate && this.antsTimer !== null) {
+      window.clearInterval(this.antsTimer)
+      this.antsTimer = null
+    }
+  }
+
+  private ensureOverlay(canvas: fabric.Canvas): HTMLCanvasElement | null {
+    const upper = canvas.getSelectionElement()
+    const container = upper.parentElement
+    if (!container) return null
+    if (!this.overlay || this.overlay.parentElement !== container) {
+      this.overlay?.remove()
+      this.overlay = document.createElement('canvas')
+      this.overlay.style.position = 'absolute'
+      this.overlay.style.left = '0'
+      this.overlay.style.top = '0'
+      this.overlay.style.pointerEvents = 'none'
+      container.appendChild(this.overlay)
+    }
+    // Follow fabric's canvas size, including any CSS scaling
+    if (this.overlay.width !== canvas.getWidth()) this.overlay.width = canvas.getWidth()
+    if (this.overlay.height !== canvas.getHeight()) this.overlay.height = canvas.getHeight()
+    this.overlay.style.width = upper.style.width
+    this.overlay.style.height = upper.style.height
+    return this.overlay
+  }
+
+  private drawOverlay = () => {
+    const canvas = this.canvas
+    if (!canvas) return
+    const overlay = this.ensureOverlay(canvas)
+    const ctx = overlay?.getContext('2d')
+    if (!overlay || !ctx) return
+
+    ctx.clearRect(0, 0, overlay.width, overlay.height)
+    const paths = [this.outline, this.preview && shapePath(this.preview)].filter((path): path is Path2D => !!path)
+    if (paths.length === 0) return
+
+    const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]
+    const zoom = canvas.getZoom()
+    ctx.save()
+    ctx.setTransform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5])
+    ctx.lineWidth = 1 / zoom
+    ctx.setLineDash([ANTS_DASH / zoom, ANTS_DASH / zoom])
+    for (const path of paths) {
+      ctx.strokeStyle = '#ffffff'
+      ctx.lineDashOffset = -this.antsOffset / zoom
+      ctx.stroke(path)
+      ctx.strokeStyle = '#000000'
+      ctx.lineDashOffset = (ANTS_DASH - this.antsOffset) / zoom
+      ctx.stroke(path)
+    }
+    ctx.restore()
+  }
+
+  private detach() {
+    this.canvas?.off('after:render', this.drawOverlay)
+    this.overlay?.remove()
+    this.overlay = null
+    this.canvas = null
+  }
+
+  private setState(patch: Partial<SelectionState>) {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const SelectionController = new SelectionControllerClass()
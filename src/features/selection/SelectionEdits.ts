@@ -0,0 +1,126 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { nextLayerName, type LayerObject } from '@/features/layers/LayerModel'
+import { applyAdjustments } from '@/features/adjustments/AdjustmentStack'
+import { SelectionController } from './SelectionController'
+import { createMaskCanvas, type SelectionBounds } from './SelectionMask'
+
+// Pixel edits limited to the selection. Deleting and filling rewrite an
+// image's source pixels (undo restores them from history); everything else
+// becomes a new layer above its source.
+
+function activeObject(canvas: fabric.Canvas): fabric.Object | null {
+  const object = canvas.getActiveObject()
+  return object && object.type !== 'activeSelection' ? object : null
+}
+
+function sourcePixels(image: fabric.Image): HTMLCanvasElement {
+  const element =
+    (image as fabric.Image & { _originalElement?: HTMLImageElement | HTMLCanvasElement })._originalElement ??
+    (image.getElement() as HTMLImageElement)
+  const { width, height } = image.getOriginalSize()
+  const pixels = createMaskCanvas(width, height)
+  pixels.getContext('2d')?.drawImage(element, 0, 0)
+  return pixels
+}
+
+// Replaces the image's pixels; its adjustments are re-applied on top
+function replacePixels(image: fabric.Image, pixels: HTMLCanvasElement, action: string) {
+  image.setElement(pixels as unknown as HTMLImageElement)
+  applyAdjustments(image)
+  useEditorStore.getState().saveToHistory(action)
+}
+
+function addLayerAbove(canvas: fabric.Canvas, pixels: HTMLCanvasElement, bounds: SelectionBounds, source: fabric.Object | null, label: string) {
+  const layer = new fabric.Image(pixels as unknown as HTMLImageElement, { left: bounds.x, top: bounds.y }) as LayerObject
+  layer.layerName = nextLayerName(canvas, label)
+  const index = source ? canvas.getObjects().indexOf(source) + 1 : canvas.getObjects().length
+  canvas.insertAt(layer, index, false)
+  canvas.setActiveObject(layer)
+  canvas.requestRenderAll()
+}
+
+/** Clears the selected pixels of the active image. Returns false if there was nothing to do. */
+export function deleteSelectionPixels(): boolean {
+  const { canvas } = useEditorStore.getState()
+  const image = canvas && activeObject(canvas)
+  if (!(image instanceof fabric.Image)) return false
+  const mask = SelectionController.getImageMask(image)
+  if (!mask) return false
+
+  const pixels = sourcePixels(image)
+  const ctx = pixels.getContext('2d')
+  if (!ctx) return false
+  ctx.globalCompositeOperation = 'destination-out'
+  ctx.drawImage(mask, 0, 0)
+  replacePixels(image, pixels, 'Delete selection')
+  return true
+}
+
+/**
+ * Fills the selection with a colour: into the active image's pixels when an
+ * image is selected, otherwise as a new layer.
+ */
+export function fillSelection(color: string) {
+  const { canvas } = useEditorStore.getState()
+  const mask = SelectionController.getMask()
+  const bounds = SelectionController.getState().bounds
+  if (!canvas || !mask || !bounds) return
+
+  const target = activeObject(canvas)
+  if (target instanceof fabric.Image) {
+    const local = SelectionController.getImageMask(target)
+    const pixels = sourcePixels(target)
+    const ctx = pixels.getContext('2d')
+    if (!local || !ctx) return
+    const paint = createMaskCanvas(pixels.width, pixels.height)
+    const paintCtx = paint.getContext('2d')
+    if (!paintCtx) return
+    paintCtx.fillStyle = color
+    paintCtx.fillRect(0, 0, paint.width, paint.height)
+    paintCtx.globalCompositeOperation = 'destination-in'
+    paintCtx.drawImage(local, 0, 0)
+    ctx.drawImage(paint, 0, 0)
+    replacePixels(target, pixels, 'Fill selection')
+    return
+  }
+
+  const fill = createMaskCanvas(bounds.width, bounds.height)
+  const ctx = fill.getContext('2d')
+  if (!ctx) return
+  ctx.fillStyle = color
+  ctx.fillRect(0, 0, fill.width, fill.height)
+  ctx.globalCompositeOperation = 'destination-in'
+  ctx.drawImage(mask, -bounds.x, -bounds.y)
+  addLayerAbove(canvas, fill, bounds, target, 'Fill')
+}
+
+/**
+ * Copies the selected pixels of the active object, or of the whole canvas
+ * when nothing is selected, onto a new layer.
+ */
+export function copySelectionToLayer() {
+  const { canvas } = useEditorStore.getState()
+  const mask = SelectionController.getMask()
+  const bounds = SelectionController.getState().bounds
+  if (!canvas || !mask || !bounds) return
+
+  const source = activeObject(canvas)
+  let rendered: HTMLCanvasElement
+  if (source) {
+    rendered = createMaskCanvas(canvas.getWidth(), canvas.getHeight())
+    const ctx = rendered.getContext('2d')
+    if (!ctx) return
+    source.render(ctx)
+  } else {
+    rendered = canvas.toCanvasElement(1 / canvas.getZoom())
+  }
+
+  const copy = createMaskCanvas(bounds.width, bounds.height)
+  const ctx = copy.getContext('2d')
+  if (!ctx) return
+  ctx.drawImage(rendered, -bounds.x, -bounds.y)
+  ctx.globalCompositeOperation = 'destination-in'
+  ctx.drawImage(mask, -bounds.x, -bounds.y)
+  addLayerAbove(canvas, copy, bounds, source, 'Copy')
+}
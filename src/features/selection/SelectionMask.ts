@@ -0,0 +1,189 @@
+import { fabric } from 'fabric'
+
+// Pixel selections are alpha masks the size of the document: opaque white
+// where selected, transparent elsewhere, partial alpha for feathered edges.
+// Every selection tool builds a shape or mask and composites it into the
+// current selection according to the mode.
+
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect'
+
+export interface SelectionPoint {
+  x: number
+  y: number
+}
+
+export type SelectionShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { kind: 'ellipse'; x: number; y: number; width: number; height: number }
+  | { kind: 'polygon'; points: SelectionPoint[] }
+
+export interface SelectionBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const compositeModes: Record<SelectionMode, GlobalCompositeOperation> = {
+  replace: 'source-over',
+  add: 'source-over',
+  subtract: 'destination-out',
+  intersect: 'destination-in',
+}
+
+export function createMaskCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  return canvas
+}
+
+function context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('2D canvas is not available')
+  return ctx
+}
+
+export function shapePath(shape: SelectionShape): Path2D {
+  const path = new Path2D()
+  if (shape.kind === 'rect') {
+    path.rect(shape.x, shape.y, shape.width, shape.height)
+  } else if (shape.kind === 'ellipse') {
+    path.ellipse(
+      shape.x + shape.width / 2,
+      shape.y + shape.height / 2,
+      shape.width / 2,
+      shape.height / 2,
+      0,
+      0,
+      Math.PI * 2
+    )
+  } else {
+    shape.points.forEach((point, i) => (i === 0 ? path.moveTo(point.x, point.y) : path.lineTo(point.x, point.y)))
+    path.closePath()
+  }
+  return path
+}
+
+/** Composites a shape or another mask into `mask` in place. */
+export function combineMask(mask: HTMLCanvasElement, source: SelectionShape | HTMLCanvasElement, mode: SelectionMode) {
+  const ctx = context(mask)
+  ctx.save()
+  if (mode === 'replace') ctx.clearRect(0, 0, mask.width, mask.height)
+  ctx.globalCompositeOperation = compositeModes[mode]
+  if (source instanceof HTMLCanvasElement) {
+    ctx.drawImage(source, 0, 0)
+  } else {
+    ctx.fillStyle = '#ffffff'
+    ctx.fill(shapePath(source))
+  }
+  ctx.restore()
+}
+
+export function invertMask(mask: HTMLCanvasElement) {
+  const inverted = createMaskCanvas(mask.width, mask.height)
+  const ctx = context(inverted)
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, inverted.width, inverted.height)
+  ctx.globalCompositeOperation = 'destination-out'
+  ctx.drawImage(mask, 0, 0)
+
+  const target = context(mask)
+  target.clearRect(0, 0, mask.width, mask.height)
+  target.drawImage(inverted, 0, 0)
+}
+
+export function fillMask(mask: HTMLCanvasElement) {
+  const ctx = context(mask)
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, mask.width, mask.height)
+}
+
+export function readMask(mask: HTMLCanvasElement): ImageData {
+  return context(mask).getImageData(0, 0, mask.width, mask.height)
+}
+
+export function writeMask(mask: HTMLCanvasElement, pixels: ImageData) {
+  context(mask).putImageData(pixels, 0, 0)
+}
+
+/** Bounding box of the selected pixels, or null when nothing is selected. */
+export function maskBounds(mask: HTMLCanvasElement): SelectionBounds | null {
+  const { data, width, height } = readMask(mask)
+  let minX = width
+  let minY = height
+  let maxX = -1
+  let maxY = -1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
+
+/**
+ * Outline of the mask (alpha of at least half) as pixel-edge segments, for
+ * drawing marching ants. Adjacent edges are merged into longer runs.
+ */
+export function maskOutline(mask: HTMLCanvasElement): Path2D {
+  const { data, width, height } = readMask(mask)
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && data[(y * width + x) * 4 + 3] >= 128
+  const path = new Path2D()
+
+  for (let y = 0; y <= height; y++) {
+    let start = -1
+    for (let x = 0; x <= width; x++) {
+      const edge = x < width && inside(x, y - 1) !== inside(x, y)
+      if (edge && start === -1) start = x
+      if (!edge && start !== -1) {
+        path.moveTo(start, y)
+        path.lineTo(x, y)
+        start = -1
+      }
+    }
+  }
+  for (let x = 0; x <= width; x++) {
+    let start = -1
+    for (let y = 0; y <= height; y++) {
+      const edge = y < height && inside(x - 1, y) !== inside(x, y)
+      if (edge && start === -1) start = y
+      if (!edge && start !== -1) {
+        path.moveTo(x, start)
+        path.lineTo(x, y)
+        start = -1
+      }
+    }
+  }
+  return path
+}
+
+/**
+ * Resamples a document-space mask into an object's own pixel space, e.g.
+ * an image's source pixels, so edits can be applied to that object. The
+ * result is `width` x `height`; `scale` maps object pixels to result pixels.
+ */
+export function maskInObjectSpace(
+  mask: HTMLCanvasElement,
+  object: fabric.Object,
+  width: number,
+  height: number,
+  offset: SelectionPoint = { x: 0, y: 0 },
+  scale = 1
+): HTMLCanvasElement {
+  const local = createMaskCanvas(width * scale, height * scale)
+  const ctx = context(local)
+  const inverse = fabric.util.invertTransform(object.calcTransformMatrix())
+  // Object space is centered on the object; pixel space starts at its corner
+  ctx.scale(scale, scale)
+  ctx.translate((object.width ?? 0) / 2 + offset.x, (object.height ?? 0) / 2 + offset.y)
+  ctx.transform(inverse[0], inverse[1], inverse[2], inverse[3], inverse[4], inverse[5])
+  ctx.drawImage(mask, 0, 0)
+  return local
+}
+
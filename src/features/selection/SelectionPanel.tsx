@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { cn } from '@/lib/utils'
+import { SelectionController } from './SelectionController'
+import { copySelectionToLayer, deleteSelectionPixels, fillSelection } from './SelectionEdits'
+import type { SelectionMode } from './SelectionMask'
+
+const MODES: { id: SelectionMode; label: string }[] = [
+  { id: 'replace', label: 'New' },
+  { id: 'add', label: 'Add' },
+  { id: 'subtract', label: 'Subtract' },
+  { id: 'intersect', label: 'Intersect' },
+]
+
+export const SelectionPanel: React.FC<{ toolId?: string }> = ({ toolId }) => {
+  const [state, setState] = useState(SelectionController.getState())
+  const brushColor = useEditorStore((store) => store.brushSettings.color)
+  const [fillColor, setFillColor] = useState(brushColor)
+
+  useEffect(() => SelectionController.subscribe(() => setState(SelectionController.getState())), [])
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">Selection</h3>
+
+      <div className="grid grid-cols-4 gap-1">
+        {MODES.map((mode) => (
+          <button
+            key={mode.id}
+            className={cn(
+              'rounded border px-1 py-1 text-xs',
+              state.mode === mode.id ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+            )}
+            onClick={() => SelectionController.setOptions({ mode: mode.id })}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">Shift adds, Alt subtracts, Shift+Alt intersects.</p>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Feather: {state.feather}px</label>
+        <Slider
+          value={[state.feather]}
+          onValueChange={(value) => SelectionController.setOptions({ feather: value[0] })}
+          min={0}
+          max={100}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      {toolId === 'magic-wand' && (
+        <>
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Tolerance: {state.tolerance}</label>
+            <Slider
+              value={[state.tolerance]}
+              onValueChange={(value) => SelectionController.setOptions({ tolerance: value[0] })}
+              min={0}
+              max={255}
+              step={1}
+              className="w-full"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={state.contiguous}
+              onChange={(e) => SelectionController.setOptions({ contiguous: e.target.checked })}
+            />
+            Contiguous
+          </label>
+        </>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <Button size="sm" variant="outline" onClick={() => SelectionController.selectAll()}>
+          All
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => SelectionController.deselect()} disabled={!state.hasSelection}>
+          None
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => SelectionController.invert()}>
+          Invert
+        </Button>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={() => SelectionController.featherSelection(state.feather)}
+        disabled={!state.hasSelection || state.feather === 0}
+      >
+        Feather Selection by {state.feather}px
+      </Button>
+
+      <div className="border-t pt-3 space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground">Inside selection</h4>
+        <div className="flex gap-2">
+          <Input
+            type="color"
+            value={fillColor}
+            onChange={(e) => setFillColor(e.target.value)}
+            className="h-9 w-12 p-1"
+          />
+          <Button size="sm" className="flex-1" onClick={() => fillSelection(fillColor)} disabled={!state.hasSelection}>
+            Fill
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <Button size="sm" variant="outline" onClick={() => deleteSelectionPixels()} disabled={!state.hasSelection}>
+            Delete
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => copySelectionToLayer()} disabled={!state.hasSelection}>
+            Copy to Layer
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Adjustments added while a selection is active only affect the selected pixels.
+        </p>
+      </div>
+
+      {state.busy && <p className="text-xs text-muted-foreground">Working…</p>}
+    </div>
+  )
+}
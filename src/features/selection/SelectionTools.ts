@@ -0,0 +1,251 @@
+import { fabric } from 'fabric'
+import type { ToolDefinition, ToolHandler } from '@/features/tools/ToolRegistry'
+import { SelectionController } from './SelectionController'
+import { SelectionPanel } from './SelectionPanel'
+import type { SelectionMode, SelectionPoint, SelectionShape } from './SelectionMask'
+
+// Pixel selection tools. Shift adds to the selection, Alt subtracts and
+// Shift+Alt intersects; otherwise the mode from the options panel applies.
+// The active layer stays active while selecting, so edits inside the
+// selection know which object to act on.
+
+interface SelectionGesture {
+  down: (point: SelectionPoint, event: MouseEvent, mode: SelectionMode) => void
+  move?: (point: SelectionPoint) => void
+  up?: (point: SelectionPoint) => void
+  reset: () => void
+}
+
+interface SelectionToolOptions {
+  id: string
+  name: string
+  icon: string
+  description: string
+  shortcut?: string
+  createGesture: (canvas: fabric.Canvas) => SelectionGesture
+}
+
+const MIN_DRAG = 2
+const CLOSE_DISTANCE = 8
+
+function modeFromEvent(event: MouseEvent): SelectionMode {
+  if (event.shiftKey && event.altKey) return 'intersect'
+  if (event.shiftKey) return 'add'
+  if (event.altKey) return 'subtract'
+  return SelectionController.getState().mode
+}
+
+function createSelectionTool(options: SelectionToolOptions): ToolDefinition {
+  let gesture: SelectionGesture | null = null
+  let layer: fabric.Object | null = null
+  const rememberLayer = (event: fabric.IEvent) => {
+    layer = (event as fabric.IEvent & { selected?: fabric.Object[] }).selected?.[0] ?? null
+  }
+  // Clicking the canvas discards fabric's active object; put it back
+  const restoreLayer = (canvas: fabric.Canvas) => {
+    if (layer && canvas.getObjects().includes(layer) && canvas.getActiveObject() !== layer) {
+      canvas.setActiveObject(layer)
+      canvas.requestRenderAll()
+    }
+  }
+
+  const handler: ToolHandler = {
+    activate: (canvas) => {
+      canvas.isDrawingMode = false
+      canvas.selection = false
+      canvas.skipTargetFind = true
+      canvas.defaultCursor = 'crosshair'
+      layer = canvas.getActiveObject() ?? null
+      canvas.on('selection:created', rememberLayer)
+      canvas.on('selection:updated', rememberLayer)
+      SelectionController.attach(canvas)
+      gesture = options.createGesture(canvas)
+    },
+    deactivate: (canvas) => {
+      gesture?.reset()
+      gesture = null
+      canvas.off('selection:created', rememberLayer)
+      canvas.off('selection:updated', rememberLayer)
+      canvas.selection = true
+      canvas.skipTargetFind = false
+      canvas.defaultCursor = 'default'
+    },
+    onMouseDown: (canvas, event) => {
+      restoreLayer(canvas)
+      const mouse = event.e as MouseEvent
+      gesture?.down(canvas.getPointer(mouse), mouse, modeFromEvent(mouse))
+    },
+    onMouseMove: (canvas, event) => {
+      gesture?.move?.(canvas.getPointer(event.e))
+    },
+    onMouseUp: (canvas, event) => {
+      gesture?.up?.(canvas.getPointer(event.e))
+      restoreLayer(canvas)
+    },
+  }
+
+  return {
+    id: options.id,
+    name: options.name,
+    icon: options.icon,
+    category: 'selection',
+    description: options.description,
+    shortcut: options.shortcut,
+    component: SelectionPanel,
+    handler,
+  }
+}
+
+// Rectangle and ellipse marquees: drag out a box; a plain click deselects
+function marqueeGesture(kind: 'rect' | 'ellipse'): SelectionToolOptions['createGesture'] {
+  return () => {
+    let origin: SelectionPoint | null = null
+    let mode: SelectionMode = 'replace'
+    const toShape = (point: SelectionPoint): SelectionShape => ({
+      kind,
+      x: Math.min(origin!.x, point.x),
+      y: Math.min(origin!.y, point.y),
+      width: Math.abs(point.x - origin!.x),
+      height: Math.abs(point.y - origin!.y),
+    })
+
+    return {
+      down: (point, _event, nextMode) => {
+        origin = point
+        mode = nextMode
+      },
+      move: (point) => {
+        if (origin) SelectionController.setPreview(toShape(point))
+      },
+      up: (point) => {
+        if (!origin) return
+        const shape = toShape(point)
+        origin = null
+        SelectionController.setPreview(null)
+        if (shape.kind !== 'polygon' && (shape.width < MIN_DRAG || shape.height < MIN_DRAG)) {
+          if (mode === 'replace') SelectionController.deselect()
+          return
+        }
+        SelectionController.selectShape(shape, mode)
+      },
+      reset: () => {
+        origin = null
+        SelectionController.setPreview(null)
+      },
+    }
+  }
+}
+
+const freehandLasso: SelectionToolOptions['createGesture'] = (canvas) => {
+  let points: SelectionPoint[] | null = null
+  let mode: SelectionMode = 'replace'
+
+  return {
+    down: (point, _event, nextMode) => {
+      points = [point]
+      mode = nextMode
+    },
+    move: (point) => {
+      if (!points) return
+      const last = points[points.length - 1]
+      if (Math.hypot(point.x - last.x, point.y - last.y) < MIN_DRAG / canvas.getZoom()) return
+      points.push(point)
+      SelectionController.setPreview({ kind: 'polygon', points })
+    },
+    up: () => {
+      if (!points) return
+      const shape: SelectionShape = { kind: 'polygon', points }
+      points = null
+      SelectionController.setPreview(null)
+      if (shape.points.length >= 3) SelectionController.selectShape(shape, mode)
+      else if (mode === 'replace') SelectionController.deselect()
+    },
+    reset: () => {
+      points = null
+      SelectionController.setPreview(null)
+    },
+  }
+}
+
+// Click to place corners; click the first corner or double-click to close
+const polygonLasso: SelectionToolOptions['createGesture'] = (canvas) => {
+  let points: SelectionPoint[] = []
+  let mode: SelectionMode = 'replace'
+
+  const close = () => {
+    const shape: SelectionShape = { kind: 'polygon', points }
+    points = []
+    SelectionController.setPreview(null)
+    if (shape.points.length >= 3) SelectionController.selectShape(shape, mode)
+  }
+
+  return {
+    down: (point, event, nextMode) => {
+      if (points.length === 0) {
+        points = [point]
+        mode = nextMode
+        return
+      }
+      const first = points[0]
+      if (event.detail >= 2 || Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_DISTANCE / canvas.getZoom()) {
+        close()
+        return
+      }
+      points.push(point)
+    },
+    move: (point) => {
+      if (points.length > 0) SelectionController.setPreview({ kind: 'polygon', points: [...points, point] })
+    },
+    reset: () => {
+      points = []
+      SelectionController.setPreview(null)
+    },
+  }
+}
+
+const magicWand: SelectionToolOptions['createGesture'] = () => ({
+  down: (point, _event, mode) => {
+    SelectionController.magicWand(point, mode)
+  },
+  reset: () => {},
+})
+
+export const selectionTools: ToolDefinition[] = [
+  createSelectionTool({
+    id: 'marquee-rect',
+    name: 'Rectangular Marquee',
+    icon: 'BoxSelect',
+    description: 'Select a rectangular area of pixels',
+    shortcut: 'M',
+    createGesture: marqueeGesture('rect'),
+  }),
+  createSelectionTool({
+    id: 'marquee-ellipse',
+    name: 'Elliptical Marquee',
+    icon: 'CircleDashed',
+    description: 'Select an elliptical area of pixels',
+    createGesture: marqueeGesture('ellipse'),
+  }),
+  createSelectionTool({
+    id: 'lasso',
+    name: 'Lasso',
+    icon: 'Lasso',
+    description: 'Draw a freehand selection',
+    createGesture: freehandLasso,
+  }),
+  createSelectionTool({
+    id: 'polygon-lasso',
+    name: 'Polygonal Lasso',
+    icon: 'LassoSelect',
+    description: 'Click corners to select a straight-edged area',
+    createGesture: polygonLasso,
+  }),
+  createSelectionTool({
+    id: 'magic-wand',
+    name: 'Magic Wand',
+    icon: 'Wand2',
+    description: 'Select pixels of a similar colour',
+    shortcut: 'W',
+    createGesture: magicWand,
+  }),
+]
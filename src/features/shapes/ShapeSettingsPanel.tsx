@@ -0,0 +1,108 @@
+import React from 'react'
+import { Input } from '@/components/ui/input'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+
+interface SliderFieldProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step?: number
+  onChange: (value: number) => void
+}
+
+const SliderField: React.FC<SliderFieldProps> = ({ label, value, min, max, step = 1, onChange }) => (
+  <div>
+    <label className="text-xs text-muted-foreground mb-1 block">
+      {label}: {value}
+    </label>
+    <Slider
+      value={[value]}
+      onValueChange={(v) => onChange(v[0])}
+      min={min}
+      max={max}
+      step={step}
+      className="w-full"
+    />
+  </div>
+)
+
+export const ShapeSettingsPanel: React.FC<{ toolId?: string }> = ({ toolId }) => {
+  const { shapeSettings, updateShapeSettings } = useEditorStore()
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">Shape</h3>
+      <p className="text-xs text-gray-500">
+        Drag to draw. Hold Shift to keep proportions, Alt to draw from the center.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Fill</label>
+          <Input
+            type="color"
+            value={shapeSettings.fill}
+            onChange={(e) => updateShapeSettings({ fill: e.target.value })}
+            className="h-9 p-1"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Stroke</label>
+          <Input
+            type="color"
+            value={shapeSettings.stroke}
+            onChange={(e) => updateShapeSettings({ stroke: e.target.value })}
+            className="h-9 p-1"
+          />
+        </div>
+      </div>
+
+      <SliderField
+        label="Stroke Width"
+        value={shapeSettings.strokeWidth}
+        min={0}
+        max={40}
+        onChange={(strokeWidth) => updateShapeSettings({ strokeWidth })}
+      />
+      {toolId === 'rounded-rectangle' && (
+        <SliderField
+          label="Corner Radius"
+          value={shapeSettings.cornerRadius}
+          min={0}
+          max={100}
+          onChange={(cornerRadius) => updateShapeSettings({ cornerRadius })}
+        />
+      )}
+      {toolId === 'polygon' && (
+        <SliderField
+          label="Sides"
+          value={shapeSettings.polygonSides}
+          min={3}
+          max={12}
+          onChange={(polygonSides) => updateShapeSettings({ polygonSides })}
+        />
+      )}
+      {toolId === 'star' && (
+        <>
+          <SliderField
+            label="Points"
+            value={shapeSettings.starPoints}
+            min={3}
+            max={12}
+            onChange={(starPoints) => updateShapeSettings({ starPoints })}
+          />
+          <SliderField
+            label="Inner Radius"
+            value={shapeSettings.starInnerRatio}
+            min={0.1}
+            max={0.9}
+            step={0.05}
+            onChange={(starInnerRatio) => updateShapeSettings({ starInnerRatio })}
+          />
+        </>
+      )}
+    </div>
+  )
+}
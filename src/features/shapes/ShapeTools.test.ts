@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { fabric } from 'fabric'
+import { constrainDrag } from './ShapeTools'
+
+const origin = new fabric.Point(100, 100)
+
+type DragOptions = Parameters<typeof constrainDrag>[2]
+
+const drag = (x: number, y: number, options: Partial<DragOptions> = {}) =>
+  constrainDrag(origin, new fabric.Point(x, y), { proportional: false, fromCenter: false, kind: 'box', ...options })
+
+describe('constrainDrag', () => {
+  it('spans the origin and the pointer without modifiers', () => {
+    expect(drag(160, 130)).toMatchObject({ left: 100, top: 100, width: 60, height: 30 })
+  })
+
+  it('normalizes the box when dragging up and left', () => {
+    const result = drag(40, 70)
+    expect(result).toMatchObject({ left: 40, top: 70, width: 60, height: 30 })
+    expect(result.start).toMatchObject({ x: 100, y: 100 })
+    expect(result.end).toMatchObject({ x: 40, y: 70 })
+  })
+
+  it('makes a proportional box square on its longer side', () => {
+    expect(drag(160, 130, { proportional: true })).toMatchObject({ left: 100, top: 100, width: 60, height: 60 })
+    expect(drag(80, 20, { proportional: true })).toMatchObject({ left: 20, top: 20, width: 80, height: 80 })
+  })
+
+  it('grows a proportional box down and right from a straight drag', () => {
+    expect(drag(100, 150, { proportional: true })).toMatchObject({ left: 100, top: 100, width: 50, height: 50 })
+  })
+
+  it('snaps a proportional line to 45 degrees and keeps its length', () => {
+    const horizontal = drag(150, 108, { proportional: true, kind: 'line' })
+    expect(horizontal.end.x).toBeCloseTo(100 + Math.hypot(50, 8))
+    expect(horizontal.end.y).toBeCloseTo(100)
+
+    const diagonal = drag(140, 60, { proportional: true, kind: 'line' })
+    const length = Math.hypot(40, 40)
+    expect(diagonal.end.x).toBeCloseTo(100 + length / Math.SQRT2)
+    expect(diagonal.end.y).toBeCloseTo(100 - length / Math.SQRT2)
+  })
+
+  it('mirrors the drag around the origin from the center', () => {
+    const result = drag(130, 120, { fromCenter: true })
+    expect(result.start).toMatchObject({ x: 70, y: 80 })
+    expect(result).toMatchObject({ left: 70, top: 80, width: 60, height: 40 })
+  })
+
+  it('combines both modifiers', () => {
+    expect(drag(130, 110, { proportional: true, fromCenter: true })).toMatchObject({
+      left: 70,
+      top: 70,
+      width: 60,
+      height: 60,
+    })
+  })
+})
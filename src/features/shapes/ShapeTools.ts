@@ -0,0 +1,298 @@
+import { fabric } from 'fabric'
+import { useEditorStore, type ShapeSettings } from '@/store/editorStore'
+import { nextLayerName, type LayerObject } from '@/features/layers/LayerModel'
+import type { ToolDefinition } from '@/features/tools/ToolRegistry'
+import { ShapeSettingsPanel } from './ShapeSettingsPanel'
+
+// Shapes are drawn by click-and-drag. While dragging, the preview is a
+// helper object (excluded from export, history and layers); on release it
+// is re-added as a regular object so the whole draw is one undo step.
+
+export interface ShapeDrag {
+  // Drag start and current pointer after Shift/Alt have been applied
+  start: fabric.Point
+  end: fabric.Point
+  // Normalized bounding box of the drag
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface ShapeToolOptions {
+  id: string
+  name: string
+  icon: string
+  description: string
+  shortcut?: string
+  // Lines snap their angle with Shift instead of keeping a square box
+  kind?: 'box' | 'line'
+  build: (drag: ShapeDrag, settings: ShapeSettings) => fabric.Object
+}
+
+const CLICK_SIZE = 100
+const MIN_DRAG = 3
+
+function toDrag(start: fabric.Point, end: fabric.Point): ShapeDrag {
+  return {
+    start,
+    end,
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+}
+
+/** Applies Shift (proportions / 45° snapping) and Alt (from center) to a drag. */
+export function constrainDrag(
+  origin: fabric.Point,
+  pointer: fabric.Point,
+  options: { proportional: boolean; fromCenter: boolean; kind: 'box' | 'line' }
+): ShapeDrag {
+  let dx = pointer.x - origin.x
+  let dy = pointer.y - origin.y
+
+  if (options.proportional) {
+    if (options.kind === 'line') {
+      const step = Math.PI / 4
+      const angle = Math.round(Math.atan2(dy, dx) / step) * step
+      const length = Math.hypot(dx, dy)
+      dx = Math.cos(angle) * length
+      dy = Math.sin(angle) * length
+    } else {
+      const size = Math.max(Math.abs(dx), Math.abs(dy))
+      dx = Math.sign(dx || 1) * size
+      dy = Math.sign(dy || 1) * size
+    }
+  }
+
+  const end = new fabric.Point(origin.x + dx, origin.y + dy)
+  const start = options.fromCenter ? new fabric.Point(origin.x - dx, origin.y - dy) : origin
+  return toDrag(start, end)
+}
+
+// Points of a regular polygon or star inscribed in the drag box
+function radialPoints(drag: ShapeDrag, count: number, innerRatio?: number): fabric.Point[] {
+  const cx = drag.left + drag.width / 2
+  const cy = drag.top + drag.height / 2
+  const steps = innerRatio === undefined ? count : count * 2
+  const points: fabric.Point[] = []
+  for (let i = 0; i < steps; i++) {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / steps
+    const scale = innerRatio !== undefined && i % 2 === 1 ? innerRatio : 1
+    points.push(
+      new fabric.Point(
+        cx + Math.cos(angle) * (drag.width / 2) * scale,
+        cy + Math.sin(angle) * (drag.height / 2) * scale
+      )
+    )
+  }
+  return points
+}
+
+function createShapeTool(options: ShapeToolOptions): ToolDefinition {
+  const kind = options.kind ?? 'box'
+  let origin: fabric.Point | null = null
+  let drag: ShapeDrag | null = null
+  let preview: fabric.Object | null = null
+
+  const updatePreview = (canvas: fabric.Canvas) => {
+    if (preview) canvas.remove(preview)
+    preview = options.build(drag!, useEditorStore.getState().shapeSettings)
+    preview.set({ excludeFromExport: true, selectable: false, evented: false, objectCaching: false })
+    canvas.add(preview)
+    canvas.requestRenderAll()
+  }
+
+  const reset = (canvas: fabric.Canvas) => {
+    if (preview) canvas.remove(preview)
+    preview = null
+    origin = null
+    drag = null
+  }
+
+  return {
+    id: options.id,
+    name: options.name,
+    icon: options.icon,
+    category: 'shapes',
+    description: options.description,
+    shortcut: options.shortcut,
+    component: ShapeSettingsPanel,
+    handler: {
+      activate: (canvas) => {
+        canvas.isDrawingMode = false
+        canvas.selection = false
+        // Dragging over existing objects draws instead of moving them
+        canvas.skipTargetFind = true
+        canvas.defaultCursor = 'crosshair'
+        canvas.discardActiveObject()
+        canvas.requestRenderAll()
+      },
+      deactivate: (canvas) => {
+        reset(canvas)
+        canvas.selection = true
+        canvas.skipTargetFind = false
+        canvas.defaultCursor = 'default'
+      },
+      onMouseDown: (canvas, event) => {
+        const pointer = canvas.getPointer(event.e)
+        origin = new fabric.Point(pointer.x, pointer.y)
+        canvas.discardActiveObject()
+      },
+      onMouseMove: (canvas, event) => {
+        if (!origin) return
+        const pointer = canvas.getPointer(event.e)
+        const mouse = event.e as MouseEvent
+        drag = constrainDrag(origin, new fabric.Point(pointer.x, pointer.y), {
+          proportional: mouse.shiftKey,
+          fromCenter: mouse.altKey,
+          kind,
+        })
+        updatePreview(canvas)
+      },
+      onMouseUp: (canvas) => {
+        if (!origin) return
+        const start = origin
+        const dragged = drag && Math.max(drag.width, drag.height) >= MIN_DRAG ? drag : null
+        reset(canvas)
+
+        // A plain click drops a default-sized shape at the pointer
+        const final =
+          dragged ??
+          toDrag(start, new fabric.Point(start.x + CLICK_SIZE, start.y + (kind === 'line' ? 0 : CLICK_SIZE)))
+
+        const shape = options.build(final, useEditorStore.getState().shapeSettings) as LayerObject
+        shape.layerName = nextLayerName(canvas, options.name)
+        canvas.add(shape)
+        canvas.setActiveObject(shape)
+        canvas.requestRenderAll()
+      },
+    },
+  }
+}
+
+const boxStyle = (settings: ShapeSettings) => ({
+  fill: settings.fill,
+  stroke: settings.stroke,
+  strokeWidth: settings.strokeWidth,
+  strokeUniform: true,
+})
+
+const lineStyle = (settings: ShapeSettings) => ({
+  fill: '',
+  stroke: settings.stroke,
+  strokeWidth: Math.max(settings.strokeWidth, 1),
+  strokeLineCap: 'round',
+  strokeLineJoin: 'round',
+  strokeUniform: true,
+})
+
+export const shapeTools: ToolDefinition[] = [
+  createShapeTool({
+    id: 'rectangle',
+    name: 'Rectangle',
+    icon: 'Square',
+    description: 'Draw rectangles (Shift for squares, Alt from center)',
+    shortcut: 'R',
+    build: (drag, settings) =>
+      new fabric.Rect({ left: drag.left, top: drag.top, width: drag.width, height: drag.height, ...boxStyle(settings) }),
+  }),
+  createShapeTool({
+    id: 'rounded-rectangle',
+    name: 'Rounded Rectangle',
+    icon: 'RectangleHorizontal',
+    description: 'Draw rectangles with rounded corners',
+    build: (drag, settings) => {
+      const radius = Math.min(settings.cornerRadius, drag.width / 2, drag.height / 2)
+      return new fabric.Rect({
+        left: drag.left,
+        top: drag.top,
+        width: drag.width,
+        height: drag.height,
+        rx: radius,
+        ry: radius,
+        ...boxStyle(settings),
+      })
+    },
+  }),
+  createShapeTool({
+    id: 'circle',
+    name: 'Circle',
+    icon: 'Circle',
+    description: 'Draw circles',
+    shortcut: 'C',
+    build: (drag, settings) => {
+      const radius = Math.max(drag.width, drag.height) / 2
+      return new fabric.Circle({
+        left: drag.left + drag.width / 2 - radius,
+        top: drag.top + drag.height / 2 - radius,
+        radius,
+        ...boxStyle(settings),
+      })
+    },
+  }),
+  createShapeTool({
+    id: 'ellipse',
+    name: 'Ellipse',
+    icon: 'Egg',
+    description: 'Draw ellipses (Shift for circles)',
+    build: (drag, settings) =>
+      new fabric.Ellipse({
+        left: drag.left,
+        top: drag.top,
+        rx: drag.width / 2,
+        ry: drag.height / 2,
+        ...boxStyle(settings),
+      }),
+  }),
+  createShapeTool({
+    id: 'line',
+    name: 'Line',
+    icon: 'Minus',
+    description: 'Draw straight lines (Shift snaps to 45°)',
+    shortcut: 'L',
+    kind: 'line',
+    build: (drag, settings) =>
+      new fabric.Line([drag.start.x, drag.start.y, drag.end.x, drag.end.y], lineStyle(settings)),
+  }),
+  createShapeTool({
+    id: 'arrow',
+    name: 'Arrow',
+    icon: 'ArrowUpRight',
+    description: 'Draw arrows (Shift snaps to 45°)',
+    shortcut: 'A',
+    kind: 'line',
+    build: (drag, settings) => {
+      const { start, end } = drag
+      const angle = Math.atan2(end.y - start.y, end.x - start.x)
+      const head = Math.max(12, settings.strokeWidth * 4)
+      const wing = (offset: number) =>
+        `${end.x - head * Math.cos(angle + offset)} ${end.y - head * Math.sin(angle + offset)}`
+      return new fabric.Path(
+        `M ${start.x} ${start.y} L ${end.x} ${end.y} M ${wing(Math.PI / 6)} L ${end.x} ${end.y} L ${wing(-Math.PI / 6)}`,
+        lineStyle(settings)
+      )
+    },
+  }),
+  createShapeTool({
+    id: 'polygon',
+    name: 'Polygon',
+    icon: 'Hexagon',
+    description: 'Draw regular polygons',
+    build: (drag, settings) =>
+      new fabric.Polygon(radialPoints(drag, Math.max(3, Math.round(settings.polygonSides))), boxStyle(settings)),
+  }),
+  createShapeTool({
+    id: 'star',
+    name: 'Star',
+    icon: 'Star',
+    description: 'Draw stars',
+    build: (drag, settings) =>
+      new fabric.Polygon(
+        radialPoints(drag, Math.max(3, Math.round(settings.starPoints)), settings.starInnerRatio),
+        boxStyle(settings)
+      ),
+  }),
+]
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { comboFromEvent, formatCombo, normalizeCombo } from './ShortcutManager'
+
+// jsdom reports an empty navigator.platform, so these run as non-Mac: Ctrl is Mod
+const keydown = (key: string, init: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { key, ...init })
+
+describe('comboFromEvent', () => {
+  it('writes modifiers first in a fixed order', () => {
+    expect(comboFromEvent(keydown('z', { ctrlKey: true, shiftKey: true }))).toBe('Mod+Shift+Z')
+    expect(comboFromEvent(keydown('k', { shiftKey: true, altKey: true, ctrlKey: true }))).toBe('Mod+Alt+Shift+K')
+  })
+
+  it('uppercases single keys and keeps named keys', () => {
+    expect(comboFromEvent(keydown('v'))).toBe('V')
+    expect(comboFromEvent(keydown('Delete', { shiftKey: true }))).toBe('Shift+Delete')
+  })
+
+  it('leaves Shift out of symbols it is needed to type', () => {
+    expect(comboFromEvent(keydown('?', { shiftKey: true }))).toBe('?')
+    expect(comboFromEvent(keydown('}', { ctrlKey: true, shiftKey: true }))).toBe('Mod+}')
+  })
+
+  it('names the space bar', () => {
+    expect(comboFromEvent(keydown(' '))).toBe('Space')
+  })
+
+  it('ignores modifier keys pressed on their own', () => {
+    for (const key of ['Shift', 'Control', 'Alt', 'Meta']) expect(comboFromEvent(keydown(key))).toBeNull()
+  })
+
+  it('does not read the Meta key as Mod off the Mac', () => {
+    expect(comboFromEvent(keydown('s', { metaKey: true }))).toBe('S')
+  })
+})
+
+describe('normalizeCombo', () => {
+  it('sorts modifiers into the order events produce', () => {
+    expect(normalizeCombo('Shift+Mod+z')).toBe('Mod+Shift+Z')
+    expect(normalizeCombo('Shift+Alt+Ctrl+Mod+a')).toBe('Mod+Ctrl+Alt+Shift+A')
+  })
+
+  it('reads Cmd and Meta as Mod', () => {
+    expect(normalizeCombo('Cmd+S')).toBe('Mod+S')
+    expect(normalizeCombo('Meta+Alt+k')).toBe('Mod+Alt+K')
+  })
+
+  it('expands key aliases', () => {
+    expect(normalizeCombo('Esc')).toBe('Escape')
+    expect(normalizeCombo('Mod+Del')).toBe('Mod+Delete')
+    expect(normalizeCombo(' ')).toBe('Space')
+  })
+
+  it('matches the combo of the event it describes', () => {
+    expect(normalizeCombo('Shift+Cmd+z')).toBe(comboFromEvent(keydown('Z', { ctrlKey: true, shiftKey: true })))
+  })
+})
+
+describe('formatCombo', () => {
+  it('spells out Mod as Ctrl off the Mac', () => {
+    expect(formatCombo('Mod+Shift+Z')).toBe('Ctrl+Shift+Z')
+    expect(formatCombo('Delete')).toBe('Delete')
+  })
+})
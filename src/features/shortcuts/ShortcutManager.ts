@@ -0,0 +1,249 @@
+import { fabric } from 'fabric'
+import { ToolRegistry } from '@/features/tools/ToolRegistry'
+import { SelectionController } from '@/features/selection/SelectionController'
+import { deleteSelectionPixels } from '@/features/selection/SelectionEdits'
+import { useEditorStore } from '@/store/editorStore'
+import { saveProjectWithFeedback } from '@/features/project/ProjectActions'
+
+// Key combos are written as '+'-joined parts, modifiers first:
+// 'Mod+Shift+Z', 'Delete', 'V'. 'Mod' is Cmd on macOS and Ctrl elsewhere.
+
+export type ShortcutCategory = 'tools' | 'edit' | 'select' | 'arrange' | 'file' | 'help'
+
+export interface ShortcutDefinition {
+  id: string
+  description: string
+  category: ShortcutCategory
+  defaultKeys: string[]
+  run: () => void
+}
+
+export interface ShortcutBinding {
+  id: string
+  description: string
+  category: ShortcutCategory
+  keys: string[]
+  isCustom: boolean
+}
+
+const KEYMAP_STORAGE_KEY = 'photoEditorV4Keymap'
+const TOOL_SHORTCUT_PREFIX = 'tool:'
+
+export const isMacPlatform =
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform)
+
+const MODIFIER_ORDER = ['Mod', 'Ctrl', 'Alt', 'Shift']
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  Esc: 'Escape',
+  Del: 'Delete',
+}
+
+/** Canonical combo for a keyboard event, e.g. 'Mod+Shift+Z'. */
+export function comboFromEvent(event: KeyboardEvent): string | null {
+  const key = KEY_ALIASES[event.key] ?? event.key
+  if (['Meta', 'Control', 'Alt', 'Shift'].includes(key)) return null
+
+  const parts: string[] = []
+  if (isMacPlatform ? event.metaKey : event.ctrlKey) parts.push('Mod')
+  if (isMacPlatform && event.ctrlKey) parts.push('Ctrl')
+  if (event.altKey) parts.push('Alt')
+  // Shift is implied by symbols such as '?', so it only counts for letters
+  // and named keys
+  const isSymbol = key.length === 1 && !/[a-z0-9]/i.test(key)
+  if (event.shiftKey && !isSymbol) parts.push('Shift')
+  parts.push(key.length === 1 ? key.toUpperCase() : key)
+  return parts.join('+')
+}
+
+export function normalizeCombo(combo: string): string {
+  const parts = combo.split('+').filter(Boolean)
+  const key = parts.pop() ?? ''
+  const modifiers = parts
+    .map((part) => (part === 'Cmd' || part === 'Meta' ? 'Mod' : part))
+    .sort((a, b) => MODIFIER_ORDER.indexOf(a) - MODIFIER_ORDER.indexOf(b))
+  const normalizedKey = KEY_ALIASES[key] ?? (key.length === 1 ? key.toUpperCase() : key)
+  return [...modifiers, normalizedKey].join('+')
+}
+
+/** Human readable combo for the current platform, e.g. '⌘⇧Z' or 'Ctrl+Shift+Z'. */
+export function formatCombo(combo: string): string {
+  const parts = combo.split('+')
+  if (isMacPlatform) {
+    const symbols: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Delete: '⌦', Backspace: '⌫' }
+    return parts.map((part) => symbols[part] ?? part).join('')
+  }
+  return parts.map((part) => (part === 'Mod' ? 'Ctrl' : part)).join('+')
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  )
+}
+
+function isEditingText(): boolean {
+  const active = useEditorStore.getState().canvas?.getActiveObject()
+  return active instanceof fabric.IText && active.isEditing === true
+}
+
+class ShortcutManagerClass {
+  private shortcuts: Map<string, ShortcutDefinition> = new Map()
+  private overrides: Record<string, string[]> = this.loadKeymap()
+  private listeners: Set<() => void> = new Set()
+
+  register(shortcut: ShortcutDefinition) {
+    this.shortcuts.set(shortcut.id, shortcut)
+    this.notify()
+  }
+
+  unregister(shortcutId: string) {
+    this.shortcuts.delete(shortcutId)
+    this.notify()
+  }
+
+  /** All bindings, including one per ToolRegistry tool that declares a shortcut. */
+  getBindings(): ShortcutBinding[] {
+    return this.getDefinitions().map((definition) => ({
+      id: definition.id,
+      description: definition.description,
+      category: definition.category,
+      keys: this.resolveKeys(definition),
+      isCustom: definition.id in this.overrides,
+    }))
+  }
+
+  getKeys(shortcutId: string): string[] {
+    return this.getBindings().find((binding) => binding.id === shortcutId)?.keys ?? []
+  }
+
+  /** Formatted primary combo for tooltips, or '' when unbound. */
+  describe(shortcutId: string): string {
+    const [combo] = this.getKeys(shortcutId)
+    return combo ? formatCombo(combo) : ''
+  }
+
+  /** Remaps a shortcut; the combo is taken away from any other binding. */
+  setKeys(shortcutId: string, keys: string[]) {
+    const normalized = keys.map(normalizeCombo)
+    for (const binding of this.getBindings()) {
+      if (binding.id === shortcutId) continue
+      if (binding.keys.some((combo) => normalized.includes(combo))) {
+        this.overrides[binding.id] = binding.keys.filter((combo) => !normalized.includes(combo))
+      }
+    }
+    this.overrides[shortcutId] = normalized
+    this.saveKeymap()
+  }
+
+  resetKeys(shortcutId?: string) {
+    if (shortcutId) {
+      delete this.overrides[shortcutId]
+    } else {
+      this.overrides = {}
+    }
+    this.saveKeymap()
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  handleKeyDown = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || isTypingTarget(event.target) || isEditingText()) return
+
+    const combo = comboFromEvent(event)
+    if (!combo) return
+
+    const shortcut = this.getDefinitions().find((d) => this.resolveKeys(d).includes(combo))
+    if (!shortcut) return
+
+    event.preventDefault()
+    shortcut.run()
+  }
+
+  attach(target: Window = window): () => void {
+    target.addEventListener('keydown', this.handleKeyDown)
+    return () => target.removeEventListener('keydown', this.handleKeyDown)
+  }
+
+  private getDefinitions(): ShortcutDefinition[] {
+    const toolShortcuts: ShortcutDefinition[] = ToolRegistry.getAllTools()
+      .filter((tool) => tool.shortcut)
+      .map((tool) => ({
+        id: TOOL_SHORTCUT_PREFIX + tool.id,
+        description: tool.name,
+        category: 'tools',
+        defaultKeys: [tool.shortcut!],
+        run: () => {
+          const { canvas } = useEditorStore.getState()
+          if (canvas) ToolRegistry.activateTool(tool.id, canvas)
+        },
+      }))
+    return [...toolShortcuts, ...this.shortcuts.values()]
+  }
+
+  private resolveKeys(shortcut: ShortcutDefinition): string[] {
+    return (this.overrides[shortcut.id] ?? shortcut.defaultKeys).map(normalizeCombo)
+  }
+
+  private loadKeymap(): Record<string, string[]> {
+    try {
+      const data = localStorage.getItem(KEYMAP_STORAGE_KEY)
+      return data ? JSON.parse(data) : {}
+    } catch {
+      return {}
+    }
+  }
+
+  private saveKeymap() {
+    localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(this.overrides))
+    this.notify()
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const ShortcutManager = new ShortcutManagerClass()
+
+// Built-in shortcuts for store actions
+const store = () => useEditorStore.getState()
+
+const builtInShortcuts: ShortcutDefinition[] = [
+  { id: 'edit.undo', description: 'Undo', category: 'edit', defaultKeys: ['Mod+Z'], run: () => store().undo() },
+  { id: 'edit.redo', description: 'Redo', category: 'edit', defaultKeys: ['Mod+Shift+Z', 'Mod+Y'], run: () => store().redo() },
+  { id: 'edit.duplicate', description: 'Duplicate', category: 'edit', defaultKeys: ['Mod+D'], run: () => store().duplicateSelectedObject() },
+  {
+    id: 'edit.delete',
+    description: 'Delete',
+    category: 'edit',
+    defaultKeys: ['Delete', 'Backspace'],
+    // With a pixel selection, delete clears pixels instead of the object
+    run: () => deleteSelectionPixels() || store().deleteSelectedObject(),
+  },
+  { id: 'select.all', description: 'Select All Pixels', category: 'select', defaultKeys: ['Mod+A'], run: () => SelectionController.selectAll() },
+  { id: 'select.deselect', description: 'Deselect Pixels', category: 'select', defaultKeys: ['Mod+Shift+A'], run: () => SelectionController.deselect() },
+  { id: 'select.invert', description: 'Invert Selection', category: 'select', defaultKeys: ['Mod+Shift+I'], run: () => SelectionController.invert() },
+  { id: 'arrange.bringToFront', description: 'Bring to Front', category: 'arrange', defaultKeys: ['Mod+}'], run: () => store().bringToFront() },
+  { id: 'arrange.bringForward', description: 'Bring Forward', category: 'arrange', defaultKeys: ['Mod+]'], run: () => store().bringForward() },
+  { id: 'arrange.sendBackward', description: 'Send Backward', category: 'arrange', defaultKeys: ['Mod+['], run: () => store().sendBackward() },
+  {
+    id: 'file.save',
+    description: 'Save Project',
+    category: 'file',
+    defaultKeys: ['Mod+S'],
+    run: () => {
+      saveProjectWithFeedback()
+    },
+  },
+]
+
+builtInShortcuts.forEach((shortcut) => ShortcutManager.register(shortcut))
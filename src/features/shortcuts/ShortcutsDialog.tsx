@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { RotateCcw } from 'lucide-react'
+import {
+  comboFromEvent,
+  formatCombo,
+  ShortcutManager,
+  type ShortcutCategory,
+} from './ShortcutManager'
+
+interface ShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const CATEGORY_LABELS: Record<ShortcutCategory, string> = {
+  tools: 'Tools',
+  edit: 'Edit',
+  select: 'Select',
+  arrange: 'Arrange',
+  file: 'File',
+  help: 'Help',
+}
+
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ open, onOpenChange }) => {
+  const [, setVersion] = useState(0)
+  const [recordingId, setRecordingId] = useState<string | null>(null)
+
+  useEffect(() => ShortcutManager.subscribe(() => setVersion((v) => v + 1)), [])
+
+  // While recording, capture the next combo before the shortcut manager sees it
+  useEffect(() => {
+    if (!recordingId) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopImmediatePropagation()
+      if (event.key === 'Escape') {
+        setRecordingId(null)
+        return
+      }
+      const combo = comboFromEvent(event)
+      if (!combo) return
+      ShortcutManager.setKeys(recordingId, [combo])
+      setRecordingId(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [recordingId])
+
+  const bindings = ShortcutManager.getBindings()
+  const categories = (Object.keys(CATEGORY_LABELS) as ShortcutCategory[]).filter((category) =>
+    bindings.some((binding) => binding.category === category)
+  )
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setRecordingId(null)
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut to change it, then press the new key combination.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {categories.map((category) => (
+            <div key={category}>
+              <h4 className="text-xs font-semibold uppercase text-gray-500 mb-2">
+                {CATEGORY_LABELS[category]}
+              </h4>
+              <ul className="space-y-1">
+                {bindings
+                  .filter((binding) => binding.category === category)
+                  .map((binding) => (
+                    <li key={binding.id} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1">{binding.description}</span>
+                      <button
+                        className="min-w-[6rem] px-2 py-1 rounded border text-xs font-mono bg-gray-50 dark:bg-gray-900 hover:border-blue-500"
+                        onClick={() => setRecordingId(binding.id)}
+                      >
+                        {recordingId === binding.id
+                          ? 'Press keys…'
+                          : binding.keys.map(formatCombo).join(' / ') || 'Unassigned'}
+                      </button>
+                      <button
+                        className="p-1 text-gray-400 hover:text-gray-800 disabled:invisible"
+                        onClick={() => ShortcutManager.resetKeys(binding.id)}
+                        disabled={!binding.isCustom}
+                        aria-label="Reset to default"
+                        title="Reset to default"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={() => ShortcutManager.resetKeys()}>
+          Reset All Shortcuts
+        </Button>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,102 @@
+import { fabric } from 'fabric'
+import type { LayerObject } from '@/features/layers/LayerModel'
+import type { SubtitleCue } from './SubtitleParser'
+
+// An imported subtitle track is a single text layer that shows one cue at a
+// time. The cues travel on the object as custom properties, so the track
+// survives history, project files and the library like any other layer.
+
+export interface SubtitleStyle {
+  fontFamily: string
+  fontSize: number
+  fill: string
+  // Box behind each line; empty for none
+  boxColor: string
+  outlineColor: string
+  outlineWidth: number
+  // Longest line, as a fraction of the canvas width; text wraps beyond it
+  maxWidth: number
+}
+
+export interface SubtitleTrackObject extends fabric.Textbox, LayerObject {
+  subtitleCues?: SubtitleCue[]
+  subtitleCueIndex?: number
+  subtitleStyle?: SubtitleStyle
+}
+
+export const SUBTITLE_JSON_PROPERTIES = ['subtitleCues', 'subtitleCueIndex', 'subtitleStyle']
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontFamily: 'Padauk',
+  fontSize: 36,
+  fill: '#ffffff',
+  boxColor: 'rgba(0,0,0,0.6)',
+  outlineColor: '#000000',
+  outlineWidth: 2,
+  maxWidth: 0.8,
+}
+
+// Title-safe area: captions stay this fraction of the frame away from each edge
+export const SUBTITLE_SAFE_MARGIN = 0.1
+
+export function isSubtitleTrack(object: fabric.Object | null | undefined): object is SubtitleTrackObject {
+  return object instanceof fabric.Textbox && Array.isArray((object as SubtitleTrackObject).subtitleCues)
+}
+
+export function findSubtitleTrack(canvas: fabric.Canvas): SubtitleTrackObject | undefined {
+  return canvas.getObjects().find(isSubtitleTrack)
+}
+
+/** Styles the track and puts it at the bottom centre of the safe area. */
+export function applySubtitleStyle(track: SubtitleTrackObject, canvas: fabric.Canvas, style: SubtitleStyle) {
+  const width = canvas.getWidth()
+  const height = canvas.getHeight()
+  const maxWidth = Math.min(style.maxWidth, 1 - 2 * SUBTITLE_SAFE_MARGIN)
+
+  track.set({
+    fontFamily: style.fontFamily,
+    fontSize: style.fontSize,
+    fill: style.fill,
+    textBackgroundColor: style.boxColor,
+    stroke: style.outlineWidth > 0 ? style.outlineColor : '',
+    strokeWidth: style.outlineWidth,
+    // Outline behind the fill so thick outlines do not eat into the letters
+    paintFirst: 'stroke',
+    textAlign: 'center',
+    width: width * maxWidth,
+    originX: 'center',
+    originY: 'bottom',
+    left: width / 2,
+    top: height * (1 - SUBTITLE_SAFE_MARGIN),
+  })
+  track.subtitleStyle = style
+  track.initDimensions()
+  track.setCoords()
+}
+
+/** Shows a cue's text on the track; the bottom edge stays put as the line count changes. */
+export function showCueText(track: SubtitleTrackObject, index: number) {
+  const cues = track.subtitleCues ?? []
+  if (cues.length === 0) return
+  const clamped = Math.max(0, Math.min(cues.length - 1, index))
+  track.set({ text: cues[clamped].text })
+  track.subtitleCueIndex = clamped
+  track.initDimensions()
+  track.setCoords()
+}
+
+export function createSubtitleTrack(canvas: fabric.Canvas, cues: SubtitleCue[], style: SubtitleStyle): SubtitleTrackObject {
+  const track = new fabric.Textbox('', { name: 'subtitle' }) as SubtitleTrackObject
+  track.subtitleCues = cues
+  applySubtitleStyle(track, canvas, style)
+  showCueText(track, 0)
+  return track
+}
+
+/** Copies text edited on the canvas back into the cue it shows. */
+export function storeCueText(track: SubtitleTrackObject) {
+  const index = track.subtitleCueIndex ?? 0
+  const cues = track.subtitleCues ?? []
+  if (!cues[index]) return
+  track.subtitleCues = cues.map((cue, i) => (i === index ? { ...cue, text: track.text ?? '' } : cue))
+}
@@ -0,0 +1,274 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+import { DEFAULT_EXPORT_SETTINGS, type ExportSettings } from '@/features/export/ExportRenderer'
+import { runWithProgressToast } from '@/features/processing/ProcessingToast'
+import { ProcessingCancelledError } from '@/features/processing/ProcessingPool'
+import { ChevronLeft, ChevronRight, Download, Upload } from 'lucide-react'
+import { DEFAULT_SUBTITLE_STYLE, findSubtitleTrack, type SubtitleStyle } from './SubtitleModel'
+import { SubtitleParseError, formatCueTime } from './SubtitleParser'
+import { exportCueFrames, importSubtitles, restyleSubtitles, showCue } from './SubtitleTrack'
+
+const FRAME_FORMATS = ['png', 'jpg'] as const
+type FrameFormat = (typeof FRAME_FORMATS)[number]
+
+/** Subtitle file import, track style, cue navigation and per-cue frame export. */
+export const SubtitlePanel: React.FC = () => {
+  const { canvas, textSettings } = useEditorStore()
+  // The track lives on the canvas, so undo and project loads update the panel
+  useEditorStore((state) => state.history)
+  useEditorStore((state) => state.historyIndex)
+  const { toast } = useToast()
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS)
+  const [exporting, setExporting] = useState(false)
+  const [defaultStyle, setDefaultStyle] = useState(DEFAULT_SUBTITLE_STYLE)
+
+  const track = canvas ? findSubtitleTrack(canvas) : undefined
+  const cues = track?.subtitleCues ?? []
+  const current = track?.subtitleCueIndex ?? 0
+  const base = track?.subtitleStyle ?? defaultStyle
+  // The font follows the Font Family picked above, once one is picked
+  const fontFamily = typeof textSettings.fontFamily === 'string' ? textSettings.fontFamily : base.fontFamily
+  const style: SubtitleStyle = { ...base, fontFamily }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !canvas) return
+    try {
+      const imported = await importSubtitles(canvas, file, style)
+      toast({ title: 'Subtitles imported', description: `${imported.subtitleCues?.length ?? 0} cues from ${file.name}` })
+    } catch (error) {
+      if (!(error instanceof SubtitleParseError)) console.error('Subtitle import failed:', error)
+      toast({
+        title: 'Import Failed',
+        description: error instanceof SubtitleParseError ? error.message : 'The subtitle file could not be read',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const updateStyle = (changes: Partial<SubtitleStyle>) => {
+    const next = { ...style, ...changes }
+    setDefaultStyle(next)
+    if (canvas && track) restyleSubtitles(canvas, track, next)
+  }
+
+  const updateExportSettings = (changes: Partial<ExportSettings>) => {
+    setExportSettings((settings) => ({ ...settings, ...changes }))
+  }
+
+  const goTo = (index: number) => {
+    if (canvas && track) showCue(canvas, track, index)
+  }
+
+  const handleExport = async () => {
+    if (!canvas || !track) return
+    setExporting(true)
+    try {
+      const count = await runWithProgressToast('Exporting subtitle frames', (options) =>
+        exportCueFrames(canvas, track, exportSettings, options)
+      )
+      toast({ title: 'Export Successful', description: `${count} frames exported` })
+    } catch (error) {
+      if (error instanceof ProcessingCancelledError) return
+      console.error('Subtitle export failed:', error)
+      toast({ title: 'Export Failed', description: 'An error occurred while exporting the frames', variant: 'destructive' })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-medium text-sm">Subtitle Track</h3>
+
+      <label className="flex items-center justify-center gap-2 w-full p-2 border rounded-md text-sm cursor-pointer hover:bg-muted">
+        <Upload className="w-4 h-4" />
+        {track ? 'Replace Subtitles (.srt, .vtt)' : 'Import Subtitles (.srt, .vtt)'}
+        <input type="file" accept=".srt,.vtt" onChange={handleImport} className="hidden" />
+      </label>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Size: {style.fontSize}px</label>
+        <Slider
+          value={[style.fontSize]}
+          onValueChange={(value) => updateStyle({ fontSize: value[0] })}
+          min={12}
+          max={120}
+          step={1}
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">
+          Max Line Width: {Math.round(style.maxWidth * 100)}%
+        </label>
+        <Slider
+          value={[style.maxWidth * 100]}
+          onValueChange={(value) => updateStyle({ maxWidth: value[0] / 100 })}
+          min={30}
+          max={80}
+          step={5}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+        <label className="space-y-1">
+          <span className="block">Text</span>
+          <input
+            type="color"
+            value={style.fill}
+            onChange={(e) => updateStyle({ fill: e.target.value })}
+            className="w-full h-8 rounded border cursor-pointer"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block">Outline</span>
+          <input
+            type="color"
+            value={style.outlineColor}
+            onChange={(e) => updateStyle({ outlineColor: e.target.value })}
+            className="w-full h-8 rounded border cursor-pointer"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block">Box</span>
+          <Button
+            size="sm"
+            variant={style.boxColor ? 'default' : 'outline'}
+            className="w-full h-8"
+            onClick={() => updateStyle({ boxColor: style.boxColor ? '' : DEFAULT_SUBTITLE_STYLE.boxColor })}
+          >
+            {style.boxColor ? 'On' : 'Off'}
+          </Button>
+        </label>
+      </div>
+
+      <div>
+        <label className="text-xs text-muted-foreground mb-1 block">Outline Width: {style.outlineWidth}px</label>
+        <Slider
+          value={[style.outlineWidth]}
+          onValueChange={(value) => updateStyle({ outlineWidth: value[0] })}
+          min={0}
+          max={10}
+          step={0.5}
+        />
+      </div>
+
+      {track && cues.length > 0 && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="flex items-center justify-between gap-2">
+            <Button size="sm" variant="outline" onClick={() => goTo(current - 1)} disabled={current === 0}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <div className="text-center text-xs">
+              <div className="font-medium">
+                Cue {current + 1} of {cues.length}
+              </div>
+              <div className="text-muted-foreground">
+                {formatCueTime(cues[current].start)} → {formatCueTime(cues[current].end)}
+              </div>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => goTo(current + 1)} disabled={current === cues.length - 1}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="max-h-40 overflow-y-auto rounded border divide-y">
+            {cues.map((cue, index) => (
+              <button
+                key={index}
+                className={cn(
+                  'w-full px-2 py-1 text-left text-xs',
+                  index === current ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                )}
+                onClick={() => goTo(index)}
+              >
+                <span className="opacity-70 mr-2">{formatCueTime(cue.start)}</span>
+                <span className="truncate">{cue.text.replace(/\n/g, ' ')}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Edit the subtitle on the canvas to change the shown cue's text.</p>
+
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Frame Scale: {exportSettings.scale}x</label>
+            <Slider
+              value={[exportSettings.scale]}
+              onValueChange={(value) => updateExportSettings({ scale: value[0] })}
+              min={0.5}
+              max={3}
+              step={0.5}
+            />
+          </div>
+
+          {exportSettings.format === 'jpg' && (
+            <div>
+              <label className="text-xs text-muted-foreground mb-1 block">
+                Quality: {Math.round(exportSettings.quality * 100)}%
+              </label>
+              <Slider
+                value={[exportSettings.quality]}
+                onValueChange={(value) => updateExportSettings({ quality: value[0] })}
+                min={0.1}
+                max={1}
+                step={0.1}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {exportSettings.format === 'png' && (
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={exportSettings.transparent}
+                  onChange={(e) => updateExportSettings({ transparent: e.target.checked })}
+                  className="rounded"
+                />
+                Transparent
+              </label>
+            )}
+            {!(exportSettings.format === 'png' && exportSettings.transparent) && (
+              <label className="flex items-center gap-1">
+                Background
+                <input
+                  type="color"
+                  value={exportSettings.backgroundColor}
+                  onChange={(e) => updateExportSettings({ backgroundColor: e.target.value })}
+                  className="w-8 h-6 rounded border cursor-pointer"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <select
+              value={exportSettings.format}
+              onChange={(e) => {
+                const format = e.target.value as FrameFormat
+                // JPG has no alpha channel
+                updateExportSettings(format === 'jpg' ? { format, transparent: false } : { format })
+              }}
+              className="p-2 border rounded-md bg-background text-sm"
+            >
+              {FRAME_FORMATS.map((option) => (
+                <option key={option} value={option}>
+                  {option.toUpperCase()}
+                </option>
+              ))}
+            </select>
+            <Button className="flex-1" onClick={handleExport} disabled={exporting}>
+              <Download className="w-4 h-4 mr-2" />
+              {exporting ? 'Exporting…' : `Export ${cues.length} Frames`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
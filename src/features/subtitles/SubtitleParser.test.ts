@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { formatCueTime, parseSubtitles, SubtitleParseError } from './SubtitleParser'
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello there
+
+2
+00:01:02,050 --> 00:01:04,000
+<i>Two</i> lines
+of <b>text</b>
+`
+
+const VTT = `WEBVTT - Example
+
+NOTE This block is a comment
+and spans two lines
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.500 --> 00:03.000 align:start position:10%
+<v Roger>Hourless timing</v>
+
+01:00:00.000 --> 01:00:02.250
+<c.loud>Hours</c> &amp; &lt;entities&gt;
+`
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues with comma milliseconds and drops markup', () => {
+    expect(parseSubtitles(SRT)).toEqual([
+      { start: 1000, end: 3500, text: 'Hello there' },
+      { start: 62050, end: 64000, text: 'Two lines\nof text' },
+    ])
+  })
+
+  it('reads VTT cues with dot milliseconds, optional hours and cue settings', () => {
+    expect(parseSubtitles(VTT)).toEqual([
+      { start: 1500, end: 3000, text: 'Hourless timing' },
+      { start: 3600000, end: 3602250, text: 'Hours & <entities>' },
+    ])
+  })
+
+  it('skips NOTE and STYLE blocks', () => {
+    const texts = parseSubtitles(VTT).map((cue) => cue.text)
+    expect(texts.some((text) => text.includes('comment') || text.includes('::cue'))).toBe(false)
+  })
+
+  it('accepts a byte order mark and CRLF line endings', () => {
+    expect(parseSubtitles('\ufeff' + SRT.replace(/\n/g, '\r\n'))).toEqual(parseSubtitles(SRT))
+  })
+
+  it('drops ASS override tags', () => {
+    expect(parseSubtitles('1\n00:00:00,000 --> 00:00:01,000\n{\\an8}On top')[0].text).toBe('On top')
+  })
+
+  it('pads short millisecond fields', () => {
+    expect(parseSubtitles('00:01.5 --> 00:02.25\nShort')[0]).toMatchObject({ start: 1500, end: 2250 })
+  })
+
+  it('sorts cues by start time', () => {
+    const cues = parseSubtitles('00:05.000 --> 00:06.000\nSecond\n\n00:01.000 --> 00:02.000\nFirst')
+    expect(cues.map((cue) => cue.text)).toEqual(['First', 'Second'])
+  })
+
+  it('skips cues without text', () => {
+    expect(parseSubtitles('00:01.000 --> 00:02.000\n<i></i>\n\n00:03.000 --> 00:04.000\nKept')).toHaveLength(1)
+  })
+
+  it.each([
+    ['an empty file', ''],
+    ['a header only', 'WEBVTT\n\nNOTE nothing here'],
+    ['text without timings', 'Just some text\nover two lines'],
+  ])('throws on %s', (_, source) => {
+    expect(() => parseSubtitles(source)).toThrow(SubtitleParseError)
+  })
+})
+
+describe('formatCueTime', () => {
+  it('writes hours, minutes, seconds and milliseconds', () => {
+    expect(formatCueTime(0)).toBe('00:00:00.000')
+    expect(formatCueTime(3723045)).toBe('01:02:03.045')
+  })
+})
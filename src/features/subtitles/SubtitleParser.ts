@@ -0,0 +1,81 @@
+import { normalizeMyanmarText } from '@/features/myanmar/Zawgyi'
+
+// SubRip (.srt) and WebVTT (.vtt) cues. Both are blocks separated by blank
+// lines with a "start --> end" timing line; VTT adds a header, optional
+// cue settings after the timing and NOTE/STYLE/REGION blocks.
+
+export interface SubtitleCue {
+  // Milliseconds from the start of the video
+  start: number
+  end: number
+  text: string
+}
+
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SubtitleParseError'
+  }
+}
+
+// Hours are optional in VTT; SRT writes a comma before the milliseconds
+const TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&nbsp;': ' ', '&quot;': '"', '&#39;': "'" }
+
+function parseTime(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/)
+  const parts = clock.split(':').map(Number)
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  return seconds * 1000 + Number(fraction.padEnd(3, '0'))
+}
+
+/** "00:01:02.500" style time for display. */
+export function formatCueTime(ms: number): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  const hours = Math.floor(ms / 3600000)
+  const minutes = Math.floor(ms / 60000) % 60
+  const seconds = Math.floor(ms / 1000) % 60
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`
+}
+
+// Markup is dropped rather than rendered: <i>, <b>, VTT voice and class
+// spans, karaoke timestamps and ASS overrides such as {\an8}
+function cleanCueText(lines: string[]): string {
+  return normalizeMyanmarText(
+    lines
+      .map((line) =>
+        line
+          .replace(/<[^>]*>/g, '')
+          .replace(/\{\\[^}]*\}/g, '')
+          .replace(/&(?:amp|lt|gt|nbsp|quot|#39);/g, (entity) => ENTITIES[entity])
+          .trim()
+      )
+      .filter((line) => line !== '')
+      .join('\n')
+  )
+}
+
+/** Cues of an SRT or VTT file in time order. Throws SubtitleParseError when there are none. */
+export function parseSubtitles(source: string): SubtitleCue[] {
+  const blocks = source
+    .replace(/^\ufeff/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+  const cues: SubtitleCue[] = []
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    // The timing line follows an optional cue number (SRT) or identifier (VTT)
+    const timingIndex = lines.findIndex((line) => TIMING.test(line.trim()))
+    if (timingIndex < 0 || timingIndex > 1) continue
+
+    const [, start, end] = TIMING.exec(lines[timingIndex].trim())!
+    const text = cleanCueText(lines.slice(timingIndex + 1))
+    if (text === '') continue
+    cues.push({ start: parseTime(start), end: parseTime(end), text })
+  }
+
+  if (cues.length === 0) throw new SubtitleParseError('No subtitle cues were found in the file')
+  return cues.sort((a, b) => a.start - b.start)
+}
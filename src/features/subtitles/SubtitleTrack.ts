@@ -0,0 +1,93 @@
+import { fabric } from 'fabric'
+import { useEditorStore } from '@/store/editorStore'
+import { downloadFile } from '@/lib/utils'
+import { renderExport, type ExportSettings } from '@/features/export/ExportRenderer'
+import { ProcessingCancelledError, type JobOptions } from '@/features/processing/ProcessingPool'
+import { parseSubtitles } from './SubtitleParser'
+import {
+  applySubtitleStyle,
+  createSubtitleTrack,
+  findSubtitleTrack,
+  showCueText,
+  type SubtitleStyle,
+  type SubtitleTrackObject,
+} from './SubtitleModel'
+
+// Browsers drop downloads that start too close together
+const DOWNLOAD_INTERVAL = 200
+
+const wait = (ms: number) => new Promise((resolve) => window.setTimeout(resolve, ms))
+
+/**
+ * Loads an .srt or .vtt file into the canvas's subtitle track, creating the
+ * track if there is none. Throws SubtitleParseError for files without cues.
+ */
+export async function importSubtitles(canvas: fabric.Canvas, file: File, style: SubtitleStyle): Promise<SubtitleTrackObject> {
+  const cues = parseSubtitles(await file.text())
+  const { saveToHistory, syncLayers } = useEditorStore.getState()
+
+  const existing = findSubtitleTrack(canvas)
+  if (existing) {
+    existing.subtitleCues = cues
+    applySubtitleStyle(existing, canvas, style)
+    showCueText(existing, 0)
+    canvas.setActiveObject(existing)
+    canvas.requestRenderAll()
+    saveToHistory('Import subtitles')
+    syncLayers()
+    return existing
+  }
+
+  const track = createSubtitleTrack(canvas, cues, style)
+  track.layerName = 'Subtitles'
+  canvas.add(track)
+  canvas.setActiveObject(track)
+  canvas.requestRenderAll()
+  return track
+}
+
+export function showCue(canvas: fabric.Canvas, track: SubtitleTrackObject, index: number) {
+  if (track.isEditing) track.exitEditing()
+  showCueText(track, index)
+  canvas.requestRenderAll()
+  // Stepping through cues is one undo step
+  useEditorStore.getState().saveToHistory('Show subtitle cue', { merge: true })
+}
+
+export function restyleSubtitles(canvas: fabric.Canvas, track: SubtitleTrackObject, style: SubtitleStyle) {
+  applySubtitleStyle(track, canvas, style)
+  canvas.requestRenderAll()
+  useEditorStore.getState().saveToHistory('Subtitle style', { merge: true })
+}
+
+/**
+ * Downloads one image per cue, rendered through the export pipeline. The
+ * track is back on its current cue afterwards, also when cancelled.
+ */
+export async function exportCueFrames(
+  canvas: fabric.Canvas,
+  track: SubtitleTrackObject,
+  settings: ExportSettings,
+  options: JobOptions = {}
+): Promise<number> {
+  const cues = track.subtitleCues ?? []
+  const current = track.subtitleCueIndex ?? 0
+  const digits = String(cues.length).length
+  if (track.isEditing) track.exitEditing()
+
+  try {
+    for (let index = 0; index < cues.length; index++) {
+      if (options.signal?.aborted) throw new ProcessingCancelledError()
+      showCueText(track, index)
+      const url = renderExport(canvas, settings)
+      downloadFile(url, `subtitle-${String(index + 1).padStart(digits, '0')}.${settings.format}`)
+      if (settings.format === 'svg') window.setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_INTERVAL * 5)
+      options.onProgress?.((index + 1) / cues.length)
+      await wait(DOWNLOAD_INTERVAL)
+    }
+  } finally {
+    showCueText(track, current)
+    canvas.requestRenderAll()
+  }
+  return cues.length
+}
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+import { fabric } from 'fabric'
+import { applyScript, applyTextStyle, readScript, readTextStyle, styleRange } from './RichText'
+
+// jsdom has no 2D canvas; text layout only needs glyph widths
+vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+  () => ({ measureText: (text: string) => ({ width: text.length * 10 }) }) as unknown as CanvasRenderingContext2D
+)
+
+// A text being edited with the characters from `start` to `end` selected
+function editing(content: string, start: number, end: number, options: fabric.ITextOptions = {}): fabric.IText {
+  const text = new fabric.IText(content, { fontSize: 20, fill: '#000000', ...options })
+  text.isEditing = true
+  text.selectionStart = start
+  text.selectionEnd = end
+  return text
+}
+
+describe('styleRange', () => {
+  it('covers the selection while editing', () => {
+    expect(styleRange(editing('Hello world', 6, 11))).toEqual({ start: 6, end: 11, partial: true })
+  })
+
+  it('orders a selection made backwards', () => {
+    expect(styleRange(editing('Hello world', 5, 2))).toEqual({ start: 2, end: 5, partial: true })
+  })
+
+  it('covers the whole text with a caret or outside editing', () => {
+    expect(styleRange(editing('Hello', 3, 3))).toEqual({ start: 0, end: 5, partial: false })
+    const text = editing('Hello', 1, 4)
+    text.isEditing = false
+    expect(styleRange(text)).toEqual({ start: 0, end: 5, partial: false })
+  })
+})
+
+describe('applyTextStyle', () => {
+  it('styles only the selected characters', () => {
+    const text = editing('Hello world', 0, 5)
+    expect(applyTextStyle(text, 'fill', '#ff0000')).toBe(true)
+    expect(text.getSelectionStyles(0, 5).every((style) => style.fill === '#ff0000')).toBe(true)
+    expect(text.getSelectionStyles(5, 11, true).every((style) => style.fill === '#000000')).toBe(true)
+    expect(text.fill).toBe('#000000')
+  })
+
+  it('replaces character values when styling the whole text', () => {
+    const text = editing('Hello world', 0, 5)
+    applyTextStyle(text, 'fill', '#ff0000')
+    text.isEditing = false
+    expect(applyTextStyle(text, 'fill', '#00ff00')).toBe(false)
+    expect(text.fill).toBe('#00ff00')
+    expect(readTextStyle(text, 'fill')).toEqual({ value: '#00ff00', mixed: false })
+  })
+
+  it('sets object properties on the whole text even with a selection', () => {
+    const text = editing('Hello world', 0, 5)
+    expect(applyTextStyle(text, 'textAlign', 'center')).toBe(false)
+    expect(text.textAlign).toBe('center')
+  })
+
+  it('scales character sizes with a new font size', () => {
+    const text = editing('Hello', 0, 2)
+    applyTextStyle(text, 'fontSize', 10)
+    text.isEditing = false
+    applyTextStyle(text, 'fontSize', 40)
+    expect(text.fontSize).toBe(40)
+    expect(text.getSelectionStyles(0, 2)[0].fontSize).toBe(20)
+  })
+})
+
+describe('readTextStyle', () => {
+  it('reports mixed values across the range', () => {
+    const text = editing('Hello world', 0, 5)
+    applyTextStyle(text, 'fontWeight', 'bold')
+    text.isEditing = false
+    expect(readTextStyle(text, 'fontWeight').mixed).toBe(true)
+    text.isEditing = true
+    expect(readTextStyle(text, 'fontWeight')).toEqual({ value: 'bold', mixed: false })
+  })
+
+  it('reads the object style of empty text', () => {
+    expect(readTextStyle(editing('', 0, 0, { fontFamily: 'Lato' }), 'fontFamily')).toEqual({
+      value: 'Lato',
+      mixed: false,
+    })
+  })
+})
+
+describe('applyScript', () => {
+  it('shrinks and raises characters for superscript', () => {
+    const text = editing('x2', 1, 2)
+    expect(applyScript(text, 'superscript')).toBe(true)
+    const [style] = text.getSelectionStyles(1, 2)
+    expect(style.fontSize).toBeCloseTo(20 * text.superscript!.size)
+    expect(style.deltaY).toBeCloseTo(20 * text.superscript!.baseline)
+    expect(readScript(text)).toEqual({ value: 'superscript', mixed: false })
+  })
+
+  it('switches between positions at the baseline size', () => {
+    const text = editing('x2', 1, 2)
+    applyScript(text, 'superscript')
+    applyScript(text, 'subscript')
+    expect(text.getSelectionStyles(1, 2)[0].fontSize).toBeCloseTo(20 * text.subscript!.size)
+    applyScript(text, 'normal')
+    expect(text.getSelectionStyles(1, 2)[0]).toMatchObject({ fontSize: 20, deltaY: 0 })
+  })
+
+  it('reports a mix of positions', () => {
+    const text = editing('x2', 1, 2)
+    applyScript(text, 'subscript')
+    text.isEditing = false
+    expect(readScript(text)).toEqual({ value: 'normal', mixed: true })
+  })
+})
@@ -0,0 +1,131 @@
+import { fabric } from 'fabric'
+
+// Per-character styling. While a text is being edited with a range
+// selected, style changes go into fabric's per-character `styles` for that
+// range; otherwise they apply to the whole object and replace any
+// per-character values of the same property. Styles are part of fabric's
+// own JSON and SVG output, so saves, history and exports carry them.
+
+export const CHARACTER_STYLE_PROPERTIES = [
+  'fontFamily',
+  'fontSize',
+  'fill',
+  'fontWeight',
+  'fontStyle',
+  'underline',
+  'linethrough',
+  'stroke',
+  'strokeWidth',
+  'textBackgroundColor',
+] as const
+
+export type CharacterStyleProperty = (typeof CHARACTER_STYLE_PROPERTIES)[number]
+
+export type ScriptPosition = 'normal' | 'superscript' | 'subscript'
+
+/** A property's value over the styled range; `mixed` when characters differ. */
+export interface StyleReading<T = unknown> {
+  value: T | undefined
+  mixed: boolean
+}
+
+type CharacterStyle = Record<string, unknown>
+
+export function isRichText(object: fabric.Object | null | undefined): object is fabric.IText {
+  return object instanceof fabric.IText
+}
+
+export function isCharacterStyle(property: string): property is CharacterStyleProperty {
+  return (CHARACTER_STYLE_PROPERTIES as readonly string[]).includes(property)
+}
+
+/** Characters the text panel acts on: the selection while editing, otherwise all of them. */
+export function styleRange(text: fabric.IText): { start: number; end: number; partial: boolean } {
+  const start = text.selectionStart ?? 0
+  const end = text.selectionEnd ?? 0
+  if (text.isEditing && start !== end) {
+    return { start: Math.min(start, end), end: Math.max(start, end), partial: true }
+  }
+  return { start: 0, end: text.text?.length ?? 0, partial: false }
+}
+
+function readCharacters(text: fabric.IText): CharacterStyle[] {
+  const { start, end } = styleRange(text)
+  const styles = start < end ? (text.getSelectionStyles(start, end, true) as CharacterStyle[]) : []
+  // Empty text still has the object's own style
+  return styles.length > 0 ? styles : [text as unknown as CharacterStyle]
+}
+
+function scriptOf(style: CharacterStyle): ScriptPosition {
+  const deltaY = Number(style.deltaY) || 0
+  if (deltaY === 0) return 'normal'
+  return deltaY < 0 ? 'superscript' : 'subscript'
+}
+
+function readAll<T>(values: T[]): StyleReading<T> {
+  const [first] = values
+  return { value: first, mixed: values.some((value) => value !== first) }
+}
+
+export function readTextStyle(text: fabric.IText, property: string): StyleReading {
+  if (!isCharacterStyle(property)) return { value: text.get(property as keyof fabric.IText), mixed: false }
+  return readAll(readCharacters(text).map((style) => style[property]))
+}
+
+export function readScript(text: fabric.IText): StyleReading<ScriptPosition> {
+  return readAll(readCharacters(text).map(scriptOf))
+}
+
+function relayout(text: fabric.IText) {
+  text.initDimensions()
+  text.setCoords()
+  text.canvas?.requestRenderAll()
+}
+
+// A new object size scales character sizes with it, so superscripts and
+// other sized runs keep their proportions
+function scaleCharacterSizes(text: fabric.IText, ratio: number) {
+  const styles = (text.styles ?? {}) as Record<string, Record<string, CharacterStyle>>
+  for (const line of Object.values(styles)) {
+    for (const style of Object.values(line)) {
+      if (typeof style.fontSize === 'number') style.fontSize *= ratio
+      if (typeof style.deltaY === 'number') style.deltaY *= ratio
+    }
+  }
+}
+
+/**
+ * Sets a property on the selected characters, or on the whole text when
+ * nothing is selected. Returns whether only a range was styled.
+ */
+export function applyTextStyle(text: fabric.IText, property: string, value: unknown): boolean {
+  const { start, end, partial } = styleRange(text)
+  if (partial && isCharacterStyle(property)) {
+    text.setSelectionStyles({ [property]: value }, start, end)
+  } else {
+    if (property === 'fontSize' && typeof value === 'number' && text.fontSize) {
+      scaleCharacterSizes(text, value / text.fontSize)
+    } else if (isCharacterStyle(property)) {
+      text.removeStyle(property)
+    }
+    text.set(property as keyof fabric.IText, value as never)
+  }
+  relayout(text)
+  return partial && isCharacterStyle(property)
+}
+
+/** Moves the characters in range to the baseline, above it or below it. */
+export function applyScript(text: fabric.IText, position: ScriptPosition): boolean {
+  const { start, end, partial } = styleRange(text)
+  for (let index = start; index < end; index++) {
+    const [style] = text.getSelectionStyles(index, index + 1, true) as CharacterStyle[]
+    const current = scriptOf(style)
+    if (current === position) continue
+    // Back to the baseline size before applying the new position
+    const size = Number(style.fontSize) / (current === 'normal' ? 1 : text[current]!.size)
+    const schema = position === 'normal' ? { size: 1, baseline: 0 } : text[position]!
+    text.setSelectionStyles({ fontSize: size * schema.size, deltaY: size * schema.baseline }, index, index + 1)
+  }
+  relayout(text)
+  return partial
+}
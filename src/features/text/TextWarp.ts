@@ -0,0 +1,202 @@
+import { fabric } from 'fabric'
+
+// Warped text follows a guide path through fabric's text-on-path support,
+// so it stays an ordinary editable text. Arc and circle guides are built
+// from the settings in `textWarp`; a 'path' warp copies the outline of a
+// shape the user drew. The guide itself is saved as the text's `path`.
+
+export type WarpMode = 'arc' | 'circle' | 'path'
+
+export interface TextWarp {
+  mode: WarpMode
+  // Radius of the arc or circle in pixels
+  radius: number
+  // Sweep of an arc in degrees; negative values bend it downwards
+  angle: number
+  // Letters sit inside the curve instead of on its outside
+  inside: boolean
+}
+
+export type WarpedText = fabric.IText & { textWarp?: TextWarp }
+
+export const TEXT_WARP_JSON_PROPERTIES = ['textWarp']
+
+export const DEFAULT_TEXT_WARP: TextWarp = { mode: 'arc', radius: 200, angle: 120, inside: false }
+
+export const MIN_WARP_RADIUS = 20
+export const MAX_WARP_RADIUS = 1000
+export const MIN_WARP_ANGLE = 10
+
+type PathCommand = (string | number)[]
+
+// Text-on-path properties and path helpers fabric 5 ships without type definitions
+interface PathTextProps {
+  path?: fabric.Path | null
+  pathAlign?: 'baseline' | 'center' | 'ascender' | 'descender'
+}
+
+const pathUtil = fabric.util as unknown as {
+  transformPath(path: PathCommand[], transform: number[], pathOffset?: { x: number; y: number }): PathCommand[]
+}
+
+/** Whether a stored value (e.g. from text settings or a preset) is a warp. */
+export function isTextWarp(value: unknown): value is TextWarp {
+  if (!value || typeof value !== 'object') return false
+  const warp = value as Partial<TextWarp>
+  return (
+    (warp.mode === 'arc' || warp.mode === 'circle' || warp.mode === 'path') &&
+    typeof warp.radius === 'number' &&
+    typeof warp.angle === 'number' &&
+    typeof warp.inside === 'boolean'
+  )
+}
+
+export function getTextWarp(object: fabric.Object | null | undefined): TextWarp | null {
+  return object instanceof fabric.IText ? (object as WarpedText).textWarp ?? null : null
+}
+
+/** Objects whose outline text can follow. */
+export function isWarpGuide(object: fabric.Object): boolean {
+  return ['path', 'circle', 'ellipse', 'rect', 'triangle', 'line', 'polyline', 'polygon'].includes(object.type ?? '')
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Clockwise arc of the given sweep centred on the top of a circle, or
+// counter-clockwise along its bottom for a negative sweep, so letters read
+// left to right either way. Drawn as two halves since an SVG arc can't be
+// a full circle.
+function arcPath(radius: number, angle: number): string {
+  const sweep = Math.min(Math.max(Math.abs(angle), MIN_WARP_ANGLE), 360)
+  const direction = angle < 0 ? -1 : 1
+  const middle = angle < 0 ? 90 : -90
+  const point = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180
+    return `${round(radius * Math.cos(radians))} ${round(radius * Math.sin(radians))}`
+  }
+  const start = middle - (direction * sweep) / 2
+  const flag = direction > 0 ? 1 : 0
+  return [
+    `M ${point(start)}`,
+    `A ${radius} ${radius} 0 0 ${flag} ${point(middle)}`,
+    `A ${radius} ${radius} 0 0 ${flag} ${point(middle + (direction * sweep) / 2)}`,
+  ].join(' ')
+}
+
+// Outline of a shape in its own coordinates. Closed shapes start at the
+// bottom and run clockwise so centred text sits along their top.
+function outline(shape: fabric.Object): { commands: PathCommand[]; offset?: fabric.Point } | null {
+  if (shape instanceof fabric.Path) {
+    return { commands: shape.path as unknown as PathCommand[], offset: shape.pathOffset }
+  }
+  const width = shape.width ?? 0
+  const height = shape.height ?? 0
+  let d: string
+  if (shape instanceof fabric.Circle || shape instanceof fabric.Ellipse) {
+    const rx = shape instanceof fabric.Circle ? shape.radius ?? 0 : shape.rx ?? 0
+    const ry = shape instanceof fabric.Circle ? shape.radius ?? 0 : shape.ry ?? 0
+    d = `M 0 ${ry} A ${rx} ${ry} 0 0 1 0 ${-ry} A ${rx} ${ry} 0 0 1 0 ${ry}`
+  } else if (shape instanceof fabric.Triangle) {
+    d = `M 0 ${height / 2} L ${-width / 2} ${height / 2} L 0 ${-height / 2} L ${width / 2} ${height / 2} Z`
+  } else if (shape instanceof fabric.Rect) {
+    const x = width / 2
+    const y = height / 2
+    d = `M 0 ${y} L ${-x} ${y} L ${-x} ${-y} L ${x} ${-y} L ${x} ${y} Z`
+  } else if (shape instanceof fabric.Line) {
+    const { x1, y1, x2, y2 } = shape.calcLinePoints()
+    // Always left to right so the text isn't upside down
+    d = x1 <= x2 ? `M ${x1} ${y1} L ${x2} ${y2}` : `M ${x2} ${y2} L ${x1} ${y1}`
+  } else if (shape instanceof fabric.Polyline) {
+    const points = shape.points ?? []
+    if (points.length < 2) return null
+    const offset = shape.pathOffset
+    d = points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x - offset.x} ${point.y - offset.y}`).join(' ')
+    if (shape instanceof fabric.Polygon) d += ' Z'
+  } else {
+    return null
+  }
+  return { commands: new fabric.Path(d).path as unknown as PathCommand[] }
+}
+
+// Sets a guide given in canvas coordinates, keeping the text's rotation and
+// scale, and centres the text on it
+function setGuide(text: fabric.IText, commands: PathCommand[], centre: fabric.Point) {
+  const frame = fabric.util.composeMatrix({
+    angle: text.angle ?? 0,
+    scaleX: text.scaleX ?? 1,
+    scaleY: text.scaleY ?? 1,
+    skewX: text.skewX ?? 0,
+    skewY: text.skewY ?? 0,
+    flipX: text.flipX ?? false,
+    flipY: text.flipY ?? false,
+    translateX: 0,
+    translateY: 0,
+  })
+  const local = pathUtil.transformPath(commands, fabric.util.invertTransform(frame), centre)
+  const guide = new fabric.Path(local as unknown as fabric.Point[], { visible: false })
+  text.set({ path: guide, textAlign: 'center' } as unknown as Partial<fabric.IText>)
+  text.setPositionByOrigin(centre, 'center', 'center')
+}
+
+function pathAlignFor(warp: TextWarp): PathTextProps['pathAlign'] {
+  // Letters stand on the guide on its left-hand side (outside an upward
+  // arc, inside a downward one) and hang from it on the other
+  const outsideIsLeft = warp.mode !== 'arc' || warp.angle >= 0
+  return warp.inside === outsideIsLeft ? 'ascender' : 'baseline'
+}
+
+function relayout(text: fabric.IText) {
+  text.initDimensions()
+  text.setCoords()
+  text.canvas?.requestRenderAll()
+}
+
+/**
+ * Bends the text along an arc or circle, keeping its centre where it is.
+ * A 'path' warp only changes the side of a guide the text already follows.
+ */
+export function applyTextWarp(text: fabric.IText, settings: Partial<TextWarp>) {
+  const current = getTextWarp(text)
+  const warp: TextWarp = { ...DEFAULT_TEXT_WARP, ...current, ...settings }
+  if (warp.mode === 'path' && !(text as PathTextProps).path) return
+  warp.radius = Math.min(Math.max(warp.radius, MIN_WARP_RADIUS), MAX_WARP_RADIUS)
+  const centre = text.getCenterPoint()
+
+  if (warp.mode !== 'path') {
+    const guide = new fabric.Path(arcPath(warp.radius, warp.mode === 'circle' ? 360 : warp.angle))
+    // Guide points are relative to the text's centre in canvas units
+    const commands = pathUtil.transformPath(guide.path as unknown as PathCommand[], [1, 0, 0, 1, centre.x, centre.y], guide.pathOffset)
+    setGuide(text, commands, centre)
+  }
+  ;(text as WarpedText).textWarp = warp
+  text.set({ pathAlign: pathAlignFor(warp) } as unknown as Partial<fabric.IText>)
+  relayout(text)
+}
+
+/**
+ * Makes the text follow the outline of a shape or drawn path. Returns false
+ * when the shape has no usable outline.
+ */
+export function fitTextToShape(text: fabric.IText, shape: fabric.Object, inside = false): boolean {
+  const source = outline(shape)
+  if (!source) return false
+  const commands = pathUtil.transformPath(source.commands, shape.calcTransformMatrix(), source.offset)
+  const bounds = new fabric.Path(commands as unknown as fabric.Point[])
+  setGuide(text, commands, new fabric.Point(bounds.pathOffset.x, bounds.pathOffset.y))
+
+  const warp: TextWarp = { ...DEFAULT_TEXT_WARP, ...getTextWarp(text), mode: 'path', inside }
+  ;(text as WarpedText).textWarp = warp
+  text.set({ pathAlign: pathAlignFor(warp) } as unknown as Partial<fabric.IText>)
+  relayout(text)
+  return true
+}
+
+/** Straightens warped text, keeping its centre where it is. */
+export function removeTextWarp(text: fabric.IText) {
+  const centre = text.getCenterPoint()
+  delete (text as WarpedText).textWarp
+  text.set({ path: null, pathAlign: 'baseline' } as unknown as Partial<fabric.IText>)
+  relayout(text)
+  text.setPositionByOrigin(centre, 'center', 'center')
+  text.setCoords()
+}
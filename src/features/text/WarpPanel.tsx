@@ -0,0 +1,151 @@
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { useEditorStore } from '@/store/editorStore'
+import { useToast } from '@/hooks/use-toast'
+import { isRichText } from './RichText'
+import {
+  DEFAULT_TEXT_WARP,
+  MAX_WARP_RADIUS,
+  MIN_WARP_RADIUS,
+  applyTextWarp,
+  fitTextToShape,
+  getTextWarp,
+  isTextWarp,
+  isWarpGuide,
+  removeTextWarp,
+  type TextWarp,
+  type WarpMode,
+} from './TextWarp'
+
+const MODES: { value: WarpMode | 'none'; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'arc', label: 'Arc' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'path', label: 'Follow Shape' },
+]
+
+/**
+ * Arc and circle warps and shape following for the selected text. With no
+ * text selected the warp is the default for new text.
+ */
+export const WarpPanel: React.FC = () => {
+  const { canvas, activeObject, textSettings, updateTextSettings, saveToHistory } = useEditorStore()
+  // Undo and project loads change the text's warp
+  useEditorStore((state) => state.historyIndex)
+  const { toast } = useToast()
+
+  const text = isRichText(activeObject) ? activeObject : null
+  const warp = text ? getTextWarp(text) : isTextWarp(textSettings.textWarp) ? textSettings.textWarp : null
+
+  // A text selected together with a shape or drawn path can follow it
+  const selected = canvas?.getActiveObjects() ?? []
+  const follower = selected.length === 2 ? selected.find(isRichText) : undefined
+  const guide = follower ? selected.find((object) => object !== follower && isWarpGuide(object)) : undefined
+
+  const setWarp = (next: TextWarp | null) => {
+    if (text) {
+      if (next) applyTextWarp(text, next)
+      else removeTextWarp(text)
+      saveToHistory(next ? 'Warp text' : 'Remove text warp', { merge: Boolean(next) })
+    }
+    // New text can't follow a particular shape, so only arcs and circles carry over
+    if (!next || next.mode !== 'path') updateTextSettings({ textWarp: next })
+  }
+
+  const handleModeChange = (mode: WarpMode | 'none') => {
+    if (mode === 'none') setWarp(null)
+    else setWarp({ ...(warp ?? DEFAULT_TEXT_WARP), mode })
+  }
+
+  const followShape = () => {
+    if (!canvas || !follower || !guide) return
+    // Out of the selection first, so both objects have canvas coordinates
+    canvas.discardActiveObject()
+    if (!fitTextToShape(follower, guide, getTextWarp(follower)?.inside)) {
+      toast({ title: 'Cannot follow shape', description: 'This shape has no outline to follow', variant: 'destructive' })
+      return
+    }
+    canvas.setActiveObject(follower)
+    canvas.requestRenderAll()
+    saveToHistory('Fit text to shape')
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium block">Warp</label>
+      <select
+        value={warp?.mode ?? 'none'}
+        onChange={(e) => handleModeChange(e.target.value as WarpMode | 'none')}
+        className="w-full p-2 border rounded-md bg-background"
+      >
+        {MODES.map((mode) => (
+          <option key={mode.value} value={mode.value} disabled={mode.value === 'path' && warp?.mode !== 'path'}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+
+      {warp && warp.mode !== 'path' && (
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Radius: {Math.round(warp.radius)}px</label>
+          <Slider
+            value={[warp.radius]}
+            onValueChange={([radius]) => setWarp({ ...warp, radius })}
+            min={MIN_WARP_RADIUS}
+            max={MAX_WARP_RADIUS}
+            step={5}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {warp?.mode === 'arc' && (
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">
+            Angle: {warp.angle}° {warp.angle < 0 ? '(bends down)' : ''}
+          </label>
+          <Slider
+            value={[warp.angle]}
+            onValueChange={([angle]) => setWarp({ ...warp, angle })}
+            min={-360}
+            max={360}
+            step={5}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {warp && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={warp.inside ? 'outline' : 'default'}
+            onClick={() => setWarp({ ...warp, inside: false })}
+            className="flex-1"
+          >
+            {warp.mode === 'path' ? 'Above' : 'Outside'}
+          </Button>
+          <Button
+            size="sm"
+            variant={warp.inside ? 'default' : 'outline'}
+            onClick={() => setWarp({ ...warp, inside: true })}
+            className="flex-1"
+          >
+            {warp.mode === 'path' ? 'Below' : 'Inside'}
+          </Button>
+        </div>
+      )}
+
+      {guide ? (
+        <Button size="sm" variant="outline" onClick={followShape} className="w-full">
+          Make Text Follow Shape
+        </Button>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          To run text along a shape or a drawn path, select the text and the shape together. The text stays editable.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -4,54 +4,68 @@ import { Input } from '@/components/ui/input'
 import { Slider } from '@/components/ui/slider'
 import { fabric } from 'fabric'
 import { useEditorStore } from '@/store/editorStore'
-import { Type, Bold, Italic, AlignLeft, AlignCenter, AlignRight, Palette, Download } from 'lucide-react'
-
-interface FontOption {
-  name: string
-  family: string
-  url?: string
-}
-
-const MYANMAR_FONTS: FontOption[] = [
-  { name: 'Pyidaungsu', family: 'Pyidaungsu', url: 'https://fonts.googleapis.com/css2?family=Pyidaungsu:wght@400;700&display=swap' },
-  { name: 'Myanmar3', family: 'Myanmar3', url: '/fonts/myanmar3.woff2' },
-  { name: 'Noto Sans Myanmar', family: 'Noto Sans Myanmar', url: 'https://fonts.googleapis.com/css2?family=Noto+Sans+Myanmar:wght@400;700&display=swap' }
-]
-
-const GOOGLE_FONTS: FontOption[] = [
-  { name: 'Inter', family: 'Inter', url: 'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap' },
-  { name: 'Roboto', family: 'Roboto', url: 'https://fonts.googleapis.com/css2?family=Roboto:wght@400;500;700&display=swap' },
-  { name: 'Open Sans', family: 'Open Sans', url: 'https://fonts.googleapis.com/css2?family=Open+Sans:wght@400;600;700&display=swap' },
-  { name: 'Lato', family: 'Lato', url: 'https://fonts.googleapis.com/css2?family=Lato:wght@400;700&display=swap' },
-  { name: 'Montserrat', family: 'Montserrat', url: 'https://fonts.googleapis.com/css2?family=Montserrat:wght@400;500;600;700&display=swap' },
-  { name: 'Poppins', family: 'Poppins', url: 'https://fonts.googleapis.com/css2?family=Poppins:wght@400;500;600;700&display=swap' }
-]
-
-const DEFAULT_FONTS: FontOption[] = [
-  { name: 'Arial', family: 'Arial' },
-  { name: 'Times New Roman', family: 'Times New Roman' },
-  { name: 'Courier New', family: 'Courier New' },
-  { name: 'Georgia', family: 'Georgia' }
-]
-
-export const TextTool: React.FC = () => {
+import { MyanmarEncodingNotice } from '@/features/myanmar/MyanmarEncodingNotice'
+import { SubtitlePanel } from '@/features/subtitles/SubtitlePanel'
+import { WarpPanel } from '@/features/text/WarpPanel'
+import { applyTextWarp, isTextWarp } from '@/features/text/TextWarp'
+import { ToolPresets } from '@/features/tools/ToolPresets'
+import { FontControls, type FontSelection } from '@/features/fonts/FontControls'
+import { normalizeStyle, normalizeWeight } from '@/features/fonts/FontModel'
+import { useTextSelection } from '@/hooks/use-text-selection'
+import {
+  applyScript,
+  applyTextStyle,
+  isRichText,
+  readScript,
+  readTextStyle,
+  styleRange,
+  type ScriptPosition,
+  type StyleReading,
+} from '@/features/text/RichText'
+import { Type, Bold, Italic, AlignLeft, AlignCenter, AlignRight, Palette, Download, Underline, Strikethrough, Superscript, Subscript } from 'lucide-react'
+
+// Toggle buttons show a third state when the selected characters differ
+const toggleVariant = (reading: StyleReading) => (reading.mixed ? 'secondary' : reading.value ? 'default' : 'outline')
+
+// Colour inputs need a hex value; gradients, patterns and mixed values show black
+const colorValue = (reading: StyleReading) =>
+  !reading.mixed && typeof reading.value === 'string' && /^#[0-9a-f]{6}$/i.test(reading.value) ? reading.value : '#000000'
+
+export const TextTool: React.FC<{ toolId?: string }> = () => {
   const { 
     canvas, 
     activeObject, 
     textSettings, 
     updateTextSettings, 
-    saveToHistory 
+    saveToHistory,
+    syncLayers
   } = useEditorStore()
 
-  const [loadedFonts, setLoadedFonts] = useState<Set<string>>(new Set())
-  const [customFontFile, setCustomFontFile] = useState<File | null>(null)
   const [textContent, setTextContent] = useState('')
   const [isSubtitle, setIsSubtitle] = useState(false)
-
-  // Load fonts on component mount
-  useEffect(() => {
-    loadWebFonts()
-  }, [])
+  const textPresets = ToolPresets.getCategory('text')?.presets ?? []
+
+  // Controls show the selected characters (or the whole text) of the active
+  // text object, and the tool defaults when no text is selected
+  useTextSelection(canvas)
+  const richText = isRichText(activeObject) ? activeObject : null
+  const styleOf = (property: string): StyleReading =>
+    richText ? readTextStyle(richText, property) : { value: textSettings[property], mixed: false }
+  const fontFamily = styleOf('fontFamily')
+  const fontWeight = styleOf('fontWeight')
+  const fontStyle = styleOf('fontStyle')
+  const fontSize = styleOf('fontSize')
+  const fill = styleOf('fill')
+  const stroke = styleOf('stroke')
+  const strokeWidth = styleOf('strokeWidth')
+  const charSpacing = styleOf('charSpacing')
+  const script: StyleReading<ScriptPosition> = richText ? readScript(richText) : { value: 'normal', mixed: false }
+  const isBold = !fontWeight.mixed && normalizeWeight(fontWeight.value) === '700'
+  // Shown in place of a value that differs across the selected characters
+  const shown = (reading: StyleReading) => (reading.mixed ? '' : String(reading.value ?? ''))
+
+  // History changes stand in for edits such as encoding conversion
+  const history = useEditorStore((state) => state.history)
 
   // Update text content when active object changes
   useEffect(() => {
@@ -60,66 +74,19 @@ export const TextTool: React.FC = () => {
       setTextContent(textObj.text || '')
       setIsSubtitle(textObj.name === 'subtitle')
     }
-  }, [activeObject])
+  }, [activeObject, history])
 
-  const loadWebFonts = async () => {
-    const allFonts = [...MYANMAR_FONTS, ...GOOGLE_FONTS]
-    
-    for (const font of allFonts) {
-      if (font.url && !loadedFonts.has(font.family)) {
-        try {
-          await loadFont(font)
-          setLoadedFonts(prev => new Set([...prev, font.family]))
-        } catch (error) {
-          console.warn(`Failed to load font: ${font.name}`, error)
-        }
-      }
+  // Keep the content field in step with typing on the canvas
+  useEffect(() => {
+    if (!canvas) return
+    const handleCanvasTextChange = (e: fabric.IEvent) => {
+      if (e.target && e.target === activeObject) setTextContent((e.target as fabric.IText).text || '')
     }
-  }
-
-  const loadFont = (font: FontOption): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (font.url?.startsWith('http')) {
-        // Load Google Font
-        const link = document.createElement('link')
-        link.href = font.url
-        link.rel = 'stylesheet'
-        link.onload = () => resolve()
-        link.onerror = () => reject()
-        document.head.appendChild(link)
-      } else if (font.url) {
-        // Load local font file
-        const fontFace = new FontFace(font.family, `url(${font.url})`)
-        fontFace.load().then((loadedFace) => {
-          document.fonts.add(loadedFace)
-          resolve()
-        }).catch(reject)
-      } else {
-        resolve() // Default system font
-      }
-    })
-  }
-
-  const handleCustomFontUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    setCustomFontFile(file)
-    
-    try {
-      const arrayBuffer = await file.arrayBuffer()
-      const fontFamily = file.name.replace(/\.[^/.]+$/, '') // Remove extension
-      const fontFace = new FontFace(fontFamily, arrayBuffer)
-      
-      await fontFace.load()
-      document.fonts.add(fontFace)
-      
-      setLoadedFonts(prev => new Set([...prev, fontFamily]))
-      updateTextSettings({ fontFamily })
-    } catch (error) {
-      console.error('Failed to load custom font:', error)
+    canvas.on('text:changed', handleCanvasTextChange)
+    return () => {
+      canvas.off('text:changed', handleCanvasTextChange)
     }
-  }
+  }, [canvas, activeObject])
 
   const addText = () => {
     if (!canvas) return
@@ -133,13 +100,16 @@ export const TextTool: React.FC = () => {
       fontSize: textSettings.fontSize,
       fill: textSettings.fill,
       fontWeight: textSettings.fontWeight,
+      fontStyle: normalizeStyle(textSettings.fontStyle),
       textAlign: textSettings.textAlign,
       stroke: textSettings.stroke,
       strokeWidth: textSettings.strokeWidth,
       shadow: textSettings.shadow,
       backgroundColor: textSettings.backgroundColor,
+      charSpacing: Number(textSettings.charSpacing) || 0,
       name: isSubtitle ? 'subtitle' : 'text'
     })
+    if (isTextWarp(textSettings.textWarp)) applyTextWarp(text, textSettings.textWarp)
 
     canvas.add(text)
     canvas.setActiveObject(text)
@@ -148,24 +118,41 @@ export const TextTool: React.FC = () => {
     saveToHistory('Add text')
   }
 
-  const updateActiveText = (property: string, value: any) => {
-    if (!canvas || !activeObject || activeObject.type !== 'i-text') return
+  // Styles the selected characters while editing, otherwise the whole
+  // text. Returns whether only a range was styled.
+  const updateActiveText = (property: string, value: any): boolean => {
+    if (!canvas || !richText) return false
 
-    const textObj = activeObject as fabric.IText
-    textObj.set(property, value)
-    canvas.renderAll()
-    saveToHistory(`Update text ${property}`)
+    const styledRange = applyTextStyle(richText, property, value)
+    saveToHistory(`Update text ${property}`, { merge: true })
+    return styledRange
+  }
+
+  // Tool defaults follow whole-text edits but not styled ranges
+  const applyTextProperty = (property: string, value: unknown) => {
+    if (!updateActiveText(property, value)) updateTextSettings({ [property]: value })
+  }
+
+  const setScript = (position: ScriptPosition) => {
+    if (!richText) return
+    applyScript(richText, script.value === position && !script.mixed ? 'normal' : position)
+    saveToHistory('Update text script')
   }
 
   const handleTextChange = (newText: string) => {
     setTextContent(newText)
     updateActiveText('text', newText)
+    syncLayers()
   }
 
   const toggleBold = () => {
-    const newWeight = textSettings.fontWeight === 'bold' ? 'normal' : 'bold'
-    updateTextSettings({ fontWeight: newWeight })
-    updateActiveText('fontWeight', newWeight)
+    applyTextProperty('fontWeight', isBold ? '400' : '700')
+  }
+
+  // Underline and strikethrough switch on unless the whole range has them
+  const toggleDecoration = (property: 'underline' | 'linethrough') => {
+    const reading = styleOf(property)
+    applyTextProperty(property, reading.mixed || !reading.value)
   }
 
   const setTextAlign = (align: string) => {
@@ -174,30 +161,27 @@ export const TextTool: React.FC = () => {
   }
 
   const handleFontSizeChange = (size: number[]) => {
-    const fontSize = size[0]
-    updateTextSettings({ fontSize })
-    updateActiveText('fontSize', fontSize)
+    applyTextProperty('fontSize', size[0])
   }
 
   const handleColorChange = (color: string) => {
-    updateTextSettings({ fill: color })
-    updateActiveText('fill', color)
+    applyTextProperty('fill', color)
   }
 
   const handleStrokeChange = (stroke: string) => {
-    updateTextSettings({ stroke })
-    updateActiveText('stroke', stroke)
+    applyTextProperty('stroke', stroke)
   }
 
   const handleStrokeWidthChange = (width: number[]) => {
-    const strokeWidth = width[0]
-    updateTextSettings({ strokeWidth })
-    updateActiveText('strokeWidth', strokeWidth)
+    applyTextProperty('strokeWidth', width[0])
+  }
+
+  const handleCharSpacingChange = (spacing: number[]) => {
+    applyTextProperty('charSpacing', spacing[0])
   }
 
-  const handleFontChange = (fontFamily: string) => {
-    updateTextSettings({ fontFamily })
-    updateActiveText('fontFamily', fontFamily)
+  const handleFontChange = (changes: Partial<FontSelection>) => {
+    Object.entries(changes).forEach(([property, value]) => applyTextProperty(property, value))
   }
 
   const addShadow = () => {
@@ -217,8 +201,6 @@ export const TextTool: React.FC = () => {
     updateActiveText('shadow', null)
   }
 
-  const allFonts = [...DEFAULT_FONTS, ...MYANMAR_FONTS, ...GOOGLE_FONTS]
-
   return (
     <div className="space-y-6">
       {/* Add Text Button */}
@@ -253,64 +235,44 @@ export const TextTool: React.FC = () => {
               placeholder="Enter your text"
             />
           </div>
+          <MyanmarEncodingNotice object={activeObject as fabric.IText} text={textContent} />
         </div>
       )}
 
-      {/* Font Selection */}
+      {/* Text Styles */}
       <div>
-        <label className="text-sm font-medium mb-2 block">Font Family</label>
-        <select
-          value={textSettings.fontFamily}
-          onChange={(e) => handleFontChange(e.target.value)}
-          className="w-full p-2 border rounded-md bg-background"
-        >
-          <optgroup label="Default Fonts">
-            {DEFAULT_FONTS.map(font => (
-              <option key={font.family} value={font.family}>
-                {font.name}
-              </option>
-            ))}
-          </optgroup>
-          <optgroup label="Myanmar Fonts">
-            {MYANMAR_FONTS.map(font => (
-              <option key={font.family} value={font.family}>
-                {font.name} {loadedFonts.has(font.family) ? '✓' : '⏳'}
-              </option>
-            ))}
-          </optgroup>
-          <optgroup label="Google Fonts">
-            {GOOGLE_FONTS.map(font => (
-              <option key={font.family} value={font.family}>
-                {font.name} {loadedFonts.has(font.family) ? '✓' : '⏳'}
-              </option>
-            ))}
-          </optgroup>
-        </select>
+        <label className="text-sm font-medium mb-2 block">Text Styles</label>
+        <div className="grid grid-cols-2 gap-2">
+          {textPresets.map((preset) => (
+            <Button
+              key={preset.id}
+              size="sm"
+              variant="outline"
+              onClick={() => ToolPresets.applyPreset('text', preset.id)}
+              className="truncate"
+            >
+              {preset.name}
+            </Button>
+          ))}
+        </div>
       </div>
 
-      {/* Custom Font Upload */}
-      <div>
-        <label className="text-sm font-medium mb-2 block">Upload Custom Font</label>
-        <input
-          type="file"
-          accept=".ttf,.otf,.woff,.woff2"
-          onChange={handleCustomFontUpload}
-          className="w-full p-2 border rounded-md"
-        />
-        {customFontFile && (
-          <p className="text-xs text-muted-foreground mt-1">
-            Loaded: {customFontFile.name}
-          </p>
-        )}
-      </div>
+      {/* Font Selection */}
+      <FontControls
+        fontFamily={typeof fontFamily.value === 'string' ? fontFamily.value : 'Arial'}
+        fontWeight={fontWeight.value}
+        fontStyle={fontStyle.value}
+        mixed={{ fontFamily: fontFamily.mixed, fontWeight: fontWeight.mixed, fontStyle: fontStyle.mixed }}
+        onChange={handleFontChange}
+      />
 
       {/* Font Size */}
       <div>
         <label className="text-sm font-medium mb-2 block">
-          Font Size: {textSettings.fontSize}px
+          Font Size: {fontSize.mixed ? 'Mixed' : `${Math.round(Number(fontSize.value) || 0)}px`}
         </label>
         <Slider
-          value={[textSettings.fontSize]}
+          value={[Number(fontSize.value) || 0]}
           onValueChange={handleFontSizeChange}
           min={8}
           max={200}
@@ -327,11 +289,28 @@ export const TextTool: React.FC = () => {
         <div className="flex gap-2">
           <Button
             size="sm"
-            variant={textSettings.fontWeight === 'bold' ? 'default' : 'outline'}
+            variant={fontWeight.mixed ? 'secondary' : isBold ? 'default' : 'outline'}
             onClick={toggleBold}
+            title="Bold"
           >
             <Bold className="w-4 h-4" />
           </Button>
+          <Button
+            size="sm"
+            variant={toggleVariant(styleOf('underline'))}
+            onClick={() => toggleDecoration('underline')}
+            title="Underline"
+          >
+            <Underline className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant={toggleVariant(styleOf('linethrough'))}
+            onClick={() => toggleDecoration('linethrough')}
+            title="Strikethrough"
+          >
+            <Strikethrough className="w-4 h-4" />
+          </Button>
           
           <Button
             size="sm"
@@ -357,6 +336,50 @@ export const TextTool: React.FC = () => {
             <AlignRight className="w-4 h-4" />
           </Button>
         </div>
+
+        {/* Superscript and subscript */}
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={script.mixed ? 'secondary' : script.value === 'superscript' ? 'default' : 'outline'}
+            onClick={() => setScript('superscript')}
+            disabled={!richText}
+            title="Superscript"
+          >
+            <Superscript className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant={script.mixed ? 'secondary' : script.value === 'subscript' ? 'default' : 'outline'}
+            onClick={() => setScript('subscript')}
+            disabled={!richText}
+            title="Subscript"
+          >
+            <Subscript className="w-4 h-4" />
+          </Button>
+        </div>
+        {richText && (
+          <p className="text-xs text-muted-foreground">
+            {styleRange(richText).partial
+              ? 'Styling the selected characters.'
+              : 'Styling the whole text. Select characters while editing to style just those.'}
+          </p>
+        )}
+
+        {/* Fabric keeps letter spacing per object, so it applies to the whole text */}
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">
+            Letter Spacing (whole text): {Number(charSpacing.value) || 0}
+          </label>
+          <Slider
+            value={[Number(charSpacing.value) || 0]}
+            onValueChange={handleCharSpacingChange}
+            min={-100}
+            max={800}
+            step={10}
+            className="w-full"
+          />
+        </div>
       </div>
 
       {/* Text Color */}
@@ -365,14 +388,14 @@ export const TextTool: React.FC = () => {
         <div className="flex gap-2 items-center">
           <input
             type="color"
-            value={textSettings.fill}
+            value={colorValue(fill)}
             onChange={(e) => handleColorChange(e.target.value)}
             className="w-10 h-10 rounded border cursor-pointer"
           />
           <Input
-            value={textSettings.fill}
+            value={shown(fill)}
             onChange={(e) => handleColorChange(e.target.value)}
-            placeholder="#000000"
+            placeholder={fill.mixed ? 'Mixed' : '#000000'}
             className="flex-1"
           />
         </div>
@@ -385,24 +408,24 @@ export const TextTool: React.FC = () => {
           <div className="flex gap-2 items-center">
             <input
               type="color"
-              value={textSettings.stroke || '#000000'}
+              value={colorValue(stroke)}
               onChange={(e) => handleStrokeChange(e.target.value)}
               className="w-10 h-10 rounded border cursor-pointer"
             />
             <Input
-              value={textSettings.stroke || ''}
+              value={shown(stroke)}
               onChange={(e) => handleStrokeChange(e.target.value)}
-              placeholder="Outline color"
+              placeholder={stroke.mixed ? 'Mixed' : 'Outline color'}
               className="flex-1"
             />
           </div>
           
           <div>
             <label className="text-xs text-muted-foreground mb-1 block">
-              Outline Width: {textSettings.strokeWidth}px
+              Outline Width: {strokeWidth.mixed ? 'Mixed' : `${Number(strokeWidth.value) || 0}px`}
             </label>
             <Slider
-              value={[textSettings.strokeWidth]}
+              value={[Number(strokeWidth.value) || 0]}
               onValueChange={handleStrokeWidthChange}
               min={0}
               max={10}
@@ -460,6 +483,16 @@ export const TextTool: React.FC = () => {
           </Button>
         </div>
       </div>
+
+      {/* Warp */}
+      <div className="border-t pt-4">
+        <WarpPanel />
+      </div>
+
+      {/* Subtitle Track */}
+      <div className="border-t pt-4">
+        <SubtitlePanel />
+      </div>
     </div>
   )
 }
\ No newline at end of file
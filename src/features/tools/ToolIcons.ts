@@ -0,0 +1,69 @@
+import {
+  ArrowUpRight,
+  BoxSelect,
+  Brush,
+  Circle,
+  CircleDashed,
+  Crop,
+  Egg,
+  Eraser,
+  Hexagon,
+  Highlighter,
+  Lasso,
+  LassoSelect,
+  Minus,
+  MousePointer,
+  Paintbrush,
+  Pencil,
+  RectangleHorizontal,
+  Scissors,
+  SlidersHorizontal,
+  Sparkles,
+  SprayCan,
+  Square,
+  Stamp,
+  Star,
+  Type,
+  Wand2,
+  Wrench,
+  type LucideIcon,
+} from 'lucide-react'
+
+// ToolDefinition.icon holds a lucide icon name; only the icons listed here
+// are bundled. Tools added outside this file can register their own.
+const toolIcons: Map<string, LucideIcon> = new Map([
+  ['MousePointer', MousePointer],
+  ['Type', Type],
+  ['Square', Square],
+  ['Circle', Circle],
+  ['Crop', Crop],
+  ['RectangleHorizontal', RectangleHorizontal],
+  ['Egg', Egg],
+  ['Minus', Minus],
+  ['ArrowUpRight', ArrowUpRight],
+  ['Hexagon', Hexagon],
+  ['Star', Star],
+  ['Pencil', Pencil],
+  ['Brush', Brush],
+  ['Highlighter', Highlighter],
+  ['SprayCan', SprayCan],
+  ['Eraser', Eraser],
+  ['SlidersHorizontal', SlidersHorizontal],
+  ['BoxSelect', BoxSelect],
+  ['CircleDashed', CircleDashed],
+  ['Lasso', Lasso],
+  ['LassoSelect', LassoSelect],
+  ['Wand2', Wand2],
+  ['Paintbrush', Paintbrush],
+  ['Stamp', Stamp],
+  ['Sparkles', Sparkles],
+  ['Scissors', Scissors],
+])
+
+export function registerToolIcon(name: string, icon: LucideIcon) {
+  toolIcons.set(name, icon)
+}
+
+export function getToolIcon(name: string): LucideIcon {
+  return toolIcons.get(name) ?? Wrench
+}
@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react'
+import { PluginErrorBoundary } from '@/features/plugins/PluginErrorBoundary'
+import { PluginManager } from '@/features/plugins/PluginManager'
+import { ToolRegistry } from './ToolRegistry'
+
+/** Renders the options component of the active tool, if it has one. */
+export const ToolOptionsPanel: React.FC = () => {
+  const [activeTool, setActiveTool] = useState(ToolRegistry.getActiveTool())
+
+  useEffect(() => ToolRegistry.subscribe(() => setActiveTool(ToolRegistry.getActiveTool())), [])
+
+  const Options = activeTool ? ToolRegistry.getTool(activeTool)?.component : undefined
+  if (!activeTool || !Options) return null
+
+  // A plugin tool's options fail its plugin instead of the editor
+  const pluginId = PluginManager.getToolOwner(activeTool)
+  if (pluginId) {
+    return (
+      <PluginErrorBoundary key={activeTool} pluginId={pluginId}>
+        <Options toolId={activeTool} />
+      </PluginErrorBoundary>
+    )
+  }
+
+  return <Options toolId={activeTool} />
+}
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react'
+import { useEditorStore } from '@/store/editorStore'
+import { ShortcutManager } from '@/features/shortcuts/ShortcutManager'
+import { cn } from '@/lib/utils'
+import { ToolRegistry, type ToolCategory } from './ToolRegistry'
+import { getToolIcon } from './ToolIcons'
+
+interface ToolPaletteProps {
+  className?: string
+  orientation?: 'vertical' | 'horizontal'
+}
+
+const CATEGORY_ORDER: ToolCategory[] = ['selection', 'drawing', 'text', 'shapes', 'adjustments', 'ai', 'branding']
+
+const CATEGORY_LABELS: Record<ToolCategory, string> = {
+  selection: 'Select',
+  drawing: 'Draw',
+  text: 'Text',
+  shapes: 'Shapes',
+  adjustments: 'Adjust',
+  ai: 'AI',
+  branding: 'Brand',
+}
+
+export const ToolPalette: React.FC<ToolPaletteProps> = ({ className, orientation = 'vertical' }) => {
+  const { canvas } = useEditorStore()
+  const [activeTool, setActiveTool] = useState(ToolRegistry.getActiveTool())
+  const [, setToolsVersion] = useState(0)
+
+  useEffect(
+    () =>
+      ToolRegistry.subscribe((event) => {
+        setActiveTool(event.type === 'activate' ? event.toolId : ToolRegistry.getActiveTool())
+      }),
+    []
+  )
+
+  useEffect(() => ToolRegistry.subscribeToTools(() => setToolsVersion((v) => v + 1)), [])
+
+  const groups = CATEGORY_ORDER.map((category) => ({
+    category,
+    tools: ToolRegistry.getToolsByCategory(category),
+  })).filter((group) => group.tools.length > 0)
+
+  return (
+    <nav
+      className={cn(
+        'flex gap-3',
+        orientation === 'vertical' ? 'flex-col' : 'flex-row flex-wrap',
+        className
+      )}
+      aria-label="Tools"
+    >
+      {groups.map(({ category, tools }) => (
+        <div
+          key={category}
+          className={cn('flex gap-1', orientation === 'vertical' ? 'flex-col items-center' : 'flex-row items-center')}
+        >
+          <span className="text-[10px] uppercase tracking-wide text-gray-400">
+            {CATEGORY_LABELS[category]}
+          </span>
+          {tools.map((tool) => {
+            const Icon = getToolIcon(tool.icon)
+            const isActive = activeTool === tool.id
+            const shortcut = ShortcutManager.describe(`tool:${tool.id}`)
+            return (
+              <button
+                key={tool.id}
+                onClick={() => canvas && ToolRegistry.activateTool(tool.id, canvas)}
+                disabled={!canvas}
+                aria-label={tool.name}
+                aria-pressed={isActive}
+                title={`${tool.name}${shortcut ? ` (${shortcut})` : ''} - ${tool.description}`}
+                className={cn(
+                  'h-10 w-10 rounded-md flex items-center justify-center transition-colors disabled:opacity-50',
+                  isActive
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                )}
+              >
+                <Icon className="w-5 h-5" />
+              </button>
+            )
+          })}
+        </div>
+      ))}
+    </nav>
+  )
+}
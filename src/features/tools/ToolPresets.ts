@@ -1,4 +1,9 @@
+import { fabric } from 'fabric';
 import { useEditorStore } from '@/store/editorStore';
+import { addAdjustments } from '@/features/adjustments/AdjustmentStack';
+import type { AdjustmentTemplate } from '@/features/adjustments/AdjustmentModel';
+import { applyTextStyle } from '@/features/text/RichText';
+import { applyTextWarp, isTextWarp } from '@/features/text/TextWarp';
 
 function generateId() {
   return Math.random().toString(36).substr(2, 9);
@@ -65,7 +70,7 @@ export class ToolPresetsClass {
         name: 'Myanmar Title',
         settings: {
           textSettings: {
-            fontFamily: 'Pyidaungsu',
+            fontFamily: 'Padauk',
             fontSize: 36,
             fontWeight: 'bold',
             fill: '#2563eb',
@@ -92,6 +97,60 @@ export class ToolPresetsClass {
         },
         createdAt: Date.now(),
       },
+      {
+        id: generateId(),
+        name: 'Badge Arc',
+        settings: {
+          textSettings: {
+            fontFamily: 'Montserrat',
+            fontSize: 40,
+            fontWeight: '700',
+            fill: '#1a1a1a',
+            textAlign: 'center',
+            stroke: '',
+            strokeWidth: 0,
+            charSpacing: 100,
+            textWarp: { mode: 'arc', radius: 180, angle: 140, inside: false },
+          },
+        },
+        createdAt: Date.now(),
+      },
+      {
+        id: generateId(),
+        name: 'Badge Bottom Arc',
+        settings: {
+          textSettings: {
+            fontFamily: 'Montserrat',
+            fontSize: 32,
+            fontWeight: '600',
+            fill: '#1a1a1a',
+            textAlign: 'center',
+            stroke: '',
+            strokeWidth: 0,
+            charSpacing: 100,
+            textWarp: { mode: 'arc', radius: 180, angle: -120, inside: false },
+          },
+        },
+        createdAt: Date.now(),
+      },
+      {
+        id: generateId(),
+        name: 'Circle Stamp',
+        settings: {
+          textSettings: {
+            fontFamily: 'Inter',
+            fontSize: 28,
+            fontWeight: '700',
+            fill: '#b91c1c',
+            textAlign: 'center',
+            stroke: '',
+            strokeWidth: 0,
+            charSpacing: 200,
+            textWarp: { mode: 'circle', radius: 120, angle: 360, inside: true },
+          },
+        },
+        createdAt: Date.now(),
+      },
     ];
 
     // Canvas Presets
@@ -190,6 +249,60 @@ export class ToolPresetsClass {
       },
     ];
 
+    // Look Presets: adjustment stacks added to the selected image
+    const look = (name: string, adjustments: AdjustmentTemplate[]): PresetState => ({
+      id: generateId(),
+      name,
+      settings: { adjustments },
+      createdAt: Date.now(),
+    });
+
+    const lookPresets: PresetState[] = [
+      look('Film', [
+        { type: 'curves', data: { rgb: [[0, 18], [64, 58], [192, 204], [255, 242]] } },
+        { type: 'temperature', params: { temperature: 8, tint: 0 } },
+        { type: 'saturation', params: { saturation: -12 } },
+        { type: 'grain', params: { amount: 12 } },
+      ]),
+      look('B&W', [
+        { type: 'saturation', params: { saturation: -100 } },
+        { type: 'contrast', params: { contrast: 12 } },
+      ]),
+      look('Noir', [
+        { type: 'saturation', params: { saturation: -100 } },
+        { type: 'curves', data: { rgb: [[0, 0], [70, 45], [185, 215], [255, 255]] } },
+        { type: 'vignette', params: { amount: 45, size: 45 } },
+      ]),
+      look('Warm', [
+        { type: 'temperature', params: { temperature: 35, tint: 5 } },
+        { type: 'vibrance', params: { vibrance: 12 } },
+      ]),
+      look('Cool', [
+        { type: 'temperature', params: { temperature: -35, tint: -4 } },
+        { type: 'vibrance', params: { vibrance: 8 } },
+      ]),
+      look('Faded', [
+        { type: 'levels', params: { outBlack: 40, outWhite: 232 } },
+        { type: 'saturation', params: { saturation: -25 } },
+      ]),
+      look('High Contrast', [
+        { type: 'contrast', params: { contrast: 40 } },
+        { type: 'vibrance', params: { vibrance: 15 } },
+      ]),
+      look('Vintage', [
+        { type: 'curves', data: { blue: [[0, 40], [255, 210]], red: [[0, 12], [255, 255]] } },
+        { type: 'levels', params: { outBlack: 22 } },
+        { type: 'saturation', params: { saturation: -30 } },
+        { type: 'vignette', params: { amount: 35, size: 50 } },
+        { type: 'grain', params: { amount: 18 } },
+      ]),
+      look('Teal & Orange', [
+        { type: 'curves', data: { blue: [[0, 28], [128, 128], [255, 220]], red: [[0, 0], [128, 136], [255, 255]] } },
+        { type: 'contrast', params: { contrast: 15 } },
+        { type: 'vibrance', params: { vibrance: 20 } },
+      ]),
+    ];
+
     this.registerCategory({
       id: 'text',
       name: 'Text Styles',
@@ -210,12 +323,23 @@ export class ToolPresetsClass {
       description: 'Complete brand styling presets',
       presets: brandPresets,
     });
+
+    this.registerCategory({
+      id: 'looks',
+      name: 'Looks',
+      description: 'Colour grades applied to the selected image',
+      presets: lookPresets,
+    });
   }
 
   registerCategory(category: PresetCategory) {
     this.presetCategories.set(category.id, category);
   }
 
+  unregisterCategory(categoryId: string) {
+    this.presetCategories.delete(categoryId);
+  }
+
   getCategory(categoryId: string): PresetCategory | undefined {
     return this.presetCategories.get(categoryId);
   }
@@ -255,9 +379,17 @@ export class ToolPresetsClass {
 
     const store = useEditorStore.getState();
 
-    // Apply text settings if present
+    // Apply text settings if present; styles without a warp make straight text
     if (preset.settings.textSettings) {
-      store.updateTextSettings(preset.settings.textSettings);
+      store.updateTextSettings({ textWarp: null, ...preset.settings.textSettings });
+    }
+
+    // Restyle the selected text, warping it when the style has a warp
+    if (preset.settings.textSettings && store.activeObject instanceof fabric.IText) {
+      const { textWarp, ...styles } = preset.settings.textSettings;
+      Object.entries(styles).forEach(([property, value]) => applyTextStyle(store.activeObject as fabric.IText, property, value));
+      if (isTextWarp(textWarp)) applyTextWarp(store.activeObject, textWarp);
+      store.saveToHistory(`Apply ${preset.name}`);
     }
 
     // Apply canvas settings if present
@@ -265,7 +397,12 @@ export class ToolPresetsClass {
       store.updateCanvasSettings(preset.settings.canvasSettings);
     }
 
-    // TODO: Add logic for filters and objects if used in the future
+    // Apply adjustment (filter) settings to the selected image
+    if (preset.settings.adjustments && store.activeObject instanceof fabric.Image) {
+      addAdjustments(store.activeObject, preset.settings.adjustments, `Apply ${preset.name}`);
+    }
+
+    // TODO: Add logic for objects if used in the future
 
     return preset;
   }
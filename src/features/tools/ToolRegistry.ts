@@ -1,5 +1,15 @@
 import { fabric } from 'fabric'
 import { generateId } from '@/lib/utils'
+import { AdjustmentsPanel } from '@/features/adjustments/AdjustmentsPanel'
+import { CropController } from '@/features/crop/CropController'
+import { CropPanel } from '@/features/crop/CropPanel'
+import { brushTools } from '@/features/drawing/BrushTools'
+import { layerMaskTools } from '@/features/layers/LayerMaskTool'
+import { shapeTools } from '@/features/shapes/ShapeTools'
+import { selectionTools } from '@/features/selection/SelectionTools'
+import { retouchTools } from '@/features/retouch/RetouchTools'
+import { backgroundRemovalTools } from '@/features/background/BackgroundRemovalTool'
+import { TextTool } from '@/features/tools/TextTool'
 
 export interface ToolDefinition {
   id: string
@@ -14,6 +24,16 @@ export interface ToolDefinition {
 
 export type ToolCategory = 'selection' | 'drawing' | 'text' | 'shapes' | 'adjustments' | 'ai' | 'branding'
 
+export interface ToolActivationEvent {
+  type: 'activate' | 'deactivate'
+  toolId: string
+  canvas: fabric.Canvas
+}
+
+export type ToolActivationListener = (event: ToolActivationEvent) => void
+
+export type ToolMouseEventType = 'mouse:down' | 'mouse:move' | 'mouse:up'
+
 export interface ToolHandler {
   activate: (canvas: fabric.Canvas) => void
   deactivate: (canvas: fabric.Canvas) => void
@@ -26,13 +46,22 @@ class ToolRegistryClass {
   private tools: Map<string, ToolDefinition> = new Map()
   private activeTool: string | null = null
   private activeCanvas: fabric.Canvas | null = null
+  private listeners: Set<ToolActivationListener> = new Set()
+  private toolListeners: Set<() => void> = new Set()
 
   register(tool: ToolDefinition) {
     this.tools.set(tool.id, tool)
+    this.toolListeners.forEach((listener) => listener())
   }
 
   unregister(toolId: string) {
+    if (this.activeTool === toolId && this.activeCanvas) {
+      this.tools.get(toolId)?.handler?.deactivate(this.activeCanvas)
+      this.activeTool = null
+      this.emit({ type: 'deactivate', toolId, canvas: this.activeCanvas })
+    }
     this.tools.delete(toolId)
+    this.toolListeners.forEach((listener) => listener())
   }
 
   getTool(toolId: string): ToolDefinition | undefined {
@@ -48,21 +77,60 @@ class ToolRegistryClass {
   }
 
   activateTool(toolId: string, canvas: fabric.Canvas) {
+    const tool = this.tools.get(toolId)
+    if (!tool || !tool.handler) return
+
     // Deactivate current tool
     if (this.activeTool && this.activeCanvas) {
       const currentTool = this.tools.get(this.activeTool)
       if (currentTool?.handler?.deactivate) {
         currentTool.handler.deactivate(this.activeCanvas)
       }
+      this.emit({ type: 'deactivate', toolId: this.activeTool, canvas: this.activeCanvas })
     }
 
-    // Activate new tool
-    const tool = this.tools.get(toolId)
-    if (tool && tool.handler) {
-      tool.handler.activate(canvas)
-      this.activeTool = toolId
-      this.activeCanvas = canvas
+    // Activate new tool; a failing plugin tool may unregister itself here
+    tool.handler.activate(canvas)
+    if (!this.tools.has(toolId)) {
+      this.activeTool = null
+      return
     }
+    this.activeTool = toolId
+    this.activeCanvas = canvas
+    this.emit({ type: 'activate', toolId, canvas })
+  }
+
+  /** Forwards a fabric mouse event to the active tool's handler. */
+  dispatchMouseEvent(type: ToolMouseEventType, canvas: fabric.Canvas, event: fabric.IEvent) {
+    if (!this.activeTool || canvas !== this.activeCanvas) return
+    const handler = this.tools.get(this.activeTool)?.handler
+    switch (type) {
+      case 'mouse:down':
+        handler?.onMouseDown?.(canvas, event)
+        break
+      case 'mouse:move':
+        handler?.onMouseMove?.(canvas, event)
+        break
+      case 'mouse:up':
+        handler?.onMouseUp?.(canvas, event)
+        break
+    }
+  }
+
+  /** Subscribes to tool activation changes; returns an unsubscribe function. */
+  subscribe(listener: ToolActivationListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** Subscribes to tools being registered or unregistered. */
+  subscribeToTools(listener: () => void): () => void {
+    this.toolListeners.add(listener)
+    return () => this.toolListeners.delete(listener)
+  }
+
+  private emit(event: ToolActivationEvent) {
+    this.listeners.forEach((listener) => listener(event))
   }
 
   getActiveTool(): string | null {
@@ -90,9 +158,8 @@ const selectTool: ToolDefinition = {
       canvas.selection = true
       canvas.defaultCursor = 'default'
     },
-    deactivate: (canvas) => {
-      canvas.discardActiveObject()
-      canvas.renderAll()
+    deactivate: () => {
+      // The selection is kept so the next tool (e.g. crop) can act on it
     }
   }
 }
@@ -104,6 +171,7 @@ const textTool: ToolDefinition = {
   category: 'text',
   description: 'Add text to your design',
   shortcut: 'T',
+  component: TextTool,
   handler: {
     activate: (canvas) => {
       canvas.isDrawingMode = false
@@ -115,6 +183,9 @@ const textTool: ToolDefinition = {
       canvas.defaultCursor = 'default'
     },
     onMouseDown: (canvas, event) => {
+      // Clicking existing text edits it instead of adding a new object
+      if (event.target) return
+
       const pointer = canvas.getPointer(event.e)
       const text = new fabric.IText('Edit text', {
         left: pointer.x,
@@ -132,99 +203,53 @@ const textTool: ToolDefinition = {
   }
 }
 
-const rectangleTool: ToolDefinition = {
-  id: 'rectangle',
-  name: 'Rectangle',
-  icon: 'Square',
-  category: 'shapes',
-  description: 'Draw rectangles',
-  shortcut: 'R',
+const cropTool: ToolDefinition = {
+  id: 'crop',
+  name: 'Crop',
+  icon: 'Crop',
+  category: 'adjustments',
+  description: 'Crop the canvas or the selected image',
+  shortcut: 'P',
+  component: CropPanel,
   handler: {
     activate: (canvas) => {
       canvas.isDrawingMode = false
       canvas.selection = false
-      canvas.defaultCursor = 'crosshair'
+      CropController.start(canvas)
     },
     deactivate: (canvas) => {
+      CropController.cancel()
       canvas.selection = true
-      canvas.defaultCursor = 'default'
-    },
-    onMouseDown: (canvas, event) => {
-      const pointer = canvas.getPointer(event.e)
-      const rect = new fabric.Rect({
-        left: pointer.x,
-        top: pointer.y,
-        width: 100,
-        height: 100,
-        fill: 'rgba(0, 123, 255, 0.3)',
-        stroke: '#007bff',
-        strokeWidth: 2
-      })
-      
-      canvas.add(rect)
-      canvas.setActiveObject(rect)
-      canvas.renderAll()
     }
   }
 }
 
-const circleTool: ToolDefinition = {
-  id: 'circle',
-  name: 'Circle',
-  icon: 'Circle',
-  category: 'shapes',
-  description: 'Draw circles',
-  shortcut: 'C',
+const adjustTool: ToolDefinition = {
+  id: 'adjust',
+  name: 'Adjust',
+  icon: 'SlidersHorizontal',
+  category: 'adjustments',
+  description: 'Non-destructive adjustments for the selected image',
+  shortcut: 'J',
+  component: AdjustmentsPanel,
   handler: {
     activate: (canvas) => {
       canvas.isDrawingMode = false
-      canvas.selection = false
-      canvas.defaultCursor = 'crosshair'
-    },
-    deactivate: (canvas) => {
       canvas.selection = true
       canvas.defaultCursor = 'default'
     },
-    onMouseDown: (canvas, event) => {
-      const pointer = canvas.getPointer(event.e)
-      const circle = new fabric.Circle({
-        left: pointer.x,
-        top: pointer.y,
-        radius: 50,
-        fill: 'rgba(40, 167, 69, 0.3)',
-        stroke: '#28a745',
-        strokeWidth: 2
-      })
-      
-      canvas.add(circle)
-      canvas.setActiveObject(circle)
-      canvas.renderAll()
-    }
-  }
-}
-
-const cropTool: ToolDefinition = {
-  id: 'crop',
-  name: 'Crop',
-  icon: 'Crop',
-  category: 'adjustments',
-  description: 'Crop your image',
-  shortcut: 'P',
-  handler: {
-    activate: (canvas) => {
-      canvas.isDrawingMode = false
-      canvas.selection = false
-      // Crop tool implementation would go here
-    },
-    deactivate: (canvas) => {
-      canvas.selection = true
-    }
+    deactivate: () => {}
   }
 }
 
 // Register built-in tools
 ToolRegistry.register(selectTool)
+selectionTools.forEach((tool) => ToolRegistry.register(tool))
 ToolRegistry.register(textTool)
-ToolRegistry.register(rectangleTool)
-ToolRegistry.register(circleTool)
-ToolRegistry.register(cropTool)
\ No newline at end of file
+brushTools.forEach((tool) => ToolRegistry.register(tool))
+layerMaskTools.forEach((tool) => ToolRegistry.register(tool))
+shapeTools.forEach((tool) => ToolRegistry.register(tool))
+ToolRegistry.register(cropTool)
+ToolRegistry.register(adjustTool)
+retouchTools.forEach((tool) => ToolRegistry.register(tool))
+backgroundRemovalTools.forEach((tool) => ToolRegistry.register(tool))
\ No newline at end of file
@@ -0,0 +1,43 @@
+import * as React from "react"
+import { useEditorStore } from "@/store/editorStore"
+
+const AUTOSAVE_DELAY = 2000
+
+/**
+ * Writes a recovery session to IndexedDB shortly after the project becomes
+ * dirty, so work survives a crash or a closed tab.
+ */
+function useAutosave(delay = AUTOSAVE_DELAY) {
+  React.useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const save = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        useEditorStore
+          .getState()
+          .autosaveSession()
+          .catch((error) => console.warn("Autosave failed:", error))
+      }, delay)
+    }
+
+    const unsubscribe = useEditorStore.subscribe((state, prev) => {
+      if (!state.isDirty) return
+      if (
+        state.historySnapshot !== prev.historySnapshot ||
+        state.canvasSettings !== prev.canvasSettings ||
+        state.textSettings !== prev.textSettings ||
+        state.isDirty !== prev.isDirty
+      ) {
+        save()
+      }
+    })
+
+    // A pending save must not fire after unmount or a delay change
+    return () => {
+      unsubscribe()
+      clearTimeout(timer)
+    }
+  }, [delay])
+}
+
+export { useAutosave }
@@ -0,0 +1,35 @@
+import * as React from "react"
+import type { fabric } from "fabric"
+import { useEditorStore } from "@/store/editorStore"
+import { readDisplayedPixels, type Histogram } from "@/features/adjustments/Histogram"
+import { ProcessingCancelledError, ProcessingPool } from "@/features/processing/ProcessingPool"
+
+/**
+ * Histogram of an image as displayed, recomputed in the processing pool
+ * after every edit so adjustment editors can show it live.
+ */
+function useHistogram(image: fabric.Image): Histogram | null {
+  const history = useEditorStore((state) => state.history)
+  const [histogram, setHistogram] = React.useState<Histogram | null>(null)
+
+  React.useEffect(() => {
+    const pixels = readDisplayedPixels(image)
+    if (!pixels) {
+      setHistogram(null)
+      return
+    }
+
+    // A newer edit supersedes the pending computation
+    const controller = new AbortController()
+    ProcessingPool.run("histogram", { image: pixels }, { signal: controller.signal })
+      .then(setHistogram)
+      .catch((error) => {
+        if (!(error instanceof ProcessingCancelledError)) console.warn("Histogram failed:", error)
+      })
+    return () => controller.abort()
+  }, [image, history])
+
+  return histogram
+}
+
+export { useHistogram }
@@ -0,0 +1,57 @@
+import * as React from "react"
+import type { fabric } from "fabric"
+import { useEditorStore } from "@/store/editorStore"
+import { findLayerObject, layersChangedBy } from "@/features/layers/LayerModel"
+
+interface Thumbnail {
+  object: fabric.Object
+  url: string | null
+}
+
+function renderThumbnail(object: fabric.Object, size: number): string | null {
+  const scaled = Math.max(object.getScaledWidth(), object.getScaledHeight(), 1)
+  try {
+    return object.toDataURL({ format: "png", multiplier: size / scaled })
+  } catch {
+    // Tainted cross-origin images cannot be rasterized
+    return null
+  }
+}
+
+/**
+ * Thumbnails of the layers by id. Each is rendered once and kept until a
+ * history entry changes its layer or the layer's object is replaced (undo,
+ * redo and project loads rebuild every object), so layer list updates such
+ * as typing in a text don't re-render them.
+ */
+function useLayerThumbnails(size: number): Record<string, string> {
+  const canvas = useEditorStore((state) => state.canvas)
+  const layers = useEditorStore((state) => state.layers)
+  const entry = useEditorStore((state) => state.history[state.historyIndex])
+  const snapshot = useEditorStore((state) => state.historySnapshot)
+  const cache = React.useRef(new Map<string, Thumbnail>())
+  const seenEntry = React.useRef(entry)
+
+  return React.useMemo(() => {
+    if (entry !== seenEntry.current) {
+      seenEntry.current = entry
+      if (entry && snapshot) layersChangedBy(snapshot, entry.redo).forEach((id) => cache.current.delete(id))
+    }
+
+    const thumbnails: Record<string, string> = {}
+    const current = new Map<string, Thumbnail>()
+    for (const layer of layers) {
+      const object = canvas ? findLayerObject(canvas, layer.id) : undefined
+      if (!object) continue
+      const cached = cache.current.get(layer.id)
+      const thumbnail = cached?.object === object ? cached : { object, url: renderThumbnail(object, size) }
+      current.set(layer.id, thumbnail)
+      if (thumbnail.url) thumbnails[layer.id] = thumbnail.url
+    }
+    // Deleted layers drop out
+    cache.current = current
+    return thumbnails
+  }, [canvas, layers, entry, snapshot, size])
+}
+
+export { useLayerThumbnails }
@@ -0,0 +1,26 @@
+import * as React from "react"
+import type { fabric } from "fabric"
+
+const TEXT_EVENTS = ["text:selection:changed", "text:editing:entered", "text:editing:exited", "text:changed"]
+
+/**
+ * Re-renders the caller whenever text editing or the selected characters
+ * change on the canvas, e.g. so style controls can show the selection's
+ * values. Returns a counter that changes with every such event.
+ */
+function useTextSelection(canvas: fabric.Canvas | null): number {
+  const [version, setVersion] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!canvas) return
+    const bump = () => setVersion((current) => current + 1)
+    TEXT_EVENTS.forEach((event) => canvas.on(event, bump))
+    return () => {
+      TEXT_EVENTS.forEach((event) => canvas.off(event, bump))
+    }
+  }, [canvas])
+
+  return version
+}
+
+export { useTextSelection }
@@ -0,0 +1,77 @@
+// Minimal promise wrapper around IndexedDB shared by every persistent store
+// in the editor. Add new object stores to STORES and bump DB_VERSION.
+
+const DB_NAME = 'photoEditorV4'
+const DB_VERSION = 3
+
+export const STORES = {
+  projects: 'projects',
+  projectData: 'projectData',
+  sessions: 'sessions',
+  luts: 'luts',
+  fonts: 'fonts',
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name)
+        }
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(name, mode).objectStore(name)))
+}
+
+export function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', (s) => s.get(key) as IDBRequest<T | undefined>)
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, 'readonly', (s) => s.getAll() as IDBRequest<T[]>)
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.put(value, key))
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(key))
+}
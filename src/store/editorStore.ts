@@ -1,5 +1,53 @@
 import create from 'zustand';
-import type { fabric } from 'fabric';
+import { fabric } from 'fabric';
+import {
+  applyPatch,
+  diffJson,
+  estimatePatchSize,
+  trimHistory,
+  DEFAULT_HISTORY_CONFIG,
+  type HistoryConfig,
+  type HistoryEntry,
+  type JsonValue,
+} from './history';
+import {
+  createProjectFile,
+  parseProjectFile,
+  resolveProjectCanvas,
+  PROJECT_FILE_EXTENSION,
+  type ProjectFile,
+} from '@/features/project/ProjectFile';
+import {
+  createThumbnail,
+  ProjectLibrary,
+  type RecoverySession,
+} from '@/features/project/ProjectLibrary';
+import {
+  applyLayerLock,
+  describeLayers,
+  ensureLayerIdentity,
+  findLayerObject,
+  isHelperObject,
+  LAYER_JSON_PROPERTIES,
+  type BlendMode,
+  type LayerInfo,
+  type LayerObject,
+} from '@/features/layers/LayerModel';
+import { LAYER_MASK_JSON_PROPERTIES } from '@/features/layers/LayerMask';
+import {
+  ADJUSTMENT_JSON_PROPERTIES,
+  omitAdjustmentFilters,
+  rebuildAdjustmentFilters,
+} from '@/features/adjustments/AdjustmentModel';
+import { CROP_JSON_PROPERTIES } from '@/features/crop/CropModel';
+import { ERASE_JSON_PROPERTIES } from '@/features/drawing/DrawingModel';
+import { SUBTITLE_JSON_PROPERTIES } from '@/features/subtitles/SubtitleModel';
+import { TEXT_WARP_JSON_PROPERTIES } from '@/features/text/TextWarp';
+import { FontLibrary } from '@/features/fonts/FontLibrary';
+import { LutLibrary } from '@/features/luts/LutLibrary';
+import { downloadFile } from '@/lib/utils';
+
+const DEFAULT_PROJECT_NAME = 'Untitled project';
 
 export interface PresetState {
   id: string;
@@ -8,33 +56,140 @@ export interface PresetState {
   createdAt: number;
 }
 
-interface CanvasSettings {
+export interface CanvasSettings {
   width: number;
   height: number;
   backgroundColor: string;
   // Add more as needed
 }
 
-interface TextSettings {
+export interface TextSettings {
   [key: string]: unknown;
 }
 
-interface HistoryEntry {
-  json: object | null;
-  action: string;
-  timestamp: number;
+// Defaults for newly drawn shapes
+export interface ShapeSettings {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  cornerRadius: number;
+  polygonSides: number;
+  starPoints: number;
+  // Inner radius of a star as a fraction of its outer radius
+  starInnerRatio: number;
+}
+
+export const DEFAULT_SHAPE_SETTINGS: ShapeSettings = {
+  fill: '#b3d7ff',
+  stroke: '#007bff',
+  strokeWidth: 2,
+  cornerRadius: 16,
+  polygonSides: 6,
+  starPoints: 5,
+  starInnerRatio: 0.5,
+};
+
+// Shared by the freehand drawing tools
+export interface BrushSettings {
+  color: string;
+  size: number;
+  opacity: number;
+  // 0 keeps every sampled point, 1 smooths strokes heavily
+  smoothing: number;
+  // Vary stroke width with pen pressure where the input reports it
+  pressure: boolean;
+}
+
+export const DEFAULT_BRUSH_SETTINGS: BrushSettings = {
+  color: '#000000',
+  size: 8,
+  opacity: 1,
+  smoothing: 0.5,
+  pressure: true,
+};
+
+export interface CustomFontAsset {
+  family: string;
+  // CSS weight ('400', '700') and style; absent in files from older builds
+  weight?: string;
+  style?: string;
+  // Font file as a data URL so it can be embedded in project files
+  data: string;
+  // Characters the file covers when a face is split into several files
+  unicodeRange?: string;
+}
+
+export interface SaveToHistoryOptions {
+  // Fold into the previous entry when it has the same action and is recent,
+  // e.g. for slider drags that fire on every tick
+  merge?: boolean;
+}
+
+// Custom object properties that must survive serialization (history, saves)
+export const CANVAS_JSON_PROPERTIES: string[] = [
+  'name',
+  ...LAYER_JSON_PROPERTIES,
+  ...LAYER_MASK_JSON_PROPERTIES,
+  ...CROP_JSON_PROPERTIES,
+  ...ERASE_JSON_PROPERTIES,
+  ...ADJUSTMENT_JSON_PROPERTIES,
+  ...SUBTITLE_JSON_PROPERTIES,
+  ...TEXT_WARP_JSON_PROPERTIES,
+];
+
+export function serializeCanvas(canvas: fabric.Canvas): JsonValue {
+  return omitAdjustmentFilters(canvas.toJSON(CANVAS_JSON_PROPERTIES) as unknown as JsonValue);
+}
+
+// History snapshots also carry the canvas size so canvas crops undo cleanly
+function createSnapshot(canvas: fabric.Canvas): JsonValue {
+  const json = serializeCanvas(canvas) as { [key: string]: JsonValue };
+  return { ...json, width: canvas.getWidth(), height: canvas.getHeight() };
+}
+
+function splitSnapshot(snapshot: JsonValue) {
+  const { width, height, ...json } = snapshot as { [key: string]: JsonValue };
+  const size = typeof width === 'number' && typeof height === 'number' ? { width, height } : null;
+  return { json: json as JsonValue, size };
+}
+
+// Canvas events fired while a snapshot is being loaded must not be recorded
+let pendingRestores = 0;
+
+// Font checks finish after their project has loaded; only the latest load reports
+let projectLoads = 0;
+
+function restoreCanvas(canvas: fabric.Canvas, json: JsonValue, onLoaded?: () => void) {
+  pendingRestores++;
+  canvas.discardActiveObject();
+  // Older saves carry adjustment filters; they are rebuilt from the stacks instead
+  canvas.loadFromJSON(omitAdjustmentFilters(json), () => {
+    pendingRestores--;
+    rebuildAdjustmentFilters(canvas.getObjects());
+    canvas.renderAll();
+    onLoaded?.();
+  });
 }
 
 interface EditorStoreState {
   history: HistoryEntry[];
   historyIndex: number;
+  historySnapshot: JsonValue | null;
+  historyConfig: HistoryConfig;
   activeObject: fabric.Object | null;
+  layers: LayerInfo[];
   isDirty: boolean;
   isLoading: boolean;
   presets: PresetState[];
   canvas: fabric.Canvas | null;
   canvasSettings: CanvasSettings;
   textSettings: TextSettings;
+  shapeSettings: ShapeSettings;
+  brushSettings: BrushSettings;
+  // Families used by the open project that could not be loaded
+  missingFonts: string[];
+  currentProjectId: string | null;
+  projectName: string;
   canUndo: () => boolean;
   canRedo: () => boolean;
   undo: () => void;
@@ -42,26 +197,56 @@ interface EditorStoreState {
   deleteSelectedObject: () => void;
   duplicateSelectedObject: () => void;
   bringToFront: () => void;
-  saveToLocalStorage: () => void;
+  bringForward: () => void;
+  sendBackward: () => void;
+  syncLayers: () => void;
+  selectLayer: (id: string) => void;
+  renameLayer: (id: string, name: string) => void;
+  setLayerVisibility: (id: string, visible: boolean) => void;
+  setLayerLocked: (id: string, locked: boolean) => void;
+  setLayerOpacity: (id: string, opacity: number) => void;
+  setLayerBlendMode: (id: string, blendMode: BlendMode) => void;
+  moveLayer: (id: string, toIndex: number) => void;
   updateCanvasSettings: (settings: Partial<CanvasSettings>) => void;
   updateTextSettings: (settings: Partial<TextSettings>) => void;
+  updateShapeSettings: (settings: Partial<ShapeSettings>) => void;
+  updateBrushSettings: (settings: Partial<BrushSettings>) => void;
   setActiveObject: (object: fabric.Object | null) => void;
   setCanvas: (canvas: fabric.Canvas) => void;
-  saveToHistory: (action: string) => void;
-  loadFromLocalStorage: () => void;
+  saveToHistory: (action: string, options?: SaveToHistoryOptions) => void;
+  resetHistory: () => void;
+  configureHistory: (config: Partial<HistoryConfig>) => void;
+  createProject: () => ProjectFile | null;
+  loadProject: (project: ProjectFile) => Promise<void>;
+  downloadProject: (filename?: string) => void;
+  openProject: (file: File) => Promise<void>;
+  saveProject: () => Promise<void>;
+  openLibraryProject: (id: string) => Promise<void>;
+  newProject: () => Promise<void>;
+  renameProject: (name: string) => Promise<void>;
+  autosaveSession: () => Promise<void>;
+  recoverSession: (session: RecoverySession) => Promise<void>;
   // ... other actions (add as needed)
 }
 
 export const useEditorStore = create<EditorStoreState>((set, get) => ({
   history: [],
   historyIndex: 0,
+  historySnapshot: null,
+  historyConfig: DEFAULT_HISTORY_CONFIG,
   activeObject: null,
+  layers: [],
   isDirty: false,
   isLoading: false,
   presets: [],
   canvas: null,
   canvasSettings: { width: 800, height: 600, backgroundColor: '#fff' },
   textSettings: {},
+  shapeSettings: DEFAULT_SHAPE_SETTINGS,
+  brushSettings: DEFAULT_BRUSH_SETTINGS,
+  missingFonts: [],
+  currentProjectId: null,
+  projectName: DEFAULT_PROJECT_NAME,
 
   canUndo: () => get().historyIndex > 0,
   canRedo: () => {
@@ -70,18 +255,24 @@ export const useEditorStore = create<EditorStoreState>((set, get) => ({
   },
 
   undo: () => {
-    const { historyIndex, canvas } = get();
-    if (historyIndex > 0 && canvas) {
-      // Load previous state (implement as needed)
-      set({ historyIndex: historyIndex - 1, isDirty: true });
+    const { history, historyIndex, historySnapshot, canvas } = get();
+    if (historyIndex > 0 && canvas && historySnapshot !== null) {
+      const snapshot = applyPatch(historySnapshot, history[historyIndex].undo);
+      set({ historyIndex: historyIndex - 1, historySnapshot: snapshot, activeObject: null, isDirty: true });
+      const { json, size } = splitSnapshot(snapshot);
+      if (size) get().updateCanvasSettings(size);
+      restoreCanvas(canvas, json, () => get().syncLayers());
     }
   },
 
   redo: () => {
-    const { history, historyIndex, canvas } = get();
-    if (historyIndex < history.length - 1 && canvas) {
-      // Load next state (implement as needed)
-      set({ historyIndex: historyIndex + 1, isDirty: true });
+    const { history, historyIndex, historySnapshot, canvas } = get();
+    if (historyIndex < history.length - 1 && canvas && historySnapshot !== null) {
+      const snapshot = applyPatch(historySnapshot, history[historyIndex + 1].redo);
+      set({ historyIndex: historyIndex + 1, historySnapshot: snapshot, activeObject: null, isDirty: true });
+      const { json, size } = splitSnapshot(snapshot);
+      if (size) get().updateCanvasSettings(size);
+      restoreCanvas(canvas, json, () => get().syncLayers());
     }
   },
 
@@ -108,16 +299,118 @@ export const useEditorStore = create<EditorStoreState>((set, get) => ({
     const { canvas, activeObject } = get();
     if (canvas && activeObject) {
       canvas.bringToFront(activeObject);
-      set({ isDirty: true });
+      get().saveToHistory('Bring to front');
+      get().syncLayers();
+    }
+  },
+
+  bringForward: () => {
+    const { canvas, activeObject } = get();
+    if (canvas && activeObject) {
+      canvas.bringForward(activeObject);
+      get().saveToHistory('Bring forward');
+      get().syncLayers();
     }
   },
 
-  saveToLocalStorage: () => {
+  sendBackward: () => {
+    const { canvas, activeObject } = get();
+    if (canvas && activeObject) {
+      canvas.sendBackwards(activeObject);
+      get().saveToHistory('Send backward');
+      get().syncLayers();
+    }
+  },
+
+  syncLayers: () => {
     const { canvas } = get();
-    if (canvas) {
-      localStorage.setItem('photoEditorV4Project', JSON.stringify(canvas.toJSON()));
-      set({ isDirty: false });
+    if (!canvas) return;
+    canvas.getObjects().forEach((object) => ensureLayerIdentity(canvas, object));
+    set({ layers: describeLayers(canvas) });
+  },
+
+  selectLayer: (id) => {
+    const { canvas } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!canvas || !object || object.locked || !object.visible) return;
+    canvas.setActiveObject(object);
+    canvas.renderAll();
+    set({ activeObject: object });
+  },
+
+  renameLayer: (id, name) => {
+    const { canvas } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!object) return;
+    object.layerName = name;
+    get().saveToHistory('Rename layer');
+    get().syncLayers();
+  },
+
+  setLayerVisibility: (id, visible) => {
+    const { canvas, activeObject } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!canvas || !object) return;
+    object.set({ visible });
+    if (!visible && activeObject === object) {
+      canvas.discardActiveObject();
+      set({ activeObject: null });
+    }
+    canvas.renderAll();
+    get().saveToHistory(visible ? 'Show layer' : 'Hide layer');
+    get().syncLayers();
+  },
+
+  setLayerLocked: (id, locked) => {
+    const { canvas, activeObject } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!canvas || !object) return;
+    applyLayerLock(object, locked);
+    if (locked && activeObject === object) {
+      canvas.discardActiveObject();
+      set({ activeObject: null });
     }
+    canvas.renderAll();
+    get().saveToHistory(locked ? 'Lock layer' : 'Unlock layer');
+    get().syncLayers();
+  },
+
+  setLayerOpacity: (id, opacity) => {
+    const { canvas } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!canvas || !object) return;
+    object.set({ opacity });
+    canvas.renderAll();
+    get().saveToHistory('Layer opacity', { merge: true });
+    get().syncLayers();
+  },
+
+  setLayerBlendMode: (id, blendMode) => {
+    const { canvas } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!canvas || !object) return;
+    object.set({ globalCompositeOperation: blendMode });
+    canvas.renderAll();
+    get().saveToHistory('Blend mode');
+    get().syncLayers();
+  },
+
+  moveLayer: (id, toIndex) => {
+    const { canvas } = get();
+    const object = canvas && findLayerObject(canvas, id);
+    if (!canvas || !object) return;
+    // toIndex is in panel order (topmost first) and counts layers only;
+    // fabric stacks bottom-up and also holds helper objects (crop frames).
+    // Taking the stack index of the layer now at toIndex puts the moved
+    // layer in its place, since moveTo removes the object before inserting.
+    const objects = canvas.getObjects();
+    const panelOrder = objects.filter((o) => !isHelperObject(o) && (o as LayerObject).layerId).reverse();
+    if (panelOrder.length === 0) return;
+    const target = panelOrder[Math.max(0, Math.min(toIndex, panelOrder.length - 1))];
+    canvas.moveTo(object, objects.indexOf(target));
+    canvas.renderAll();
+    get().saveToHistory('Reorder layers');
+    get().syncLayers();
   },
 
   updateCanvasSettings: (settings) => {
@@ -137,25 +430,196 @@ export const useEditorStore = create<EditorStoreState>((set, get) => ({
     set({ textSettings: { ...textSettings, ...settings }, isDirty: true });
   },
 
+  // Tool defaults only; the document itself is unchanged
+  updateShapeSettings: (settings) => {
+    const { shapeSettings } = get();
+    set({ shapeSettings: { ...shapeSettings, ...settings } });
+  },
+
+  updateBrushSettings: (settings) => {
+    const { brushSettings } = get();
+    set({ brushSettings: { ...brushSettings, ...settings } });
+  },
+
   setActiveObject: (object: fabric.Object | null) => set({ activeObject: object }),
-  setCanvas: (canvas: fabric.Canvas) => set({ canvas }),
-  saveToHistory: (action: string) => {
-    const { canvas, history, historyIndex } = get();
+  setCanvas: (canvas: fabric.Canvas) => {
+    // Adjustment filters are 2D only, and fabric re-runs an image's filters
+    // by itself (setElement, loading JSON), so a per-call backend would not
+    // cover every path. 2D also keeps results identical across devices.
+    fabric.filterBackend = new fabric.Canvas2dFilterBackend();
+    set({ canvas });
+    get().resetHistory();
+  },
+  saveToHistory: (action: string, options: SaveToHistoryOptions = {}) => {
+    const { canvas, history, historyIndex, historySnapshot, historyConfig } = get();
+    if (!canvas || pendingRestores > 0) return;
+    if (historySnapshot === null) {
+      get().resetHistory();
+      return;
+    }
+
+    const next = createSnapshot(canvas);
+    const now = Date.now();
     const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push({
-      json: canvas ? canvas.toJSON() : null,
-      action,
-      timestamp: Date.now(),
-    });
-    set({ history: newHistory, historyIndex: newHistory.length - 1, isDirty: true });
+    const last = newHistory[newHistory.length - 1];
+    const merge =
+      options.merge === true &&
+      historyIndex > 0 &&
+      last.merge &&
+      last.action === action &&
+      now - last.timestamp < historyConfig.mergeWindowMs;
+
+    if (merge) {
+      const base = applyPatch(historySnapshot, last.undo);
+      const redo = diffJson(base, next);
+      const undo = diffJson(next, base);
+      newHistory.pop();
+      if (redo.length > 0) {
+        newHistory.push({ action, timestamp: now, undo, redo, size: estimatePatchSize(undo) + estimatePatchSize(redo), merge: true });
+      }
+    } else {
+      const redo = diffJson(historySnapshot, next);
+      if (redo.length === 0) return;
+      const undo = diffJson(next, historySnapshot);
+      newHistory.push({ action, timestamp: now, undo, redo, size: estimatePatchSize(undo) + estimatePatchSize(redo), merge: options.merge === true });
+    }
+
+    const trimmed = trimHistory(newHistory, newHistory.length - 1, historyConfig);
+    set({ ...trimmed, historySnapshot: next, isDirty: true });
   },
-  loadFromLocalStorage: () => {
+  resetHistory: () => {
     const { canvas } = get();
-    const data = localStorage.getItem('photoEditorV4Project');
-    if (canvas && data) {
-      canvas.loadFromJSON(JSON.parse(data), () => {
-        canvas.renderAll();
+    set({
+      history: [{ action: 'Initial state', timestamp: Date.now(), undo: [], redo: [], size: 0, merge: false }],
+      historyIndex: 0,
+      historySnapshot: canvas ? createSnapshot(canvas) : null,
+    });
+  },
+  configureHistory: (config) => {
+    const { history, historyIndex, historyConfig } = get();
+    const newConfig = { ...historyConfig, ...config };
+    set({ ...trimHistory([...history], historyIndex, newConfig), historyConfig: newConfig });
+  },
+  createProject: () => {
+    const { canvas, canvasSettings, textSettings } = get();
+    if (!canvas) return null;
+    return createProjectFile({
+      canvas,
+      canvasJson: serializeCanvas(canvas),
+      canvasSettings,
+      textSettings,
+      fonts: (families) => FontLibrary.assets(families),
+      luts: (ids) => LutLibrary.assets(ids),
+    });
+  },
+  loadProject: async (project) => {
+    const { canvas, canvasSettings, textSettings } = get();
+    if (!canvas) return;
+
+    const load = ++projectLoads;
+    // Embedded fonts are local data; install them so text lays out right away
+    await FontLibrary.installProjectFonts(project.fonts);
+    LutLibrary.installProjectLuts(project.luts);
+    set({
+      missingFonts: [],
+      canvasSettings: { ...canvasSettings, ...project.canvasSettings },
+      textSettings: { ...textSettings, ...project.textSettings },
+      activeObject: null,
+    });
+
+    await new Promise<void>((resolve) => {
+      restoreCanvas(canvas, resolveProjectCanvas(project), () => {
+        get().syncLayers();
+        get().resetHistory();
+        set({ isDirty: false });
+        resolve();
       });
+    });
+
+    // Core fonts may come from the network; the project is usable meanwhile
+    FontLibrary.findMissing(project.fontDependencies)
+      .then((missingFonts) => {
+        if (load === projectLoads) set({ missingFonts });
+      })
+      .catch((error) => console.warn('Font check failed:', error));
+  },
+  downloadProject: (filename = 'untitled') => {
+    const project = get().createProject();
+    if (!project) return;
+    const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    downloadFile(url, filename + PROJECT_FILE_EXTENSION);
+    URL.revokeObjectURL(url);
+    set({ isDirty: false });
+  },
+  openProject: async (file) => {
+    const project = parseProjectFile(await file.text());
+    // Zawgyi text is left as saved; its layers are flagged for conversion
+    await get().loadProject(project);
+  },
+  saveProject: async () => {
+    const { canvas, currentProjectId, projectName, createProject } = get();
+    const project = createProject();
+    if (!canvas || !project) return;
+
+    const summary = await ProjectLibrary.save({
+      id: currentProjectId,
+      name: projectName,
+      project,
+      thumbnail: createThumbnail(canvas),
+    });
+    await ProjectLibrary.clearSession();
+    set({ currentProjectId: summary.id, isDirty: false });
+  },
+  openLibraryProject: async (id) => {
+    const project = await ProjectLibrary.load(id);
+    const summary = (await ProjectLibrary.list()).find((p) => p.id === id);
+    await get().loadProject(project);
+    await ProjectLibrary.clearSession();
+    set({ currentProjectId: id, projectName: summary?.name ?? DEFAULT_PROJECT_NAME });
+  },
+  newProject: async () => {
+    const { canvas, canvasSettings } = get();
+    if (!canvas) return;
+
+    canvas.clear();
+    canvas.backgroundColor = canvasSettings.backgroundColor;
+    canvas.renderAll();
+    get().syncLayers();
+    get().resetHistory();
+    await ProjectLibrary.clearSession();
+    set({
+      currentProjectId: null,
+      projectName: DEFAULT_PROJECT_NAME,
+      activeObject: null,
+      missingFonts: [],
+      isDirty: false,
+    });
+  },
+  renameProject: async (name) => {
+    const { currentProjectId } = get();
+    if (currentProjectId) {
+      await ProjectLibrary.rename(currentProjectId, name);
     }
+    set({ projectName: name });
+  },
+  autosaveSession: async () => {
+    const { currentProjectId, projectName, isDirty, createProject } = get();
+    const project = isDirty ? createProject() : null;
+    if (!project) return;
+    await ProjectLibrary.saveSession({
+      projectId: currentProjectId,
+      name: projectName,
+      savedAt: Date.now(),
+      project,
+    });
+  },
+  recoverSession: async (session) => {
+    await get().loadProject(session.project);
+    set({
+      currentProjectId: session.projectId,
+      projectName: session.name,
+      isDirty: true,
+    });
   },
 }));
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyPatch,
+  diffJson,
+  estimatePatchSize,
+  trimHistory,
+  DEFAULT_HISTORY_CONFIG,
+  type HistoryEntry,
+  type JsonValue,
+} from './history';
+
+const canvas = (objects: JsonValue[]): JsonValue => ({ version: '5.5.2', background: '#fff', objects });
+
+const rect = (left: number, extra: Record<string, JsonValue> = {}): JsonValue => ({
+  type: 'rect',
+  left,
+  top: 10,
+  width: 100,
+  height: 50,
+  fill: '#f00',
+  ...extra,
+});
+
+function roundTrip(prev: JsonValue, next: JsonValue) {
+  expect(applyPatch(prev, diffJson(prev, next))).toEqual(next);
+  expect(applyPatch(next, diffJson(next, prev))).toEqual(prev);
+}
+
+describe('diffJson / applyPatch', () => {
+  it('produces no operations for equal documents', () => {
+    const doc = canvas([rect(0), rect(50)]);
+    expect(diffJson(doc, JSON.parse(JSON.stringify(doc)))).toEqual([]);
+  });
+
+  it('patches only the changed property of a moved object', () => {
+    const prev = canvas([rect(0), rect(50)]);
+    const next = canvas([rect(0), rect(75)]);
+    expect(diffJson(prev, next)).toEqual([{ op: 'set', path: ['objects', 1, 'left'], value: 75 }]);
+    roundTrip(prev, next);
+  });
+
+  it('round-trips added and removed objects', () => {
+    roundTrip(canvas([rect(0)]), canvas([rect(0), rect(50), rect(100)]));
+    roundTrip(canvas([rect(0), rect(50), rect(100)]), canvas([rect(100)]));
+    roundTrip(canvas([]), canvas([rect(0)]));
+  });
+
+  it('round-trips added and deleted keys', () => {
+    roundTrip(canvas([rect(0)]), canvas([rect(0, { shadow: { color: '#000', blur: 4 } })]));
+    roundTrip(canvas([rect(0, { clipPath: null })]), canvas([rect(0)]));
+  });
+
+  it('round-trips type changes and nested arrays', () => {
+    roundTrip({ a: [1, 2, 3] }, { a: { b: 1 } });
+    roundTrip({ a: 'text' }, { a: null });
+    roundTrip({ path: [['M', 0, 0], ['L', 10, 10]] }, { path: [['M', 0, 0], ['Q', 5, 5, 10, 10], ['L', 20, 20]] });
+    roundTrip([1, 2], { 0: 1 });
+  });
+
+  it('does not modify its input', () => {
+    const prev = canvas([rect(0)]);
+    const copy = JSON.parse(JSON.stringify(prev));
+    applyPatch(prev, diffJson(prev, canvas([rect(10), rect(20)])));
+    expect(prev).toEqual(copy);
+  });
+
+  it('ignores operations below a missing parent', () => {
+    const doc = { objects: [] };
+    expect(applyPatch(doc, [{ op: 'set', path: ['objects', 3, 'left'], value: 1 }])).toEqual(doc);
+  });
+
+  it('estimates an empty patch as free', () => {
+    expect(estimatePatchSize([])).toBe(0);
+    expect(estimatePatchSize([{ op: 'delete', path: ['a'] }])).toBeGreaterThan(0);
+  });
+});
+
+describe('trimHistory', () => {
+  const entry = (action: string, size: number): HistoryEntry => ({
+    action,
+    timestamp: 0,
+    undo: [{ op: 'set', path: ['objects', 0, 'left'], value: 0 }],
+    redo: [{ op: 'set', path: ['objects', 0, 'left'], value: 1 }],
+    size,
+    merge: false,
+  });
+  const config = { ...DEFAULT_HISTORY_CONFIG, maxEntries: 3, maxBytes: 1000 };
+
+  it('keeps a history within the limits unchanged', () => {
+    const history = [entry('Initial', 0), entry('Move', 100), entry('Move', 100)];
+    const trimmed = trimHistory([...history], 2, config);
+    expect(trimmed.history).toEqual(history);
+    expect(trimmed.historyIndex).toBe(2);
+  });
+
+  it('drops the oldest entries beyond the entry limit', () => {
+    const history = ['Initial', 'A', 'B', 'C', 'D'].map((action) => entry(action, 10));
+    const trimmed = trimHistory(history, 4, config);
+    expect(trimmed.history.map((item) => item.action)).toEqual(['B', 'C', 'D']);
+    expect(trimmed.historyIndex).toBe(2);
+  });
+
+  it('turns the oldest remaining entry into an empty baseline', () => {
+    const trimmed = trimHistory(['Initial', 'A', 'B', 'C'].map((action) => entry(action, 10)), 3, config);
+    expect(trimmed.history[0]).toMatchObject({ action: 'A', undo: [], redo: [], size: 0 });
+    expect(trimmed.history[1].undo).toHaveLength(1);
+  });
+
+  it('drops entries until the patches fit the byte limit', () => {
+    const history = [entry('Initial', 0), entry('A', 600), entry('B', 600)];
+    const trimmed = trimHistory(history, 2, config);
+    expect(trimmed.history.map((item) => item.action)).toEqual(['A', 'B']);
+    expect(trimmed.history.reduce((sum, item) => sum + item.size, 0)).toBeLessThanOrEqual(config.maxBytes);
+  });
+
+  it('never drops the current entry', () => {
+    const history = [entry('Initial', 0), entry('Huge', 5000), entry('Redo', 10)];
+    const trimmed = trimHistory(history, 1, config);
+    expect(trimmed.history.map((item) => item.action)).toEqual(['Huge', 'Redo']);
+    expect(trimmed.historyIndex).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+// Diff-based history primitives used by editorStore.
+//
+// The store keeps a single snapshot of the current canvas JSON and, for every
+// history entry, the pair of patches that move between the state before and
+// after that change. Undo walks backwards from the snapshot, redo forwards, so
+// dropping the oldest entries to honour the memory cap never invalidates the
+// remaining ones.
+
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+export type JsonPath = (string | number)[];
+
+export type PatchOp =
+  | { op: 'set'; path: JsonPath; value: JsonValue }
+  | { op: 'delete'; path: JsonPath }
+  | { op: 'truncate'; path: JsonPath; length: number };
+
+export interface HistoryEntry {
+  action: string;
+  timestamp: number;
+  // Patches applied to the snapshot to step backwards / forwards over this entry
+  undo: PatchOp[];
+  redo: PatchOp[];
+  size: number;
+  merge: boolean;
+}
+
+export interface HistoryConfig {
+  /** Approximate upper bound for the memory held by history patches, in bytes. */
+  maxBytes: number;
+  /** Hard cap on the number of entries, regardless of their size. */
+  maxEntries: number;
+  /** Coalescable changes closer together than this are merged into one step. */
+  mergeWindowMs: number;
+}
+
+export const DEFAULT_HISTORY_CONFIG: HistoryConfig = {
+  maxBytes: 8 * 1024 * 1024,
+  maxEntries: 200,
+  mergeWindowMs: 800,
+};
+
+function isPlainObject(value: unknown): value is { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function cloneJson<T extends JsonValue>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Computes the operations that turn `prev` into `next`. Unchanged subtrees
+ * produce no operations, so moving one object yields a handful of `set`s
+ * instead of a full canvas snapshot.
+ */
+export function diffJson(prev: JsonValue, next: JsonValue, path: JsonPath = []): PatchOp[] {
+  if (prev === next) return [];
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const ops: PatchOp[] = [];
+    const shared = Math.min(prev.length, next.length);
+    for (let i = 0; i < shared; i++) {
+      ops.push(...diffJson(prev[i], next[i], [...path, i]));
+    }
+    if (next.length < prev.length) {
+      ops.push({ op: 'truncate', path, length: next.length });
+    }
+    for (let i = shared; i < next.length; i++) {
+      ops.push({ op: 'set', path: [...path, i], value: next[i] });
+    }
+    return ops;
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    const ops: PatchOp[] = [];
+    for (const key of Object.keys(prev)) {
+      if (!(key in next)) {
+        ops.push({ op: 'delete', path: [...path, key] });
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (key in prev) {
+        ops.push(...diffJson(prev[key], next[key], [...path, key]));
+      } else {
+        ops.push({ op: 'set', path: [...path, key], value: next[key] });
+      }
+    }
+    return ops;
+  }
+
+  return [{ op: 'set', path, value: next }];
+}
+
+/** Applies `ops` to a copy of `doc` and returns the result. */
+export function applyPatch(doc: JsonValue, ops: PatchOp[]): JsonValue {
+  let root = cloneJson(doc);
+
+  for (const op of ops) {
+    if (op.path.length === 0) {
+      if (op.op === 'set') root = cloneJson(op.value);
+      if (op.op === 'truncate' && Array.isArray(root)) root.length = op.length;
+      continue;
+    }
+
+    const parentPath = op.op === 'truncate' ? op.path : op.path.slice(0, -1);
+    let parent: JsonValue = root;
+    for (const segment of parentPath) {
+      parent = (parent as Record<string | number, JsonValue>)[segment];
+      if (parent === undefined || parent === null) break;
+    }
+    if (typeof parent !== 'object' || parent === null) continue;
+
+    const key = op.path[op.path.length - 1];
+    switch (op.op) {
+      case 'set':
+        (parent as Record<string | number, JsonValue>)[key] = cloneJson(op.value);
+        break;
+      case 'delete':
+        delete (parent as Record<string | number, JsonValue>)[key];
+        break;
+      case 'truncate':
+        if (Array.isArray(parent)) parent.length = op.length;
+        break;
+    }
+  }
+
+  return root;
+}
+
+/** Rough memory footprint of a patch (UTF-16, two bytes per character). */
+export function estimatePatchSize(ops: PatchOp[]): number {
+  return ops.length === 0 ? 0 : JSON.stringify(ops).length * 2;
+}
+
+/**
+ * Drops the oldest entries (in place) until the history fits `config`,
+ * never dropping the current one. Returns the history and the shifted index.
+ */
+export function trimHistory(history: HistoryEntry[], historyIndex: number, config: HistoryConfig) {
+  let total = history.reduce((sum, entry) => sum + entry.size, 0);
+  while (
+    historyIndex > 0 &&
+    (history.length > config.maxEntries || total > config.maxBytes)
+  ) {
+    history.shift();
+    historyIndex--;
+    // The oldest remaining entry becomes the baseline and is never stepped over
+    const baseline = history[0];
+    total -= baseline.size;
+    history[0] = { ...baseline, undo: [], redo: [], size: 0 };
+  }
+  return { history, historyIndex };
+}